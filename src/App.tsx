@@ -10,6 +10,9 @@ import VerifyOTP from "./pages/VerifyOTP";
 import ForgotPassword from "./pages/ForgotPassword";
 import ResetPassword from "./pages/ResetPassword";
 import ForgotEmail from "./pages/ForgotEmail";
+import SecureAccount from "./pages/SecureAccount";
+import RevertEmailChange from "./pages/RevertEmailChange";
+import VerifyRecoveryEmail from "./pages/VerifyRecoveryEmail";
 import NotFound from "./pages/NotFound";
 import AppLayout from "./components/AppLayout";
 import Dashboard from "./pages/Dashboard";
@@ -28,6 +31,11 @@ import EditRolePermissions from "./pages/rbac/EditRolePermissions";
 import EditCustomRolePermissions from "./pages/rbac/EditCustomRolePermissions";
 import CreateCustomRole from "./pages/rbac/CreateCustomRole";
 import ActivityLogs from "./pages/ActivityLogs";
+import DevMailbox from "./pages/DevMailbox";
+import EmailTemplates from "./pages/EmailTemplates";
+import SsoConnections from "./pages/SsoConnections";
+import SsoCallback from "./pages/SsoCallback";
+import ScheduledJobs from "./pages/ScheduledJobs";
 
 const queryClient = new QueryClient();
 
@@ -42,10 +50,14 @@ const App = () => (
         <Routes>
           <Route path="/" element={<Index />} />
           <Route path="/auth" element={<Auth />} />
+          <Route path="/auth/sso/callback" element={<SsoCallback />} />
           <Route path="/verify-otp" element={<VerifyOTP />} />
           <Route path="/forgot-password" element={<ForgotPassword />} />
           <Route path="/reset-password" element={<ResetPassword />} />
           <Route path="/forgot-email" element={<ForgotEmail />} />
+          <Route path="/secure-account" element={<SecureAccount />} />
+          <Route path="/revert-email" element={<RevertEmailChange />} />
+          <Route path="/verify-recovery-email" element={<VerifyRecoveryEmail />} />
           <Route path="/terms-and-conditions" element={<TermsAndConditions />} />
           <Route path="/privacy-policy" element={<PrivacyPolicy />} />
           <Route path="/cookie-policy" element={<CookiePolicy />} />
@@ -64,6 +76,10 @@ const App = () => (
             <Route path="/rbac/edit/:role" element={<EditRolePermissions />} />
             <Route path="/rbac/edit-custom/:id" element={<EditCustomRolePermissions />} />
             <Route path="/activity-logs" element={<ActivityLogs />} />
+            <Route path="/email-templates" element={<EmailTemplates />} />
+            <Route path="/sso-connections" element={<SsoConnections />} />
+            <Route path="/dev-mailbox" element={<DevMailbox />} />
+            <Route path="/scheduled-jobs" element={<ScheduledJobs />} />
           </Route>
           
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
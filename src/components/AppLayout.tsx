@@ -28,9 +28,21 @@ import {
   Users,
   Shield,
   FileText,
+  Inbox,
+  Mail,
+  KeyRound,
   LogOut,
+  Clock,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { getMfaStatus } from "@/lib/mfa";
+import SetPasswordDialog from "@/components/profile/SetPasswordDialog";
+import IdleTimeoutDialog from "@/components/IdleTimeoutDialog";
+import { useSessionTimeout } from "@/hooks/useSessionTimeout";
+import { reportOAuthSignIn, signOut } from "@/lib/auth-gateway";
+import { getImpersonation, stopImpersonation } from "@/lib/impersonation";
+import { checkAdminRoute, getAdminAccess, isAdminRoute } from "@/lib/ip-allowlist";
+import ImpersonationBanner from "@/components/ImpersonationBanner";
 
 export default function AppLayout() {
   const navigate = useNavigate();
@@ -42,6 +54,8 @@ export default function AppLayout() {
   const [profileMenuOpen, setProfileMenuOpen] = useState(false);
   const [appSwitcherOpen, setAppSwitcherOpen] = useState(false);
   const [notificationsOpen, setNotificationsOpen] = useState(false);
+  const [passwordExpired, setPasswordExpired] = useState(false);
+  const [impersonation] = useState(getImpersonation);
 
   useEffect(() => {
     // Check auth state
@@ -51,13 +65,19 @@ export default function AppLayout() {
       } else {
         setUser(session.user);
         fetchUserRoles(session.user.id);
+        reportOAuthSignIn(session);
       }
     });
 
     const {
       data: { subscription },
     } = supabase.auth.onAuthStateChange((_event, session) => {
-      if (!session) {
+      if (!session && getImpersonation()) {
+        // The impersonated session ended elsewhere (revoked or expired): go back to the admin's own
+        stopImpersonation("expired").then((targetUserId) => {
+          window.location.assign(targetUserId ? `/users/${targetUserId}` : "/auth");
+        });
+      } else if (!session) {
         navigate("/auth");
       } else {
         setUser(session.user);
@@ -68,6 +88,83 @@ export default function AppLayout() {
     return () => subscription.unsubscribe();
   }, [navigate]);
 
+  // Enforce the organization's MFA policy on every protected route. An impersonation
+  // session is single-factor by construction and never asks for the user's factors.
+  useEffect(() => {
+    if (!user || impersonation) return;
+
+    getMfaStatus(user.id).then((status) => {
+      if (status.challengeRequired) {
+        navigate("/auth");
+      } else if (status.enrollmentRequired && location.pathname !== "/settings") {
+        toast({
+          title: "Two-factor authentication required",
+          description: "Set up an authenticator app to continue",
+          variant: "destructive",
+        });
+        navigate("/settings?tab=security");
+      }
+    });
+  }, [user, impersonation, location.pathname, navigate, toast]);
+
+  // Suspended accounts, and SSO sign-ups held for approval, cannot use the app
+  useEffect(() => {
+    if (!user) return;
+
+    // Through the RPC: row-level security hides even their own profile from suspended users
+    (supabase as any)
+      .rpc("is_user_active", { _user_id: user.id })
+      .then(async ({ data }: { data: boolean | null }) => {
+        if (data !== false) return;
+        await supabase.auth.signOut({ scope: "local" });
+        toast({
+          title: "Account not active",
+          description: "This account is suspended or awaiting approval. Contact your administrator.",
+          variant: "destructive",
+        });
+      });
+  }, [user, toast]);
+
+  // Admin routes are refused (and the refusal audited) outside the role's IP allowlist
+  useEffect(() => {
+    if (!user || !isAdminRoute(location.pathname)) return;
+
+    checkAdminRoute(location.pathname).then((access) => {
+      if (access.allowed) return;
+      toast({
+        title: "Admin access blocked",
+        description: `Administration is not allowed from your network (${access.ip}). Connect to the office network or VPN.`,
+        variant: "destructive",
+      });
+      navigate("/dashboard", { replace: true });
+    });
+  }, [user, location.pathname, navigate, toast]);
+
+  // Passwords older than the policy's maximum age must be changed before continuing,
+  // by the user themselves rather than by someone viewing as them
+  useEffect(() => {
+    if (!user || impersonation) return;
+
+    (supabase as any)
+      .rpc("password_expired", { _user_id: user.id })
+      .then(({ data }: { data: boolean | null }) => setPasswordExpired(!!data));
+  }, [user, impersonation]);
+
+  // Idle timeout and maximum session age from the organization's session policy
+  const { warningOpen, secondsLeft, warningSeconds, staySignedIn } = useSessionTimeout(
+    user?.id ?? null,
+    async (reason) => {
+      await signOut(reason);
+      toast({
+        title: "Signed out",
+        description: reason === "idle_timeout"
+          ? "You were signed out after a period of inactivity"
+          : "Your session reached its maximum length. Please sign in again.",
+      });
+      navigate("/auth");
+    }
+  );
+
   // Close both menus on route change
   useEffect(() => {
     setProfileMenuOpen(false);
@@ -118,8 +215,10 @@ export default function AppLayout() {
         .eq("user_id", userId);
 
       if (error) throw error;
-      
-      setUserRoles(data?.map((r: any) => r.role).filter(Boolean) || []);
+
+      // Roles ruled out by the IP allowlists lose their menu entries too
+      const { blockedRoles } = await getAdminAccess();
+      setUserRoles(data?.map((r: any) => r.role).filter((r: string) => r && !blockedRoles.includes(r)) || []);
     } catch (error) {
       console.error("Error fetching roles:", error);
     } finally {
@@ -133,15 +232,7 @@ export default function AppLayout() {
 
   const handleLogout = async () => {
     try {
-      // Log activity
-      await (supabase.from("activity_logs") as any).insert({
-        user_id: user?.id,
-        performed_by: user?.id,
-        action_type: "logout",
-        description: "User logged out",
-      });
-
-      await supabase.auth.signOut();
+      await signOut();
       toast({
         title: "Logged out",
         description: "You have been logged out successfully",
@@ -190,6 +281,30 @@ export default function AppLayout() {
           icon: FileText,
           roles: ["super_admin", "admin"],
         },
+        {
+          title: "Email Templates",
+          url: "/email-templates",
+          icon: Mail,
+          roles: ["super_admin", "admin", "hr"],
+        },
+        {
+          title: "SSO Connections",
+          url: "/sso-connections",
+          icon: KeyRound,
+          roles: ["super_admin", "admin"],
+        },
+        {
+          title: "Dev Mailbox",
+          url: "/dev-mailbox",
+          icon: Inbox,
+          roles: ["super_admin", "admin"],
+        },
+        {
+          title: "Scheduled Jobs",
+          url: "/scheduled-jobs",
+          icon: Clock,
+          roles: ["super_admin", "admin"],
+        },
       ],
     },
   ];
@@ -248,29 +363,46 @@ export default function AppLayout() {
         </Sidebar>
 
         <main className="flex-1 overflow-auto">
-          <header className="h-14 border-b flex items-center justify-between px-4 bg-background sticky top-0 z-10">
-            <SidebarTrigger />
-            <div className="flex items-center gap-2">
-              <ThemeToggle />
-              <NotificationsMenu 
-                open={notificationsOpen}
-                onOpenChange={handleNotificationsChange}
-              />
-              <AppSwitcher 
-                open={appSwitcherOpen} 
-                onOpenChange={handleAppSwitcherChange} 
-              />
-              <ProfileMenu 
-                open={profileMenuOpen} 
-                onOpenChange={handleProfileMenuChange} 
-              />
-            </div>
-          </header>
+          <div className="sticky top-0 z-10">
+            {impersonation && <ImpersonationBanner impersonation={impersonation} />}
+            <header className="h-14 border-b flex items-center justify-between px-4 bg-background">
+              <SidebarTrigger />
+              <div className="flex items-center gap-2">
+                <ThemeToggle />
+                <NotificationsMenu 
+                  open={notificationsOpen}
+                  onOpenChange={handleNotificationsChange}
+                />
+                <AppSwitcher 
+                  open={appSwitcherOpen} 
+                  onOpenChange={handleAppSwitcherChange} 
+                />
+                <ProfileMenu 
+                  open={profileMenuOpen} 
+                  onOpenChange={handleProfileMenuChange} 
+                />
+              </div>
+            </header>
+          </div>
           <div className="p-6">
             <Outlet />
           </div>
         </main>
       </div>
+      <SetPasswordDialog
+        open={passwordExpired}
+        onOpenChange={setPasswordExpired}
+        isFirstTime={false}
+        required
+        onSuccess={() => setPasswordExpired(false)}
+      />
+      <IdleTimeoutDialog
+        open={warningOpen}
+        secondsLeft={secondsLeft}
+        warningSeconds={warningSeconds}
+        onStaySignedIn={staySignedIn}
+        onSignOut={handleLogout}
+      />
     </SidebarProvider>
   );
 }
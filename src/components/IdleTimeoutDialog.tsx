@@ -0,0 +1,51 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Progress } from "@/components/ui/progress";
+import { formatRetryAfter } from "@/lib/rate-limit";
+import { Clock } from "lucide-react";
+
+interface IdleTimeoutDialogProps {
+  open: boolean;
+  secondsLeft: number;
+  warningSeconds: number;
+  onStaySignedIn: () => void;
+  onSignOut: () => void;
+}
+
+export default function IdleTimeoutDialog({
+  open,
+  secondsLeft,
+  warningSeconds,
+  onStaySignedIn,
+  onSignOut,
+}: IdleTimeoutDialogProps) {
+  return (
+    <AlertDialog open={open}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <Clock className="h-5 w-5" />
+            Are you still there?
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            You've been inactive for a while. For your security you will be signed out in{" "}
+            <strong>{formatRetryAfter(Math.max(secondsLeft, 0))}</strong>.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <Progress value={(Math.max(secondsLeft, 0) / Math.max(warningSeconds, 1)) * 100} />
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onSignOut}>Sign out now</AlertDialogCancel>
+          <AlertDialogAction onClick={onStaySignedIn}>Stay signed in</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,130 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useStepUp } from "@/hooks/useStepUp";
+import {
+  IMPERSONATION_DURATIONS,
+  ImpersonationDuration,
+  startImpersonation,
+} from "@/lib/impersonation";
+import { forgetStepUp, getStepUpError, isStepUpRequired } from "@/lib/step-up";
+import { Eye, Loader2 } from "lucide-react";
+
+interface ImpersonateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: string;
+  userName: string;
+}
+
+export default function ImpersonateDialog({ open, onOpenChange, userId, userName }: ImpersonateDialogProps) {
+  const { toast } = useToast();
+  const { requireStepUp, stepUpDialog } = useStepUp();
+  const [reason, setReason] = useState("");
+  const [minutes, setMinutes] = useState<ImpersonationDuration>(30);
+  const [starting, setStarting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setReason("");
+      setMinutes(30);
+    }
+  }, [open]);
+
+  const handleStart = async () => {
+    if (reason.trim().length < 3) {
+      toast({ title: "Reason required", description: "Say why you need to view as this user", variant: "destructive" });
+      return;
+    }
+
+    if (!(await requireStepUp())) return;
+
+    setStarting(true);
+    try {
+      await startImpersonation(userId, reason.trim(), minutes);
+      // A full reload so every page, hook and cache starts over as the impersonated user
+      window.location.assign("/dashboard");
+    } catch (error: any) {
+      if (await isStepUpRequired(error)) forgetStepUp();
+      toast({
+        title: "Could not view as user",
+        description: (await getStepUpError(error)) || error.message || "Failed to start impersonation",
+        variant: "destructive",
+      });
+      setStarting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Eye className="h-5 w-5" />
+            View as {userName}
+          </DialogTitle>
+          <DialogDescription>
+            You will see the app exactly as this user does. Deleting data and changing their sign-in
+            methods is blocked, and everything you change is logged against both of you.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="impersonation-reason">Reason</Label>
+            <Textarea
+              id="impersonation-reason"
+              placeholder="e.g. Ticket #1234: user cannot see the Reports menu"
+              maxLength={500}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Duration</Label>
+            <Select value={String(minutes)} onValueChange={(value) => setMinutes(Number(value) as ImpersonationDuration)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {IMPERSONATION_DURATIONS.map((duration) => (
+                  <SelectItem key={duration.value} value={String(duration.value)}>
+                    {duration.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={starting}>
+            Cancel
+          </Button>
+          <Button onClick={handleStart} disabled={starting}>
+            {starting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Start viewing
+          </Button>
+        </DialogFooter>
+        {stepUpDialog}
+      </DialogContent>
+    </Dialog>
+  );
+}
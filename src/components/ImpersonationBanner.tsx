@@ -0,0 +1,59 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Impersonation, ImpersonationEndReason, stopImpersonation } from "@/lib/impersonation";
+import { formatRetryAfter } from "@/lib/rate-limit";
+import { Eye, Loader2 } from "lucide-react";
+
+interface ImpersonationBannerProps {
+  impersonation: Impersonation;
+}
+
+const secondsUntil = (iso: string) => Math.max(0, Math.ceil((new Date(iso).getTime() - Date.now()) / 1000));
+
+export default function ImpersonationBanner({ impersonation }: ImpersonationBannerProps) {
+  const [secondsLeft, setSecondsLeft] = useState(() => secondsUntil(impersonation.expiresAt));
+  const [stopping, setStopping] = useState(false);
+  const stoppingRef = useRef(false);
+
+  const handleStop = async (reason: ImpersonationEndReason = "user") => {
+    if (stoppingRef.current) return;
+    stoppingRef.current = true;
+    setStopping(true);
+
+    const targetUserId = await stopImpersonation(reason);
+    // A full reload so nothing cached as the impersonated user survives
+    window.location.assign(targetUserId ? `/users/${targetUserId}` : "/auth");
+  };
+
+  useEffect(() => {
+    const timer = setInterval(() => setSecondsLeft(secondsUntil(impersonation.expiresAt)), 1000);
+    return () => clearInterval(timer);
+  }, [impersonation.expiresAt]);
+
+  useEffect(() => {
+    if (secondsLeft === 0) handleStop("expired");
+  }, [secondsLeft]);
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-2 bg-amber-500 px-4 py-2 text-sm text-amber-950">
+      <div className="flex items-center gap-2">
+        <Eye className="h-4 w-4" />
+        <span>
+          Viewing as <strong>{impersonation.targetName || impersonation.targetEmail}</strong>
+          {impersonation.targetName && ` (${impersonation.targetEmail})`}. Deletes are blocked and
+          every change is logged. Ends in {formatRetryAfter(secondsLeft)}.
+        </span>
+      </div>
+      <Button
+        size="sm"
+        variant="outline"
+        className="h-7 border-amber-950/30 bg-transparent text-amber-950 hover:bg-amber-400"
+        onClick={() => handleStop()}
+        disabled={stopping}
+      >
+        {stopping && <Loader2 className="w-3 h-3 mr-2 animate-spin" />}
+        Stop viewing
+      </Button>
+    </div>
+  );
+}
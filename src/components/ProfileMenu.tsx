@@ -12,6 +12,7 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { User, Settings, HelpCircle, LogOut, UserCircle } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import { signOut } from "@/lib/auth-gateway";
 
 interface ProfileData {
   full_name: string;
@@ -125,18 +126,7 @@ export const ProfileMenu = ({ open, onOpenChange }: ProfileMenuProps) => {
 
   const handleLogout = async () => {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      
-      if (user) {
-        await (supabase.from("activity_logs") as any).insert({
-          user_id: user.id,
-          performed_by: user.id,
-          action_type: "logout",
-          description: "User logged out",
-        });
-      }
-
-      await supabase.auth.signOut();
+      await signOut();
       navigate("/auth");
     } catch (error) {
       console.error("Error logging out:", error);
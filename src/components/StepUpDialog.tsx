@@ -0,0 +1,245 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { formatRetryAfter, getRetryAfter } from "@/lib/rate-limit";
+import {
+  StepUpMethod,
+  StepUpMethods,
+  getStepUpError,
+  getStepUpMethods,
+  sendStepUpCode,
+  stepUpWithCode,
+  stepUpWithPasskey,
+  stepUpWithPassword,
+} from "@/lib/step-up";
+import { Fingerprint, KeyRound, Loader2, Mail, ShieldCheck } from "lucide-react";
+
+interface StepUpDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onVerified: () => void;
+}
+
+const METHOD_ORDER: StepUpMethod[] = ["passkey", "password", "email_code"];
+
+export default function StepUpDialog({ open, onOpenChange, onVerified }: StepUpDialogProps) {
+  const { toast } = useToast();
+  const [available, setAvailable] = useState<StepUpMethods | null>(null);
+  const [method, setMethod] = useState<StepUpMethod>("password");
+  const [loading, setLoading] = useState(false);
+  const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [codeSent, setCodeSent] = useState(false);
+  const [resendCooldown, setResendCooldown] = useState(0);
+
+  useEffect(() => {
+    if (open) {
+      setPassword("");
+      setCode("");
+      setCodeSent(false);
+      loadMethods();
+    }
+  }, [open]);
+
+  useEffect(() => {
+    if (resendCooldown > 0) {
+      const timer = setTimeout(() => setResendCooldown(resendCooldown - 1), 1000);
+      return () => clearTimeout(timer);
+    }
+  }, [resendCooldown]);
+
+  const loadMethods = async () => {
+    try {
+      const result = await getStepUpMethods();
+      setAvailable(result);
+      setMethod(METHOD_ORDER.find((m) => result.methods[m]) ?? "email_code");
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (await getStepUpError(error)) || "Failed to load verification options",
+        variant: "destructive",
+      });
+      onOpenChange(false);
+    }
+  };
+
+  const finish = () => {
+    toast({ title: "Identity confirmed", description: "You can continue with the action" });
+    onVerified();
+  };
+
+  const handleVerify = async (verify: () => Promise<unknown>) => {
+    setLoading(true);
+    try {
+      await verify();
+      finish();
+    } catch (error: any) {
+      setCode("");
+      toast({ title: "Verification failed", description: error.message, variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSendCode = async () => {
+    setLoading(true);
+    try {
+      await sendStepUpCode();
+      setCodeSent(true);
+      setResendCooldown(60);
+    } catch (error) {
+      const retryAfter = await getRetryAfter(error);
+      if (retryAfter) setResendCooldown(retryAfter);
+      toast({
+        title: "Unable to send code",
+        description: retryAfter
+          ? `You can request a new code in ${formatRetryAfter(retryAfter)}`
+          : (await getStepUpError(error)) || "Please try again",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const methods = available?.methods;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Confirm it's you
+          </DialogTitle>
+          <DialogDescription>
+            This action is sensitive. Verify your identity to continue; you won't be asked again for a few minutes.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!methods ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <Tabs value={method} onValueChange={(value) => setMethod(value as StepUpMethod)}>
+            <TabsList className="w-full">
+              {methods.passkey && (
+                <TabsTrigger value="passkey" className="flex-1">
+                  <Fingerprint className="h-4 w-4 mr-1" /> Passkey
+                </TabsTrigger>
+              )}
+              {methods.password && (
+                <TabsTrigger value="password" className="flex-1">
+                  <KeyRound className="h-4 w-4 mr-1" /> Password
+                </TabsTrigger>
+              )}
+              {methods.email_code && (
+                <TabsTrigger value="email_code" className="flex-1">
+                  <Mail className="h-4 w-4 mr-1" /> Email code
+                </TabsTrigger>
+              )}
+            </TabsList>
+
+            <TabsContent value="passkey" className="space-y-4 pt-2">
+              <p className="text-sm text-muted-foreground">
+                Use the fingerprint, face or security key registered to your account.
+              </p>
+              <Button className="w-full" onClick={() => handleVerify(stepUpWithPasskey)} disabled={loading}>
+                {loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Verify with passkey
+              </Button>
+            </TabsContent>
+
+            <TabsContent value="password" className="pt-2">
+              <form
+                className="space-y-4"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  handleVerify(() => stepUpWithPassword(password));
+                }}
+              >
+                <div className="space-y-2">
+                  <Label htmlFor="stepUpPassword">Password</Label>
+                  <Input
+                    id="stepUpPassword"
+                    type="password"
+                    autoComplete="current-password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    autoFocus
+                  />
+                </div>
+                <Button type="submit" className="w-full" disabled={loading || !password}>
+                  {loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Confirm
+                </Button>
+              </form>
+            </TabsContent>
+
+            <TabsContent value="email_code" className="space-y-4 pt-2">
+              {!codeSent ? (
+                <>
+                  <p className="text-sm text-muted-foreground">
+                    We'll email a 6-digit code to <strong>{available.email}</strong>.
+                  </p>
+                  <Button className="w-full" onClick={handleSendCode} disabled={loading || resendCooldown > 0}>
+                    {loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    {resendCooldown > 0 ? `Send code in ${formatRetryAfter(resendCooldown)}` : "Send code"}
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <p className="text-sm text-muted-foreground">
+                    Enter the code sent to <strong>{available.email}</strong>.
+                  </p>
+                  <div className="flex justify-center">
+                    <InputOTP maxLength={6} value={code} onChange={(val) => setCode(val)}>
+                      <InputOTPGroup>
+                        <InputOTPSlot index={0} />
+                        <InputOTPSlot index={1} />
+                        <InputOTPSlot index={2} />
+                        <InputOTPSlot index={3} />
+                        <InputOTPSlot index={4} />
+                        <InputOTPSlot index={5} />
+                      </InputOTPGroup>
+                    </InputOTP>
+                  </div>
+                  <Button
+                    className="w-full"
+                    onClick={() => handleVerify(() => stepUpWithCode(code))}
+                    disabled={loading || code.length !== 6}
+                  >
+                    {loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Verify
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="link"
+                    size="sm"
+                    className="w-full"
+                    onClick={handleSendCode}
+                    disabled={loading || resendCooldown > 0}
+                  >
+                    {resendCooldown > 0 ? `Resend code in ${formatRetryAfter(resendCooldown)}` : "Didn't receive it? Resend code"}
+                  </Button>
+                </>
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -13,7 +13,17 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, Mail } from "lucide-react";
+import { useStepUp } from "@/hooks/useStepUp";
+import { forgetStepUp, isStepUpRequired } from "@/lib/step-up";
+import { Clock, Loader2, Mail } from "lucide-react";
+
+// A recent change the previous address can still undo; no new change is accepted meanwhile
+type PendingEmailChange = {
+  old_email: string;
+  new_email: string;
+  created_at: string;
+  revert_expires_at: string;
+};
 
 interface ChangeEmailDialogProps {
   open: boolean;
@@ -29,13 +39,37 @@ export default function ChangeEmailDialog({
   onSuccess,
 }: ChangeEmailDialogProps) {
   const { toast } = useToast();
+  const { requireStepUp, stepUpDialog } = useStepUp();
   const [loading, setLoading] = useState(false);
   const [step, setStep] = useState<"input" | "verify-old" | "verify-new">("input");
   const [newEmail, setNewEmail] = useState("");
   const [oldOtp, setOldOtp] = useState("");
   const [newOtp, setNewOtp] = useState("");
+  const [pendingChange, setPendingChange] = useState<PendingEmailChange | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const loadPendingChange = async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+      const { data } = await (supabase as any)
+        .from("email_change_requests")
+        .select("old_email, new_email, created_at, revert_expires_at")
+        .eq("user_id", user.id)
+        .is("reverted_at", null)
+        .gt("revert_expires_at", new Date().toISOString())
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      setPendingChange(data ?? null);
+    };
+    loadPendingChange();
+  }, [open]);
 
   const handleSendOldEmailOtp = async () => {
+    if (!(await requireStepUp())) return;
+
     setLoading(true);
     try {
       const { error } = await supabase.functions.invoke("send-otp", {
@@ -65,7 +99,7 @@ export default function ChangeEmailDialog({
     setLoading(true);
     try {
       const { data, error } = await supabase.functions.invoke("verify-otp", {
-        body: { email: currentEmail, otp: oldOtp },
+        body: { email: currentEmail, otp: oldOtp, flow: "email_change" },
       });
 
       if (error) {
@@ -115,7 +149,7 @@ export default function ChangeEmailDialog({
     setLoading(true);
     try {
       const { data, error: verifyError } = await supabase.functions.invoke("verify-otp", {
-        body: { email: newEmail, otp: newOtp },
+        body: { email: newEmail, otp: newOtp, flow: "email_change" },
       });
 
       if (verifyError) {
@@ -136,6 +170,11 @@ export default function ChangeEmailDialog({
         throw new Error("Wrong OTP, please check and re-enter again");
       }
 
+      // The re-authentication from the first step may have lapsed while codes were exchanged
+      if (!(await requireStepUp())) {
+        throw new Error("Confirm your identity to finish changing your email");
+      }
+
       const {
         data: { user },
       } = await supabase.auth.getUser();
@@ -153,6 +192,10 @@ export default function ChangeEmailDialog({
 
       if (updateError) {
         console.error("Update email error:", updateError);
+        if (await isStepUpRequired(updateError)) {
+          forgetStepUp();
+          throw new Error("Your re-authentication expired. Please confirm it's you and try again.");
+        }
         throw new Error("Failed to update email. Please try again.");
       }
 
@@ -162,7 +205,7 @@ export default function ChangeEmailDialog({
 
       toast({
         title: "Success",
-        description: "Email changed successfully. Please log in with your new email.",
+        description: `Email changed successfully. ${currentEmail} was notified and can undo the change until ${new Date(updateResult.revertExpiresAt).toLocaleDateString()}. Please log in with your new email.`,
       });
 
       // Sign out the user so they can log in with the new email
@@ -198,6 +241,24 @@ export default function ChangeEmailDialog({
 
         {step === "input" && (
           <div className="space-y-4">
+            {pendingChange && (
+              <div className="flex items-start gap-2 p-4 bg-muted rounded-lg">
+                <Clock className="h-5 w-5 text-muted-foreground mt-0.5" />
+                <div className="flex-1">
+                  <p className="text-sm font-medium">Email change pending</p>
+                  <p className="text-sm text-muted-foreground">
+                    Changed from {pendingChange.old_email} to {pendingChange.new_email} on{" "}
+                    {new Date(pendingChange.created_at).toLocaleString()}.
+                  </p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {pendingChange.old_email} can undo it until{" "}
+                    {new Date(pendingChange.revert_expires_at).toLocaleString()}. You can change your
+                    email again after that.
+                  </p>
+                </div>
+              </div>
+            )}
+
             <div className="space-y-2">
               <Label>Current Email</Label>
               <Input value={currentEmail} disabled />
@@ -225,7 +286,7 @@ export default function ChangeEmailDialog({
               </Button>
               <Button
                 onClick={handleSendOldEmailOtp}
-                disabled={loading || !newEmail}
+                disabled={loading || !newEmail || !!pendingChange}
               >
                 {loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
                 Continue
@@ -373,6 +434,8 @@ export default function ChangeEmailDialog({
             </DialogFooter>
           </div>
         )}
+
+        {stepUpDialog}
       </DialogContent>
     </Dialog>
   );
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -13,12 +13,22 @@ import {
 } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
 import { Loader2, Eye, EyeOff } from "lucide-react";
+import {
+  DEFAULT_PASSWORD_POLICY,
+  PasswordPolicy,
+  changePassword,
+  describePasswordPolicy,
+  getPasswordPolicy,
+  validatePassword,
+} from "@/lib/password-policy";
 
 interface SetPasswordDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   isFirstTime: boolean;
   onSuccess: () => void;
+  /** The password expired: the dialog cannot be dismissed until it is changed */
+  required?: boolean;
 }
 
 export default function SetPasswordDialog({
@@ -26,16 +36,22 @@ export default function SetPasswordDialog({
   onOpenChange,
   isFirstTime,
   onSuccess,
+  required = false,
 }: SetPasswordDialogProps) {
   const { toast } = useToast();
   const [loading, setLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
+  const [policy, setPolicy] = useState<PasswordPolicy>(DEFAULT_PASSWORD_POLICY);
   const [formData, setFormData] = useState({
     currentPassword: "",
     newPassword: "",
     confirmPassword: "",
   });
 
+  useEffect(() => {
+    if (open) getPasswordPolicy().then(setPolicy);
+  }, [open]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -48,27 +64,20 @@ export default function SetPasswordDialog({
         throw new Error("Passwords do not match");
       }
 
-      if (formData.newPassword.length < 8) {
-        throw new Error("Password must be at least 8 characters long");
-      }
-
       const {
         data: { user },
       } = await supabase.auth.getUser();
 
       if (!user) throw new Error("Not authenticated");
 
-      // Update password
-      const { error: updateError } = await supabase.auth.updateUser({
-        password: formData.newPassword,
-      });
-
-      if (updateError) throw updateError;
+      const problems = validatePassword(formData.newPassword, policy, user.email);
+      if (problems.length > 0) {
+        throw new Error(problems.join(". "));
+      }
 
-      // Update profile to mark password as set
-      await (supabase.from("profiles") as any)
-        .update({ password_set: true })
-        .eq("user_id", user.id);
+      // The edge function checks the current password, the full policy and password
+      // history, then marks the password as set
+      await changePassword(formData.newPassword, isFirstTime ? undefined : formData.currentPassword);
 
       // Log activity
       await supabase.from("activity_logs").insert({
@@ -110,16 +119,22 @@ export default function SetPasswordDialog({
   };
 
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent>
+    <Dialog open={open} onOpenChange={required ? () => {} : onOpenChange}>
+      <DialogContent
+        onEscapeKeyDown={(e) => required && e.preventDefault()}
+        onInteractOutside={(e) => required && e.preventDefault()}
+        className={required ? "[&>button]:hidden" : undefined}
+      >
         <DialogHeader>
           <DialogTitle>
-            {isFirstTime ? "Set Password" : "Change Password"}
+            {required ? "Password Expired" : isFirstTime ? "Set Password" : "Change Password"}
           </DialogTitle>
           <DialogDescription>
-            {isFirstTime
-              ? "Set a password to enable email/password login"
-              : "Update your account password"}
+            {required
+              ? "Your password has expired. Choose a new one to continue."
+              : isFirstTime
+                ? "Set a password to enable email/password login"
+                : "Update your account password"}
           </DialogDescription>
         </DialogHeader>
 
@@ -166,7 +181,7 @@ export default function SetPasswordDialog({
               </Button>
             </div>
             <p className="text-xs text-muted-foreground">
-              Must be at least 8 characters long
+              {describePasswordPolicy(policy)}
             </p>
           </div>
 
@@ -184,13 +199,15 @@ export default function SetPasswordDialog({
           </div>
 
           <DialogFooter>
-            <Button
-              type="button"
-              variant="outline"
-              onClick={() => onOpenChange(false)}
-            >
-              Cancel
-            </Button>
+            {!required && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+              >
+                Cancel
+              </Button>
+            )}
             <Button type="submit" disabled={loading}>
               {loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
               {isFirstTime ? "Set Password" : "Change Password"}
@@ -0,0 +1,146 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useStepUp } from "@/hooks/useStepUp";
+import { formatRetryAfter, getRetryAfter } from "@/lib/rate-limit";
+import { getPhoneError, sendPhoneVerificationCode, verifyPhoneCode } from "@/lib/phone";
+import { forgetStepUp, isStepUpRequired } from "@/lib/step-up";
+import { Loader2, Smartphone } from "lucide-react";
+
+interface VerifyPhoneDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+}
+
+export default function VerifyPhoneDialog({ open, onOpenChange, onSuccess }: VerifyPhoneDialogProps) {
+  const { toast } = useToast();
+  const { requireStepUp, stepUpDialog } = useStepUp();
+  const [loading, setLoading] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+  const [resendCooldown, setResendCooldown] = useState(0);
+
+  useEffect(() => {
+    if (open) {
+      setCode("");
+      setSentTo(null);
+      handleSend();
+    }
+  }, [open]);
+
+  useEffect(() => {
+    if (resendCooldown > 0) {
+      const timer = setTimeout(() => setResendCooldown(resendCooldown - 1), 1000);
+      return () => clearTimeout(timer);
+    }
+  }, [resendCooldown]);
+
+  const handleSend = async () => {
+    // A verified number can receive reset codes, so texting one needs a fresh re-authentication
+    if (!(await requireStepUp())) {
+      onOpenChange(false);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setSentTo(await sendPhoneVerificationCode());
+      setResendCooldown(60);
+    } catch (error: any) {
+      if (await isStepUpRequired(error)) forgetStepUp();
+      const retryAfter = await getRetryAfter(error);
+      if (retryAfter) setResendCooldown(retryAfter);
+      toast({
+        title: "Unable to send code",
+        description: retryAfter
+          ? `You can request a new code in ${formatRetryAfter(retryAfter)}`
+          : (await getPhoneError(error)) || "Please check your phone number and try again",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleVerify = async () => {
+    setLoading(true);
+    try {
+      await verifyPhoneCode(code);
+      toast({ title: "Phone verified", description: "You can now receive sign-in and reset codes by SMS" });
+      onOpenChange(false);
+      onSuccess();
+    } catch (error: any) {
+      setCode("");
+      toast({ title: "Verification failed", description: error.message, variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Verify Phone Number</DialogTitle>
+          <DialogDescription>
+            Enter the 6-digit code we texted you to confirm this number is yours
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-2 p-4 bg-muted rounded-lg">
+            <Smartphone className="h-5 w-5 text-muted-foreground" />
+            <p className="text-sm">
+              {sentTo ? <>Code sent to <strong>{sentTo}</strong></> : "Sending code..."}
+            </p>
+          </div>
+
+          <div className="flex justify-center">
+            <InputOTP maxLength={6} value={code} onChange={(val) => setCode(val)}>
+              <InputOTPGroup>
+                <InputOTPSlot index={0} />
+                <InputOTPSlot index={1} />
+                <InputOTPSlot index={2} />
+                <InputOTPSlot index={3} />
+                <InputOTPSlot index={4} />
+                <InputOTPSlot index={5} />
+              </InputOTPGroup>
+            </InputOTP>
+          </div>
+
+          <Button
+            type="button"
+            variant="link"
+            size="sm"
+            className="w-full"
+            onClick={handleSend}
+            disabled={loading || resendCooldown > 0}
+          >
+            {resendCooldown > 0 ? `Resend code in ${formatRetryAfter(resendCooldown)}` : "Didn't receive it? Resend code"}
+          </Button>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleVerify} disabled={loading || code.length !== 6}>
+            {loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Verify
+          </Button>
+        </DialogFooter>
+        {stepUpDialog}
+      </DialogContent>
+    </Dialog>
+  );
+}
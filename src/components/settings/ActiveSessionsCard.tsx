@@ -0,0 +1,215 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import {
+  ActiveSession,
+  describeDevice,
+  getCurrentSessionId,
+  listSessions,
+  parseUserAgent,
+  revokeAllSessions,
+  revokeSession,
+} from "@/lib/sessions";
+import { Laptop, Loader2, LogOut, MonitorSmartphone, RefreshCw, Smartphone } from "lucide-react";
+
+type ActiveSessionsCardProps = {
+  /** Whose sessions to show; defaults to the signed-in user */
+  userId?: string;
+};
+
+export default function ActiveSessionsCard({ userId }: ActiveSessionsCardProps) {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [targetUserId, setTargetUserId] = useState<string | null>(userId ?? null);
+  const [isSelf, setIsSelf] = useState(!userId);
+  const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [sessionToRevoke, setSessionToRevoke] = useState<ActiveSession | null>(null);
+  const [confirmRevokeAll, setConfirmRevokeAll] = useState(false);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [userId]);
+
+  const fetchSessions = async () => {
+    setLoading(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+      const id = userId ?? user.id;
+      setTargetUserId(id);
+      setIsSelf(id === user.id);
+      setCurrentSessionId(id === user.id ? await getCurrentSessionId() : null);
+      setSessions(await listSessions(id));
+    } catch (error) {
+      console.error("Error loading sessions:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!sessionToRevoke) return;
+    setWorking(true);
+    try {
+      await revokeSession(sessionToRevoke.id);
+      setSessions((prev) => prev.filter((s) => s.id !== sessionToRevoke.id));
+      toast({ title: "Session signed out", description: "That device will have to sign in again" });
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message || "Failed to sign out session", variant: "destructive" });
+    } finally {
+      setWorking(false);
+      setSessionToRevoke(null);
+    }
+  };
+
+  const handleRevokeAll = async () => {
+    if (!targetUserId) return;
+    setWorking(true);
+    try {
+      const count = await revokeAllSessions(targetUserId, isSelf ? currentSessionId : null);
+      setSessions((prev) => (isSelf ? prev.filter((s) => s.id === currentSessionId) : []));
+      toast({
+        title: "Sessions signed out",
+        description: `${count} session${count === 1 ? "" : "s"} signed out`,
+      });
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message || "Failed to sign out sessions", variant: "destructive" });
+    } finally {
+      setWorking(false);
+      setConfirmRevokeAll(false);
+    }
+  };
+
+  const otherSessions = sessions.filter((s) => s.id !== currentSessionId);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <MonitorSmartphone className="h-5 w-5" />
+            <CardTitle>Active Sessions</CardTitle>
+          </div>
+          <Button variant="ghost" size="icon" onClick={fetchSessions} disabled={loading || working}>
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+        </div>
+        <CardDescription>
+          {isSelf
+            ? "Devices currently signed in to your account"
+            : "Devices currently signed in to this account"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="animate-pulse text-sm text-muted-foreground">Loading...</div>
+        ) : (
+          <>
+            {sessions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No active sessions</p>
+            ) : (
+              <div className="divide-y rounded-md border">
+                {sessions.map((session) => {
+                  const device = parseUserAgent(session.user_agent);
+                  const DeviceIcon = device.mobile ? Smartphone : Laptop;
+                  const isCurrent = session.id === currentSessionId;
+                  return (
+                    <div key={session.id} className="flex items-center justify-between gap-4 p-3">
+                      <div className="flex items-center gap-3">
+                        <DeviceIcon className="h-5 w-5 text-muted-foreground" />
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <p className="font-medium">{describeDevice(session.user_agent)}</p>
+                            {isCurrent && <Badge variant="secondary">This device</Badge>}
+                          </div>
+                          <p className="text-xs text-muted-foreground">
+                            {session.ip || "Unknown IP"} · Last active{" "}
+                            {new Date(session.last_active_at).toLocaleString()} · Signed in{" "}
+                            {new Date(session.created_at).toLocaleDateString()}
+                          </p>
+                        </div>
+                      </div>
+                      {!isCurrent && (
+                        <Button variant="ghost" size="icon" onClick={() => setSessionToRevoke(session)}>
+                          <LogOut className="h-4 w-4 text-destructive" />
+                        </Button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {otherSessions.length > 0 && (
+              <div className="flex justify-end">
+                <Button variant="outline" onClick={() => setConfirmRevokeAll(true)} disabled={working}>
+                  {working && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  {isSelf ? "Sign Out All Other Sessions" : "Sign Out All Sessions"}
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!sessionToRevoke} onOpenChange={(open) => !open && setSessionToRevoke(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Sign Out Session</AlertDialogTitle>
+            <AlertDialogDescription>
+              {describeDevice(sessionToRevoke?.user_agent ?? null)} will be signed out and has to sign in again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={working}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleRevoke}
+              disabled={working}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Sign Out
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={confirmRevokeAll} onOpenChange={setConfirmRevokeAll}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{isSelf ? "Sign Out All Other Sessions" : "Sign Out All Sessions"}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {isSelf
+                ? "Every device except this one will be signed out and has to sign in again."
+                : "Every device signed in to this account will be signed out and has to sign in again."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={working}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleRevokeAll}
+              disabled={working}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Sign Out
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,183 @@
+import { useEffect, useState } from "react";
+import type { UserIdentity } from "@supabase/supabase-js";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useStepUp } from "@/hooks/useStepUp";
+import {
+  LINKABLE_PROVIDERS,
+  LinkableProvider,
+  getProviderLabel,
+  linkProvider,
+  listIdentities,
+  unlinkIdentity,
+} from "@/lib/identities";
+import { Link2, Loader2, Unlink } from "lucide-react";
+
+export default function ConnectedAccountsCard() {
+  const { toast } = useToast();
+  const { requireStepUp, stepUpDialog } = useStepUp();
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [identities, setIdentities] = useState<UserIdentity[]>([]);
+  const [identityToUnlink, setIdentityToUnlink] = useState<UserIdentity | null>(null);
+
+  useEffect(() => {
+    fetchIdentities();
+
+    // Supabase Auth reports a failed link (e.g. the account belongs to another user) on the return URL
+    const params = new URLSearchParams(window.location.hash.slice(1) || window.location.search);
+    const linkError = params.get("error_description");
+    if (linkError) {
+      toast({ title: "Could not connect account", description: linkError, variant: "destructive" });
+    }
+  }, []);
+
+  const fetchIdentities = async () => {
+    try {
+      setIdentities(await listIdentities());
+    } catch (error) {
+      console.error("Error loading identities:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleLink = async (provider: LinkableProvider) => {
+    // The database refuses the link unless the account re-authenticated within the last few minutes
+    if (!(await requireStepUp())) return;
+
+    setWorking(true);
+    try {
+      await linkProvider(provider);
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message || "Failed to connect account", variant: "destructive" });
+      setWorking(false);
+    }
+  };
+
+  const handleUnlink = async () => {
+    if (!identityToUnlink) return;
+    setWorking(true);
+    try {
+      await unlinkIdentity(identityToUnlink, identities);
+      setIdentities((prev) => prev.filter((i) => i.identity_id !== identityToUnlink.identity_id));
+      toast({
+        title: "Account disconnected",
+        description: `You can no longer sign in with ${getProviderLabel(identityToUnlink.provider)}`,
+      });
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message || "Failed to disconnect account", variant: "destructive" });
+    } finally {
+      setWorking(false);
+      setIdentityToUnlink(null);
+    }
+  };
+
+  const linkedProviders = new Set(identities.map((i) => i.provider));
+  const available = LINKABLE_PROVIDERS.filter((p) => !linkedProviders.has(p.value));
+  const canUnlink = identities.length > 1;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Link2 className="h-5 w-5" />
+          <CardTitle>Connected Accounts</CardTitle>
+        </div>
+        <CardDescription>
+          Ways you can sign in to this account. At least one must stay connected.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="animate-pulse text-sm text-muted-foreground">Loading...</div>
+        ) : (
+          <>
+            <div className="divide-y rounded-md border">
+              {identities.map((identity) => (
+                <div key={identity.identity_id} className="flex items-center justify-between gap-4 p-3">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium">{getProviderLabel(identity.provider)}</p>
+                      {identity.identity_data?.email && (
+                        <Badge variant="outline">{identity.identity_data.email}</Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Connected {identity.created_at ? new Date(identity.created_at).toLocaleDateString() : ""} ·{" "}
+                      {identity.last_sign_in_at
+                        ? `Last used ${new Date(identity.last_sign_in_at).toLocaleString()}`
+                        : "Never used"}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setIdentityToUnlink(identity)}
+                    disabled={!canUnlink || working}
+                    title={canUnlink ? undefined : "Connect another sign-in method before removing this one"}
+                  >
+                    <Unlink className="h-4 w-4 mr-2" />
+                    Disconnect
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            {available.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {available.map((provider) => (
+                  <Button
+                    key={provider.value}
+                    variant="outline"
+                    onClick={() => handleLink(provider.value)}
+                    disabled={working}
+                  >
+                    {working && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Connect {provider.label}
+                  </Button>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!identityToUnlink} onOpenChange={(open) => !open && setIdentityToUnlink(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Disconnect Account</AlertDialogTitle>
+            <AlertDialogDescription>
+              You will no longer be able to sign in with{" "}
+              {identityToUnlink ? getProviderLabel(identityToUnlink.provider) : ""}. You can connect it again later.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={working}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleUnlink}
+              disabled={working}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Disconnect
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {stepUpDialog}
+    </Card>
+  );
+}
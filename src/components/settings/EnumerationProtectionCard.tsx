@@ -0,0 +1,137 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { EyeOff, Loader2 } from "lucide-react";
+
+type EnumerationProtection = {
+  enabled: boolean;
+  pow_difficulty: number;
+};
+
+const DEFAULT_PROTECTION: EnumerationProtection = { enabled: false, pow_difficulty: 16 };
+
+// Each extra bit doubles the work; beyond 22 slow phones take too long to sign in
+const MIN_DIFFICULTY = 8;
+const MAX_DIFFICULTY = 22;
+
+export default function EnumerationProtectionCard() {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [protection, setProtection] = useState<EnumerationProtection>(DEFAULT_PROTECTION);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const { data } = await (supabase as any)
+          .from("system_settings")
+          .select("value")
+          .eq("key", "enumeration_protection")
+          .maybeSingle();
+        setProtection({ ...DEFAULT_PROTECTION, ...(data?.value || {}) });
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, []);
+
+  const handleSave = async () => {
+    if (protection.pow_difficulty < MIN_DIFFICULTY || protection.pow_difficulty > MAX_DIFFICULTY) {
+      toast({
+        title: "Invalid difficulty",
+        description: `Choose between ${MIN_DIFFICULTY} and ${MAX_DIFFICULTY} bits`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await (supabase as any)
+        .from("system_settings")
+        .upsert({ key: "enumeration_protection", value: protection, updated_by: user?.id });
+      if (error) throw error;
+
+      await (supabase as any).from("activity_logs").insert({
+        user_id: user?.id,
+        performed_by: user?.id,
+        action_type: "settings_updated",
+        description: protection.enabled
+          ? `Anti-enumeration mode enabled (proof of work: ${protection.pow_difficulty} bits)`
+          : "Anti-enumeration mode disabled",
+        metadata: { setting: "enumeration_protection", ...protection },
+        module: "settings",
+        status: "success",
+      });
+
+      toast({ title: "Saved", description: `Anti-enumeration mode ${protection.enabled ? "enabled" : "disabled"}` });
+    } catch (e: any) {
+      toast({ title: "Error", description: e.message || "Failed to update setting", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <EyeOff className="h-5 w-5" />
+          <CardTitle>Account Enumeration Protection</CardTitle>
+        </div>
+        <CardDescription>
+          Make sign-in, sign-up and password reset look the same whether or not an account exists, and
+          require a short proof of work from the browser for each attempt. Suspended and locked
+          accounts then see a plain "invalid email or password".
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="animate-pulse text-sm text-muted-foreground">Loading...</div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="enumeration-protection-enabled">Hide whether accounts exist</Label>
+              <Switch
+                id="enumeration-protection-enabled"
+                checked={protection.enabled}
+                onCheckedChange={(checked) => setProtection((prev) => ({ ...prev, enabled: checked }))}
+                disabled={saving}
+              />
+            </div>
+            <div className="max-w-xs">
+              <Label htmlFor="enumeration-protection-difficulty">Proof-of-work difficulty (bits)</Label>
+              <Input
+                id="enumeration-protection-difficulty"
+                type="number"
+                min={MIN_DIFFICULTY}
+                max={MAX_DIFFICULTY}
+                className="mt-1"
+                value={protection.pow_difficulty}
+                onChange={(e) =>
+                  setProtection((prev) => ({ ...prev, pow_difficulty: parseInt(e.target.value, 10) || 0 }))
+                }
+              />
+              <p className="mt-1 text-xs text-muted-foreground">
+                16 bits takes a typical browser about a second.
+              </p>
+            </div>
+            <div className="flex justify-end">
+              <Button onClick={handleSave} disabled={saving}>
+                {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Save
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,165 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { useAllRoles } from "@/hooks/useAllRoles";
+import {
+  IpAllowlists,
+  forgetAdminAccess,
+  getAdminAccess,
+  ipv4InCidrs,
+  isValidCidr,
+} from "@/lib/ip-allowlist";
+import { Loader2, Network } from "lucide-react";
+
+const toLines = (list: string[] | undefined) => (list || []).join("\n");
+
+const fromLines = (text: string) =>
+  text
+    .split(/[\n,]/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+export default function IpAllowlistCard() {
+  const { toast } = useToast();
+  const { systemRoles, customRoles, loading: rolesLoading } = useAllRoles();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [currentIp, setCurrentIp] = useState("");
+  const [ownRoles, setOwnRoles] = useState<string[]>([]);
+
+  // Employees have no admin access to restrict
+  const roles = [...systemRoles.filter((r) => r.value !== "employee"), ...customRoles];
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const { data: { user } } = await supabase.auth.getUser();
+        const [{ data: setting }, { data: userRoles }, access] = await Promise.all([
+          (supabase as any).from("system_settings").select("value").eq("key", "ip_allowlists").maybeSingle(),
+          (supabase as any).from("user_roles").select("role, custom_role_id").eq("user_id", user?.id),
+          getAdminAccess(),
+        ]);
+
+        const allowlists = (setting?.value || {}) as IpAllowlists;
+        setDrafts(Object.fromEntries(Object.entries(allowlists).map(([role, list]) => [role, toLines(list)])));
+        setOwnRoles((userRoles || []).map((r: any) => (r.custom_role_id ? `custom_${r.custom_role_id}` : r.role)));
+        setCurrentIp(access.ip);
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, []);
+
+  const handleSave = async () => {
+    const allowlists: IpAllowlists = {};
+    for (const [role, text] of Object.entries(drafts)) {
+      const list = fromLines(text);
+      const invalid = list.filter((cidr) => !isValidCidr(cidr));
+      if (invalid.length > 0) {
+        toast({
+          title: "Invalid address range",
+          description: `${invalid.join(", ")} is not an IP address or CIDR range`,
+          variant: "destructive",
+        });
+        return;
+      }
+      if (list.length > 0) allowlists[role] = list;
+    }
+
+    // Saving a list that excludes where you are now would end your own admin access
+    const lockedOut = ownRoles.filter(
+      (role) => allowlists[role] && ipv4InCidrs(currentIp, allowlists[role]) === false
+    );
+    if (lockedOut.length > 0) {
+      toast({
+        title: "This would lock you out",
+        description: `Your current IP (${currentIp}) is outside the list for your own role. Add it first.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await (supabase as any)
+        .from("system_settings")
+        .upsert({ key: "ip_allowlists", value: allowlists, updated_by: user?.id });
+      if (error) throw error;
+
+      await (supabase as any).from("activity_logs").insert({
+        user_id: user?.id,
+        performed_by: user?.id,
+        action_type: "settings_updated",
+        description: Object.keys(allowlists).length
+          ? `Admin IP allowlists updated for ${Object.keys(allowlists).join(", ")}`
+          : "Admin IP allowlists cleared",
+        metadata: { setting: "ip_allowlists", allowlists },
+        module: "settings",
+        status: "success",
+      });
+
+      forgetAdminAccess();
+      toast({ title: "Saved", description: "IP allowlists updated" });
+    } catch (e: any) {
+      toast({ title: "Error", description: e.message || "Failed to update setting", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Network className="h-5 w-5" />
+          <CardTitle>Admin IP Allowlists</CardTitle>
+        </div>
+        <CardDescription>
+          Limit where each role may use administration from, as IP addresses or CIDR ranges, one per
+          line. Outside its list a role is dropped: the user gets employee-level access and every
+          refused attempt is logged. Leave a role empty to allow it from anywhere.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading || rolesLoading ? (
+          <div className="animate-pulse text-sm text-muted-foreground">Loading...</div>
+        ) : (
+          <>
+            {currentIp && (
+              <p className="text-sm text-muted-foreground">
+                Your current IP address is <span className="font-mono">{currentIp}</span>
+              </p>
+            )}
+            {roles.map((role) => (
+              <div key={role.value}>
+                <Label htmlFor={`ip-allowlist-${role.value}`}>{role.label}</Label>
+                <Textarea
+                  id={`ip-allowlist-${role.value}`}
+                  className="mt-1 font-mono text-sm"
+                  rows={2}
+                  placeholder="Any network"
+                  value={drafts[role.value] || ""}
+                  onChange={(e) => setDrafts((prev) => ({ ...prev, [role.value]: e.target.value }))}
+                  disabled={saving}
+                />
+              </div>
+            ))}
+            <div className="flex justify-end">
+              <Button onClick={handleSave} disabled={saving}>
+                {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Save
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
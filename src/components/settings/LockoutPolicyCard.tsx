@@ -0,0 +1,140 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Lock } from "lucide-react";
+
+type LockoutPolicy = {
+  max_attempts: number;
+  window_minutes: number;
+  lock_minutes: number;
+};
+
+const DEFAULT_POLICY: LockoutPolicy = { max_attempts: 5, window_minutes: 15, lock_minutes: 15 };
+
+export default function LockoutPolicyCard() {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [policy, setPolicy] = useState<LockoutPolicy>(DEFAULT_POLICY);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const { data } = await (supabase as any)
+          .from("system_settings")
+          .select("value")
+          .eq("key", "lockout")
+          .maybeSingle();
+        setPolicy({ ...DEFAULT_POLICY, ...(data?.value || {}) });
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, []);
+
+  const updateField = (field: keyof LockoutPolicy, value: string) => {
+    setPolicy((prev) => ({ ...prev, [field]: Math.max(0, parseInt(value, 10) || 0) }));
+  };
+
+  const handleSave = async () => {
+    if (policy.max_attempts > 0 && (policy.window_minutes < 1 || policy.lock_minutes < 1)) {
+      toast({ title: "Invalid policy", description: "Window and lock duration must be at least 1 minute", variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await (supabase as any)
+        .from("system_settings")
+        .upsert({ key: "lockout", value: policy, updated_by: user?.id });
+      if (error) throw error;
+
+      await (supabase as any).from("activity_logs").insert({
+        user_id: user?.id,
+        performed_by: user?.id,
+        action_type: "settings_updated",
+        description: policy.max_attempts > 0
+          ? `Account lockout: ${policy.max_attempts} failures in ${policy.window_minutes} min locks for ${policy.lock_minutes} min`
+          : "Account lockout disabled",
+        metadata: { setting: "lockout", ...policy },
+        module: "settings",
+        status: "success",
+      });
+
+      toast({ title: "Saved", description: "Lockout policy updated" });
+    } catch (e: any) {
+      toast({ title: "Error", description: e.message || "Failed to save lockout policy", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Lock className="h-5 w-5" />
+          <CardTitle>Account Lockout</CardTitle>
+        </div>
+        <CardDescription>
+          Lock an account after repeated failed password attempts. Set failed attempts to 0 to turn lockout off.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="animate-pulse text-sm text-muted-foreground">Loading...</div>
+        ) : (
+          <>
+            <div className="grid gap-4 md:grid-cols-3">
+              <div>
+                <Label htmlFor="lockout-max-attempts">Failed attempts</Label>
+                <Input
+                  id="lockout-max-attempts"
+                  type="number"
+                  min={0}
+                  className="mt-1"
+                  value={policy.max_attempts}
+                  onChange={(e) => updateField("max_attempts", e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="lockout-window">Within (minutes)</Label>
+                <Input
+                  id="lockout-window"
+                  type="number"
+                  min={1}
+                  className="mt-1"
+                  value={policy.window_minutes}
+                  onChange={(e) => updateField("window_minutes", e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="lockout-duration">Lock for (minutes)</Label>
+                <Input
+                  id="lockout-duration"
+                  type="number"
+                  min={1}
+                  className="mt-1"
+                  value={policy.lock_minutes}
+                  onChange={(e) => updateField("lock_minutes", e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="flex justify-end">
+              <Button onClick={handleSave} disabled={saving}>
+                {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Save Policy
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
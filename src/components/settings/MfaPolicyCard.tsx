@@ -0,0 +1,105 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { MFA_ROLE_OPTIONS } from "@/lib/mfa";
+import { Loader2, ShieldAlert } from "lucide-react";
+
+export default function MfaPolicyCard() {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [requiredRoles, setRequiredRoles] = useState<string[]>([]);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const { data } = await (supabase as any)
+          .from("system_settings")
+          .select("value")
+          .eq("key", "mfa")
+          .maybeSingle();
+        setRequiredRoles(data?.value?.required_roles || []);
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, []);
+
+  const toggleRole = (role: string, checked: boolean) => {
+    setRequiredRoles((prev) => (checked ? [...prev, role] : prev.filter((r) => r !== role)));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await (supabase as any)
+        .from("system_settings")
+        .upsert({ key: "mfa", value: { required_roles: requiredRoles }, updated_by: user?.id });
+      if (error) throw error;
+
+      await (supabase as any).from("activity_logs").insert({
+        user_id: user?.id,
+        performed_by: user?.id,
+        action_type: "settings_updated",
+        description: requiredRoles.length
+          ? `MFA required for roles: ${requiredRoles.join(", ")}`
+          : "MFA requirement removed for all roles",
+        metadata: { setting: "mfa", required_roles: requiredRoles },
+        module: "settings",
+        status: "success",
+      });
+
+      toast({ title: "Saved", description: "MFA policy updated" });
+    } catch (e: any) {
+      toast({ title: "Error", description: e.message || "Failed to save MFA policy", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5" />
+          <CardTitle>Require Two-Factor Authentication</CardTitle>
+        </div>
+        <CardDescription>
+          Users with these roles must enroll an authenticator app before they can use the app
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="animate-pulse text-sm text-muted-foreground">Loading...</div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+              {MFA_ROLE_OPTIONS.map((role) => (
+                <div key={role.value} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`mfa-role-${role.value}`}
+                    checked={requiredRoles.includes(role.value)}
+                    onCheckedChange={(c) => toggleRole(role.value, c === true)}
+                  />
+                  <Label htmlFor={`mfa-role-${role.value}`}>{role.label}</Label>
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-end">
+              <Button onClick={handleSave} disabled={saving}>
+                {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Save Policy
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,248 @@
+import { useEffect, useState } from "react";
+import { browserSupportsWebAuthn } from "@simplewebauthn/browser";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useStepUp } from "@/hooks/useStepUp";
+import { assertNotImpersonating } from "@/lib/impersonation";
+import { Passkey, registerPasskey } from "@/lib/passkeys";
+import { forgetStepUp, getStepUpError, isStepUpRequired } from "@/lib/step-up";
+import { Check, Fingerprint, Loader2, Pencil, Trash2, X } from "lucide-react";
+
+export default function PasskeysCard() {
+  const { toast } = useToast();
+  const { requireStepUp, stepUpDialog } = useStepUp();
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [passkeys, setPasskeys] = useState<Passkey[]>([]);
+  const [newName, setNewName] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+  const [passkeyToRevoke, setPasskeyToRevoke] = useState<Passkey | null>(null);
+  const supported = browserSupportsWebAuthn();
+
+  useEffect(() => {
+    fetchPasskeys();
+  }, []);
+
+  const fetchPasskeys = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+      const { data, error } = await (supabase as any)
+        .from("passkeys")
+        .select("id, name, created_at, last_used_at")
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: true });
+      if (error) throw error;
+      setPasskeys(data || []);
+    } catch (error) {
+      console.error("Error loading passkeys:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const logActivity = async (actionType: string, description: string, metadata: Record<string, unknown>) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+    await (supabase as any).from("activity_logs").insert({
+      user_id: user.id,
+      performed_by: user.id,
+      action_type: actionType,
+      description,
+      metadata,
+      module: "auth",
+      status: "success",
+    });
+  };
+
+  const handleRegister = async () => {
+    if (!(await requireStepUp())) return;
+
+    setWorking(true);
+    try {
+      const passkey = await registerPasskey(newName.trim() || undefined);
+      setPasskeys((prev) => [...prev, passkey]);
+      setNewName("");
+      toast({ title: "Passkey added", description: `"${passkey.name}" can now be used to sign in` });
+    } catch (error: any) {
+      // Cancelling the browser prompt surfaces as NotAllowedError
+      if (error?.name === "NotAllowedError") return;
+      if (await isStepUpRequired(error)) forgetStepUp();
+      toast({
+        title: "Error",
+        description: (await getStepUpError(error)) || error.message || "Failed to add passkey",
+        variant: "destructive",
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleRename = async (passkey: Passkey) => {
+    const name = editingName.trim();
+    if (!name || name === passkey.name) {
+      setEditingId(null);
+      return;
+    }
+    setWorking(true);
+    try {
+      const { error } = await (supabase as any).from("passkeys").update({ name }).eq("id", passkey.id);
+      if (error) throw error;
+      await logActivity("passkey_renamed", `Passkey "${passkey.name}" renamed to "${name}"`, { passkey_id: passkey.id });
+      setPasskeys((prev) => prev.map((p) => (p.id === passkey.id ? { ...p, name } : p)));
+      setEditingId(null);
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message || "Failed to rename passkey", variant: "destructive" });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!passkeyToRevoke) return;
+    setWorking(true);
+    try {
+      assertNotImpersonating();
+      const { error } = await (supabase as any).from("passkeys").delete().eq("id", passkeyToRevoke.id);
+      if (error) throw error;
+      await logActivity("passkey_removed", `Passkey "${passkeyToRevoke.name}" revoked`, { passkey_id: passkeyToRevoke.id });
+      setPasskeys((prev) => prev.filter((p) => p.id !== passkeyToRevoke.id));
+      toast({ title: "Passkey revoked", description: `"${passkeyToRevoke.name}" can no longer be used to sign in` });
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message || "Failed to revoke passkey", variant: "destructive" });
+    } finally {
+      setWorking(false);
+      setPasskeyToRevoke(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Fingerprint className="h-5 w-5" />
+          <CardTitle>Passkeys</CardTitle>
+        </div>
+        <CardDescription>
+          Sign in with your fingerprint, face or device screen lock instead of a password
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="animate-pulse text-sm text-muted-foreground">Loading...</div>
+        ) : (
+          <>
+            {passkeys.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No passkeys registered yet</p>
+            ) : (
+              <div className="divide-y rounded-md border">
+                {passkeys.map((passkey) => (
+                  <div key={passkey.id} className="flex items-center justify-between gap-4 p-3">
+                    {editingId === passkey.id ? (
+                      <div className="flex flex-1 items-center gap-2">
+                        <Input
+                          value={editingName}
+                          onChange={(e) => setEditingName(e.target.value)}
+                          maxLength={64}
+                          autoFocus
+                        />
+                        <Button variant="ghost" size="icon" onClick={() => handleRename(passkey)} disabled={working}>
+                          <Check className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => setEditingId(null)} disabled={working}>
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <>
+                        <div>
+                          <p className="font-medium">{passkey.name}</p>
+                          <p className="text-xs text-muted-foreground">
+                            Added {new Date(passkey.created_at).toLocaleDateString()} ·{" "}
+                            {passkey.last_used_at
+                              ? `Last used ${new Date(passkey.last_used_at).toLocaleString()}`
+                              : "Never used"}
+                          </p>
+                        </div>
+                        <div className="flex gap-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => {
+                              setEditingId(passkey.id);
+                              setEditingName(passkey.name);
+                            }}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" onClick={() => setPasskeyToRevoke(passkey)}>
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </div>
+                      </>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {supported ? (
+              <div className="flex gap-2">
+                <Input
+                  placeholder="Name, e.g. Work laptop"
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  maxLength={64}
+                  disabled={working}
+                />
+                <Button onClick={handleRegister} disabled={working}>
+                  {working && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Add Passkey
+                </Button>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">This browser does not support passkeys.</p>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!passkeyToRevoke} onOpenChange={(open) => !open && setPasskeyToRevoke(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke Passkey</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{passkeyToRevoke?.name}" will no longer be able to sign in to your account.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={working}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleRevoke}
+              disabled={working}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Revoke
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {stepUpDialog}
+    </Card>
+  );
+}
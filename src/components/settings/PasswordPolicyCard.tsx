@@ -0,0 +1,181 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { DEFAULT_PASSWORD_POLICY, PasswordPolicy } from "@/lib/password-policy";
+import { KeySquare, Loader2 } from "lucide-react";
+
+type NumberField = "min_length" | "history_count" | "max_age_days";
+type ClassField = "require_uppercase" | "require_lowercase" | "require_number" | "require_symbol";
+
+const CHARACTER_CLASSES: { field: ClassField; label: string }[] = [
+  { field: "require_uppercase", label: "Uppercase letter" },
+  { field: "require_lowercase", label: "Lowercase letter" },
+  { field: "require_number", label: "Number" },
+  { field: "require_symbol", label: "Symbol" },
+];
+
+export default function PasswordPolicyCard() {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [policy, setPolicy] = useState<PasswordPolicy>(DEFAULT_PASSWORD_POLICY);
+  const [bannedPasswords, setBannedPasswords] = useState("");
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const { data } = await (supabase as any)
+          .from("system_settings")
+          .select("value")
+          .eq("key", "password_policy")
+          .maybeSingle();
+        const { banned_passwords, ...rest } = data?.value || {};
+        setPolicy({ ...DEFAULT_PASSWORD_POLICY, ...rest });
+        setBannedPasswords((banned_passwords || []).join("\n"));
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, []);
+
+  const updateNumber = (field: NumberField, value: string) => {
+    setPolicy((prev) => ({ ...prev, [field]: Math.max(0, parseInt(value, 10) || 0) }));
+  };
+
+  const handleSave = async () => {
+    if (policy.min_length < 6) {
+      toast({ title: "Invalid policy", description: "Minimum length must be at least 6 characters", variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const banned = bannedPasswords
+        .split("\n")
+        .map((p) => p.trim())
+        .filter(Boolean);
+      const value = { ...policy, banned_passwords: banned };
+
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await (supabase as any)
+        .from("system_settings")
+        .upsert({ key: "password_policy", value, updated_by: user?.id });
+      if (error) throw error;
+
+      await (supabase as any).from("activity_logs").insert({
+        user_id: user?.id,
+        performed_by: user?.id,
+        action_type: "settings_updated",
+        description: "Password policy updated",
+        metadata: { setting: "password_policy", ...policy, banned_count: banned.length },
+        module: "settings",
+        status: "success",
+      });
+
+      toast({ title: "Saved", description: "Password policy updated" });
+    } catch (e: any) {
+      toast({ title: "Error", description: e.message || "Failed to save password policy", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <KeySquare className="h-5 w-5" />
+          <CardTitle>Password Policy</CardTitle>
+        </div>
+        <CardDescription>
+          Applies whenever a password is set: sign-up, reset, change and accounts created by admins
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="animate-pulse text-sm text-muted-foreground">Loading...</div>
+        ) : (
+          <>
+            <div className="grid gap-4 md:grid-cols-3">
+              <div>
+                <Label htmlFor="policy-min-length">Minimum length</Label>
+                <Input
+                  id="policy-min-length"
+                  type="number"
+                  min={6}
+                  className="mt-1"
+                  value={policy.min_length}
+                  onChange={(e) => updateNumber("min_length", e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="policy-history">Block reuse of last (passwords)</Label>
+                <Input
+                  id="policy-history"
+                  type="number"
+                  min={0}
+                  max={24}
+                  className="mt-1"
+                  value={policy.history_count}
+                  onChange={(e) => updateNumber("history_count", e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="policy-max-age">Expire after (days, 0 = never)</Label>
+                <Input
+                  id="policy-max-age"
+                  type="number"
+                  min={0}
+                  className="mt-1"
+                  value={policy.max_age_days}
+                  onChange={(e) => updateNumber("max_age_days", e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Must contain</Label>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {CHARACTER_CLASSES.map(({ field, label }) => (
+                  <div key={field} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`policy-${field}`}
+                      checked={policy[field]}
+                      onCheckedChange={(c) => setPolicy((prev) => ({ ...prev, [field]: c === true }))}
+                    />
+                    <Label htmlFor={`policy-${field}`}>{label}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="policy-banned">Banned passwords (one per line)</Label>
+              <Textarea
+                id="policy-banned"
+                className="mt-1 min-h-[100px] font-mono text-xs"
+                placeholder={"companyname2024\nwelcome2024"}
+                value={bannedPasswords}
+                onChange={(e) => setBannedPasswords(e.target.value)}
+              />
+              <p className="mt-1 text-xs text-muted-foreground">
+                Common leaked passwords are always blocked
+              </p>
+            </div>
+            <div className="flex justify-end">
+              <Button onClick={handleSave} disabled={saving}>
+                {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Save Policy
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,87 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { MailCheck } from "lucide-react";
+
+export default function PasswordlessPolicyCard() {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [enabled, setEnabled] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const { data } = await (supabase as any)
+          .from("system_settings")
+          .select("value")
+          .eq("key", "passwordless")
+          .maybeSingle();
+        setEnabled(!!data?.value?.enabled);
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, []);
+
+  const handleToggle = async (checked: boolean) => {
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await (supabase as any)
+        .from("system_settings")
+        .upsert({ key: "passwordless", value: { enabled: checked }, updated_by: user?.id });
+      if (error) throw error;
+
+      await (supabase as any).from("activity_logs").insert({
+        user_id: user?.id,
+        performed_by: user?.id,
+        action_type: "settings_updated",
+        description: checked ? "Passwordless email sign-in enabled" : "Passwordless email sign-in disabled",
+        metadata: { setting: "passwordless", enabled: checked },
+        module: "settings",
+        status: "success",
+      });
+
+      setEnabled(checked);
+      toast({ title: "Saved", description: `Passwordless sign-in ${checked ? "enabled" : "disabled"}` });
+    } catch (e: any) {
+      toast({ title: "Error", description: e.message || "Failed to update setting", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <MailCheck className="h-5 w-5" />
+          <CardTitle>Passwordless Sign-In</CardTitle>
+        </div>
+        <CardDescription>
+          Let users sign in with a one-time code or single-use link sent to their email
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="animate-pulse text-sm text-muted-foreground">Loading...</div>
+        ) : (
+          <div className="flex items-center justify-between">
+            <Label htmlFor="passwordless-enabled">Allow email code and link sign-in</Label>
+            <Switch
+              id="passwordless-enabled"
+              checked={enabled}
+              onCheckedChange={handleToggle}
+              disabled={saving}
+            />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,207 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { MFA_ROLE_OPTIONS } from "@/lib/mfa";
+import { DEFAULT_SESSION_POLICY, SessionLimits, SessionPolicy } from "@/lib/session-policy";
+import { Loader2, Timer } from "lucide-react";
+
+type NumberField = "idle_timeout_minutes" | "warning_seconds" | "max_session_hours";
+
+const describeLimit = (value: number, unit: string) => (value > 0 ? `${value} ${unit}` : "off");
+
+export default function SessionPolicyCard() {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [policy, setPolicy] = useState<SessionPolicy>(DEFAULT_SESSION_POLICY);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const { data } = await (supabase as any)
+          .from("system_settings")
+          .select("value")
+          .eq("key", "session_policy")
+          .maybeSingle();
+        setPolicy({ ...DEFAULT_SESSION_POLICY, ...(data?.value || {}) });
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, []);
+
+  const updateField = (field: NumberField, value: string) => {
+    setPolicy((prev) => ({ ...prev, [field]: Math.max(0, parseInt(value, 10) || 0) }));
+  };
+
+  // An empty override inherits the organization default
+  const updateOverride = (role: string, field: keyof SessionLimits, value: string) => {
+    setPolicy((prev) => {
+      const override = { ...prev.role_overrides[role] };
+      if (value === "") {
+        delete override[field];
+      } else {
+        override[field] = Math.max(0, parseInt(value, 10) || 0);
+      }
+
+      const roleOverrides = { ...prev.role_overrides, [role]: override };
+      if (Object.keys(override).length === 0) delete roleOverrides[role];
+      return { ...prev, role_overrides: roleOverrides };
+    });
+  };
+
+  const handleSave = async () => {
+    const idleTimeouts = [
+      policy.idle_timeout_minutes,
+      ...Object.values(policy.role_overrides).map((o) => o.idle_timeout_minutes ?? 0),
+    ].filter((minutes) => minutes > 0);
+
+    if (idleTimeouts.some((minutes) => policy.warning_seconds >= minutes * 60)) {
+      toast({ title: "Invalid policy", description: "The warning must be shorter than the idle timeout", variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await (supabase as any)
+        .from("system_settings")
+        .upsert({ key: "session_policy", value: policy, updated_by: user?.id });
+      if (error) throw error;
+
+      await (supabase as any).from("activity_logs").insert({
+        user_id: user?.id,
+        performed_by: user?.id,
+        action_type: "settings_updated",
+        description: `Session policy: idle timeout ${describeLimit(policy.idle_timeout_minutes, "min")}, maximum session ${describeLimit(policy.max_session_hours, "h")}`,
+        metadata: { setting: "session_policy", ...policy },
+        module: "settings",
+        status: "success",
+      });
+
+      toast({ title: "Saved", description: "Session policy updated. It applies from each user's next page load." });
+    } catch (e: any) {
+      toast({ title: "Error", description: e.message || "Failed to save session policy", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Timer className="h-5 w-5" />
+          <CardTitle>Session Timeout</CardTitle>
+        </div>
+        <CardDescription>
+          Sign users out after a period of inactivity, and cap how long any session can last. Use 0 to turn a limit off.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="animate-pulse text-sm text-muted-foreground">Loading...</div>
+        ) : (
+          <>
+            <div className="grid gap-4 md:grid-cols-3">
+              <div>
+                <Label htmlFor="session-idle-timeout">Idle timeout (minutes)</Label>
+                <Input
+                  id="session-idle-timeout"
+                  type="number"
+                  min={0}
+                  className="mt-1"
+                  value={policy.idle_timeout_minutes}
+                  onChange={(e) => updateField("idle_timeout_minutes", e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="session-warning">Warn before (seconds)</Label>
+                <Input
+                  id="session-warning"
+                  type="number"
+                  min={0}
+                  className="mt-1"
+                  value={policy.warning_seconds}
+                  onChange={(e) => updateField("warning_seconds", e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="session-max-age">Maximum session (hours)</Label>
+                <Input
+                  id="session-max-age"
+                  type="number"
+                  min={0}
+                  className="mt-1"
+                  value={policy.max_session_hours}
+                  onChange={(e) => updateField("max_session_hours", e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Role overrides</Label>
+              <p className="text-xs text-muted-foreground">
+                Leave a field empty to use the default above. Users with several roles get the strictest limit.
+              </p>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Idle timeout (minutes)</TableHead>
+                    <TableHead>Maximum session (hours)</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {MFA_ROLE_OPTIONS.map((role) => (
+                    <TableRow key={role.value}>
+                      <TableCell className="font-medium">{role.label}</TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={0}
+                          placeholder={String(policy.idle_timeout_minutes)}
+                          value={policy.role_overrides[role.value]?.idle_timeout_minutes ?? ""}
+                          onChange={(e) => updateOverride(role.value, "idle_timeout_minutes", e.target.value)}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={0}
+                          placeholder={String(policy.max_session_hours)}
+                          value={policy.role_overrides[role.value]?.max_session_hours ?? ""}
+                          onChange={(e) => updateOverride(role.value, "max_session_hours", e.target.value)}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="flex justify-end">
+              <Button onClick={handleSave} disabled={saving}>
+                {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Save Policy
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,284 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useToast } from "@/hooks/use-toast";
+import { getMfaStatus } from "@/lib/mfa";
+import { assertNotImpersonating } from "@/lib/impersonation";
+import { Copy, Loader2, ShieldCheck } from "lucide-react";
+
+type Enrollment = {
+  factorId: string;
+  qrCode: string;
+  secret: string;
+};
+
+export default function TwoFactorCard() {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [factorId, setFactorId] = useState<string | null>(null);
+  const [required, setRequired] = useState(false);
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [remainingCodes, setRemainingCodes] = useState<number>(0);
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const loadStatus = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+      setUserId(user.id);
+
+      const [status, { data: isRequired }] = await Promise.all([
+        getMfaStatus(user.id),
+        (supabase as any).rpc("mfa_required_for_user", { _user_id: user.id }),
+      ]);
+      setFactorId(status.factorId);
+      setRequired(!!isRequired);
+
+      if (status.factorId) {
+        const { data: count } = await (supabase as any).rpc("count_unused_recovery_codes");
+        setRemainingCodes(count ?? 0);
+      }
+    } catch (error) {
+      console.error("Error loading MFA status:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const generateRecoveryCodes = async () => {
+    const { data, error } = await supabase.functions.invoke("mfa-recovery", {
+      body: { action: "generate" },
+    });
+    if (error || !data?.success) throw new Error(data?.error || "Failed to generate recovery codes");
+    setRecoveryCodes(data.codes);
+    setRemainingCodes(data.codes.length);
+  };
+
+  const handleStartEnrollment = async () => {
+    setWorking(true);
+    try {
+      assertNotImpersonating();
+      // Drop abandoned enrollments so the friendly name does not collide
+      const { data: factors } = await supabase.auth.mfa.listFactors();
+      for (const factor of factors?.all || []) {
+        if (factor.factor_type === "totp" && factor.status === "unverified") {
+          await supabase.auth.mfa.unenroll({ factorId: factor.id });
+        }
+      }
+
+      const { data, error } = await supabase.auth.mfa.enroll({
+        factorType: "totp",
+        friendlyName: "Authenticator app",
+      });
+      if (error) throw error;
+
+      setEnrollment({ factorId: data.id, qrCode: data.totp.qr_code, secret: data.totp.secret });
+      setCode("");
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message || "Failed to start enrollment", variant: "destructive" });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleVerifyEnrollment = async () => {
+    if (!enrollment || code.length !== 6) return;
+    setWorking(true);
+    try {
+      const { error } = await supabase.auth.mfa.challengeAndVerify({
+        factorId: enrollment.factorId,
+        code,
+      });
+      if (error) throw error;
+
+      await supabase.from("activity_logs").insert({
+        user_id: userId,
+        performed_by: userId,
+        action_type: "mfa_enrolled",
+        description: "Authenticator app enrolled for two-factor authentication",
+        module: "auth",
+        status: "success",
+      } as any);
+
+      setFactorId(enrollment.factorId);
+      setEnrollment(null);
+      setCode("");
+      await generateRecoveryCodes();
+
+      toast({ title: "Two-factor enabled", description: "Save your recovery codes somewhere safe" });
+    } catch (error: any) {
+      toast({ title: "Verification Failed", description: "Wrong code, please check your authenticator app", variant: "destructive" });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    if (!factorId) return;
+    setWorking(true);
+    try {
+      assertNotImpersonating();
+      const { error } = await supabase.auth.mfa.unenroll({ factorId });
+      if (error) throw error;
+
+      await supabase.from("activity_logs").insert({
+        user_id: userId,
+        performed_by: userId,
+        action_type: "mfa_unenrolled",
+        description: "Authenticator app removed",
+        module: "auth",
+        status: "success",
+      } as any);
+
+      setFactorId(null);
+      setRecoveryCodes([]);
+      setRemainingCodes(0);
+      toast({ title: "Two-factor disabled", description: "Your authenticator app was removed" });
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message || "Failed to disable two-factor", variant: "destructive" });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    setWorking(true);
+    try {
+      await generateRecoveryCodes();
+      toast({ title: "Recovery codes regenerated", description: "Your previous codes no longer work" });
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const copyToClipboard = async (text: string) => {
+    await navigator.clipboard.writeText(text);
+    toast({ title: "Copied", description: "Copied to clipboard" });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            <CardTitle>Two-Factor Authentication</CardTitle>
+          </div>
+          {!loading && (
+            <Badge variant={factorId ? "default" : "secondary"}>{factorId ? "Enabled" : "Disabled"}</Badge>
+          )}
+        </div>
+        <CardDescription>
+          Require a code from an authenticator app after signing in with your password
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="animate-pulse text-sm text-muted-foreground">Loading...</div>
+        ) : enrollment ? (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Scan this QR code with Google Authenticator, 1Password, Authy or a similar app, then enter the 6-digit code it shows.
+            </p>
+            <div className="flex justify-center">
+              <img src={enrollment.qrCode} alt="Authenticator QR code" className="h-44 w-44 rounded-md bg-white p-2" />
+            </div>
+            <div className="space-y-1">
+              <Label>Can't scan? Enter this key manually</Label>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 rounded-md bg-muted px-3 py-2 text-sm break-all">{enrollment.secret}</code>
+                <Button variant="ghost" size="icon" onClick={() => copyToClipboard(enrollment.secret)}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+            <div className="flex justify-center">
+              <InputOTP maxLength={6} value={code} onChange={setCode}>
+                <InputOTPGroup>
+                  <InputOTPSlot index={0} />
+                  <InputOTPSlot index={1} />
+                  <InputOTPSlot index={2} />
+                  <InputOTPSlot index={3} />
+                  <InputOTPSlot index={4} />
+                  <InputOTPSlot index={5} />
+                </InputOTPGroup>
+              </InputOTP>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setEnrollment(null)} disabled={working}>Cancel</Button>
+              <Button onClick={handleVerifyEnrollment} disabled={working || code.length !== 6}>
+                {working && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Verify & Enable
+              </Button>
+            </div>
+          </div>
+        ) : factorId ? (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-muted-foreground">
+                {remainingCodes} unused recovery code{remainingCodes === 1 ? "" : "s"} left
+              </p>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={handleRegenerate} disabled={working}>Regenerate Codes</Button>
+                <Button variant="destructive" onClick={handleDisable} disabled={working || required}>Disable</Button>
+              </div>
+            </div>
+            {required && (
+              <p className="text-xs text-muted-foreground">
+                Two-factor authentication is required for your role and cannot be disabled.
+              </p>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {required && (
+              <p className="text-sm text-destructive">
+                Your organization requires two-factor authentication for your role. Set it up to continue using the app.
+              </p>
+            )}
+            <Button onClick={handleStartEnrollment} disabled={working}>
+              {working && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Set Up Authenticator App
+            </Button>
+          </div>
+        )}
+
+        {recoveryCodes.length > 0 && (
+          <div className="space-y-2 rounded-md border p-4">
+            <div className="flex items-center justify-between">
+              <Label>Recovery codes</Label>
+              <Button variant="ghost" size="sm" onClick={() => copyToClipboard(recoveryCodes.join("\n"))}>
+                <Copy className="h-4 w-4 mr-2" />
+                Copy
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Each code can be used once if you lose access to your authenticator app. They won't be shown again.
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+              {recoveryCodes.map((c) => (
+                <code key={c} className="rounded bg-muted px-2 py-1 text-center text-sm">{c}</code>
+              ))}
+            </div>
+            <div className="flex justify-end">
+              <Button variant="outline" size="sm" onClick={() => setRecoveryCodes([])}>I've saved them</Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,5 +1,6 @@
 import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import { getAdminAccess } from "@/lib/ip-allowlist";
 
 export function usePermissions() {
   const [permissions, setPermissions] = useState<
@@ -27,7 +28,7 @@ export function usePermissions() {
 
       // Build roles list - include both system roles and custom role names
       let rolesList: string[] = [];
-      const customRoleIds: string[] = [];
+      let customRoleIds: string[] = [];
 
       for (const r of userRoles || []) {
         if (r.role) {
@@ -38,6 +39,16 @@ export function usePermissions() {
         }
       }
 
+      // Roles whose IP allowlist excludes the current network are dropped, down to employee
+      const { blockedRoles } = await getAdminAccess();
+      if (blockedRoles.length > 0) {
+        rolesList = rolesList.filter((r) => !blockedRoles.includes(r));
+        customRoleIds = customRoleIds.filter((id) => !blockedRoles.includes(`custom_${id}`));
+        if (rolesList.length === 0 && customRoleIds.length === 0) {
+          rolesList.push("employee");
+        }
+      }
+
       // Fetch custom role names
       if (customRoleIds.length > 0) {
         const { data: customRoles } = await (supabase
@@ -0,0 +1,111 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { SignOutReason } from "@/lib/auth-gateway";
+import {
+  EffectiveSessionPolicy,
+  getEffectiveSessionPolicy,
+  getLastActivity,
+  getSessionStartedAt,
+  markActivity,
+} from "@/lib/session-policy";
+
+const ACTIVITY_EVENTS = ["mousedown", "mousemove", "keydown", "scroll", "touchstart"] as const;
+
+// Activity is written to storage at most this often; the idle clock has minute granularity anyway
+const ACTIVITY_THROTTLE_MS = 5000;
+
+/**
+ * Applies the session policy to the signed-in user: tracks activity, exposes the idle warning
+ * countdown and calls `onExpired` once the idle timeout or the maximum session age is reached.
+ */
+export function useSessionTimeout(
+  userId: string | null,
+  onExpired: (reason: Exclude<SignOutReason, "user">) => void
+) {
+  const [policy, setPolicy] = useState<EffectiveSessionPolicy | null>(null);
+  const [sessionStartedAt, setSessionStartedAt] = useState<number | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const warningRef = useRef(false);
+  const expiredRef = useRef(false);
+  const onExpiredRef = useRef(onExpired);
+  onExpiredRef.current = onExpired;
+
+  useEffect(() => {
+    if (!userId) return;
+    expiredRef.current = false;
+
+    Promise.all([getEffectiveSessionPolicy(userId), getSessionStartedAt()]).then(([limits, startedAt]) => {
+      // Activity stored before this session began belongs to an earlier sign-in. A stale value
+      // after the sign-in is kept on purpose: reopening the app after a long break counts as idle.
+      if (getLastActivity() < (startedAt ?? Date.now())) markActivity(startedAt ?? Date.now());
+      setSessionStartedAt(startedAt);
+      setPolicy(limits);
+    });
+  }, [userId]);
+
+  useEffect(() => {
+    if (!policy?.idle_timeout_minutes) return;
+
+    let lastWrite = 0;
+    const handleActivity = () => {
+      // Once the warning is up only "Stay signed in" counts, so a stray mouse move can't dismiss it
+      if (warningRef.current) return;
+      const now = Date.now();
+      if (now - lastWrite < ACTIVITY_THROTTLE_MS) return;
+      lastWrite = now;
+      markActivity(now);
+    };
+
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, handleActivity, { passive: true }));
+    return () => ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleActivity));
+  }, [policy]);
+
+  useEffect(() => {
+    if (!policy || (!policy.idle_timeout_minutes && !policy.max_session_hours)) return;
+
+    const expire = (reason: Exclude<SignOutReason, "user">) => {
+      expiredRef.current = true;
+      warningRef.current = false;
+      setSecondsLeft(null);
+      onExpiredRef.current(reason);
+    };
+
+    const tick = () => {
+      if (expiredRef.current) return;
+      const now = Date.now();
+
+      if (policy.max_session_hours && sessionStartedAt && now >= sessionStartedAt + policy.max_session_hours * 3_600_000) {
+        expire("max_session_age");
+        return;
+      }
+
+      if (!policy.idle_timeout_minutes) return;
+
+      const remaining = Math.ceil((getLastActivity() + policy.idle_timeout_minutes * 60_000 - now) / 1000);
+      if (remaining <= 0) {
+        expire("idle_timeout");
+        return;
+      }
+
+      // Another tab choosing "Stay signed in" moves the shared last activity and clears the warning here
+      warningRef.current = remaining <= policy.warning_seconds;
+      setSecondsLeft(warningRef.current ? remaining : null);
+    };
+
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [policy, sessionStartedAt]);
+
+  const staySignedIn = useCallback(() => {
+    markActivity();
+    warningRef.current = false;
+    setSecondsLeft(null);
+  }, []);
+
+  return {
+    warningOpen: secondsLeft !== null,
+    secondsLeft: secondsLeft ?? 0,
+    warningSeconds: policy?.warning_seconds ?? 60,
+    staySignedIn,
+  };
+}
@@ -0,0 +1,49 @@
+import { useCallback, useRef, useState } from "react";
+import StepUpDialog from "@/components/StepUpDialog";
+import { useToast } from "@/hooks/use-toast";
+import { isImpersonating } from "@/lib/impersonation";
+import { hasFreshStepUp } from "@/lib/step-up";
+
+/**
+ * Gate for sensitive actions: `await requireStepUp()` resolves true once the user has
+ * re-authenticated (immediately if they did so a moment ago) and false if they cancel.
+ * Render `stepUpDialog` somewhere in the calling component. Sensitive actions are never
+ * available while viewing as another user, so it resolves false straight away then.
+ */
+export function useStepUp() {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const resolveRef = useRef<((verified: boolean) => void) | null>(null);
+
+  const settle = (verified: boolean) => {
+    setOpen(false);
+    resolveRef.current?.(verified);
+    resolveRef.current = null;
+  };
+
+  const requireStepUp = useCallback(async () => {
+    if (isImpersonating()) {
+      toast({
+        title: "Not available",
+        description: "Stop viewing as this user to do that",
+        variant: "destructive",
+      });
+      return false;
+    }
+    if (await hasFreshStepUp()) return true;
+    setOpen(true);
+    return new Promise<boolean>((resolve) => {
+      resolveRef.current = resolve;
+    });
+  }, [toast]);
+
+  const stepUpDialog = (
+    <StepUpDialog
+      open={open}
+      onOpenChange={(isOpen) => !isOpen && settle(false)}
+      onVerified={() => settle(true)}
+    />
+  );
+
+  return { requireStepUp, stepUpDialog };
+}
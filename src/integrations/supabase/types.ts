@@ -125,30 +125,45 @@ export type Database = {
       otp_verifications: {
         Row: {
           attempts: number | null
+          consumed_at: string | null
           created_at: string
           email: string
           expires_at: string
+          flow: string
           id: string
-          otp_code: string
+          link_token_hash: string | null
+          otp_hash: string
+          otp_salt: string
           verified: boolean | null
+          verified_at: string | null
         }
         Insert: {
           attempts?: number | null
+          consumed_at?: string | null
           created_at?: string
           email: string
           expires_at: string
+          flow: string
           id?: string
-          otp_code: string
+          link_token_hash?: string | null
+          otp_hash: string
+          otp_salt: string
           verified?: boolean | null
+          verified_at?: string | null
         }
         Update: {
           attempts?: number | null
+          consumed_at?: string | null
           created_at?: string
           email?: string
           expires_at?: string
+          flow?: string
           id?: string
-          otp_code?: string
+          link_token_hash?: string | null
+          otp_hash?: string
+          otp_salt?: string
           verified?: boolean | null
+          verified_at?: string | null
         }
         Relationships: []
       }
@@ -191,6 +206,7 @@ export type Database = {
           join_date: string | null
           last_sign_in: string | null
           location: string | null
+          password_changed_at: string
           password_set: boolean | null
           position: string | null
           profile_picture_url: string | null
@@ -215,6 +231,7 @@ export type Database = {
           join_date?: string | null
           last_sign_in?: string | null
           location?: string | null
+          password_changed_at?: string
           password_set?: boolean | null
           position?: string | null
           profile_picture_url?: string | null
@@ -239,6 +256,7 @@ export type Database = {
           join_date?: string | null
           last_sign_in?: string | null
           location?: string | null
+          password_changed_at?: string
           password_set?: boolean | null
           position?: string | null
           profile_picture_url?: string | null
@@ -0,0 +1,55 @@
+import { AuthError, FunctionsHttpError, Session } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { isImpersonating, stopImpersonation } from "@/lib/impersonation";
+import { invokeWithProof } from "@/lib/proof-of-work";
+
+/**
+ * Password sign-in goes through the auth-login edge function, which checks the account,
+ * authenticates and writes the audit row server-side; the returned tokens become the local session.
+ */
+export async function signInWithPassword(email: string, password: string) {
+  const { data, error } = await invokeWithProof("auth-login", { action: "password", email, password });
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || "Unable to sign in");
+
+  const { error: sessionError } = await supabase.auth.setSession(data.session);
+  if (sessionError) throw sessionError;
+}
+
+/**
+ * OAuth sign-ins (Google, Microsoft, GitHub) finish in the browser, so the app reports them for
+ * the audit log and new-device alerts. The server records each OAuth session only once, and only
+ * right after the provider authenticated it, so calling this on every load is harmless.
+ */
+export async function reportOAuthSignIn(session: Session) {
+  try {
+    const payload = JSON.parse(atob(session.access_token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/")));
+    const amr: { method: string }[] = payload.amr ?? [];
+    if (!amr.some((entry) => entry.method === "oauth")) return;
+
+    await supabase.functions.invoke("auth-login", { body: { action: "oauth" } });
+  } catch (error) {
+    console.error("Error recording sign-in:", error);
+  }
+}
+
+export type SignOutReason = "user" | "idle_timeout" | "max_session_age";
+
+/** Records the sign-out (and why it happened) server-side before the local session is cleared */
+export async function signOut(reason: SignOutReason = "user") {
+  // Signing out of an impersonation ends it and signs the super admin out as well
+  if (isImpersonating()) await stopImpersonation("signed_out");
+  try {
+    await supabase.functions.invoke("auth-login", { body: { action: "logout", reason } });
+  } catch (error) {
+    // Never keep someone signed in because the audit call failed
+    console.error("Error recording sign-out:", error);
+  }
+  await supabase.auth.signOut();
+}
+
+/** Sign-in edge functions answer 403; GoTrue itself refuses suspended (banned) users with user_banned */
+export function isAccountSuspended(error: unknown) {
+  if (error instanceof AuthError && error.code === "user_banned") return true;
+  return error instanceof FunctionsHttpError && (error.context as Response).status === 403;
+}
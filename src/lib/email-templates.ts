@@ -0,0 +1,40 @@
+export const EMAIL_TEMPLATE_FLOWS = [
+  { value: "signup", label: "Sign-up verification" },
+  { value: "forgot_password", label: "Password reset" },
+  { value: "email_change", label: "Email change" },
+  { value: "passwordless", label: "Passwordless sign-in" },
+];
+
+// Also the choices for the user's language in Settings > Regional, which picks the email variant
+export const EMAIL_TEMPLATE_LANGUAGES = [
+  { value: "en", label: "English" },
+  { value: "es", label: "Spanish" },
+  { value: "fr", label: "French" },
+  { value: "de", label: "German" },
+];
+
+export const DEFAULT_TEMPLATE_LANGUAGE = "en";
+
+export const EMAIL_TEMPLATE_VARIABLES = [
+  { name: "code", description: "The one-time verification code" },
+  { name: "expires_minutes", description: "Minutes until the code expires" },
+  { name: "full_name", description: "Recipient's name, or \"there\" for new sign-ups" },
+  { name: "magic_link", description: "Single-use sign-in link (passwordless only)" },
+];
+
+export const SAMPLE_TEMPLATE_VARIABLES: Record<string, string> = {
+  code: "123456",
+  expires_minutes: "10",
+  full_name: "Jane Doe",
+  magic_link: "#",
+};
+
+export type EmailTemplate = {
+  subject: string;
+  html: string;
+};
+
+/** Client-side twin of renderTemplate in supabase/functions/_shared/email-templates.ts, for previews */
+export function renderTemplate(template: string, variables: Record<string, string>) {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => variables[name] ?? match);
+}
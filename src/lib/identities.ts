@@ -0,0 +1,48 @@
+import type { UserIdentity } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { assertNotImpersonating } from "@/lib/impersonation";
+
+export type LinkableProvider = "google" | "azure" | "github";
+
+export const LINKABLE_PROVIDERS: { value: LinkableProvider; label: string }[] = [
+  { value: "google", label: "Google" },
+  { value: "azure", label: "Microsoft" },
+  { value: "github", label: "GitHub" },
+];
+
+export function getProviderLabel(provider: string) {
+  if (provider === "email") return "Email & password";
+  if (provider.startsWith("sso:")) return "Single sign-on";
+  return LINKABLE_PROVIDERS.find((p) => p.value === provider)?.label ?? provider;
+}
+
+export async function listIdentities(): Promise<UserIdentity[]> {
+  const { data, error } = await supabase.auth.getUserIdentities();
+  if (error) throw error;
+  return data.identities;
+}
+
+/**
+ * Sends the browser to the provider; Supabase Auth attaches the identity and returns to Settings.
+ * The database only accepts the link after a recent step-up, so callers gate it with useStepUp.
+ */
+export async function linkProvider(provider: LinkableProvider) {
+  assertNotImpersonating();
+  const { error } = await supabase.auth.linkIdentity({
+    provider,
+    options: { redirectTo: `${window.location.origin}/settings?tab=security` },
+  });
+  if (error) throw error;
+}
+
+/** Removing the last identity would leave no way to sign in; Supabase Auth refuses that too */
+export async function unlinkIdentity(identity: UserIdentity, identities: UserIdentity[]) {
+  assertNotImpersonating();
+  if (identities.length <= 1) {
+    throw new Error("Your account needs at least one way to sign in");
+  }
+  const { error } = await supabase.auth.unlinkIdentity(identity);
+  if (error) throw error;
+  // Refresh the session so the user's app_metadata.providers drops the provider
+  await supabase.auth.refreshSession();
+}
@@ -0,0 +1,100 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type ImpersonationDuration = 15 | 30 | 60;
+
+export type ImpersonationEndReason = "user" | "expired" | "signed_out";
+
+export type Impersonation = {
+  id: string;
+  targetUserId: string;
+  targetName: string | null;
+  targetEmail: string;
+  expiresAt: string;
+  // The super admin's own session, restored when the impersonation ends
+  adminSession: { access_token: string; refresh_token: string };
+};
+
+const STORAGE_KEY = "impersonation_state";
+
+export const IMPERSONATION_DURATIONS: { value: ImpersonationDuration; label: string }[] = [
+  { value: 15, label: "15 minutes" },
+  { value: 30, label: "30 minutes" },
+  { value: 60, label: "1 hour" },
+];
+
+/** The impersonation this browser is in, shared by every tab */
+export function getImpersonation(): Impersonation | null {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as Impersonation) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function isImpersonating() {
+  return getImpersonation() !== null;
+}
+
+/**
+ * Error for actions that belong to the account owner (factors, identities, sessions).
+ * The server refuses them too; checking first avoids a confusing failure halfway through.
+ */
+export function assertNotImpersonating() {
+  if (isImpersonating()) {
+    throw new Error("Not available while viewing as another user");
+  }
+}
+
+/** Swaps this browser onto a time-limited session of `userId`; reload the app afterwards */
+export async function startImpersonation(userId: string, reason: string, minutes: ImpersonationDuration) {
+  const { data: { session: adminSession } } = await supabase.auth.getSession();
+  if (!adminSession) throw new Error("You are not signed in");
+
+  const { data, error } = await supabase.functions.invoke("impersonation", {
+    body: { action: "start", userId, reason, minutes },
+  });
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || "Unable to start impersonation");
+
+  const impersonation: Impersonation = {
+    ...data.impersonation,
+    adminSession: {
+      access_token: adminSession.access_token,
+      refresh_token: adminSession.refresh_token,
+    },
+  };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(impersonation));
+
+  const { error: sessionError } = await supabase.auth.setSession(data.session);
+  if (sessionError) {
+    localStorage.removeItem(STORAGE_KEY);
+    throw sessionError;
+  }
+}
+
+/**
+ * Ends the impersonation server-side and switches back to the super admin's own session.
+ * Returns the impersonated user's id, or null when there was nothing to stop. If the admin
+ * session can no longer be restored, the browser ends up signed out.
+ */
+export async function stopImpersonation(reason: ImpersonationEndReason = "user") {
+  const impersonation = getImpersonation();
+  if (!impersonation) return null;
+
+  try {
+    await supabase.functions.invoke("impersonation", { body: { action: "stop", reason } });
+  } catch (error) {
+    // The session expires on its own; never strand the admin in it because this call failed
+    console.error("Error ending impersonation:", error);
+  }
+
+  localStorage.removeItem(STORAGE_KEY);
+  const { error } = await supabase.auth.setSession(impersonation.adminSession);
+  if (error) {
+    console.error("Error restoring admin session:", error);
+    await supabase.auth.signOut({ scope: "local" });
+  }
+
+  return impersonation.targetUserId;
+}
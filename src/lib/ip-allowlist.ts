@@ -0,0 +1,89 @@
+import { supabase } from "@/integrations/supabase/client";
+
+/** { "<role>": ["10.0.0.0/8", ...] }; custom roles are keyed "custom_<id>" */
+export type IpAllowlists = Record<string, string[]>;
+
+export type AdminAccess = {
+  ip: string;
+  blockedRoles: string[];
+  allowed: boolean;
+};
+
+export const ADMIN_ROUTES = ["/users", "/rbac", "/activity-logs", "/scheduled-jobs"];
+
+export const isAdminRoute = (pathname: string) =>
+  ADMIN_ROUTES.some((route) => pathname === route || pathname.startsWith(`${route}/`));
+
+const ALLOWED_EVERYWHERE: AdminAccess = { ip: "", blockedRoles: [], allowed: true };
+
+// Every usePermissions() asks, so one answer is shared for a minute
+const CACHE_MS = 60 * 1000;
+let cached: { at: number; access: Promise<AdminAccess> } | null = null;
+
+/**
+ * Which of the user's roles the IP allowlists rule out from the current network. The database
+ * and the edge functions enforce the lists themselves, so a failed check here leaves the UI as it was.
+ */
+export function getAdminAccess(): Promise<AdminAccess> {
+  if (cached && Date.now() - cached.at < CACHE_MS) return cached.access;
+
+  const access = supabase.functions
+    .invoke("admin-access", { body: {} })
+    .then(({ data, error }) => (error ? ALLOWED_EVERYWHERE : (data as AdminAccess)))
+    .catch(() => ALLOWED_EVERYWHERE);
+  cached = { at: Date.now(), access };
+  return access;
+}
+
+/** Drops the shared answer, e.g. after the allowlists change */
+export function forgetAdminAccess() {
+  cached = null;
+}
+
+/** Checks, and audits when denied, opening an admin route from the current network */
+export async function checkAdminRoute(pathname: string): Promise<AdminAccess> {
+  const { data, error } = await supabase.functions.invoke("admin-access", { body: { resource: pathname } });
+  if (error) return ALLOWED_EVERYWHERE;
+  return data as AdminAccess;
+}
+
+const isValidIpv4 = (value: string) =>
+  /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/.test(value) &&
+  value.split(".").every((part) => Number(part) <= 255);
+
+const isValidIpv6 = (value: string) => {
+  if (!value.includes(":")) return false;
+  try {
+    new URL(`http://[${value}]`);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/** An IPv4 or IPv6 address, optionally with a /prefix */
+export function isValidCidr(value: string) {
+  const [address, prefix, ...rest] = value.trim().split("/");
+  if (rest.length) return false;
+  const bits = isValidIpv4(address) ? 32 : isValidIpv6(address) ? 128 : 0;
+  if (!bits) return false;
+  if (prefix === undefined) return true;
+  return /^\d{1,3}$/.test(prefix) && Number(prefix) <= bits;
+}
+
+/**
+ * Whether an IPv4 `ip` is covered by one of `cidrs`, so admins are stopped before locking
+ * themselves out; null for IPv6, which only the server matches
+ */
+export function ipv4InCidrs(ip: string, cidrs: string[]) {
+  if (!isValidIpv4(ip)) return null;
+  const toNumber = (address: string) =>
+    address.split(".").reduce((value, part) => value * 256 + Number(part), 0);
+
+  return cidrs.some((cidr) => {
+    const [address, prefix = "32"] = cidr.trim().split("/");
+    if (!isValidIpv4(address)) return false;
+    const size = 2 ** (32 - Number(prefix));
+    return Math.floor(toNumber(ip) / size) === Math.floor(toNumber(address) / size);
+  });
+}
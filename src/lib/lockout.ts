@@ -0,0 +1,31 @@
+import { AuthError, FunctionsHttpError } from "@supabase/supabase-js";
+
+/**
+ * When a sign-in failed because the account is locked, the time the lock ends.
+ * The auth-login, passkey and passwordless edge functions answer 423 with { lockedUntil };
+ * a direct GoTrue password sign-in is rejected by the verification hook ("Account locked until <iso>").
+ */
+export async function getLockedUntil(error: unknown): Promise<Date | null> {
+  if (error instanceof AuthError) {
+    const match = error.message.match(/Account locked until (\S+)/);
+    return match ? new Date(match[1]) : null;
+  }
+
+  if (error instanceof FunctionsHttpError) {
+    const response: Response = error.context;
+    if (response.status !== 423) return null;
+    try {
+      const body = await response.clone().json();
+      return body?.lockedUntil ? new Date(body.lockedUntil) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  return null;
+}
+
+export function formatLockedMessage(lockedUntil: Date | string) {
+  const until = new Date(lockedUntil);
+  return `Too many failed sign-in attempts. Try again after ${until.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })} or ask an administrator to unlock your account.`;
+}
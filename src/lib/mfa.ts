@@ -0,0 +1,34 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export const MFA_ROLE_OPTIONS = [
+  { value: "super_admin", label: "Super Admin" },
+  { value: "admin", label: "Admin" },
+  { value: "hr", label: "HR" },
+  { value: "manager", label: "Manager" },
+  { value: "employee", label: "User" },
+];
+
+export type MfaStatus = {
+  /** Verified TOTP factor, if the user has enrolled an authenticator app */
+  factorId: string | null;
+  /** The session still has to pass the TOTP challenge (aal1 -> aal2) */
+  challengeRequired: boolean;
+  /** The user's role requires MFA but no authenticator is enrolled yet */
+  enrollmentRequired: boolean;
+};
+
+export async function getMfaStatus(userId: string): Promise<MfaStatus> {
+  const [{ data: aal }, { data: factors }, { data: required }] = await Promise.all([
+    supabase.auth.mfa.getAuthenticatorAssuranceLevel(),
+    supabase.auth.mfa.listFactors(),
+    (supabase as any).rpc("mfa_required_for_user", { _user_id: userId }),
+  ]);
+
+  const factorId = factors?.totp?.[0]?.id ?? null;
+
+  return {
+    factorId,
+    challengeRequired: aal?.currentLevel === "aal1" && aal?.nextLevel === "aal2",
+    enrollmentRequired: !!required && !factorId,
+  };
+}
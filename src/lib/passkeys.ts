@@ -0,0 +1,60 @@
+import { startAuthentication, startRegistration } from "@simplewebauthn/browser";
+import { supabase } from "@/integrations/supabase/client";
+import { invokeWithProof } from "@/lib/proof-of-work";
+
+export type Passkey = {
+  id: string;
+  name: string;
+  created_at: string;
+  last_used_at: string | null;
+};
+
+/**
+ * Registers a passkey on this device. Needs a recent step-up, so callers gate it with useStepUp
+ * and handle isStepUpRequired.
+ */
+export async function registerPasskey(name?: string) {
+  const { data: start, error: startError } = await supabase.functions.invoke("passkey-register", {
+    body: { action: "options" },
+  });
+  if (startError) throw startError;
+  if (!start?.success) throw new Error(start?.error || "Failed to start passkey registration");
+
+  const response = await startRegistration({ optionsJSON: start.options });
+
+  const { data, error } = await supabase.functions.invoke("passkey-register", {
+    body: { action: "verify", challengeId: start.challengeId, name, response },
+  });
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || "Passkey could not be verified");
+
+  return data.passkey as Passkey;
+}
+
+/**
+ * Runs the WebAuthn ceremony and exchanges the result for a Supabase session. In anti-enumeration
+ * mode the server ignores `email` and the browser offers every passkey for this site.
+ */
+export async function signInWithPasskey(email?: string) {
+  const { data: start, error: startError } = await invokeWithProof("passkey-authenticate", {
+    action: "options",
+    email: email || undefined,
+  });
+  if (startError || !start?.success) throw new Error(start?.error || "Failed to start passkey sign-in");
+
+  const response = await startAuthentication({ optionsJSON: start.options });
+
+  const { data, error } = await supabase.functions.invoke("passkey-authenticate", {
+    body: { action: "verify", challengeId: start.challengeId, response },
+  });
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || "Passkey could not be verified");
+
+  const { error: sessionError } = await supabase.auth.verifyOtp({
+    token_hash: data.tokenHash,
+    type: "magiclink",
+  });
+  if (sessionError) throw sessionError;
+
+  return data.passkeyName as string;
+}
@@ -0,0 +1,128 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+/** Client copy of the password policy; the banned list and reuse checks stay server-side */
+export type PasswordPolicy = {
+  min_length: number;
+  require_uppercase: boolean;
+  require_lowercase: boolean;
+  require_number: boolean;
+  require_symbol: boolean;
+  history_count: number;
+  max_age_days: number;
+};
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  min_length: 8,
+  require_uppercase: true,
+  require_lowercase: true,
+  require_number: true,
+  require_symbol: false,
+  history_count: 5,
+  max_age_days: 0,
+};
+
+export async function getPasswordPolicy(): Promise<PasswordPolicy> {
+  const { data } = await (supabase as any).rpc("get_password_policy");
+  return { ...DEFAULT_PASSWORD_POLICY, ...(data || {}) };
+}
+
+/** Same rules as supabase/functions/_shared/password-policy.ts, for instant feedback */
+export function validatePassword(password: string, policy: PasswordPolicy, email?: string) {
+  const problems: string[] = [];
+
+  if (password.length < policy.min_length) {
+    problems.push(`Password must be at least ${policy.min_length} characters`);
+  }
+  if (policy.require_uppercase && !/[A-Z]/.test(password)) {
+    problems.push("Password must contain an uppercase letter");
+  }
+  if (policy.require_lowercase && !/[a-z]/.test(password)) {
+    problems.push("Password must contain a lowercase letter");
+  }
+  if (policy.require_number && !/[0-9]/.test(password)) {
+    problems.push("Password must contain a number");
+  }
+  if (policy.require_symbol && !/[^A-Za-z0-9]/.test(password)) {
+    problems.push("Password must contain a symbol");
+  }
+
+  const emailName = email?.split("@")[0]?.toLowerCase();
+  if (emailName && emailName.length >= 3 && password.toLowerCase().includes(emailName)) {
+    problems.push("Password must not contain your email address");
+  }
+
+  return problems;
+}
+
+export function describePasswordPolicy(policy: PasswordPolicy) {
+  const classes = [
+    policy.require_uppercase && "an uppercase letter",
+    policy.require_lowercase && "a lowercase letter",
+    policy.require_number && "a number",
+    policy.require_symbol && "a symbol",
+  ].filter(Boolean) as string[];
+
+  const base = `At least ${policy.min_length} characters`;
+  if (classes.length === 0) return base;
+  if (classes.length === 1) return `${base}, including ${classes[0]}`;
+  return `${base}, including ${classes.slice(0, -1).join(", ")} and ${classes[classes.length - 1]}`;
+}
+
+const CHARSETS = {
+  upper: "ABCDEFGHJKLMNPQRSTUVWXYZ",
+  lower: "abcdefghijkmnopqrstuvwxyz",
+  number: "23456789",
+  symbol: "!@#$%^&*",
+};
+
+const randomChar = (charset: string) => {
+  const [value] = crypto.getRandomValues(new Uint32Array(1));
+  return charset[value % charset.length];
+};
+
+/** Random password that satisfies the policy, with at least one character of each required class */
+export function generatePassword(policy: PasswordPolicy) {
+  const length = Math.max(policy.min_length, 12);
+  const all = CHARSETS.upper + CHARSETS.lower + CHARSETS.number + CHARSETS.symbol;
+  const chars = [
+    policy.require_uppercase && randomChar(CHARSETS.upper),
+    policy.require_lowercase && randomChar(CHARSETS.lower),
+    policy.require_number && randomChar(CHARSETS.number),
+    policy.require_symbol && randomChar(CHARSETS.symbol),
+  ].filter(Boolean) as string[];
+
+  while (chars.length < length) chars.push(randomChar(all));
+
+  // Fisher-Yates so the required characters are not always up front
+  for (let i = chars.length - 1; i > 0; i--) {
+    const [value] = crypto.getRandomValues(new Uint32Array(1));
+    const j = value % (i + 1);
+    [chars[i], chars[j]] = [chars[j], chars[i]];
+  }
+  return chars.join("");
+}
+
+/**
+ * Error message from an edge function that rejected a password; functions.invoke leaves
+ * `data` empty on non-2xx, so the body is read from the response
+ */
+export async function getPasswordError(error: unknown): Promise<string | null> {
+  if (!(error instanceof FunctionsHttpError)) return null;
+  try {
+    const body = await (error.context as Response).clone().json();
+    if (Array.isArray(body?.problems)) return body.problems.join(". ");
+    return body?.error ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/** Sets a new password through the change-password edge function, which enforces the policy */
+export async function changePassword(newPassword: string, currentPassword?: string) {
+  const { data, error } = await supabase.functions.invoke("change-password", {
+    body: { newPassword, currentPassword: currentPassword || undefined },
+  });
+  if (error) throw new Error((await getPasswordError(error)) || "Failed to update password");
+  if (!data?.success) throw new Error(data?.error || "Failed to update password");
+}
@@ -0,0 +1,28 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { OtpChannel } from "@/lib/phone";
+import { invokeWithProof } from "@/lib/proof-of-work";
+
+export async function isPasswordlessEnabled() {
+  const { data } = await (supabase as any).rpc("get_auth_settings");
+  return !!data?.passwordless_enabled;
+}
+
+/** Resolves to where the code went: the email address, or the masked phone number for SMS */
+export async function sendSignInCode(email: string, channel: OtpChannel = "email") {
+  const { data, error } = await invokeWithProof("send-otp", { email, flow: "passwordless", channel });
+  if (error) throw error;
+  return (data?.sentTo as string | undefined) ?? email;
+}
+
+/** Exchanges an emailed code or single-use link token for a Supabase session */
+export async function signInWithoutPassword(body: { email: string; otp: string } | { token: string }) {
+  const { data, error } = await supabase.functions.invoke("passwordless-login", { body });
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || "Unable to sign in");
+
+  const { error: sessionError } = await supabase.auth.verifyOtp({
+    token_hash: data.tokenHash,
+    type: "magiclink",
+  });
+  if (sessionError) throw sessionError;
+}
@@ -0,0 +1,34 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+export type OtpChannel = "email" | "sms";
+
+/** The message from a phone-verification / send-otp error response */
+export async function getPhoneError(error: unknown): Promise<string | null> {
+  if (!(error instanceof FunctionsHttpError)) return null;
+  try {
+    const body = await (error.context as Response).clone().json();
+    return body?.error ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/** Texts a code to the contact number saved on the caller's profile; resolves to the masked number */
+export async function sendPhoneVerificationCode() {
+  const { data, error } = await supabase.functions.invoke("phone-verification", {
+    body: { action: "send" },
+  });
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || "Failed to send verification code");
+  return data.sentTo as string;
+}
+
+export async function verifyPhoneCode(code: string) {
+  const { data, error } = await supabase.functions.invoke("phone-verification", {
+    body: { action: "verify", code },
+  });
+  if (error) throw new Error((await getPhoneError(error)) || "Invalid or expired code");
+  if (!data?.success) throw new Error(data?.error || "Invalid or expired code");
+  return data.verifiedAt as string;
+}
@@ -0,0 +1,49 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type ProofOfWork = {
+  challenge: string;
+  nonce: string;
+};
+
+const encoder = new TextEncoder();
+
+function leadingZeroBits(bytes: Uint8Array) {
+  let bits = 0;
+  for (const byte of bytes) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+  return bits;
+}
+
+/** Whether the sign-in screens must look the same for known and unknown addresses */
+export async function isEnumerationProtected() {
+  const { data } = await (supabase as any).rpc("get_auth_settings");
+  return !!data?.enumeration_protection;
+}
+
+/**
+ * Fetches a challenge and searches for a nonce whose SHA-256 has enough leading zero bits.
+ * Resolves undefined when the anti-enumeration mode is off and no proof is needed.
+ */
+export async function solveProofOfWork(): Promise<ProofOfWork | undefined> {
+  const { data, error } = await supabase.functions.invoke("auth-challenge", { body: {} });
+  if (error) throw error;
+  if (!data?.required) return undefined;
+
+  for (let nonce = 0; ; nonce++) {
+    const digest = await crypto.subtle.digest("SHA-256", encoder.encode(`${data.challenge}:${nonce}`));
+    if (leadingZeroBits(new Uint8Array(digest)) >= data.difficulty) {
+      return { challenge: data.challenge, nonce: String(nonce) };
+    }
+  }
+}
+
+/** functions.invoke for the anonymous auth endpoints, which want a fresh proof per request */
+export async function invokeWithProof(functionName: string, body: Record<string, unknown>) {
+  const proof = await solveProofOfWork();
+  return supabase.functions.invoke(functionName, { body: { ...body, proof } });
+}
@@ -0,0 +1,28 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+
+/**
+ * Seconds to wait when an edge function answered 429, or null for any other error.
+ * functions.invoke leaves `data` empty on non-2xx, so the body is read from the response.
+ */
+export async function getRetryAfter(error: unknown): Promise<number | null> {
+  if (!(error instanceof FunctionsHttpError)) return null;
+
+  const response: Response = error.context;
+  if (response.status !== 429) return null;
+
+  try {
+    const body = await response.clone().json();
+    if (typeof body?.retryAfter === "number") return body.retryAfter;
+  } catch {
+    // Fall back to the header below
+  }
+
+  return parseInt(response.headers.get("Retry-After") || "60", 10);
+}
+
+export function formatRetryAfter(seconds: number) {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
@@ -0,0 +1,47 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type PendingRecoveryEmail = {
+  email: string;
+  expires_at: string;
+};
+
+/** The address still waiting for its verification link to be opened, if any */
+export async function getPendingRecoveryEmail() {
+  const { data } = await (supabase as any)
+    .from("recovery_email_verifications")
+    .select("email, expires_at")
+    .gt("expires_at", new Date().toISOString())
+    .maybeSingle();
+  return (data ?? null) as PendingRecoveryEmail | null;
+}
+
+/**
+ * Emails a verification link to `email`; it becomes the recovery email once the link is opened.
+ * Needs a recent step-up, so callers gate it with useStepUp and handle isStepUpRequired.
+ */
+export async function sendRecoveryEmailVerification(email: string) {
+  const { data, error } = await supabase.functions.invoke("recovery-email", {
+    body: { action: "send", email },
+  });
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || "Failed to send verification link");
+  return data.sentTo as string;
+}
+
+/** Removes the recovery email and any address waiting for verification; needs a recent step-up */
+export async function removeRecoveryEmail() {
+  const { data, error } = await supabase.functions.invoke("recovery-email", {
+    body: { action: "remove" },
+  });
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || "Failed to remove recovery email");
+}
+
+/** Redeems the link sent to a new recovery email; resolves to the verified address */
+export async function verifyRecoveryEmail(token: string) {
+  const { data, error } = await supabase.functions.invoke("verify-recovery-email", {
+    body: { token },
+  });
+  if (error || !data?.success) throw error ?? new Error(data?.error || "Verification failed");
+  return data.email as string;
+}
@@ -0,0 +1,86 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type ScheduledJob = {
+  name: string;
+  description: string;
+  schedule: string;
+  function_name: string;
+  enabled: boolean;
+  updated_at: string;
+};
+
+export type JobRunStatus = "running" | "succeeded" | "failed";
+
+export type JobRun = {
+  id: string;
+  job_name: string;
+  trigger: "schedule" | "manual";
+  triggered_by: string | null;
+  status: JobRunStatus;
+  started_at: string;
+  finished_at: string | null;
+  duration_ms: number | null;
+  rows_affected: number | null;
+  error: string | null;
+};
+
+export async function listScheduledJobs() {
+  const { data, error } = await (supabase as any).from("scheduled_jobs").select("*").order("name");
+  if (error) throw error;
+  return (data || []) as ScheduledJob[];
+}
+
+/** Most recent runs first, optionally of one job or with one outcome */
+export async function listJobRuns(filters: { jobName?: string; status?: JobRunStatus } = {}, limit = 100) {
+  let query = (supabase as any)
+    .from("job_runs")
+    .select("*")
+    .order("started_at", { ascending: false })
+    .limit(limit);
+  if (filters.jobName) query = query.eq("job_name", filters.jobName);
+  if (filters.status) query = query.eq("status", filters.status);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as JobRun[];
+}
+
+/** Runs the job now, even while it is paused; resolves to the recorded run */
+export async function runScheduledJob(jobName: string) {
+  const { data: runId, error } = await (supabase as any).rpc("trigger_scheduled_job", { _job_name: jobName });
+  if (error) throw error;
+
+  const { data: run, error: runError } = await (supabase as any)
+    .from("job_runs")
+    .select("*")
+    .eq("id", runId)
+    .single();
+  if (runError) throw runError;
+  return run as JobRun;
+}
+
+export async function setScheduledJobEnabled(jobName: string, enabled: boolean) {
+  const { error } = await (supabase as any).rpc("set_scheduled_job_enabled", {
+    _job_name: jobName,
+    _enabled: enabled,
+  });
+  if (error) throw error;
+}
+
+/** "every 15 minutes" for the common shapes, otherwise the cron expression itself */
+export function describeSchedule(schedule: string) {
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = schedule.trim().split(/\s+/);
+  const everyDay = dayOfMonth === "*" && month === "*" && dayOfWeek === "*";
+  const pad = (value: string) => value.padStart(2, "0");
+
+  if (everyDay && hour === "*" && minute.startsWith("*/")) return `Every ${minute.slice(2)} minutes`;
+  if (everyDay && hour === "*" && /^\d+$/.test(minute)) return `Hourly at :${pad(minute)}`;
+  if (everyDay && /^\d+$/.test(hour) && /^\d+$/.test(minute)) return `Daily at ${pad(hour)}:${pad(minute)} UTC`;
+  return schedule;
+}
+
+export function formatDuration(ms: number | null) {
+  if (ms === null) return "—";
+  if (ms < 1000) return `${ms} ms`;
+  return `${(ms / 1000).toFixed(1)} s`;
+}
@@ -0,0 +1,51 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type SessionLimits = {
+  /** Minutes without activity before the session is ended; 0 = never */
+  idle_timeout_minutes: number;
+  /** Hours after sign-in when the session ends regardless of activity; 0 = never */
+  max_session_hours: number;
+};
+
+/** The `session_policy` system setting edited in Settings → Security */
+export type SessionPolicy = SessionLimits & {
+  /** How long the countdown dialog is shown before an idle sign-out */
+  warning_seconds: number;
+  /** Per system role; a missing field falls back to the organization default */
+  role_overrides: Record<string, Partial<SessionLimits>>;
+};
+
+export type EffectiveSessionPolicy = SessionLimits & { warning_seconds: number };
+
+export const DEFAULT_SESSION_POLICY: SessionPolicy = {
+  idle_timeout_minutes: 0,
+  warning_seconds: 60,
+  max_session_hours: 0,
+  role_overrides: {},
+};
+
+/** The limits that apply to this user once role overrides are resolved (strictest role wins) */
+export async function getEffectiveSessionPolicy(userId: string): Promise<EffectiveSessionPolicy> {
+  const { data } = await (supabase as any).rpc("session_policy_for_user", { _user_id: userId });
+  return {
+    idle_timeout_minutes: data?.idle_timeout_minutes ?? 0,
+    max_session_hours: data?.max_session_hours ?? 0,
+    warning_seconds: data?.warning_seconds ?? DEFAULT_SESSION_POLICY.warning_seconds,
+  };
+}
+
+export async function getSessionStartedAt(): Promise<number | null> {
+  const { data } = await (supabase as any).rpc("current_session_started_at");
+  return data ? new Date(data).getTime() : null;
+}
+
+// Shared by every tab of the app, so activity in one keeps the others alive
+const LAST_ACTIVITY_KEY = "last_activity_at";
+
+export function getLastActivity() {
+  return parseInt(localStorage.getItem(LAST_ACTIVITY_KEY) || "0", 10);
+}
+
+export function markActivity(at = Date.now()) {
+  localStorage.setItem(LAST_ACTIVITY_KEY, String(at));
+}
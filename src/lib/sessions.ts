@@ -0,0 +1,81 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type ActiveSession = {
+  id: string;
+  created_at: string;
+  last_active_at: string;
+  user_agent: string | null;
+  ip: string | null;
+  aal: string | null;
+};
+
+export type DeviceInfo = {
+  browser: string;
+  os: string;
+  mobile: boolean;
+};
+
+export async function listSessions(userId: string) {
+  const { data, error } = await (supabase as any).rpc("list_user_sessions", { _user_id: userId });
+  if (error) throw error;
+  return (data || []) as ActiveSession[];
+}
+
+export async function revokeSession(sessionId: string) {
+  const { error } = await (supabase as any).rpc("revoke_user_session", { _session_id: sessionId });
+  if (error) throw error;
+}
+
+/** Signs the user out everywhere, except `keepSessionId` when given; returns how many sessions ended */
+export async function revokeAllSessions(userId: string, keepSessionId?: string | null) {
+  const { data, error } = await (supabase as any).rpc("revoke_user_sessions", {
+    _user_id: userId,
+    _keep_session_id: keepSessionId ?? null,
+  });
+  if (error) throw error;
+  return (data ?? 0) as number;
+}
+
+/** The auth session id is carried in the access token's `session_id` claim */
+export async function getCurrentSessionId(): Promise<string | null> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) return null;
+  try {
+    const payload = JSON.parse(atob(session.access_token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/")));
+    return payload.session_id ?? null;
+  } catch {
+    return null;
+  }
+}
+
+// Order matters: Edge and Opera also report Chrome, and Chrome also reports Safari
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/Firefox\/|FxiOS/, "Firefox"],
+  [/Chrome\/|CriOS/, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+  [/Windows/, "Windows"],
+  [/iPhone|iPad|iPod/, "iOS"],
+  [/Android/, "Android"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/CrOS/, "ChromeOS"],
+  [/Linux/, "Linux"],
+];
+
+export function parseUserAgent(userAgent: string | null): DeviceInfo {
+  const ua = userAgent || "";
+  return {
+    browser: BROWSERS.find(([pattern]) => pattern.test(ua))?.[1] ?? "Unknown browser",
+    os: OPERATING_SYSTEMS.find(([pattern]) => pattern.test(ua))?.[1] ?? "Unknown device",
+    mobile: /Mobi|Android|iPhone|iPad/.test(ua),
+  };
+}
+
+export function describeDevice(userAgent: string | null) {
+  const { browser, os } = parseUserAgent(userAgent);
+  return `${browser} on ${os}`;
+}
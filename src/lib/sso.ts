@@ -0,0 +1,76 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+export type SsoConnectionType = "oidc" | "saml";
+
+export type SsoMapping = { email: string; full_name?: string };
+
+export type SsoConnection = {
+  id: string;
+  name: string;
+  type: SsoConnectionType;
+  domains: string[];
+  is_active: boolean;
+  issuer: string | null;
+  client_id: string | null;
+  has_client_secret: boolean;
+  scopes: string;
+  claim_mapping: SsoMapping;
+  metadata_xml: string | null;
+  attribute_mapping: SsoMapping;
+  saml_provider_id: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export const SSO_CONNECTION_TYPES: { value: SsoConnectionType; label: string }[] = [
+  { value: "oidc", label: "OpenID Connect" },
+  { value: "saml", label: "SAML 2.0" },
+];
+
+/** The message from an sso-login / sso-connections error response */
+export async function getSsoError(error: unknown): Promise<string | null> {
+  if (!(error instanceof FunctionsHttpError)) return null;
+  try {
+    const body = await (error.context as Response).clone().json();
+    return body?.details ? `${body.error}: ${body.details}` : body?.error ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/** Redirects the browser to the identity provider registered for the email's domain */
+export async function startSsoSignIn(email: string) {
+  const { data, error } = await supabase.functions.invoke("sso-login", {
+    body: { action: "start", email },
+  });
+  if (error) throw new Error((await getSsoError(error)) || "Unable to start single sign-on");
+  if (!data?.success) throw new Error(data?.error || "Unable to start single sign-on");
+
+  if (data.type === "saml") {
+    const { data: sso, error: ssoError } = await supabase.auth.signInWithSSO({
+      providerId: data.providerId,
+      options: { redirectTo: `${window.location.origin}/dashboard` },
+    });
+    if (ssoError) throw ssoError;
+    window.location.href = sso.url;
+    return;
+  }
+
+  window.location.href = data.url;
+}
+
+/** Exchanges the OIDC authorization code from the callback URL for a Supabase session */
+export async function completeOidcSignIn(code: string, state: string) {
+  const { data, error } = await supabase.functions.invoke("sso-login", {
+    body: { action: "callback", code, state },
+  });
+  if (error) throw new Error((await getSsoError(error)) || "Unable to sign in");
+  if (!data?.success) throw new Error(data?.error || "Unable to sign in");
+
+  const { error: sessionError } = await supabase.auth.verifyOtp({
+    token_hash: data.tokenHash,
+    type: "magiclink",
+  });
+  if (sessionError) throw sessionError;
+}
@@ -0,0 +1,107 @@
+import { startAuthentication } from "@simplewebauthn/browser";
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { getCurrentSessionId } from "@/lib/sessions";
+
+export type StepUpMethod = "password" | "email_code" | "passkey";
+
+export type StepUpMethods = {
+  methods: Record<StepUpMethod, boolean>;
+  email: string;
+};
+
+// Last grant for this tab: lets back-to-back sensitive actions skip the prompt.
+// The server re-checks every time, so this is only a hint.
+let lastGrant: { sessionId: string; expiresAt: number } | null = null;
+
+/** Whether the current session re-authenticated recently enough to skip the prompt */
+export async function hasFreshStepUp() {
+  if (!lastGrant) return false;
+  // Leave a little slack so the grant cannot lapse between this check and the request
+  return lastGrant.sessionId === (await getCurrentSessionId()) && lastGrant.expiresAt - 15_000 > Date.now();
+}
+
+/** Drops the cached grant after the server rejected it, so the next action prompts again */
+export function forgetStepUp() {
+  lastGrant = null;
+}
+
+async function rememberGrant(expiresAt: string) {
+  const sessionId = await getCurrentSessionId();
+  lastGrant = sessionId ? { sessionId, expiresAt: new Date(expiresAt).getTime() } : null;
+}
+
+/** The message from a step-up error response */
+export async function getStepUpError(error: unknown): Promise<string | null> {
+  if (!(error instanceof FunctionsHttpError)) return null;
+  try {
+    const body = await (error.context as Response).clone().json();
+    return body?.error ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * True when an edge function (403 { code: "step_up_required" }) or the database
+ * (hint step_up_required) refused the action for lack of a recent re-authentication.
+ */
+export async function isStepUpRequired(error: unknown) {
+  if ((error as { hint?: string } | null)?.hint === "step_up_required") return true;
+  if (!(error instanceof FunctionsHttpError)) return false;
+  try {
+    const body = await (error.context as Response).clone().json();
+    return body?.code === "step_up_required";
+  } catch {
+    return false;
+  }
+}
+
+export async function getStepUpMethods() {
+  const { data, error } = await supabase.functions.invoke("step-up", {
+    body: { action: "methods" },
+  });
+  if (error) throw error;
+  return data as StepUpMethods;
+}
+
+/** Emails a re-authentication code to the account address; resolves to that address */
+export async function sendStepUpCode() {
+  const { data, error } = await supabase.functions.invoke("step-up", {
+    body: { action: "send-code" },
+  });
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || "Failed to send verification code");
+  return data.sentTo as string;
+}
+
+async function completeStepUp(body: Record<string, unknown>) {
+  const { data, error } = await supabase.functions.invoke("step-up", {
+    body: { action: "verify", ...body },
+  });
+  if (error) throw new Error((await getStepUpError(error)) || "Verification failed");
+  if (!data?.success) throw new Error(data?.error || "Verification failed");
+  await rememberGrant(data.expiresAt);
+  return data.expiresAt as string;
+}
+
+export function stepUpWithPassword(password: string) {
+  return completeStepUp({ method: "password", password });
+}
+
+export function stepUpWithCode(code: string) {
+  return completeStepUp({ method: "email_code", code });
+}
+
+/** Runs the WebAuthn ceremony against the caller's own passkeys */
+export async function stepUpWithPasskey() {
+  const { data: start, error: startError } = await supabase.functions.invoke("step-up", {
+    body: { action: "passkey-options" },
+  });
+  if (startError || !start?.success) {
+    throw new Error(start?.error || (await getStepUpError(startError)) || "Failed to start passkey verification");
+  }
+
+  const response = await startAuthentication({ optionsJSON: start.options });
+  return completeStepUp({ method: "passkey", challengeId: start.challengeId, response });
+}
@@ -39,6 +39,7 @@ interface ActivityLog {
   module: string | null;
   target: string | null;
   status: string | null;
+  ip_address: string | null;
   performed_by: string | null;
   user_id: string | null;
   performer_profile: {
@@ -72,6 +73,35 @@ const ACTION_TYPES = [
   { value: "custom_role_deleted", label: "Custom Role Deleted" },
   { value: "permission_updated", label: "Permission Updated" },
   { value: "user_status_changed", label: "Status Changed" },
+  { value: "mfa_enrolled", label: "MFA Enrolled" },
+  { value: "mfa_unenrolled", label: "MFA Removed" },
+  { value: "mfa_challenge_failed", label: "MFA Challenge Failed" },
+  { value: "mfa_recovery_codes_generated", label: "Recovery Codes Generated" },
+  { value: "mfa_recovery_code_used", label: "Recovery Code Used" },
+  { value: "settings_updated", label: "Settings Updated" },
+  { value: "passkey_registered", label: "Passkey Registered" },
+  { value: "passkey_renamed", label: "Passkey Renamed" },
+  { value: "passkey_removed", label: "Passkey Revoked" },
+  { value: "email_template_updated", label: "Email Template Updated" },
+  { value: "account_locked", label: "Account Locked" },
+  { value: "account_unlocked", label: "Account Unlocked" },
+  { value: "session_revoked", label: "Session Revoked" },
+  { value: "sso_rule_updated", label: "SSO Rule Updated" },
+  { value: "sso_connection_updated", label: "SSO Connection Updated" },
+  { value: "identity_linked", label: "Account Connected" },
+  { value: "identity_unlinked", label: "Account Disconnected" },
+  { value: "phone_verified", label: "Phone Verified" },
+  { value: "step_up_verified", label: "Re-authenticated" },
+  { value: "impersonation_started", label: "Impersonation Started" },
+  { value: "impersonation_ended", label: "Impersonation Ended" },
+  { value: "impersonated_write", label: "Change While Impersonating" },
+  { value: "new_device_sign_in", label: "New Device Sign-in" },
+  { value: "account_secured", label: "Account Secured" },
+  { value: "ip_access_denied", label: "Admin Access Blocked by IP" },
+  { value: "email_change_reverted", label: "Email Change Undone" },
+  { value: "job_triggered", label: "Job Run by Hand" },
+  { value: "job_paused", label: "Job Paused" },
+  { value: "job_resumed", label: "Job Resumed" },
 ];
 
 const MODULES = [
@@ -80,6 +110,7 @@ const MODULES = [
   { value: "users", label: "Users" },
   { value: "profile", label: "Profile" },
   { value: "rbac", label: "RBAC" },
+  { value: "security", label: "Security" },
   { value: "system", label: "System" },
 ];
 
@@ -291,6 +322,35 @@ export default function ActivityLogs() {
       custom_role_deleted: "bg-rose-500/10 text-rose-600 dark:text-rose-400 border-rose-500/20",
       permission_updated: "bg-fuchsia-500/10 text-fuchsia-600 dark:text-fuchsia-400 border-fuchsia-500/20",
       user_status_changed: "bg-sky-500/10 text-sky-600 dark:text-sky-400 border-sky-500/20",
+      mfa_enrolled: "bg-emerald-500/10 text-emerald-600 dark:text-emerald-400 border-emerald-500/20",
+      mfa_unenrolled: "bg-slate-500/10 text-slate-600 dark:text-slate-400 border-slate-500/20",
+      mfa_challenge_failed: "bg-red-500/10 text-red-600 dark:text-red-400 border-red-500/20",
+      mfa_recovery_codes_generated: "bg-cyan-500/10 text-cyan-600 dark:text-cyan-400 border-cyan-500/20",
+      mfa_recovery_code_used: "bg-amber-500/10 text-amber-600 dark:text-amber-400 border-amber-500/20",
+      settings_updated: "bg-yellow-500/10 text-yellow-600 dark:text-yellow-400 border-yellow-500/20",
+      passkey_registered: "bg-emerald-500/10 text-emerald-600 dark:text-emerald-400 border-emerald-500/20",
+      passkey_renamed: "bg-teal-500/10 text-teal-600 dark:text-teal-400 border-teal-500/20",
+      passkey_removed: "bg-rose-500/10 text-rose-600 dark:text-rose-400 border-rose-500/20",
+      email_template_updated: "bg-indigo-500/10 text-indigo-600 dark:text-indigo-400 border-indigo-500/20",
+      account_locked: "bg-red-500/10 text-red-600 dark:text-red-400 border-red-500/20",
+      account_unlocked: "bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/20",
+      session_revoked: "bg-orange-500/10 text-orange-600 dark:text-orange-400 border-orange-500/20",
+      sso_rule_updated: "bg-purple-500/10 text-purple-600 dark:text-purple-400 border-purple-500/20",
+      sso_connection_updated: "bg-purple-500/10 text-purple-600 dark:text-purple-400 border-purple-500/20",
+      identity_linked: "bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/20",
+      identity_unlinked: "bg-orange-500/10 text-orange-600 dark:text-orange-400 border-orange-500/20",
+      phone_verified: "bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/20",
+      step_up_verified: "bg-sky-500/10 text-sky-600 dark:text-sky-400 border-sky-500/20",
+      impersonation_started: "bg-amber-500/10 text-amber-600 dark:text-amber-400 border-amber-500/20",
+      impersonation_ended: "bg-amber-500/10 text-amber-600 dark:text-amber-400 border-amber-500/20",
+      impersonated_write: "bg-amber-500/10 text-amber-600 dark:text-amber-400 border-amber-500/20",
+      new_device_sign_in: "bg-orange-500/10 text-orange-600 dark:text-orange-400 border-orange-500/20",
+      account_secured: "bg-red-500/10 text-red-600 dark:text-red-400 border-red-500/20",
+      ip_access_denied: "bg-red-500/10 text-red-600 dark:text-red-400 border-red-500/20",
+      email_change_reverted: "bg-red-500/10 text-red-600 dark:text-red-400 border-red-500/20",
+      job_triggered: "bg-slate-500/10 text-slate-600 dark:text-slate-400 border-slate-500/20",
+      job_paused: "bg-slate-500/10 text-slate-600 dark:text-slate-400 border-slate-500/20",
+      job_resumed: "bg-slate-500/10 text-slate-600 dark:text-slate-400 border-slate-500/20",
     };
     return styles[actionType] || "bg-gray-500/10 text-gray-600 dark:text-gray-400 border-gray-500/20";
   };
@@ -536,9 +596,14 @@ export default function ActivityLogs() {
                       </TableCell>
                       <TableCell>{getStatusBadge(log.status)}</TableCell>
                       <TableCell>
-                        <span className="text-sm text-muted-foreground">
-                          {format(new Date(log.created_at), "MMM dd, yyyy HH:mm:ss")}
-                        </span>
+                        <div className="flex flex-col">
+                          <span className="text-sm text-muted-foreground">
+                            {format(new Date(log.created_at), "MMM dd, yyyy HH:mm:ss")}
+                          </span>
+                          {log.ip_address && (
+                            <span className="text-xs text-muted-foreground font-mono">{log.ip_address}</span>
+                          )}
+                        </div>
                       </TableCell>
                     </TableRow>
                   ))
@@ -1,21 +1,41 @@
 import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
-import { Mail, Lock, ArrowLeft, Eye, EyeOff, User, Calendar, ImageIcon } from "lucide-react";
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { Mail, Lock, ArrowLeft, Eye, EyeOff, User, Calendar, ImageIcon, KeyRound, Fingerprint } from "lucide-react";
 import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
 import { Progress } from "@/components/ui/progress";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Logo } from "@/components/Logo";
+import { getMfaStatus } from "@/lib/mfa";
+import { signInWithPasskey } from "@/lib/passkeys";
+import { isPasswordlessEnabled, sendSignInCode, signInWithoutPassword } from "@/lib/passwordless";
+import { OtpChannel, getPhoneError } from "@/lib/phone";
+import { formatRetryAfter, getRetryAfter } from "@/lib/rate-limit";
+import { formatLockedMessage, getLockedUntil } from "@/lib/lockout";
+import { isAccountSuspended, signInWithPassword } from "@/lib/auth-gateway";
+import { invokeWithProof, isEnumerationProtected } from "@/lib/proof-of-work";
+import { startSsoSignIn } from "@/lib/sso";
+import {
+  DEFAULT_PASSWORD_POLICY,
+  PasswordPolicy,
+  describePasswordPolicy,
+  generatePassword,
+  getPasswordError,
+  getPasswordPolicy,
+  validatePassword,
+} from "@/lib/password-policy";
 
-type AuthStep = "email" | "password" | "signup" | "otp" | "profile";
+type AuthStep = "email" | "password" | "signup" | "otp" | "profile" | "mfa" | "passwordless";
 
 const Auth = () => {
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const { toast } = useToast();
   const [loading, setLoading] = useState(false);
   const [step, setStep] = useState<AuthStep>("email");
@@ -24,6 +44,15 @@ const Auth = () => {
   const [resendCooldown, setResendCooldown] = useState(0);
   const [profileImage, setProfileImage] = useState<File | null>(null);
   const [profileImagePreview, setProfileImagePreview] = useState<string>("");
+  const [mfaFactorId, setMfaFactorId] = useState<string | null>(null);
+  const [mfaCode, setMfaCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [recoveryCode, setRecoveryCode] = useState("");
+  const [passwordlessEnabled, setPasswordlessEnabled] = useState(false);
+  const [enumerationProtection, setEnumerationProtection] = useState(false);
+  const [codeChannel, setCodeChannel] = useState<OtpChannel>("email");
+  const [codeSentTo, setCodeSentTo] = useState<string | null>(null);
+  const [passwordPolicy, setPasswordPolicy] = useState<PasswordPolicy>(DEFAULT_PASSWORD_POLICY);
 
   const [formData, setFormData] = useState({
     email: "",
@@ -35,6 +64,58 @@ const Auth = () => {
     gender: "",
   });
 
+  useEffect(() => {
+    isPasswordlessEnabled().then(setPasswordlessEnabled);
+    isEnumerationProtected().then(setEnumerationProtection);
+    getPasswordPolicy().then(setPasswordPolicy);
+
+    // Single-use link from a passwordless sign-in email
+    const signInWithMagicLink = async (token: string) => {
+      setLoading(true);
+      try {
+        await signInWithoutPassword({ token });
+        await completeSignIn();
+      } catch (error: any) {
+        console.error("Error signing in with link:", error);
+        if (isAccountSuspended(error)) {
+          toast({ title: "Account suspended", description: "This account is suspended. Contact your administrator.", variant: "destructive" });
+          return;
+        }
+        const lockedUntil = await getLockedUntil(error);
+        toast({
+          title: lockedUntil ? "Account locked" : "Sign-in link not valid",
+          description: lockedUntil
+            ? formatLockedMessage(lockedUntil)
+            : "This link has expired or was already used. Request a new one.",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    // A signed-in session that still owes the TOTP challenge (e.g. sent back here by AppLayout)
+    const resumeMfaChallenge = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return;
+      const status = await getMfaStatus(session.user.id);
+      if (status.challengeRequired && status.factorId) {
+        setFormData((prev) => ({ ...prev, email: session.user.email || "" }));
+        setMfaFactorId(status.factorId);
+        setStep("mfa");
+      }
+    };
+
+    const magicToken = searchParams.get("magic_token");
+    if (magicToken) {
+      // Drop the token from the address bar so it is not bookmarked or shared
+      setSearchParams({}, { replace: true });
+      signInWithMagicLink(magicToken);
+    } else {
+      resumeMfaChallenge();
+    }
+  }, []);
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setFormData({ ...formData, [e.target.name]: e.target.value });
   };
@@ -72,12 +153,28 @@ const Auth = () => {
 
     setLoading(true);
     try {
-      const { data, error } = await supabase.functions.invoke("check-user", {
-        body: { email: formData.email },
-      });
+      const { data, error } = await invokeWithProof("check-user", { email: formData.email });
 
       if (error) throw error;
 
+      // Organizations with an SSO connection sign in at their own identity provider
+      if (data.sso) {
+        try {
+          await startSsoSignIn(formData.email);
+        } catch (ssoError: any) {
+          toast({ title: "Single sign-on unavailable", description: ssoError.message, variant: "destructive" });
+        }
+        return;
+      }
+
+      // Anti-enumeration mode never says whether the address has an account: everyone gets
+      // the sign-in screen, which links to sign-up
+      if (data.protected) {
+        setUserExists(false);
+        setStep("password");
+        return;
+      }
+
       if (data.exists) {
         if (data.isActive === false) {
           toast({ title: "Account suspended", description: "This account is suspended. Contact your administrator.", variant: "destructive" });
@@ -112,17 +209,21 @@ const Auth = () => {
       toast({ title: "Passwords don't match", description: "Please make sure both passwords are the same", variant: "destructive" });
       return;
     }
-    if (formData.password.length < 8) {
-      toast({ title: "Password too short", description: "Please use at least 8 characters for your password", variant: "destructive" });
+    const passwordProblems = validatePassword(formData.password, passwordPolicy, formData.email);
+    if (passwordProblems.length > 0) {
+      toast({ title: "Password too weak", description: passwordProblems.join(". "), variant: "destructive" });
       return;
     }
     setLoading(true);
     try {
-      const { error } = await supabase.functions.invoke("send-otp", {
-        body: { email: formData.email, flow: "signup" },
-      });
+      const { error } = await invokeWithProof("send-otp", { email: formData.email, flow: "signup" });
       if (error) throw error;
-      toast({ title: "OTP Sent", description: "We sent a 6-digit code to your email" });
+      toast({
+        title: "OTP Sent",
+        description: enumerationProtection
+          ? "Check your email for a 6-digit code. If you already have an account, we sent sign-in instructions instead."
+          : "We sent a 6-digit code to your email",
+      });
       setStep("otp");
       setResendCooldown(60);
     } catch (err: any) {
@@ -132,81 +233,140 @@ const Auth = () => {
     }
   };
 
-  const handlePasswordSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setLoading(true);
+  // Shared by every sign-in method once a session exists; the sign-in itself was
+  // already recorded server-side
+  const completeSignIn = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
 
+    if (user) {
+      const mfaStatus = await getMfaStatus(user.id);
+      if (mfaStatus.challengeRequired && mfaStatus.factorId) {
+        setMfaFactorId(mfaStatus.factorId);
+        setMfaCode("");
+        setStep("mfa");
+        return;
+      }
+    }
+
+    toast({
+      title: "Welcome back!",
+      description: "Signed in successfully.",
+    });
+    navigate("/dashboard");
+  };
+
+  const handlePasskeySignIn = async () => {
+    setLoading(true);
     try {
-      const { data: checkData, error: checkError } = await supabase.functions.invoke("check-user", { body: { email: formData.email } });
-      if (checkError) throw checkError;
-      if (checkData?.isActive === false) {
+      await signInWithPasskey(formData.email || undefined);
+      await completeSignIn();
+    } catch (error: any) {
+      // Cancelling the browser prompt surfaces as NotAllowedError
+      if (error?.name === "NotAllowedError") return;
+      console.error("Error signing in with passkey:", error);
+      if (isAccountSuspended(error)) {
         toast({ title: "Account suspended", description: "This account is suspended. Contact your administrator.", variant: "destructive" });
         return;
       }
+      const lockedUntil = await getLockedUntil(error);
+      toast({
+        title: lockedUntil ? "Account locked" : "Passkey sign-in failed",
+        description: lockedUntil
+          ? formatLockedMessage(lockedUntil)
+          : error instanceof FunctionsHttpError
+            ? "Could not sign in with this passkey"
+            : error.message || "Could not sign in with this passkey",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
 
-      const { error } = await supabase.auth.signInWithPassword({
-        email: formData.email,
-        password: formData.password,
+  const handleSendSignInCode = async (channel: OtpChannel) => {
+    if (resendCooldown > 0) return;
+
+    setLoading(true);
+    try {
+      setCodeSentTo(await sendSignInCode(formData.email, channel));
+      setCodeChannel(channel);
+      toast(channel === "sms"
+        ? { title: "Check your phone", description: "We texted you a sign-in code" }
+        : { title: "Check your email", description: "We sent you a sign-in code and link" });
+      setFormData({ ...formData, password: "", otp: "" });
+      setStep("passwordless");
+      setResendCooldown(60);
+    } catch (error: any) {
+      const retryAfter = await getRetryAfter(error);
+      if (retryAfter) setResendCooldown(retryAfter);
+      toast({
+        title: "Unable to send sign-in code",
+        description: retryAfter
+          ? `You can request a new code in ${formatRetryAfter(retryAfter)}`
+          : (await getPhoneError(error)) || "Please wait a moment and try again",
+        variant: "destructive",
       });
+    } finally {
+      setLoading(false);
+    }
+  };
 
-      if (error) throw error;
+  const handlePasswordlessSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (formData.otp.length !== 6) return;
 
-      // Update last sign in and log activity
-      const { data: { user } } = await supabase.auth.getUser();
-      
-      if (user) {
-        await (supabase as any).from("profiles").update({
-          last_sign_in: new Date().toISOString(),
-        }).eq("user_id", user.id);
-
-        await (supabase as any).from("activity_logs").insert({
-          user_id: user.id,
-          performed_by: user.id,
-          action_type: "login",
-          description: "User logged in",
-          module: "auth",
-          status: "success",
-        });
-        await (supabase as any).from("notifications").insert({
-          user_id: user.id,
-          type: "login",
-          title: "Login successful",
-          message: "You signed in",
-        });
+    setLoading(true);
+    try {
+      await signInWithoutPassword({ email: formData.email, otp: formData.otp });
+      await completeSignIn();
+    } catch (error: any) {
+      console.error("Error signing in with code:", error);
+      if (isAccountSuspended(error)) {
+        toast({ title: "Account suspended", description: "This account is suspended. Contact your administrator.", variant: "destructive" });
+        return;
       }
-
+      const retryAfter = await getRetryAfter(error);
+      const lockedUntil = await getLockedUntil(error);
+      setFormData({ ...formData, otp: "" });
       toast({
-        title: "Welcome back!",
-        description: "Signed in successfully.",
+        title: lockedUntil ? "Account locked" : retryAfter ? "Too many attempts" : "Verification Failed",
+        description: lockedUntil
+          ? formatLockedMessage(lockedUntil)
+          : retryAfter
+            ? `Please try again in ${formatRetryAfter(retryAfter)}`
+            : "Wrong code, please check and re-enter again",
+        variant: "destructive",
       });
-      navigate("/dashboard");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePasswordSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    try {
+      await signInWithPassword(formData.email, formData.password);
+      await completeSignIn();
     } catch (error: any) {
       console.error("Error signing in:", error);
-      
-      await (supabase as any).from("activity_logs").insert({
-        action_type: "failed_login",
-        description: `Failed login attempt for ${formData.email}`,
-        metadata: { email: formData.email, error: error.message },
-        module: "auth",
-        status: "failed",
-      });
-      const { data: profile } = await (supabase as any)
-        .from("profiles")
-        .select("user_id")
-        .eq("email", formData.email)
-        .maybeSingle();
-      if (profile?.user_id) {
-        await (supabase as any).from("notifications").insert({
-          user_id: profile.user_id,
-          type: "failed_login",
-          title: "Login failed",
-          message: "There was a failed attempt to sign in",
-        });
+
+      if (isAccountSuspended(error)) {
+        toast({ title: "Account suspended", description: "This account is suspended. Contact your administrator.", variant: "destructive" });
+        return;
       }
 
+      // The attempt that trips the lockout is rejected with the lock time
+      const lockedUntil = await getLockedUntil(error);
+      const retryAfter = lockedUntil ? null : await getRetryAfter(error);
       toast({
-        title: "Incorrect password",
-        description: "Please check your password and try again",
+        title: lockedUntil ? "Account locked" : retryAfter ? "Too many attempts" : "Incorrect password",
+        description: lockedUntil
+          ? formatLockedMessage(lockedUntil)
+          : retryAfter
+            ? `Please try again in ${formatRetryAfter(retryAfter)}`
+            : "Please check your password and try again",
         variant: "destructive",
       });
     } finally {
@@ -231,6 +391,7 @@ const Auth = () => {
         body: {
           email: formData.email,
           otp: formData.otp,
+          flow: "signup",
           fullName: formData.email.split("@")[0],
           password: formData.password,
         },
@@ -239,12 +400,7 @@ const Auth = () => {
       if (createError) throw createError;
       if (!createData.success) throw new Error("Wrong OTP, please check and re-enter again");
 
-      const { error: signInError } = await supabase.auth.signInWithPassword({
-        email: formData.email,
-        password: formData.password,
-      });
-
-      if (signInError) throw signInError;
+      await signInWithPassword(formData.email, formData.password);
 
       toast({
         title: "Welcome!",
@@ -254,9 +410,75 @@ const Auth = () => {
       navigate("/dashboard");
     } catch (error: any) {
       console.error("Error verifying OTP:", error);
+      // A password rejected by the policy is reported before the code is used up
+      const passwordError = await getPasswordError(error);
       toast({
         title: "Verification Failed",
-        description: "Wrong OTP, please check and re-enter again",
+        description: passwordError || "Wrong OTP, please check and re-enter again",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleMfaSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!mfaFactorId || mfaCode.length !== 6) return;
+
+    setLoading(true);
+    try {
+      const { error } = await supabase.auth.mfa.challengeAndVerify({
+        factorId: mfaFactorId,
+        code: mfaCode,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Welcome back!",
+        description: "Signed in successfully.",
+      });
+      navigate("/dashboard");
+    } catch (error: any) {
+      console.error("Error verifying MFA code:", error);
+      // Through the RPC: until the challenge is passed, row-level security refuses the session
+      await (supabase as any).rpc("log_mfa_challenge_failed", { _error: error.message });
+      setMfaCode("");
+      toast({
+        title: "Verification Failed",
+        description: "Wrong code, please check your authenticator app",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRecoveryCodeSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!recoveryCode.trim()) return;
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.functions.invoke("mfa-recovery", {
+        body: { action: "redeem", code: recoveryCode.trim() },
+      });
+
+      if (error || !data?.success) throw new Error(data?.error || "Invalid recovery code");
+
+      // The authenticator was removed server-side; refresh so the session drops the aal2 requirement
+      await supabase.auth.refreshSession();
+
+      toast({
+        title: "Signed in with recovery code",
+        description: `Set up your authenticator app again. ${data.remaining} recovery code(s) left.`,
+      });
+      navigate("/settings?tab=security");
+    } catch (error: any) {
+      toast({
+        title: "Verification Failed",
+        description: "Invalid or already used recovery code",
         variant: "destructive",
       });
     } finally {
@@ -279,13 +501,14 @@ const Auth = () => {
     setLoading(true);
     try {
       // Create a temporary password for the user
-      const tempPassword = `Temp${Math.random().toString(36).slice(-8)}@123`;
+      const tempPassword = generatePassword(passwordPolicy);
       
       // Call verify-otp with fullName and password to create the user
       const { data: verifyData, error: verifyError } = await supabase.functions.invoke("verify-otp", {
         body: { 
           email: formData.email,
           otp: formData.otp,
+          flow: "signup",
           fullName: formData.fullName,
           password: tempPassword,
         },
@@ -330,12 +553,9 @@ const Auth = () => {
       }
 
       // Sign in the user with the temporary password
-      const { error: signInError } = await supabase.auth.signInWithPassword({
-        email: formData.email,
-        password: tempPassword,
-      });
-
-      if (signInError) {
+      try {
+        await signInWithPassword(formData.email, tempPassword);
+      } catch (signInError) {
         console.error("Error signing in:", signInError);
         // Even if sign-in fails, account is created, redirect to signin
         toast({
@@ -369,9 +589,7 @@ const Auth = () => {
 
     setLoading(true);
     try {
-      const { error } = await supabase.functions.invoke("send-otp", {
-        body: { email: formData.email, flow: "signup" },
-      });
+      const { error } = await invokeWithProof("send-otp", { email: formData.email, flow: "signup" });
 
       if (error) throw error;
 
@@ -400,8 +618,19 @@ const Auth = () => {
     }
   }, [resendCooldown]);
 
-  const handleBack = () => {
-    if (step === "password" || step === "otp") {
+  const handleBack = async () => {
+    if (step === "mfa") {
+      await supabase.auth.signOut();
+      setMfaFactorId(null);
+      setMfaCode("");
+      setRecoveryCode("");
+      setUseRecoveryCode(false);
+      setStep("email");
+      setFormData({ ...formData, password: "" });
+    } else if (step === "passwordless") {
+      setStep("password");
+      setFormData({ ...formData, otp: "" });
+    } else if (step === "password" || step === "otp") {
       setStep("email");
       setFormData({ ...formData, password: "", otp: "" });
     } else {
@@ -430,11 +659,19 @@ const Auth = () => {
             {step === "password" && "Welcome Back"}
             {step === "otp" && "Welcome to Slate AI"}
             {step === "profile" && "Complete Your Profile"}
+            {step === "mfa" && "Two-Factor Authentication"}
+            {step === "passwordless" && (codeChannel === "sms" ? "Check Your Phone" : "Check Your Email")}
           </CardTitle>
           <CardDescription>
             {step === "email" && "Enter your email to continue"}
             {step === "password" && "Enter your password to sign in"}
             {step === "profile" && "Tell us a bit about yourself"}
+            {step === "passwordless" && (codeChannel === "sms"
+              ? "Enter the 6-digit code we texted you"
+              : "Enter the 6-digit code or open the sign-in link we emailed you")}
+            {step === "mfa" && (useRecoveryCode
+              ? "Enter one of your saved recovery codes"
+              : "Enter the 6-digit code from your authenticator app")}
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -504,7 +741,7 @@ const Auth = () => {
               <Button type="submit" className="w-full" disabled={loading}>
                 {loading ? "Signing in..." : "Sign In"}
               </Button>
-              <div className="text-center">
+              <div className="flex flex-col items-center">
                 <Button
                   type="button"
                   variant="link"
@@ -513,6 +750,80 @@ const Auth = () => {
                 >
                   Forgot password?
                 </Button>
+                {enumerationProtection && (
+                  <Button
+                    type="button"
+                    variant="link"
+                    onClick={() => {
+                      setFormData({ ...formData, password: "" });
+                      setStep("signup");
+                    }}
+                    className="text-sm"
+                  >
+                    New here? Create an account
+                  </Button>
+                )}
+                {passwordlessEnabled && (
+                  <Button
+                    type="button"
+                    variant="link"
+                    onClick={() => handleSendSignInCode("email")}
+                    disabled={loading || resendCooldown > 0}
+                    className="text-sm"
+                  >
+                    {resendCooldown > 0
+                      ? `Email me a sign-in code (${formatRetryAfter(resendCooldown)})`
+                      : "Email me a sign-in code instead"}
+                  </Button>
+                )}
+                {passwordlessEnabled && (
+                  <Button
+                    type="button"
+                    variant="link"
+                    onClick={() => handleSendSignInCode("sms")}
+                    disabled={loading || resendCooldown > 0}
+                    className="text-sm"
+                  >
+                    Text me a code instead
+                  </Button>
+                )}
+              </div>
+            </form>
+          )}
+
+          {/* Passwordless Code Step */}
+          {step === "passwordless" && (
+            <form onSubmit={handlePasswordlessSubmit} className="space-y-4">
+              <p className="text-center text-sm text-muted-foreground">
+                Sent to <strong>{codeSentTo || formData.email}</strong>
+              </p>
+              <div className="flex justify-center">
+                <InputOTP maxLength={6} value={formData.otp} onChange={(val) => setFormData({ ...formData, otp: val })}>
+                  <InputOTPGroup>
+                    <InputOTPSlot index={0} />
+                    <InputOTPSlot index={1} />
+                    <InputOTPSlot index={2} />
+                    <InputOTPSlot index={3} />
+                    <InputOTPSlot index={4} />
+                    <InputOTPSlot index={5} />
+                  </InputOTPGroup>
+                </InputOTP>
+              </div>
+              <Button type="submit" className="w-full" disabled={loading || formData.otp.length !== 6}>
+                {loading ? "Signing in..." : "Sign In"}
+              </Button>
+              <div className="flex justify-between items-center">
+                <Button type="button" variant="link" onClick={() => setStep("password")} className="text-sm">
+                  Use password instead
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  onClick={() => handleSendSignInCode(codeChannel)}
+                  disabled={resendCooldown > 0 || loading}
+                >
+                  {resendCooldown > 0 ? `Resend in ${formatRetryAfter(resendCooldown)}` : "Resend Code"}
+                </Button>
               </div>
             </form>
           )}
@@ -552,6 +863,7 @@ const Auth = () => {
                     {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
                   </button>
                 </div>
+                <p className="text-xs text-muted-foreground">{describePasswordPolicy(passwordPolicy)}</p>
               </div>
               <div className="space-y-2">
                 <Label htmlFor="confirmPassword">Confirm Password</Label>
@@ -629,6 +941,60 @@ const Auth = () => {
             </form>
           )}
 
+          {/* MFA Challenge Step */}
+          {step === "mfa" && !useRecoveryCode && (
+            <form onSubmit={handleMfaSubmit} className="space-y-4">
+              <div className="flex justify-center">
+                <InputOTP maxLength={6} value={mfaCode} onChange={setMfaCode}>
+                  <InputOTPGroup>
+                    <InputOTPSlot index={0} />
+                    <InputOTPSlot index={1} />
+                    <InputOTPSlot index={2} />
+                    <InputOTPSlot index={3} />
+                    <InputOTPSlot index={4} />
+                    <InputOTPSlot index={5} />
+                  </InputOTPGroup>
+                </InputOTP>
+              </div>
+              <Button type="submit" className="w-full" disabled={loading || mfaCode.length !== 6}>
+                {loading ? "Verifying..." : "Verify"}
+              </Button>
+              <div className="text-center">
+                <Button type="button" variant="link" onClick={() => setUseRecoveryCode(true)} className="text-sm">
+                  Lost your device? Use a recovery code
+                </Button>
+              </div>
+            </form>
+          )}
+
+          {step === "mfa" && useRecoveryCode && (
+            <form onSubmit={handleRecoveryCodeSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="recoveryCode">Recovery Code</Label>
+                <div className="relative">
+                  <KeyRound className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    id="recoveryCode"
+                    placeholder="XXXXX-XXXXX"
+                    value={recoveryCode}
+                    onChange={(e) => setRecoveryCode(e.target.value)}
+                    className="pl-10 uppercase tracking-widest"
+                    required
+                    disabled={loading}
+                  />
+                </div>
+              </div>
+              <Button type="submit" className="w-full" disabled={loading}>
+                {loading ? "Verifying..." : "Use Recovery Code"}
+              </Button>
+              <div className="text-center">
+                <Button type="button" variant="link" onClick={() => setUseRecoveryCode(false)} className="text-sm">
+                  Use authenticator app instead
+                </Button>
+              </div>
+            </form>
+          )}
+
           {/* Profile Setup Step */}
           {step === "profile" && (
             <form onSubmit={handleProfileSubmit} className="space-y-4">
@@ -740,6 +1106,17 @@ const Auth = () => {
                 </div>
               </div>
 
+              <Button
+                variant="outline"
+                type="button"
+                className="w-full"
+                disabled={loading}
+                onClick={handlePasskeySignIn}
+              >
+                <Fingerprint className="h-5 w-5 mr-2" />
+                Sign in with a passkey
+              </Button>
+
               <div className="grid grid-cols-3 gap-3">
                 <Button
                   variant="outline"
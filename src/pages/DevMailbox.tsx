@@ -0,0 +1,220 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useToast } from "@/hooks/use-toast";
+import { Inbox, MessageSquare, RefreshCw, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+
+interface DevMail {
+  id: string;
+  from_address: string;
+  to_address: string;
+  subject: string;
+  html: string;
+  text: string | null;
+  category: string | null;
+  created_at: string;
+}
+
+interface DevSms {
+  id: string;
+  to_number: string;
+  body: string;
+  category: string | null;
+  created_at: string;
+}
+
+export default function DevMailbox() {
+  const { isAdmin, loading: permLoading } = usePermissions();
+  const { toast } = useToast();
+  const [messages, setMessages] = useState<DevMail[]>([]);
+  const [selected, setSelected] = useState<DevMail | null>(null);
+  const [textMessages, setTextMessages] = useState<DevSms[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const canView = !permLoading && isAdmin();
+
+  useEffect(() => {
+    if (!permLoading && canView) {
+      fetchMessages();
+    } else if (!permLoading) {
+      setLoading(false);
+    }
+  }, [permLoading, canView]);
+
+  const fetchMessages = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await (supabase as any)
+        .from("dev_mailbox")
+        .select("*")
+        .order("created_at", { ascending: false })
+        .limit(100);
+      if (error) throw error;
+      setMessages(data || []);
+      setSelected((prev) => data?.find((m: DevMail) => m.id === prev?.id) || data?.[0] || null);
+
+      const { data: sms, error: smsError } = await (supabase as any)
+        .from("sms_outbox")
+        .select("*")
+        .order("created_at", { ascending: false })
+        .limit(100);
+      if (smsError) throw smsError;
+      setTextMessages(sms || []);
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleClear = async () => {
+    try {
+      const { error } = await (supabase as any)
+        .from("dev_mailbox")
+        .delete()
+        .not("id", "is", null);
+      if (error) throw error;
+      const { error: smsError } = await (supabase as any)
+        .from("sms_outbox")
+        .delete()
+        .not("id", "is", null);
+      if (smsError) throw smsError;
+      setMessages([]);
+      setSelected(null);
+      setTextMessages([]);
+      toast({ title: "Mailbox cleared" });
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    }
+  };
+
+  if (!permLoading && !canView) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-muted-foreground">
+          You don't have permission to view the dev mailbox.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Dev Mailbox</h1>
+          <p className="text-muted-foreground">
+            Emails and text messages captured when the edge functions run with <code>MAIL_TRANSPORT=dev</code>{" "}
+            or <code>SMS_TRANSPORT=dev</code>
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={fetchMessages} disabled={loading}>
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Refresh
+          </Button>
+          <Button variant="outline" onClick={handleClear} disabled={loading || (messages.length === 0 && textMessages.length === 0)}>
+            <Trash2 className="w-4 h-4 mr-2" />
+            Clear
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-[minmax(0,1fr)_minmax(0,2fr)]">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Inbox className="h-5 w-5" />
+              Messages
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            {loading ? (
+              <div className="animate-pulse p-6 text-center text-muted-foreground">Loading messages...</div>
+            ) : messages.length === 0 ? (
+              <p className="p-6 text-center text-muted-foreground">No messages captured yet</p>
+            ) : (
+              <div className="divide-y">
+                {messages.map((message) => (
+                  <button
+                    key={message.id}
+                    type="button"
+                    onClick={() => setSelected(message)}
+                    className={`w-full text-left p-4 hover:bg-accent ${selected?.id === message.id ? "bg-accent" : ""}`}
+                  >
+                    <p className="font-medium truncate">{message.subject}</p>
+                    <p className="text-sm text-muted-foreground truncate">{message.to_address}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {format(new Date(message.created_at), "MMM d, yyyy HH:mm:ss")}
+                    </p>
+                  </button>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{selected?.subject || "Preview"}</CardTitle>
+            {selected && (
+              <div className="space-y-1 text-sm text-muted-foreground">
+                <p>From: {selected.from_address}</p>
+                <p>To: {selected.to_address}</p>
+                {selected.category && <Badge variant="secondary">{selected.category}</Badge>}
+              </div>
+            )}
+          </CardHeader>
+          <CardContent>
+            {selected ? (
+              // Sandboxed so captured HTML cannot run scripts in the app
+              <iframe
+                title="Email preview"
+                sandbox=""
+                srcDoc={selected.html}
+                className="h-[600px] w-full rounded-md border bg-white"
+              />
+            ) : (
+              <p className="text-muted-foreground">Select a message to preview it</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <MessageSquare className="h-5 w-5" />
+            Text Messages
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {loading ? (
+            <div className="animate-pulse p-6 text-center text-muted-foreground">Loading messages...</div>
+          ) : textMessages.length === 0 ? (
+            <p className="p-6 text-center text-muted-foreground">No text messages captured yet</p>
+          ) : (
+            <div className="divide-y">
+              {textMessages.map((sms) => (
+                <div key={sms.id} className="p-4 space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="font-medium">{sms.to_number}</p>
+                    {sms.category && <Badge variant="secondary">{sms.category}</Badge>}
+                  </div>
+                  <p className="text-sm">{sms.body}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {format(new Date(sms.created_at), "MMM d, yyyy HH:mm:ss")}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,275 @@
+import { useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useToast } from "@/hooks/use-toast";
+import {
+  DEFAULT_TEMPLATE_LANGUAGE,
+  EMAIL_TEMPLATE_FLOWS,
+  EMAIL_TEMPLATE_LANGUAGES,
+  EMAIL_TEMPLATE_VARIABLES,
+  SAMPLE_TEMPLATE_VARIABLES,
+  EmailTemplate,
+  renderTemplate,
+} from "@/lib/email-templates";
+import { Loader2, Mail, RotateCcw, Send } from "lucide-react";
+
+interface StoredTemplate extends EmailTemplate {
+  id: string;
+  flow: string;
+  language: string;
+  updated_at: string;
+}
+
+export default function EmailTemplates() {
+  const { isAdmin, hasRole, loading: permLoading } = usePermissions();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [sending, setSending] = useState(false);
+  const [defaults, setDefaults] = useState<Record<string, EmailTemplate>>({});
+  const [stored, setStored] = useState<StoredTemplate[]>([]);
+  const [flow, setFlow] = useState(EMAIL_TEMPLATE_FLOWS[0].value);
+  const [language, setLanguage] = useState(DEFAULT_TEMPLATE_LANGUAGE);
+  const [draft, setDraft] = useState<EmailTemplate>({ subject: "", html: "" });
+
+  const canEdit = !permLoading && (isAdmin() || hasRole("hr"));
+
+  useEffect(() => {
+    if (!permLoading && canEdit) {
+      load();
+    } else if (!permLoading) {
+      setLoading(false);
+    }
+  }, [permLoading, canEdit]);
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      const [{ data: defaultsData, error: defaultsError }, { data: rows, error: rowsError }] = await Promise.all([
+        supabase.functions.invoke("email-templates", { body: { action: "defaults" } }),
+        (supabase as any).from("email_templates").select("id, flow, language, subject, html, updated_at"),
+      ]);
+      if (defaultsError || !defaultsData?.success) throw new Error(defaultsData?.error || "Failed to load default templates");
+      if (rowsError) throw rowsError;
+      setDefaults(defaultsData.templates);
+      setStored(rows || []);
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const current = stored.find((t) => t.flow === flow && t.language === language) ?? null;
+
+  // Same lookup order as send-otp: this language, then the default language, then built-in copy
+  const fallback = useMemo(() => {
+    const base = stored.find((t) => t.flow === flow && t.language === DEFAULT_TEMPLATE_LANGUAGE);
+    if (language !== DEFAULT_TEMPLATE_LANGUAGE && base) {
+      return { template: base as EmailTemplate, source: "English template" };
+    }
+    return { template: defaults[flow], source: "built-in default" };
+  }, [stored, defaults, flow, language]);
+
+  useEffect(() => {
+    const template = current ?? fallback.template;
+    setDraft({ subject: template?.subject ?? "", html: template?.html ?? "" });
+  }, [current, fallback]);
+
+  const logChange = async (description: string) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    await (supabase as any).from("activity_logs").insert({
+      user_id: user?.id,
+      performed_by: user?.id,
+      action_type: "email_template_updated",
+      description,
+      metadata: { flow, language },
+      module: "system",
+      status: "success",
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft.subject.trim() || !draft.html.trim()) {
+      toast({ title: "Error", description: "Subject and body are required", variant: "destructive" });
+      return;
+    }
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await (supabase as any)
+        .from("email_templates")
+        .upsert(
+          { flow, language, subject: draft.subject, html: draft.html, updated_by: user?.id },
+          { onConflict: "flow,language" }
+        );
+      if (error) throw error;
+
+      await logChange(`Email template saved: ${flow} (${language})`);
+      toast({ title: "Saved", description: "Email template updated" });
+      await load();
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message || "Failed to save template", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!current) return;
+    setSaving(true);
+    try {
+      const { error } = await (supabase as any).from("email_templates").delete().eq("id", current.id);
+      if (error) throw error;
+
+      await logChange(`Email template reset to ${fallback.source}: ${flow} (${language})`);
+      toast({ title: "Reset", description: `Emails now use the ${fallback.source}` });
+      await load();
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message || "Failed to reset template", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSendTest = async () => {
+    setSending(true);
+    try {
+      const { data, error } = await supabase.functions.invoke("email-templates", {
+        body: { action: "test", flow, subject: draft.subject, html: draft.html },
+      });
+      if (error || !data?.success) throw new Error(data?.error || "Failed to send test email");
+      toast({ title: "Test email sent", description: `Sent to ${data.sentTo}` });
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (!permLoading && !canEdit) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-muted-foreground">
+          You don't have permission to manage email templates.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Email Templates</h1>
+        <p className="text-muted-foreground">Edit the wording and branding of verification emails per language</p>
+      </div>
+
+      <div className="flex flex-wrap gap-4">
+        <div className="w-64">
+          <Label>Email</Label>
+          <Select value={flow} onValueChange={setFlow}>
+            <SelectTrigger className="mt-1"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {EMAIL_TEMPLATE_FLOWS.map((f) => (
+                <SelectItem key={f.value} value={f.value}>{f.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="w-48">
+          <Label>Language</Label>
+          <Select value={language} onValueChange={setLanguage}>
+            <SelectTrigger className="mt-1"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {EMAIL_TEMPLATE_LANGUAGES.map((l) => (
+                <SelectItem key={l.value} value={l.value}>{l.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="animate-pulse text-muted-foreground">Loading templates...</div>
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <Mail className="h-5 w-5" />
+                  <CardTitle>Template</CardTitle>
+                </div>
+                <Badge variant={current ? "default" : "secondary"}>
+                  {current ? "Customized" : `Using ${fallback.source}`}
+                </Badge>
+              </div>
+              <CardDescription>
+                Placeholders:{" "}
+                {EMAIL_TEMPLATE_VARIABLES.map((v) => (
+                  <code key={v.name} title={v.description} className="mr-2 rounded bg-muted px-1">{`{{${v.name}}}`}</code>
+                ))}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <Label htmlFor="template-subject">Subject</Label>
+                <Input
+                  id="template-subject"
+                  className="mt-1"
+                  value={draft.subject}
+                  onChange={(e) => setDraft({ ...draft, subject: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="template-html">HTML body</Label>
+                <Textarea
+                  id="template-html"
+                  className="mt-1 min-h-[360px] font-mono text-xs"
+                  value={draft.html}
+                  onChange={(e) => setDraft({ ...draft, html: e.target.value })}
+                />
+              </div>
+              <div className="flex flex-wrap justify-end gap-2">
+                <Button variant="outline" onClick={handleReset} disabled={saving || !current}>
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Reset
+                </Button>
+                <Button variant="outline" onClick={handleSendTest} disabled={sending || !draft.subject || !draft.html}>
+                  {sending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Send className="w-4 h-4 mr-2" />}
+                  Send Test
+                </Button>
+                <Button onClick={handleSave} disabled={saving}>
+                  {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Save Template
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Preview</CardTitle>
+              <CardDescription>{renderTemplate(draft.subject, SAMPLE_TEMPLATE_VARIABLES)}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <iframe
+                title="Email template preview"
+                sandbox=""
+                srcDoc={renderTemplate(draft.html, SAMPLE_TEMPLATE_VARIABLES)}
+                className="h-[520px] w-full rounded-md border bg-white"
+              />
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+}
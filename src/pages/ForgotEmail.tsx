@@ -5,55 +5,58 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
-import { Phone, User, ArrowLeft } from "lucide-react";
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { invokeWithProof } from "@/lib/proof-of-work";
+import { formatRetryAfter, getRetryAfter } from "@/lib/rate-limit";
+import { Phone, User, ArrowLeft, Calendar } from "lucide-react";
 
 const ForgotEmail = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
   const [loading, setLoading] = useState(false);
-  const [searchBy, setSearchBy] = useState<"phone" | "name">("phone");
+  const [searchBy, setSearchBy] = useState<"phone" | "dob">("phone");
   const [formData, setFormData] = useState({
-    contactNumber: "",
     fullName: "",
+    contactNumber: "",
+    dateOfBirth: "",
   });
-  const [foundEmail, setFoundEmail] = useState<string | null>(null);
+  const [result, setResult] = useState<{ hint: string | null; deliveredTo: string | null } | null>(null);
 
   const handleSearch = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
-    setFoundEmail(null);
+    setResult(null);
 
     try {
-      const searchValue = searchBy === "phone" ? formData.contactNumber : formData.fullName;
-
-      const { data, error } = await supabase.functions.invoke("forgot-email", {
-        body: {
-          searchBy,
-          value: searchValue,
-        },
+      const { data, error } = await invokeWithProof("forgot-email", {
+        fullName: formData.fullName,
+        phone: searchBy === "phone" ? formData.contactNumber : undefined,
+        dateOfBirth: searchBy === "dob" ? formData.dateOfBirth : undefined,
       });
 
       if (error) throw error;
 
-      if (data?.email) {
-        setFoundEmail(data.email);
-        toast({
-          title: "Email Found",
-          description: "We found your account!",
-        });
-      } else {
-        toast({
-          title: "Not Found",
-          description: "No account found with the provided information",
-          variant: "destructive",
-        });
-      }
+      setResult({ hint: data.hint, deliveredTo: data.deliveredTo });
+      // Anti-enumeration mode never says whether the details matched
+      toast(data.protected
+        ? { title: "Request received", description: "If the details match an account, we sent its email address to you" }
+        : {
+            title: "Account Found",
+            description: data.deliveredTo
+              ? `We sent your email address to ${data.deliveredTo}`
+              : "We found your account!",
+          });
     } catch (error: any) {
       console.error("Error searching for email:", error);
+      const retryAfter = await getRetryAfter(error);
+      const notFound = error instanceof FunctionsHttpError && error.context?.status === 404;
       toast({
-        title: "Error",
-        description: "Failed to search for account",
+        title: retryAfter ? "Too many requests" : notFound ? "Not Found" : "Error",
+        description: retryAfter
+          ? `Please try again in ${formatRetryAfter(retryAfter)}`
+          : notFound
+            ? "No account found with the provided information"
+            : "Failed to search for account",
         variant: "destructive",
       });
     } finally {
@@ -76,11 +79,11 @@ const ForgotEmail = () => {
           </Button>
           <CardTitle className="text-2xl font-bold">Forgot Email?</CardTitle>
           <CardDescription>
-            Find your account using your phone number or full name
+            Find your account using your full name and your phone number or date of birth
           </CardDescription>
         </CardHeader>
         <CardContent>
-          {!foundEmail ? (
+          {!result ? (
             <>
               <div className="flex gap-2 mb-4">
                 <Button
@@ -94,16 +97,38 @@ const ForgotEmail = () => {
                 </Button>
                 <Button
                   type="button"
-                  variant={searchBy === "name" ? "default" : "outline"}
+                  variant={searchBy === "dob" ? "default" : "outline"}
                   className="flex-1"
-                  onClick={() => setSearchBy("name")}
+                  onClick={() => setSearchBy("dob")}
                 >
-                  <User className="w-4 h-4 mr-2" />
-                  Full Name
+                  <Calendar className="w-4 h-4 mr-2" />
+                  Date of Birth
                 </Button>
               </div>
 
               <form onSubmit={handleSearch} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="fullName">Full Name</Label>
+                  <div className="relative">
+                    <User className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                    <Input
+                      id="fullName"
+                      name="fullName"
+                      type="text"
+                      placeholder="John Doe"
+                      className="pl-10"
+                      value={formData.fullName}
+                      onChange={(e) =>
+                        setFormData({ ...formData, fullName: e.target.value })
+                      }
+                      required
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Enter your full name exactly as registered in your account
+                  </p>
+                </div>
+
                 {searchBy === "phone" ? (
                   <div className="space-y-2">
                     <Label htmlFor="contactNumber">Phone Number</Label>
@@ -128,25 +153,17 @@ const ForgotEmail = () => {
                   </div>
                 ) : (
                   <div className="space-y-2">
-                    <Label htmlFor="fullName">Full Name</Label>
-                    <div className="relative">
-                      <User className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                      <Input
-                        id="fullName"
-                        name="fullName"
-                        type="text"
-                        placeholder="John Doe"
-                        className="pl-10"
-                        value={formData.fullName}
-                        onChange={(e) =>
-                          setFormData({ ...formData, fullName: e.target.value })
-                        }
-                        required
-                      />
-                    </div>
-                    <p className="text-xs text-muted-foreground">
-                      Enter your full name as registered in your account
-                    </p>
+                    <Label htmlFor="dateOfBirth">Date of Birth</Label>
+                    <Input
+                      id="dateOfBirth"
+                      name="dateOfBirth"
+                      type="date"
+                      value={formData.dateOfBirth}
+                      onChange={(e) =>
+                        setFormData({ ...formData, dateOfBirth: e.target.value })
+                      }
+                      required
+                    />
                   </div>
                 )}
 
@@ -157,12 +174,26 @@ const ForgotEmail = () => {
             </>
           ) : (
             <div className="space-y-4">
-              <div className="text-center p-4 bg-muted rounded-lg">
-                <p className="text-sm text-muted-foreground mb-2">
-                  Your email address is:
-                </p>
-                <p className="text-lg font-semibold">{foundEmail}</p>
-              </div>
+              {result.hint ? (
+                <div className="text-center p-4 bg-muted rounded-lg">
+                  <p className="text-sm text-muted-foreground mb-2">
+                    Your email address looks like:
+                  </p>
+                  <p className="text-lg font-semibold">{result.hint}</p>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    {result.deliveredTo
+                      ? `The full address was sent to ${result.deliveredTo}`
+                      : "Add a recovery email or verify your phone number in your profile to receive the full address next time, or contact your administrator"}
+                  </p>
+                </div>
+              ) : (
+                <div className="text-center p-4 bg-muted rounded-lg">
+                  <p className="text-sm text-muted-foreground">
+                    If the details match an account, its email address was sent to the recovery email or
+                    verified phone number on file. Otherwise, contact your administrator.
+                  </p>
+                </div>
+              )}
 
               <Button
                 className="w-full"
@@ -175,8 +206,8 @@ const ForgotEmail = () => {
                 variant="outline"
                 className="w-full"
                 onClick={() => {
-                  setFoundEmail(null);
-                  setFormData({ contactNumber: "", fullName: "" });
+                  setResult(null);
+                  setFormData({ fullName: "", contactNumber: "", dateOfBirth: "" });
                 }}
               >
                 Search Again
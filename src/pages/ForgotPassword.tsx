@@ -1,37 +1,63 @@
 import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useLocation, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
-import { Mail, ArrowLeft, Eye, EyeOff } from "lucide-react";
+import { Mail, ArrowLeft, Eye, EyeOff, Smartphone } from "lucide-react";
+import { formatRetryAfter, getRetryAfter } from "@/lib/rate-limit";
+import { OtpChannel, getPhoneError } from "@/lib/phone";
+import { invokeWithProof } from "@/lib/proof-of-work";
+import {
+  DEFAULT_PASSWORD_POLICY,
+  PasswordPolicy,
+  describePasswordPolicy,
+  getPasswordError,
+  getPasswordPolicy,
+  validatePassword,
+} from "@/lib/password-policy";
+
+// Set by pages that already sent the reset code, e.g. the "this wasn't me" link
+type ForgotPasswordState = {
+  email?: string;
+  sentTo?: string;
+};
 
 const ForgotPassword = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const initialState = (useLocation().state || {}) as ForgotPasswordState;
   const [loading, setLoading] = useState(false);
-  const [email, setEmail] = useState("");
-  const [step, setStep] = useState<"email" | "otp" | "password">("email");
+  const [email, setEmail] = useState(initialState.email || "");
+  const [step, setStep] = useState<"email" | "otp" | "password">(initialState.sentTo ? "otp" : "email");
   const [otp, setOtp] = useState("");
+  const [channel, setChannel] = useState<OtpChannel>("email");
+  const [sentTo, setSentTo] = useState(initialState.sentTo || "");
   const [password, setPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
-  const [resendCooldown, setResendCooldown] = useState(0);
+  const [resendCooldown, setResendCooldown] = useState(initialState.sentTo ? 120 : 0);
+  const [sendLockout, setSendLockout] = useState(0);
+  const [verifyLockout, setVerifyLockout] = useState(0);
+  const [policy, setPolicy] = useState<PasswordPolicy>(DEFAULT_PASSWORD_POLICY);
+
+  useEffect(() => {
+    getPasswordPolicy().then(setPolicy);
+  }, []);
 
   const handleSendOTP = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
 
     try {
-      const { data, error } = await supabase.functions.invoke("send-otp", {
-        body: { email, flow: "forgot_password" },
-      });
+      const { data, error } = await invokeWithProof("send-otp", { email, flow: "forgot_password", channel });
 
       if (error) throw error;
 
+      setSentTo(data?.sentTo || email);
       setStep("otp");
       setResendCooldown(120);
       await (supabase as any).from("activity_logs").insert({
@@ -43,20 +69,30 @@ const ForgotPassword = () => {
       });
       toast({
         title: "Success",
-        description: "OTP sent to your email!",
+        description: channel === "sms" ? "OTP sent to your phone!" : "OTP sent to your email!",
       });
     } catch (error: any) {
       console.error("Error sending OTP:", error);
+      const retryAfter = await getRetryAfter(error);
+      if (retryAfter) {
+        setSendLockout(retryAfter);
+        toast({
+          title: "Too many requests",
+          description: `You can request a new OTP in ${formatRetryAfter(retryAfter)}`,
+          variant: "destructive",
+        });
+        return;
+      }
       await (supabase as any).from("activity_logs").insert({
         action_type: "forgot_password",
         description: `Failed to send OTP for ${email}`,
         module: "auth",
         status: "failed",
-        metadata: { email, error: error.message },
+        metadata: { email, channel, error: error.message },
       });
       toast({
         title: "Unable to send OTP",
-        description: "Please check your email address and try again",
+        description: (await getPhoneError(error)) || "Please check your email address and try again",
         variant: "destructive",
       });
     } finally {
@@ -85,11 +121,19 @@ const ForgotPassword = () => {
       });
 
       if (error || !data?.success) {
+        const retryAfter = await getRetryAfter(error);
+        if (retryAfter) {
+          setVerifyLockout(retryAfter);
+          toast({
+            title: "Too many attempts",
+            description: `Please try again in ${formatRetryAfter(retryAfter)}`,
+            variant: "destructive",
+          });
+          return;
+        }
         throw new Error((data as any)?.error || (error as any)?.message || "Invalid or expired OTP");
       }
 
-      
-
       setStep("password");
       await (supabase as any).from("activity_logs").insert({
         action_type: "otp_verification",
@@ -133,10 +177,11 @@ const ForgotPassword = () => {
       return;
     }
 
-    if (password.length < 8) {
+    const problems = validatePassword(password, policy, email);
+    if (problems.length > 0) {
       toast({
-        title: "Password too short",
-        description: "Please use at least 8 characters for your password",
+        title: "Password too weak",
+        description: problems.join(". "),
         variant: "destructive",
       });
       return;
@@ -166,6 +211,8 @@ const ForgotPassword = () => {
       navigate("/auth");
     } catch (error: any) {
       console.error("Error updating password:", error);
+      // Policy and reuse rejections come back as 400 with the reasons in the body
+      const policyError = await getPasswordError(error);
       await (supabase as any).from("activity_logs").insert({
         action_type: "password_reset",
         description: `Password reset failed for ${email}`,
@@ -175,7 +222,7 @@ const ForgotPassword = () => {
       });
       toast({
         title: "Unable to update password",
-        description: "Something went wrong. Please try again",
+        description: policyError || "Something went wrong. Please try again",
         variant: "destructive",
       });
     } finally {
@@ -188,9 +235,7 @@ const ForgotPassword = () => {
     
     setLoading(true);
     try {
-      const { error } = await supabase.functions.invoke("send-otp", {
-        body: { email, flow: "forgot_password" },
-      });
+      const { error } = await invokeWithProof("send-otp", { email, flow: "forgot_password", channel });
 
       if (error) throw error;
 
@@ -207,6 +252,16 @@ const ForgotPassword = () => {
         description: "OTP resent successfully!",
       });
     } catch (error: any) {
+      const retryAfter = await getRetryAfter(error);
+      if (retryAfter) {
+        setResendCooldown(retryAfter);
+        toast({
+          title: "Too many requests",
+          description: `You can request a new OTP in ${formatRetryAfter(retryAfter)}`,
+          variant: "destructive",
+        });
+        return;
+      }
       await (supabase as any).from("activity_logs").insert({
         action_type: "otp_resend",
         description: `OTP resend failed for ${email}`,
@@ -232,6 +287,20 @@ const ForgotPassword = () => {
     }
   }, [resendCooldown]);
 
+  useEffect(() => {
+    if (sendLockout > 0) {
+      const timer = setTimeout(() => setSendLockout(sendLockout - 1), 1000);
+      return () => clearTimeout(timer);
+    }
+  }, [sendLockout]);
+
+  useEffect(() => {
+    if (verifyLockout > 0) {
+      const timer = setTimeout(() => setVerifyLockout(verifyLockout - 1), 1000);
+      return () => clearTimeout(timer);
+    }
+  }, [verifyLockout]);
+
   return (
     <div className="min-h-screen gradient-hero flex items-center justify-center p-4">
       <Card className="w-full max-w-md">
@@ -252,7 +321,9 @@ const ForgotPassword = () => {
           </CardTitle>
           <CardDescription>
             {step === "email" && "Enter your email address to receive an OTP"}
-            {step === "otp" && "Enter the 6-digit OTP sent to your email"}
+            {step === "otp" && (channel === "sms"
+              ? "Enter the 6-digit OTP sent to your phone"
+              : "Enter the 6-digit OTP sent to your email")}
             {step === "password" && "Create your new password"}
           </CardDescription>
         </CardHeader>
@@ -276,8 +347,39 @@ const ForgotPassword = () => {
                 </div>
               </div>
 
-              <Button type="submit" className="w-full" disabled={loading}>
-                {loading ? "Sending..." : "Send OTP"}
+              <div className="space-y-2">
+                <Label>Send the code by</Label>
+                <div className="flex gap-2">
+                  <Button
+                    type="button"
+                    variant={channel === "email" ? "default" : "outline"}
+                    className="flex-1"
+                    onClick={() => setChannel("email")}
+                  >
+                    <Mail className="w-4 h-4 mr-2" />
+                    Email
+                  </Button>
+                  <Button
+                    type="button"
+                    variant={channel === "sms" ? "default" : "outline"}
+                    className="flex-1"
+                    onClick={() => setChannel("sms")}
+                  >
+                    <Smartphone className="w-4 h-4 mr-2" />
+                    Text message
+                  </Button>
+                </div>
+                {channel === "sms" && (
+                  <p className="text-xs text-muted-foreground">
+                    Sent to the verified phone number on your profile
+                  </p>
+                )}
+              </div>
+
+              <Button type="submit" className="w-full" disabled={loading || sendLockout > 0}>
+                {sendLockout > 0
+                  ? `Try again in ${formatRetryAfter(sendLockout)}`
+                  : loading ? "Sending..." : "Send OTP"}
               </Button>
 
               <div className="text-center text-sm">
@@ -296,7 +398,7 @@ const ForgotPassword = () => {
             <form onSubmit={handleVerifyOTP} className="space-y-4">
               <div className="text-center p-4 bg-muted rounded-lg mb-4">
                 <p className="text-sm text-muted-foreground">
-                  OTP sent to <strong>{email}</strong>
+                  OTP sent to <strong>{sentTo || email}</strong>
                 </p>
               </div>
 
@@ -314,8 +416,10 @@ const ForgotPassword = () => {
                 />
               </div>
 
-              <Button type="submit" className="w-full" disabled={loading}>
-                {loading ? "Verifying..." : "Verify OTP"}
+              <Button type="submit" className="w-full" disabled={loading || verifyLockout > 0}>
+                {verifyLockout > 0
+                  ? `Try again in ${formatRetryAfter(verifyLockout)}`
+                  : loading ? "Verifying..." : "Verify OTP"}
               </Button>
 
               <div className="flex justify-between items-center text-sm">
@@ -334,7 +438,7 @@ const ForgotPassword = () => {
                   onClick={handleResendOTP}
                   disabled={resendCooldown > 0 || loading}
                 >
-                  {resendCooldown > 0 ? `Resend in ${resendCooldown}s` : "Resend OTP"}
+                  {resendCooldown > 0 ? `Resend in ${formatRetryAfter(resendCooldown)}` : "Resend OTP"}
                 </Button>
               </div>
             </form>
@@ -352,7 +456,7 @@ const ForgotPassword = () => {
                     value={password}
                     onChange={(e) => setPassword(e.target.value)}
                     required
-                    minLength={8}
+                    minLength={policy.min_length}
                   />
                   <button
                     type="button"
@@ -362,6 +466,7 @@ const ForgotPassword = () => {
                     {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
                   </button>
                 </div>
+                <p className="text-xs text-muted-foreground">{describePasswordPolicy(policy)}</p>
               </div>
 
               <div className="space-y-2">
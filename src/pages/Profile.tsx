@@ -6,14 +6,24 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-// Badge not used in Profile after removing roles/account sections
+import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Progress } from "@/components/ui/progress";
 import { AlertCircle } from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useToast } from "@/hooks/use-toast";
+import { useStepUp } from "@/hooks/useStepUp";
+import { forgetStepUp, getStepUpError, isStepUpRequired } from "@/lib/step-up";
+import {
+  PendingRecoveryEmail,
+  getPendingRecoveryEmail,
+  removeRecoveryEmail,
+  sendRecoveryEmailVerification,
+} from "@/lib/recovery-email";
 import EditProfileDialog from "@/components/profile/EditProfileDialog";
 import SetPasswordDialog from "@/components/profile/SetPasswordDialog";
+import ConnectedAccountsCard from "@/components/settings/ConnectedAccountsCard";
+import VerifyPhoneDialog from "@/components/profile/VerifyPhoneDialog";
 // ChangeEmailDialog entry moved to Settings; remove from Profile
  
 
@@ -21,6 +31,9 @@ interface Profile {
   full_name: string;
   email: string;
   contact_number: string | null;
+  phone_verified_at: string | null;
+  recovery_email: string | null;
+  recovery_email_verified_at: string | null;
   gender: string | null;
   date_of_birth: string | null;
   address: string | null;
@@ -35,14 +48,18 @@ interface Profile {
 export default function Profile() {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { requireStepUp, stepUpDialog } = useStepUp();
   const [profile, setProfile] = useState<Profile | null>(null);
+  const [pendingRecoveryEmail, setPendingRecoveryEmail] = useState<PendingRecoveryEmail | null>(null);
   const [loading, setLoading] = useState(true);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [passwordDialogOpen, setPasswordDialogOpen] = useState(false);
+  const [verifyPhoneOpen, setVerifyPhoneOpen] = useState(false);
   const [completionPercentage, setCompletionPercentage] = useState(0);
-  const [formData, setFormData] = useState({ full_name: "", contact_number: "", address: "", date_of_birth: "" });
+  const [formData, setFormData] = useState({ full_name: "", contact_number: "", recovery_email: "", address: "", date_of_birth: "" });
   const [saving, setSaving] = useState(false);
   const [contactError, setContactError] = useState<string | null>(null);
+  const [recoveryEmailError, setRecoveryEmailError] = useState<string | null>(null);
   const [dobError, setDobError] = useState<string | null>(null);
   const [workForm, setWorkForm] = useState({ employee_id: "", department: "", position: "", join_date: "", location: "" });
   const [savingWork, setSavingWork] = useState(false);
@@ -84,9 +101,11 @@ export default function Profile() {
       setFormData({
         full_name: profileData.full_name || "",
         contact_number: profileData.contact_number || "",
+        recovery_email: profileData.recovery_email || "",
         address: profileData.address || "",
         date_of_birth: profileData.date_of_birth || "",
       });
+      setPendingRecoveryEmail(await getPendingRecoveryEmail());
       const { data: roleData } = await (supabase as any)
         .from("user_roles")
         .select("role, custom_role_id")
@@ -215,8 +234,18 @@ export default function Profile() {
       }
       setDobError(dobValidationError);
 
-      if (phoneError || dobValidationError) {
-        throw new Error(phoneError || dobValidationError || "Invalid input");
+      // Recovery email receives the sign-in address from Forgot Email, so it must be a different mailbox
+      let recoveryError: string | null = null;
+      const recoveryEmail = formData.recovery_email.trim();
+      if (recoveryEmail && !/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(recoveryEmail)) {
+        recoveryError = "Please enter a valid email address";
+      } else if (recoveryEmail && recoveryEmail.toLowerCase() === profile.email.toLowerCase()) {
+        recoveryError = "Recovery email must differ from your sign-in email";
+      }
+      setRecoveryEmailError(recoveryError);
+
+      if (phoneError || dobValidationError || recoveryError) {
+        throw new Error(phoneError || dobValidationError || recoveryError || "Invalid input");
       }
 
       const { data: { user } } = await supabase.auth.getUser();
@@ -246,6 +275,14 @@ export default function Profile() {
         metadata: { ...formData },
       });
       toast({ title: "Saved", description: "Profile updated successfully" });
+
+      // The recovery email is a way back into the account, so it changes separately: after a
+      // re-authentication and only once the new address confirms it
+      const current = (profile.recovery_email || "").toLowerCase();
+      const target = recoveryEmail.toLowerCase();
+      if (target !== current && target !== pendingRecoveryEmail?.email) {
+        await saveRecoveryEmail(recoveryEmail);
+      }
       await fetchProfile();
     } catch (error: any) {
       toast({ title: "Error", description: error.message, variant: "destructive" });
@@ -254,6 +291,40 @@ export default function Profile() {
     }
   };
 
+  const saveRecoveryEmail = async (recoveryEmail: string) => {
+    if (!(await requireStepUp())) {
+      toast({
+        title: "Recovery email not changed",
+        description: "Confirm it's you to change your recovery email",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      if (recoveryEmail) {
+        const sentTo = await sendRecoveryEmailVerification(recoveryEmail);
+        toast({ title: "Check your inbox", description: `Open the link we sent to ${sentTo} to start using it as your recovery email` });
+      } else {
+        await removeRecoveryEmail();
+        toast({ title: "Recovery email removed" });
+      }
+    } catch (error: any) {
+      if (await isStepUpRequired(error)) forgetStepUp();
+      toast({
+        title: "Recovery email not changed",
+        description: (await getStepUpError(error)) || error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleVerifyRecoveryEmail = async () => {
+    if (!profile?.recovery_email) return;
+    await saveRecoveryEmail(profile.recovery_email);
+    await fetchProfile();
+  };
+
   const calculateCompletion = () => {
     if (!profile) return;
 
@@ -425,7 +496,30 @@ export default function Profile() {
                       <Input value={profile.email} disabled />
                     </div>
                     <div>
-                      <Label>Phone Number</Label>
+                      <div className="flex items-center justify-between">
+                        <Label>Recovery Email</Label>
+                        {profile.recovery_email && formData.recovery_email.trim() === profile.recovery_email && (
+                          profile.recovery_email_verified_at
+                            ? <Badge variant="secondary">Verified</Badge>
+                            : <Button variant="link" size="sm" className="h-auto p-0" onClick={handleVerifyRecoveryEmail}>Verify</Button>
+                        )}
+                      </div>
+                      <Input type="email" value={formData.recovery_email} onChange={(e) => setFormData({ ...formData, recovery_email: e.target.value })} className={recoveryEmailError ? "border-destructive" : ""} />
+                      {recoveryEmailError
+                        ? <p className="text-sm text-destructive mt-1">{recoveryEmailError}</p>
+                        : pendingRecoveryEmail
+                          ? <p className="text-xs text-muted-foreground mt-1">Open the link we sent to {pendingRecoveryEmail.email} to start using it</p>
+                          : <p className="text-xs text-muted-foreground mt-1">Where we send your sign-in email if you forget it</p>}
+                    </div>
+                    <div>
+                      <div className="flex items-center justify-between">
+                        <Label>Phone Number</Label>
+                        {profile.contact_number && formData.contact_number === profile.contact_number && (
+                          profile.phone_verified_at
+                            ? <Badge variant="secondary">Verified</Badge>
+                            : <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setVerifyPhoneOpen(true)}>Verify</Button>
+                        )}
+                      </div>
                       <Input value={formData.contact_number} onChange={(e) => setFormData({ ...formData, contact_number: e.target.value })} className={contactError ? "border-destructive" : ""} />
                       {contactError && <p className="text-sm text-destructive mt-1">{contactError}</p>}
                     </div>
@@ -469,7 +563,7 @@ export default function Profile() {
               </Tabs>
             </CardContent>
           </Card>
-          
+          <ConnectedAccountsCard />
         </div>
       </div>
 
@@ -482,12 +576,18 @@ export default function Profile() {
         profile={profile}
         onSuccess={fetchProfile}
       />
+      <VerifyPhoneDialog
+        open={verifyPhoneOpen}
+        onOpenChange={setVerifyPhoneOpen}
+        onSuccess={fetchProfile}
+      />
       <SetPasswordDialog
         open={passwordDialogOpen}
         onOpenChange={setPasswordDialogOpen}
         isFirstTime={showPasswordSetup}
         onSuccess={fetchProfile}
       />
+      {stepUpDialog}
     </div>
   );
 }
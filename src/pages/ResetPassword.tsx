@@ -7,6 +7,14 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { Lock, Eye, EyeOff } from "lucide-react";
+import {
+  DEFAULT_PASSWORD_POLICY,
+  PasswordPolicy,
+  changePassword,
+  describePasswordPolicy,
+  getPasswordPolicy,
+  validatePassword,
+} from "@/lib/password-policy";
 
 const ResetPassword = () => {
   const navigate = useNavigate();
@@ -18,6 +26,11 @@ const ResetPassword = () => {
     password: "",
     confirmPassword: "",
   });
+  const [policy, setPolicy] = useState<PasswordPolicy>(DEFAULT_PASSWORD_POLICY);
+
+  useEffect(() => {
+    getPasswordPolicy().then(setPolicy);
+  }, []);
 
   useEffect(() => {
     // Check if user came from password reset link
@@ -45,31 +58,25 @@ const ResetPassword = () => {
       return;
     }
 
-    if (formData.password.length < 6) {
-      toast({
-        title: "Error",
-        description: "Password must be at least 6 characters",
-        variant: "destructive",
-      });
-      return;
-    }
-
     setLoading(true);
 
     try {
-      const { error } = await supabase.auth.updateUser({
-        password: formData.password,
-      });
+      const { data: { user } } = await supabase.auth.getUser();
 
-      if (error) throw error;
+      const problems = validatePassword(formData.password, policy, user?.email);
+      if (problems.length > 0) {
+        toast({
+          title: "Password too weak",
+          description: problems.join(". "),
+          variant: "destructive",
+        });
+        return;
+      }
 
-      // Update profile to mark password as set
-      const { data: { user } } = await supabase.auth.getUser();
-      if (user) {
-        await (supabase as any).from("profiles").update({
-          password_set: true,
-        }).eq("user_id", user.id);
+      // Recovery-link sessions may set a new password without the current one
+      await changePassword(formData.password);
 
+      if (user) {
         // Log activity
         await (supabase as any).from("activity_logs").insert({
           user_id: user.id,
@@ -136,6 +143,7 @@ const ResetPassword = () => {
                   )}
                 </Button>
               </div>
+              <p className="text-xs text-muted-foreground">{describePasswordPolicy(policy)}</p>
             </div>
 
             <div className="space-y-2">
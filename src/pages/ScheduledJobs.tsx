@@ -0,0 +1,275 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useToast } from "@/hooks/use-toast";
+import {
+  JobRun,
+  JobRunStatus,
+  ScheduledJob,
+  describeSchedule,
+  formatDuration,
+  listJobRuns,
+  listScheduledJobs,
+  runScheduledJob,
+  setScheduledJobEnabled,
+} from "@/lib/scheduled-jobs";
+import { Clock, Loader2, Play, RefreshCw } from "lucide-react";
+import { format } from "date-fns";
+
+const RUN_STATUS_VARIANTS: Record<JobRunStatus, "default" | "secondary" | "destructive"> = {
+  succeeded: "default",
+  running: "secondary",
+  failed: "destructive",
+};
+
+export default function ScheduledJobs() {
+  const { isAdmin, loading: permLoading } = usePermissions();
+  const { toast } = useToast();
+  const [jobs, setJobs] = useState<ScheduledJob[]>([]);
+  const [runs, setRuns] = useState<JobRun[]>([]);
+  const [recentRuns, setRecentRuns] = useState<JobRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyJob, setBusyJob] = useState<string | null>(null);
+  const [jobFilter, setJobFilter] = useState("all");
+  const [statusFilter, setStatusFilter] = useState("all");
+
+  const canView = !permLoading && isAdmin();
+
+  const fetchJobs = async () => {
+    setLoading(true);
+    try {
+      const [jobList, recentList, runList] = await Promise.all([
+        listScheduledJobs(),
+        listJobRuns({}, 500),
+        listJobRuns({
+          jobName: jobFilter === "all" ? undefined : jobFilter,
+          status: statusFilter === "all" ? undefined : (statusFilter as JobRunStatus),
+        }),
+      ]);
+      setJobs(jobList);
+      setRecentRuns(recentList);
+      setRuns(runList);
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!permLoading && canView) {
+      fetchJobs();
+    } else if (!permLoading) {
+      setLoading(false);
+    }
+  }, [permLoading, canView, jobFilter, statusFilter]);
+
+  const handleRun = async (job: ScheduledJob) => {
+    setBusyJob(job.name);
+    try {
+      const run = await runScheduledJob(job.name);
+      if (run.status === "failed") {
+        toast({ title: `${job.name} failed`, description: run.error || "The job failed", variant: "destructive" });
+      } else {
+        toast({
+          title: `${job.name} finished`,
+          description: `${run.rows_affected ?? 0} rows in ${formatDuration(run.duration_ms)}`,
+        });
+      }
+      await fetchJobs();
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } finally {
+      setBusyJob(null);
+    }
+  };
+
+  const handleToggle = async (job: ScheduledJob, enabled: boolean) => {
+    setBusyJob(job.name);
+    try {
+      await setScheduledJobEnabled(job.name, enabled);
+      setJobs((prev) => prev.map((j) => (j.name === job.name ? { ...j, enabled } : j)));
+      toast({ title: enabled ? "Job resumed" : "Job paused", description: job.name });
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } finally {
+      setBusyJob(null);
+    }
+  };
+
+  // Latest run and failures among the recent runs of every job, whatever the history filters
+  const lastRunOf = (jobName: string) => recentRuns.find((r) => r.job_name === jobName);
+  const failuresOf = (jobName: string) =>
+    recentRuns.filter((r) => r.job_name === jobName && r.status === "failed").length;
+
+  if (!permLoading && !canView) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-muted-foreground">
+          You don't have permission to view scheduled jobs.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Scheduled Jobs</h1>
+          <p className="text-muted-foreground">
+            Background maintenance run by the database scheduler. Schedules are in UTC.
+          </p>
+        </div>
+        <Button variant="outline" onClick={fetchJobs} disabled={loading}>
+          <RefreshCw className="w-4 h-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      {loading && jobs.length === 0 ? (
+        <div className="animate-pulse text-muted-foreground">Loading jobs...</div>
+      ) : jobs.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">No scheduled jobs registered</CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+          {jobs.map((job) => {
+            const lastRun = lastRunOf(job.name);
+            const failures = failuresOf(job.name);
+            return (
+              <Card key={job.name}>
+                <CardHeader>
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <Clock className="h-5 w-5 shrink-0" />
+                      <CardTitle className="text-lg truncate">{job.name}</CardTitle>
+                    </div>
+                    <Switch
+                      checked={job.enabled}
+                      onCheckedChange={(checked) => handleToggle(job, checked)}
+                      disabled={busyJob === job.name}
+                      aria-label={job.enabled ? "Pause job" : "Resume job"}
+                    />
+                  </div>
+                  <CardDescription>{job.description}</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3 text-sm">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge variant={job.enabled ? "default" : "secondary"}>{job.enabled ? "Active" : "Paused"}</Badge>
+                    <Badge variant="outline" title={job.schedule}>{describeSchedule(job.schedule)}</Badge>
+                    {failures > 0 && <Badge variant="destructive">{failures} recent failures</Badge>}
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Last run</p>
+                    {lastRun ? (
+                      <p className="font-medium">
+                        {format(new Date(lastRun.started_at), "MMM d, HH:mm:ss")} · {lastRun.status} ·{" "}
+                        {formatDuration(lastRun.duration_ms)}
+                      </p>
+                    ) : (
+                      <p className="font-medium">Never</p>
+                    )}
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="w-full"
+                    onClick={() => handleRun(job)}
+                    disabled={busyJob === job.name}
+                  >
+                    {busyJob === job.name ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <Play className="w-4 h-4 mr-2" />
+                    )}
+                    Run now
+                  </Button>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <CardTitle>Run History</CardTitle>
+              <CardDescription>The last 100 runs; history is kept for 30 days</CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Select value={jobFilter} onValueChange={setJobFilter}>
+                <SelectTrigger className="w-56">
+                  <SelectValue placeholder="All jobs" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All jobs</SelectItem>
+                  {jobs.map((job) => (
+                    <SelectItem key={job.name} value={job.name}>
+                      {job.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger className="w-40">
+                  <SelectValue placeholder="All status" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All status</SelectItem>
+                  <SelectItem value="succeeded">Succeeded</SelectItem>
+                  <SelectItem value="failed">Failed</SelectItem>
+                  <SelectItem value="running">Running</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="p-0">
+          {runs.length === 0 ? (
+            <p className="p-6 text-center text-muted-foreground">No runs recorded yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Job</TableHead>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Trigger</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Duration</TableHead>
+                  <TableHead>Rows</TableHead>
+                  <TableHead>Error</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.map((run) => (
+                  <TableRow key={run.id}>
+                    <TableCell className="font-medium">{run.job_name}</TableCell>
+                    <TableCell>{format(new Date(run.started_at), "MMM d, yyyy HH:mm:ss")}</TableCell>
+                    <TableCell className="capitalize">{run.trigger}</TableCell>
+                    <TableCell>
+                      <Badge variant={RUN_STATUS_VARIANTS[run.status]} className="capitalize">
+                        {run.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{formatDuration(run.duration_ms)}</TableCell>
+                    <TableCell>{run.rows_affected ?? "—"}</TableCell>
+                    <TableCell className="max-w-md text-xs text-destructive break-words">{run.error}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
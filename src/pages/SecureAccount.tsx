@@ -0,0 +1,91 @@
+import { useEffect, useRef, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Logo } from "@/components/Logo";
+import { supabase } from "@/integrations/supabase/client";
+import { invokeWithProof } from "@/lib/proof-of-work";
+import { getStepUpError } from "@/lib/step-up";
+import { Loader2 } from "lucide-react";
+
+// Landing page of the "this wasn't me" link in new-device sign-in alerts
+const SecureAccount = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [error, setError] = useState<string | null>(null);
+  const [email, setEmail] = useState<string | null>(null);
+  const [secured, setSecured] = useState(false);
+  // The link is single-use; StrictMode's double effect must not redeem it twice
+  const started = useRef(false);
+
+  useEffect(() => {
+    if (started.current) return;
+    started.current = true;
+
+    const token = searchParams.get("token");
+    if (!token) {
+      setError("The link is incomplete");
+      return;
+    }
+
+    const secure = async () => {
+      const { data, error } = await supabase.functions.invoke("secure-account", { body: { token } });
+      if (error || !data?.success) {
+        setError((await getStepUpError(error)) || data?.error || "This link is invalid, expired or was already used");
+        return;
+      }
+
+      // This browser's session, if any, was ended with all the others
+      await supabase.auth.signOut({ scope: "local" });
+      setEmail(data.email);
+      setSecured(true);
+      if (!data.email) return;
+
+      // Go straight on to the reset code; if it can't be sent now the button below starts over
+      const { data: sent, error: sendError } = await invokeWithProof("send-otp", {
+        email: data.email,
+        flow: "forgot_password",
+        channel: "email",
+      });
+      if (!sendError) {
+        navigate("/forgot-password", { replace: true, state: { email: data.email, sentTo: sent?.sentTo || data.email } });
+      }
+    };
+
+    secure().catch((e: Error) => setError(e.message));
+  }, [navigate, searchParams]);
+
+  return (
+    <div className="min-h-screen gradient-hero flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <div className="flex justify-center mb-4">
+            <Logo className="h-12" />
+          </div>
+          <CardTitle className="text-2xl text-center">
+            {error ? "Couldn't secure your account" : secured ? "You're signed out everywhere" : "Securing your account"}
+          </CardTitle>
+          <CardDescription className="text-center">
+            {error ||
+              (secured
+                ? "Every session of your account was ended. Reset your password to keep whoever signed in out."
+                : "Signing out every session of your account...")}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex justify-center">
+          {error ? (
+            <Button onClick={() => navigate("/forgot-password", { replace: true })}>Reset your password</Button>
+          ) : secured ? (
+            <Button onClick={() => navigate("/forgot-password", { replace: true, state: { email } })}>
+              Reset your password
+            </Button>
+          ) : (
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default SecureAccount;
@@ -9,15 +9,31 @@ import { useToast } from "@/hooks/use-toast";
 import { Settings as SettingsIcon, Key, Mail, Activity, CheckCircle2, AlertCircle, Clock } from "lucide-react";
 import { useEffect, useRef, useState } from "react";
 import { useTheme } from "next-themes";
+import { useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import SetPasswordDialog from "@/components/profile/SetPasswordDialog";
 import ChangeEmailDialog from "@/components/profile/ChangeEmailDialog";
 import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import TwoFactorCard from "@/components/settings/TwoFactorCard";
+import MfaPolicyCard from "@/components/settings/MfaPolicyCard";
+import PasskeysCard from "@/components/settings/PasskeysCard";
+import PasswordlessPolicyCard from "@/components/settings/PasswordlessPolicyCard";
+import LockoutPolicyCard from "@/components/settings/LockoutPolicyCard";
+import PasswordPolicyCard from "@/components/settings/PasswordPolicyCard";
+import SessionPolicyCard from "@/components/settings/SessionPolicyCard";
+import EnumerationProtectionCard from "@/components/settings/EnumerationProtectionCard";
+import IpAllowlistCard from "@/components/settings/IpAllowlistCard";
+import ActiveSessionsCard from "@/components/settings/ActiveSessionsCard";
+import ConnectedAccountsCard from "@/components/settings/ConnectedAccountsCard";
+import { usePermissions } from "@/hooks/usePermissions";
+import { EMAIL_TEMPLATE_LANGUAGES } from "@/lib/email-templates";
 
 export default function Settings() {
   const { toast } = useToast();
   const { theme, setTheme } = useTheme();
+  const [searchParams] = useSearchParams();
+  const { isAdmin } = usePermissions();
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [userId, setUserId] = useState<string | null>(null);
@@ -241,7 +257,7 @@ export default function Settings() {
           <CardDescription>Customize how the app behaves</CardDescription>
         </CardHeader>
         <CardContent>
-          <Tabs defaultValue="general" className="w-full">
+          <Tabs defaultValue={searchParams.get("tab") || "general"} className="w-full">
             <TabsList>
               <TabsTrigger value="general">General</TabsTrigger>
               <TabsTrigger value="notifications">Notifications</TabsTrigger>
@@ -290,7 +306,9 @@ export default function Settings() {
                   <Select value={values.language} onValueChange={(v) => setValues({ ...values, language: v })}>
                     <SelectTrigger className="mt-1"><SelectValue placeholder="Select language" /></SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="en">English</SelectItem>
+                      {EMAIL_TEMPLATE_LANGUAGES.map((l) => (
+                        <SelectItem key={l.value} value={l.value}>{l.label}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -323,6 +341,7 @@ export default function Settings() {
                   </div>
                 </CardContent>
               </Card>
+              <ActiveSessionsCard />
             </TabsContent>
             <TabsContent value="security" className="space-y-4 pt-4">
               <div className="grid md:grid-cols-2 gap-4">
@@ -352,6 +371,16 @@ export default function Settings() {
                   </CardContent>
                 </Card>
               </div>
+              <TwoFactorCard />
+              <PasskeysCard />
+              <ConnectedAccountsCard />
+              {isAdmin() && <MfaPolicyCard />}
+              {isAdmin() && <PasswordlessPolicyCard />}
+              {isAdmin() && <LockoutPolicyCard />}
+              {isAdmin() && <PasswordPolicyCard />}
+              {isAdmin() && <SessionPolicyCard />}
+              {isAdmin() && <EnumerationProtectionCard />}
+              {isAdmin() && <IpAllowlistCard />}
             </TabsContent>
             <TabsContent value="activity" className="space-y-4 pt-4">
               <Card>
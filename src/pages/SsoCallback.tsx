@@ -0,0 +1,60 @@
+import { useEffect, useRef, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Logo } from "@/components/Logo";
+import { completeOidcSignIn } from "@/lib/sso";
+import { Loader2 } from "lucide-react";
+
+const SsoCallback = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [error, setError] = useState<string | null>(null);
+  // The code is single-use; StrictMode's double effect must not redeem it twice
+  const started = useRef(false);
+
+  useEffect(() => {
+    if (started.current) return;
+    started.current = true;
+
+    const code = searchParams.get("code");
+    const state = searchParams.get("state");
+    const providerError = searchParams.get("error_description") || searchParams.get("error");
+
+    if (providerError || !code || !state) {
+      setError(providerError || "The sign-in response is incomplete");
+      return;
+    }
+
+    completeOidcSignIn(code, state)
+      .then(() => navigate("/dashboard", { replace: true }))
+      .catch((e: Error) => setError(e.message));
+  }, [navigate, searchParams]);
+
+  return (
+    <div className="min-h-screen gradient-hero flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <div className="flex justify-center mb-4">
+            <Logo className="h-12" />
+          </div>
+          <CardTitle className="text-2xl text-center">
+            {error ? "Single sign-on failed" : "Signing you in"}
+          </CardTitle>
+          <CardDescription className="text-center">
+            {error || "Completing sign-in with your organization's identity provider..."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex justify-center">
+          {error ? (
+            <Button onClick={() => navigate("/auth", { replace: true })}>Back to sign in</Button>
+          ) : (
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default SsoCallback;
@@ -0,0 +1,431 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useToast } from "@/hooks/use-toast";
+import { SSO_CONNECTION_TYPES, SsoConnection, SsoConnectionType, getSsoError } from "@/lib/sso";
+import { KeyRound, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+
+type ConnectionForm = {
+  id?: string;
+  name: string;
+  type: SsoConnectionType;
+  domains: string;
+  is_active: boolean;
+  issuer: string;
+  client_id: string;
+  client_secret: string;
+  has_client_secret: boolean;
+  scopes: string;
+  email_claim: string;
+  name_claim: string;
+  metadata_xml: string;
+};
+
+const emptyForm: ConnectionForm = {
+  name: "",
+  type: "oidc",
+  domains: "",
+  is_active: true,
+  issuer: "",
+  client_id: "",
+  client_secret: "",
+  has_client_secret: false,
+  scopes: "openid email profile",
+  email_claim: "email",
+  name_claim: "name",
+  metadata_xml: "",
+};
+
+const toForm = (c: SsoConnection): ConnectionForm => {
+  const mapping = c.type === "oidc" ? c.claim_mapping : c.attribute_mapping;
+  return {
+    id: c.id,
+    name: c.name,
+    type: c.type,
+    domains: c.domains.join(", "),
+    is_active: c.is_active,
+    issuer: c.issuer || "",
+    client_id: c.client_id || "",
+    client_secret: "",
+    has_client_secret: c.has_client_secret,
+    scopes: c.scopes,
+    email_claim: mapping?.email || "email",
+    name_claim: mapping?.full_name || "",
+    metadata_xml: c.metadata_xml || "",
+  };
+};
+
+export default function SsoConnections() {
+  const { isAdmin, loading: permLoading } = usePermissions();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [connections, setConnections] = useState<SsoConnection[]>([]);
+  const [serviceProvider, setServiceProvider] = useState<{ metadataUrl: string; acsUrl: string } | null>(null);
+  const [form, setForm] = useState<ConnectionForm | null>(null);
+  const [connectionToDelete, setConnectionToDelete] = useState<SsoConnection | null>(null);
+
+  const canManage = !permLoading && isAdmin();
+  const oidcRedirectUri = `${window.location.origin}/auth/sso/callback`;
+
+  useEffect(() => {
+    if (!permLoading && canManage) {
+      load();
+    } else if (!permLoading) {
+      setLoading(false);
+    }
+  }, [permLoading, canManage]);
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.functions.invoke("sso-connections", { body: { action: "list" } });
+      if (error) throw new Error((await getSsoError(error)) || "Failed to load SSO connections");
+      setConnections(data.connections || []);
+      setServiceProvider(data.serviceProvider);
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    setSaving(true);
+    try {
+      const mapping = { email: form.email_claim.trim(), full_name: form.name_claim.trim() || undefined };
+      const body = {
+        action: "save",
+        id: form.id,
+        name: form.name.trim(),
+        type: form.type,
+        domains: form.domains.split(/[\s,]+/).filter(Boolean),
+        is_active: form.is_active,
+        ...(form.type === "oidc"
+          ? {
+              issuer: form.issuer.trim(),
+              client_id: form.client_id.trim(),
+              client_secret: form.client_secret || undefined,
+              scopes: form.scopes.trim(),
+              claim_mapping: mapping,
+            }
+          : {
+              metadata_xml: form.metadata_xml.trim(),
+              attribute_mapping: mapping,
+            }),
+      };
+
+      const { data, error } = await supabase.functions.invoke("sso-connections", { body });
+      if (error) throw new Error((await getSsoError(error)) || "Failed to save connection");
+      if (!data?.success) throw new Error(data?.error || "Failed to save connection");
+
+      toast({ title: "Saved", description: `SSO connection "${body.name}" saved` });
+      setForm(null);
+      await load();
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!connectionToDelete) return;
+    try {
+      const { error } = await supabase.functions.invoke("sso-connections", {
+        body: { action: "delete", id: connectionToDelete.id },
+      });
+      if (error) throw new Error((await getSsoError(error)) || "Failed to delete connection");
+      setConnections((prev) => prev.filter((c) => c.id !== connectionToDelete.id));
+      toast({ title: "Deleted", description: `SSO connection "${connectionToDelete.name}" removed` });
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } finally {
+      setConnectionToDelete(null);
+    }
+  };
+
+  if (!permLoading && !canManage) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-muted-foreground">
+          You don't have permission to manage SSO connections.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">SSO Connections</h1>
+          <p className="text-muted-foreground">
+            Let users from your customers' domains sign in with Okta, Keycloak, ADFS or any OIDC / SAML identity provider
+          </p>
+        </div>
+        <Button onClick={() => setForm(emptyForm)}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Connection
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="animate-pulse text-muted-foreground">Loading connections...</div>
+      ) : connections.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">No SSO connections yet</CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2">
+          {connections.map((connection) => (
+            <Card key={connection.id}>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <KeyRound className="h-5 w-5" />
+                    <CardTitle>{connection.name}</CardTitle>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Button variant="ghost" size="icon" onClick={() => setForm(toForm(connection))}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => setConnectionToDelete(connection)}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                </div>
+                <CardDescription className="flex flex-wrap items-center gap-2">
+                  <Badge variant="outline">{connection.type === "oidc" ? "OIDC" : "SAML"}</Badge>
+                  <Badge variant={connection.is_active ? "default" : "secondary"}>
+                    {connection.is_active ? "Active" : "Disabled"}
+                  </Badge>
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                <div>
+                  <p className="text-muted-foreground">Domains</p>
+                  <p className="font-medium">{connection.domains.map((d) => `@${d}`).join(", ")}</p>
+                </div>
+                {connection.type === "oidc" ? (
+                  <div>
+                    <p className="text-muted-foreground">Issuer</p>
+                    <p className="font-medium break-all">{connection.issuer}</p>
+                  </div>
+                ) : (
+                  <div>
+                    <p className="text-muted-foreground">Connection ID</p>
+                    <p className="font-mono text-xs break-all">{connection.id}</p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={!!form} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{form?.id ? "Edit SSO Connection" : "Add SSO Connection"}</DialogTitle>
+            <DialogDescription>
+              Users whose email matches one of the domains are sent to this identity provider when they sign in
+            </DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="sso-name">Name</Label>
+                  <Input
+                    id="sso-name"
+                    placeholder="Acme Okta"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Protocol</Label>
+                  <Select
+                    value={form.type}
+                    onValueChange={(v) => setForm({ ...form, type: v as SsoConnectionType })}
+                    disabled={!!form.id}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SSO_CONNECTION_TYPES.map((t) => (
+                        <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="sso-domains">Email domains</Label>
+                <Input
+                  id="sso-domains"
+                  placeholder="acme.com, acme.co.uk"
+                  value={form.domains}
+                  onChange={(e) => setForm({ ...form, domains: e.target.value })}
+                />
+              </div>
+
+              {form.type === "oidc" ? (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="sso-issuer">Issuer URL</Label>
+                    <Input
+                      id="sso-issuer"
+                      placeholder="https://keycloak.example.com/realms/acme"
+                      value={form.issuer}
+                      onChange={(e) => setForm({ ...form, issuer: e.target.value })}
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="sso-client-id">Client ID</Label>
+                      <Input
+                        id="sso-client-id"
+                        value={form.client_id}
+                        onChange={(e) => setForm({ ...form, client_id: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="sso-client-secret">Client secret</Label>
+                      <Input
+                        id="sso-client-secret"
+                        type="password"
+                        placeholder={form.has_client_secret ? "Unchanged" : ""}
+                        value={form.client_secret}
+                        onChange={(e) => setForm({ ...form, client_secret: e.target.value })}
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="sso-scopes">Scopes</Label>
+                    <Input
+                      id="sso-scopes"
+                      value={form.scopes}
+                      onChange={(e) => setForm({ ...form, scopes: e.target.value })}
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Register <code className="rounded bg-muted px-1">{oidcRedirectUri}</code> as the redirect URI at the identity provider.
+                  </p>
+                </>
+              ) : (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="sso-metadata">Identity provider metadata XML</Label>
+                    <Textarea
+                      id="sso-metadata"
+                      className="min-h-[160px] font-mono text-xs"
+                      value={form.metadata_xml}
+                      onChange={(e) => setForm({ ...form, metadata_xml: e.target.value })}
+                    />
+                  </div>
+                  {serviceProvider && (
+                    <p className="text-xs text-muted-foreground break-all">
+                      Service provider metadata: <code className="rounded bg-muted px-1">{serviceProvider.metadataUrl}</code>
+                      <br />
+                      Assertion consumer service URL: <code className="rounded bg-muted px-1">{serviceProvider.acsUrl}</code>
+                    </p>
+                  )}
+                </>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="sso-email-claim">{form.type === "oidc" ? "Email claim" : "Email attribute"}</Label>
+                  <Input
+                    id="sso-email-claim"
+                    value={form.email_claim}
+                    onChange={(e) => setForm({ ...form, email_claim: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="sso-name-claim">{form.type === "oidc" ? "Full name claim" : "Full name attribute"}</Label>
+                  <Input
+                    id="sso-name-claim"
+                    placeholder="Optional"
+                    value={form.name_claim}
+                    onChange={(e) => setForm({ ...form, name_claim: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="sso-active"
+                  checked={form.is_active}
+                  onCheckedChange={(checked) => setForm({ ...form, is_active: checked })}
+                />
+                <Label htmlFor="sso-active">Active</Label>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !form?.name.trim() || !form?.domains.trim()}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save Connection
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!connectionToDelete} onOpenChange={(open) => !open && setConnectionToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete SSO Connection</AlertDialogTitle>
+            <AlertDialogDescription>
+              Users from {connectionToDelete?.domains.map((d) => `@${d}`).join(", ")} will sign in with a password or
+              email code again. Their accounts are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { ArrowLeft, Mail } from "lucide-react";
+import { formatRetryAfter, getRetryAfter } from "@/lib/rate-limit";
 
 const VerifyOTP = () => {
   const navigate = useNavigate();
@@ -14,6 +15,7 @@ const VerifyOTP = () => {
   const [otp, setOtp] = useState("");
   const [loading, setLoading] = useState(false);
   const [resendCooldown, setResendCooldown] = useState(0);
+  const [verifyLockout, setVerifyLockout] = useState(0);
 
   const { email, fullName, password } = location.state || {};
 
@@ -35,6 +37,13 @@ const VerifyOTP = () => {
     }
   }, [resendCooldown]);
 
+  useEffect(() => {
+    if (verifyLockout > 0) {
+      const timer = setTimeout(() => setVerifyLockout(verifyLockout - 1), 1000);
+      return () => clearTimeout(timer);
+    }
+  }, [verifyLockout]);
+
   const handleVerifyOTP = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -51,7 +60,7 @@ const VerifyOTP = () => {
 
     try {
       const { data, error } = await supabase.functions.invoke("verify-otp", {
-        body: { email, otp, fullName, password },
+        body: { email, otp, flow: "signup", fullName, password },
       });
 
       if (error) throw error;
@@ -83,6 +92,16 @@ const VerifyOTP = () => {
       }
       } catch (error: any) {
         console.error("Error verifying OTP:", error);
+        const retryAfter = await getRetryAfter(error);
+        if (retryAfter) {
+          setVerifyLockout(retryAfter);
+          toast({
+            title: "Too many attempts",
+            description: `Please try again in ${formatRetryAfter(retryAfter)}`,
+            variant: "destructive",
+          });
+          return;
+        }
         toast({
           title: "Verification Failed",
           description: "Wrong OTP, please check and re-enter again",
@@ -98,7 +117,7 @@ const VerifyOTP = () => {
 
     try {
       const { error } = await supabase.functions.invoke("send-otp", {
-        body: { email },
+        body: { email, flow: "signup" },
       });
 
       if (error) throw error;
@@ -114,9 +133,19 @@ const VerifyOTP = () => {
         status: "success",
         metadata: { email },
       });
-      setResendCooldown(30);
+      setResendCooldown(60);
     } catch (error: any) {
       console.error("Error resending OTP:", error);
+      const retryAfter = await getRetryAfter(error);
+      if (retryAfter) {
+        setResendCooldown(retryAfter);
+        toast({
+          title: "Too many requests",
+          description: `You can request a new code in ${formatRetryAfter(retryAfter)}`,
+          variant: "destructive",
+        });
+        return;
+      }
       await (supabase as any).from("activity_logs").insert({
         action_type: "otp_resend",
         description: `Signup OTP resend failed for ${email}`,
@@ -165,14 +194,16 @@ const VerifyOTP = () => {
               </InputOTP>
             </div>
 
-            <Button type="submit" className="w-full" disabled={loading}>
-              {loading ? "Verifying..." : "Verify Code"}
+            <Button type="submit" className="w-full" disabled={loading || verifyLockout > 0}>
+              {verifyLockout > 0
+                ? `Try again in ${formatRetryAfter(verifyLockout)}`
+                : loading ? "Verifying..." : "Verify Code"}
             </Button>
           </form>
 
           <div className="space-y-2">
             <p className="text-center text-sm text-muted-foreground">
-              {resendCooldown > 0 ? `Resend code in ${resendCooldown}s` : ""}
+              {resendCooldown > 0 ? `Resend code in ${formatRetryAfter(resendCooldown)}` : ""}
             </p>
             <div className="flex justify-between items-center">
               <Button variant="link" className="text-sm" onClick={() => navigate("/auth")}>
@@ -0,0 +1,65 @@
+import { useEffect, useRef, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Logo } from "@/components/Logo";
+import { verifyRecoveryEmail } from "@/lib/recovery-email";
+import { getStepUpError } from "@/lib/step-up";
+import { Loader2 } from "lucide-react";
+
+// Landing page of the link sent to a newly added recovery email
+const VerifyRecoveryEmail = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [error, setError] = useState<string | null>(null);
+  const [email, setEmail] = useState<string | null>(null);
+  // The link is single-use; StrictMode's double effect must not redeem it twice
+  const started = useRef(false);
+
+  useEffect(() => {
+    if (started.current) return;
+    started.current = true;
+
+    const token = searchParams.get("token");
+    if (!token) {
+      setError("The link is incomplete");
+      return;
+    }
+
+    verifyRecoveryEmail(token)
+      .then(setEmail)
+      .catch(async (e: Error) =>
+        setError((await getStepUpError(e)) || "This link is invalid, expired or was already used")
+      );
+  }, [searchParams]);
+
+  return (
+    <div className="min-h-screen gradient-hero flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <div className="flex justify-center mb-4">
+            <Logo className="h-12" />
+          </div>
+          <CardTitle className="text-2xl text-center">
+            {error ? "Couldn't confirm the recovery email" : email ? "Recovery email confirmed" : "Confirming your recovery email"}
+          </CardTitle>
+          <CardDescription className="text-center">
+            {error ||
+              (email
+                ? `If you ever forget which email you sign in with, we'll send it to ${email}.`
+                : "Checking the link...")}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex justify-center">
+          {error || email ? (
+            <Button onClick={() => navigate("/auth", { replace: true })}>Continue to sign in</Button>
+          ) : (
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default VerifyRecoveryEmail;
@@ -3,9 +3,10 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { usePermissions } from "@/hooks/usePermissions";
 import RolesTab from "./components/RolesTab";
 import PermissionsTab from "./components/PermissionsTab";
+import SsoProvisioningTab from "./components/SsoProvisioningTab";
 
 export default function RBACPage() {
-  const { hasPermission } = usePermissions();
+  const { hasPermission, isAdmin } = usePermissions();
   const [activeTab, setActiveTab] = useState("roles");
 
   if (!hasPermission("rbac", "view")) {
@@ -28,9 +29,10 @@ export default function RBACPage() {
       </div>
 
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid w-full max-w-md grid-cols-2">
+        <TabsList className={`grid w-full max-w-md ${isAdmin() ? "grid-cols-3" : "grid-cols-2"}`}>
           <TabsTrigger value="roles">Roles</TabsTrigger>
           <TabsTrigger value="permissions">Permissions</TabsTrigger>
+          {isAdmin() && <TabsTrigger value="sso">SSO Provisioning</TabsTrigger>}
         </TabsList>
 
         <TabsContent value="roles" className="mt-6">
@@ -40,6 +42,12 @@ export default function RBACPage() {
         <TabsContent value="permissions" className="mt-6">
           <PermissionsTab />
         </TabsContent>
+
+        {isAdmin() && (
+          <TabsContent value="sso" className="mt-6">
+            <SsoProvisioningTab />
+          </TabsContent>
+        )}
       </Tabs>
     </div>
   );
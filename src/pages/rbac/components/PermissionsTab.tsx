@@ -6,6 +6,8 @@ import { Save } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { usePermissions } from "@/hooks/usePermissions";
 import { useAllRoles } from "@/hooks/useAllRoles";
+import { useStepUp } from "@/hooks/useStepUp";
+import { forgetStepUp, isStepUpRequired } from "@/lib/step-up";
 import {
   Select,
   SelectContent,
@@ -35,6 +37,7 @@ export default function PermissionsTab() {
   const { toast } = useToast();
   const { hasRole } = usePermissions();
   const { allRoles, loading: rolesLoading } = useAllRoles();
+  const { requireStepUp, stepUpDialog } = useStepUp();
   const [permissions, setPermissions] = useState<Permission[]>([]);
   const [selectedRole, setSelectedRole] = useState<string>("");
   const [rolePermissions, setRolePermissions] = useState<Set<string>>(new Set());
@@ -138,6 +141,9 @@ export default function PermissionsTab() {
   const handleSave = async () => {
     if (!selectedRole) return;
 
+    // The database refuses super_admin permission changes without a recent re-authentication
+    if (selectedRole === "super_admin" && !(await requireStepUp())) return;
+
     try {
       setSaving(true);
       const { data: { user } } = await supabase.auth.getUser();
@@ -218,9 +224,13 @@ export default function PermissionsTab() {
       setHasChanges(false);
     } catch (error) {
       console.error("Error saving permissions:", error);
+      const stepUpExpired = await isStepUpRequired(error);
+      if (stepUpExpired) forgetStepUp();
       toast({
         title: "Error",
-        description: "Failed to update permissions",
+        description: stepUpExpired
+          ? "Your re-authentication expired. Save again to confirm it's you."
+          : "Failed to update permissions",
         variant: "destructive",
       });
     } finally {
@@ -327,6 +337,8 @@ export default function PermissionsTab() {
           Select a role to configure its permissions
         </div>
       )}
+
+      {stepUpDialog}
     </div>
   );
 }
@@ -0,0 +1,403 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2, Loader2 } from "lucide-react";
+import { useAllRoles } from "@/hooks/useAllRoles";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+type ProvisioningRule = {
+  id: string;
+  domain: string;
+  provider: string | null;
+  role: string | null;
+  custom_role_id: string | null;
+  department: string | null;
+  priority: number;
+  is_active: boolean;
+};
+
+const PROVIDERS = [
+  { value: "any", label: "Any provider" },
+  { value: "google", label: "Google" },
+  { value: "azure", label: "Microsoft (Azure)" },
+  { value: "github", label: "GitHub" },
+];
+
+const UNMATCHED_ACTIONS = [
+  { value: "hold", label: "Hold for admin approval" },
+  { value: "reject", label: "Reject the sign-up" },
+];
+
+const emptyForm = { domain: "", provider: "any", role: "employee", department: "", priority: "100" };
+
+export default function SsoProvisioningTab() {
+  const { toast } = useToast();
+  const { allRoles } = useAllRoles();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [rules, setRules] = useState<ProvisioningRule[]>([]);
+  const [unmatched, setUnmatched] = useState("hold");
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [ruleToDelete, setRuleToDelete] = useState<ProvisioningRule | null>(null);
+
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  const fetchRules = async () => {
+    try {
+      const [{ data: ruleData, error }, { data: setting }] = await Promise.all([
+        (supabase as any)
+          .from("sso_provisioning_rules")
+          .select("*")
+          .order("priority", { ascending: true })
+          .order("created_at", { ascending: true }),
+        (supabase as any).from("system_settings").select("value").eq("key", "sso_provisioning").maybeSingle(),
+      ]);
+      if (error) throw error;
+      setRules(ruleData || []);
+      setUnmatched(setting?.value?.unmatched || "hold");
+    } catch (error) {
+      console.error("Error fetching provisioning rules:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const logActivity = async (description: string, metadata: Record<string, unknown>) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    await (supabase as any).from("activity_logs").insert({
+      user_id: user?.id,
+      performed_by: user?.id,
+      action_type: "sso_rule_updated",
+      description,
+      metadata,
+      module: "rbac",
+      status: "success",
+    });
+  };
+
+  const getRoleLabel = (rule: ProvisioningRule) => {
+    const value = rule.custom_role_id ? `custom_${rule.custom_role_id}` : rule.role;
+    return allRoles.find((r) => r.value === value)?.label || "Unknown role";
+  };
+
+  const getProviderLabel = (provider: string | null) =>
+    PROVIDERS.find((p) => p.value === (provider || "any"))?.label || provider;
+
+  const handleCreate = async () => {
+    const domain = form.domain.trim().toLowerCase().replace(/^@/, "");
+    if (!/^[a-z0-9.-]+\.[a-z]{2,}$/.test(domain)) {
+      toast({ title: "Invalid domain", description: "Enter a domain like example.com", variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const isCustom = form.role.startsWith("custom_");
+      const { error } = await (supabase as any).from("sso_provisioning_rules").insert({
+        domain,
+        provider: form.provider === "any" ? null : form.provider,
+        role: isCustom ? null : form.role,
+        custom_role_id: isCustom ? form.role.replace("custom_", "") : null,
+        department: form.department.trim() || null,
+        priority: Number(form.priority) || 100,
+        created_by: user?.id,
+      });
+      if (error) throw error;
+
+      await logActivity(`SSO provisioning rule added for @${domain}`, {
+        domain,
+        provider: form.provider,
+        role: form.role,
+        department: form.department.trim() || null,
+      });
+
+      toast({ title: "Rule added", description: `New SSO users from @${domain} will be provisioned by this rule` });
+      setDialogOpen(false);
+      setForm(emptyForm);
+      fetchRules();
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message || "Failed to add rule", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (rule: ProvisioningRule, isActive: boolean) => {
+    try {
+      const { error } = await (supabase as any)
+        .from("sso_provisioning_rules")
+        .update({ is_active: isActive })
+        .eq("id", rule.id);
+      if (error) throw error;
+      await logActivity(`SSO provisioning rule for @${rule.domain} ${isActive ? "enabled" : "disabled"}`, {
+        rule_id: rule.id,
+        is_active: isActive,
+      });
+      setRules((prev) => prev.map((r) => (r.id === rule.id ? { ...r, is_active: isActive } : r)));
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message || "Failed to update rule", variant: "destructive" });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!ruleToDelete) return;
+    try {
+      const { error } = await (supabase as any).from("sso_provisioning_rules").delete().eq("id", ruleToDelete.id);
+      if (error) throw error;
+      await logActivity(`SSO provisioning rule for @${ruleToDelete.domain} deleted`, { rule_id: ruleToDelete.id });
+      setRules((prev) => prev.filter((r) => r.id !== ruleToDelete.id));
+      toast({ title: "Rule deleted", description: `@${ruleToDelete.domain} is no longer provisioned by this rule` });
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message || "Failed to delete rule", variant: "destructive" });
+    } finally {
+      setRuleToDelete(null);
+    }
+  };
+
+  const handleUnmatchedChange = async (value: string) => {
+    const previous = unmatched;
+    setUnmatched(value);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await (supabase as any)
+        .from("system_settings")
+        .upsert({ key: "sso_provisioning", value: { unmatched: value }, updated_by: user?.id });
+      if (error) throw error;
+
+      await (supabase as any).from("activity_logs").insert({
+        user_id: user?.id,
+        performed_by: user?.id,
+        action_type: "settings_updated",
+        description: `Unmatched SSO sign-ups are now ${value === "reject" ? "rejected" : "held for approval"}`,
+        metadata: { setting: "sso_provisioning", unmatched: value },
+        module: "settings",
+        status: "success",
+      });
+
+      toast({ title: "Saved", description: "SSO provisioning policy updated" });
+    } catch (error: any) {
+      setUnmatched(previous);
+      toast({ title: "Error", description: error.message || "Failed to save policy", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-semibold">SSO Provisioning</h2>
+          <p className="text-sm text-muted-foreground">
+            Assign a role and department to users who sign up with Google, Microsoft or GitHub, based on their email domain
+          </p>
+        </div>
+        <Button onClick={() => setDialogOpen(true)}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Rule
+        </Button>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <Label className="whitespace-nowrap">When no rule matches</Label>
+        <Select value={unmatched} onValueChange={handleUnmatchedChange} disabled={loading}>
+          <SelectTrigger className="w-[240px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {UNMATCHED_ACTIONS.map((a) => (
+              <SelectItem key={a.value} value={a.value}>{a.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Domain</TableHead>
+              <TableHead>Provider</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Department</TableHead>
+              <TableHead className="text-center w-[90px]">Priority</TableHead>
+              <TableHead className="text-center w-[90px]">Active</TableHead>
+              <TableHead className="text-right w-[80px]">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                  Loading...
+                </TableCell>
+              </TableRow>
+            ) : rules.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                  No provisioning rules yet
+                </TableCell>
+              </TableRow>
+            ) : (
+              rules.map((rule) => (
+                <TableRow key={rule.id}>
+                  <TableCell className="font-medium">@{rule.domain}</TableCell>
+                  <TableCell className="text-muted-foreground">{getProviderLabel(rule.provider)}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{getRoleLabel(rule)}</Badge>
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">{rule.department || "-"}</TableCell>
+                  <TableCell className="text-center">{rule.priority}</TableCell>
+                  <TableCell className="text-center">
+                    <Switch checked={rule.is_active} onCheckedChange={(checked) => handleToggle(rule, checked)} />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="icon" onClick={() => setRuleToDelete(rule)}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Rules apply when an account is first created. The lowest priority number wins; a provider-specific rule beats "Any provider" at the same priority.
+      </p>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Provisioning Rule</DialogTitle>
+            <DialogDescription>New SSO users whose email domain matches get this role and department</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="sso-domain">Email domain</Label>
+              <Input
+                id="sso-domain"
+                placeholder="example.com"
+                value={form.domain}
+                onChange={(e) => setForm({ ...form, domain: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Provider</Label>
+                <Select value={form.provider} onValueChange={(v) => setForm({ ...form, provider: v })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PROVIDERS.map((p) => (
+                      <SelectItem key={p.value} value={p.value}>{p.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Role</Label>
+                <Select value={form.role} onValueChange={(v) => setForm({ ...form, role: v })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {allRoles
+                      .filter((r) => r.value !== "super_admin")
+                      .map((r) => (
+                        <SelectItem key={r.value} value={r.value}>{r.label}</SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="sso-department">Department</Label>
+                <Input
+                  id="sso-department"
+                  placeholder="Optional"
+                  value={form.department}
+                  onChange={(e) => setForm({ ...form, department: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sso-priority">Priority</Label>
+                <Input
+                  id="sso-priority"
+                  type="number"
+                  min={0}
+                  value={form.priority}
+                  onChange={(e) => setForm({ ...form, priority: e.target.value })}
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={saving || !form.domain.trim()}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Add Rule
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!ruleToDelete} onOpenChange={(open) => !open && setRuleToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Rule</AlertDialogTitle>
+            <AlertDialogDescription>
+              New SSO users from @{ruleToDelete?.domain} will no longer be provisioned by this rule. Existing users keep their role.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
@@ -17,6 +17,14 @@ import { useToast } from "@/hooks/use-toast";
 import { Switch } from "@/components/ui/switch";
 import { useAllRoles } from "@/hooks/useAllRoles";
 import { Badge } from "@/components/ui/badge";
+import {
+  DEFAULT_PASSWORD_POLICY,
+  PasswordPolicy,
+  describePasswordPolicy,
+  generatePassword,
+  getPasswordPolicy,
+  validatePassword,
+} from "@/lib/password-policy";
 
 export default function AddUser() {
   const navigate = useNavigate();
@@ -32,27 +40,33 @@ export default function AddUser() {
     is_active: true,
   });
 
-  const generatePassword = () => {
-    const length = 12;
-    const charset =
-      "abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789!@#$%^&*";
-    let password = "";
-    for (let i = 0; i < length; i++) {
-      password += charset.charAt(Math.floor(Math.random() * charset.length));
-    }
-    return password;
-  };
+  const [policy, setPolicy] = useState<PasswordPolicy>(DEFAULT_PASSWORD_POLICY);
+
+  useEffect(() => {
+    getPasswordPolicy().then(setPolicy);
+  }, []);
 
   const handleAutoGenerate = (checked: boolean) => {
     setAutoGeneratePassword(checked);
     if (checked) {
-      const newPassword = generatePassword();
+      const newPassword = generatePassword(policy);
       setFormData({ ...formData, password: newPassword });
     }
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    const passwordProblems = validatePassword(formData.password, policy, formData.email);
+    if (passwordProblems.length > 0) {
+      toast({
+        title: "Password too weak",
+        description: passwordProblems.join(". "),
+        variant: "destructive",
+      });
+      return;
+    }
+
     setLoading(true);
 
     try {
@@ -273,10 +287,12 @@ export default function AddUser() {
                 required
                 readOnly={autoGeneratePassword}
               />
-              {autoGeneratePassword && (
+              {autoGeneratePassword ? (
                 <p className="text-xs text-muted-foreground">
                   Copy this password and send it to the user securely
                 </p>
+              ) : (
+                <p className="text-xs text-muted-foreground">{describePasswordPolicy(policy)}</p>
               )}
             </div>
 
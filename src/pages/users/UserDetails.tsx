@@ -4,13 +4,19 @@ import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { ArrowLeft, Edit, Mail, Calendar, Shield, Activity } from "lucide-react";
+import { ArrowLeft, Edit, Eye, Mail, Calendar, Shield, Activity, Fingerprint, LockOpen } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import ActiveSessionsCard from "@/components/settings/ActiveSessionsCard";
+import ImpersonateDialog from "@/components/ImpersonateDialog";
+import { getProviderLabel } from "@/lib/identities";
+import { isImpersonating } from "@/lib/impersonation";
 
 interface UserProfile {
   full_name: string;
   email: string;
   signup_method: string;
+  linked_providers?: string[] | null;
   is_active: boolean;
   last_sign_in: string | null;
   created_at: string;
@@ -21,6 +27,13 @@ interface UserProfile {
   profile_picture_url: string | null;
 }
 
+interface Passkey {
+  id: string;
+  name: string;
+  created_at: string;
+  last_used_at: string | null;
+}
+
 interface ActivityLog {
   id: string;
   action_type: string;
@@ -36,7 +49,13 @@ export default function UserDetails() {
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [roles, setRoles] = useState<string[]>([]);
   const [activityLogs, setActivityLogs] = useState<ActivityLog[]>([]);
+  const [passkeys, setPasskeys] = useState<Passkey[]>([]);
+  const [lockedUntil, setLockedUntil] = useState<string | null>(null);
+  const [unlocking, setUnlocking] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [impersonateOpen, setImpersonateOpen] = useState(false);
+  const { isAdmin, hasRole } = usePermissions();
 
   useEffect(() => {
     if (userId) {
@@ -46,6 +65,9 @@ export default function UserDetails() {
 
   const fetchUserDetails = async () => {
     try {
+      const { data: { user } } = await supabase.auth.getUser();
+      setCurrentUserId(user?.id ?? null);
+
       // Fetch profile
       const { data: profileData, error: profileError } = await supabase
         .from("profiles")
@@ -98,6 +120,25 @@ export default function UserDetails() {
         .limit(10);
 
       setActivityLogs(logsData || []);
+
+      // Fetch registered passkeys
+      const { data: passkeysData } = await (supabase as any)
+        .from("passkeys")
+        .select("id, name, created_at, last_used_at")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: true });
+
+      setPasskeys(passkeysData || []);
+
+      // Current lockout from failed sign-ins, if any
+      const { data: lockout } = await (supabase as any)
+        .from("account_lockouts")
+        .select("locked_until")
+        .eq("user_id", userId)
+        .gt("locked_until", new Date().toISOString())
+        .maybeSingle();
+
+      setLockedUntil(lockout?.locked_until ?? null);
     } catch (error: any) {
       toast({
         title: "Error",
@@ -109,6 +150,21 @@ export default function UserDetails() {
     }
   };
 
+  const handleUnlock = async () => {
+    setUnlocking(true);
+    try {
+      const { error } = await (supabase as any).rpc("unlock_account", { _user_id: userId });
+      if (error) throw error;
+
+      setLockedUntil(null);
+      toast({ title: "Account unlocked", description: "The user can sign in again" });
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message || "Failed to unlock account", variant: "destructive" });
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
   const getRoleBadgeColor = (role: string) => {
     const colors: Record<string, string> = {
       super_admin: "bg-purple-500/10 text-purple-500",
@@ -128,6 +184,14 @@ export default function UserDetails() {
     return <div>User not found</div>;
   }
 
+  // Other super admins and suspended accounts cannot be impersonated (the server enforces this too)
+  const canImpersonate =
+    hasRole("super_admin") &&
+    !isImpersonating() &&
+    userId !== currentUserId &&
+    profile.is_active &&
+    !roles.includes("super_admin");
+
   return (
     <div className="space-y-6 animate-fade-in">
       <div className="flex items-center justify-between">
@@ -141,10 +205,18 @@ export default function UserDetails() {
             <p className="text-muted-foreground">View user information</p>
           </div>
         </div>
-        <Button onClick={() => navigate(`/users/edit/${userId}`)}>
-          <Edit className="w-4 h-4 mr-2" />
-          Edit User
-        </Button>
+        <div className="flex items-center gap-2">
+          {canImpersonate && (
+            <Button variant="outline" onClick={() => setImpersonateOpen(true)}>
+              <Eye className="w-4 h-4 mr-2" />
+              View as User
+            </Button>
+          )}
+          <Button onClick={() => navigate(`/users/edit/${userId}`)}>
+            <Edit className="w-4 h-4 mr-2" />
+            Edit User
+          </Button>
+        </div>
       </div>
 
       <div className="grid gap-6 md:grid-cols-2">
@@ -212,10 +284,36 @@ export default function UserDetails() {
                   {profile.is_active ? "Active" : "Inactive"}
                 </Badge>
               </div>
+              {lockedUntil && (
+                <div className="flex items-center justify-between gap-4 rounded-md border border-rose-500/20 bg-rose-500/10 p-3">
+                  <div>
+                    <p className="text-sm font-medium text-rose-600">Locked</p>
+                    <p className="text-xs text-muted-foreground">
+                      Too many failed sign-ins. Locked until {new Date(lockedUntil).toLocaleString()}
+                    </p>
+                  </div>
+                  {isAdmin() && (
+                    <Button variant="outline" size="sm" onClick={handleUnlock} disabled={unlocking}>
+                      <LockOpen className="w-4 h-4 mr-2" />
+                      Unlock
+                    </Button>
+                  )}
+                </div>
+              )}
               <div>
                 <p className="text-sm text-muted-foreground">Signup Method</p>
                 <Badge>{profile.signup_method}</Badge>
               </div>
+              {profile.linked_providers && profile.linked_providers.length > 0 && (
+                <div>
+                  <p className="text-sm text-muted-foreground">Connected Accounts</p>
+                  <div className="flex flex-wrap gap-1">
+                    {profile.linked_providers.map((provider) => (
+                      <Badge key={provider} variant="outline">{getProviderLabel(provider)}</Badge>
+                    ))}
+                  </div>
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -246,6 +344,43 @@ export default function UserDetails() {
         </div>
       </div>
 
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Fingerprint className="h-5 w-5" />
+            Passkeys
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {passkeys.length === 0 ? (
+            <p className="text-muted-foreground">No passkeys registered</p>
+          ) : (
+            <div className="space-y-4">
+              {passkeys.map((passkey) => (
+                <div key={passkey.id} className="flex items-center justify-between pb-4 border-b last:border-0">
+                  <div>
+                    <p className="font-medium">{passkey.name}</p>
+                    <p className="text-sm text-muted-foreground">
+                      Added {new Date(passkey.created_at).toLocaleString()}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-sm text-muted-foreground">Last Used</p>
+                    <p className="font-medium">
+                      {passkey.last_used_at
+                        ? new Date(passkey.last_used_at).toLocaleString()
+                        : "Never"}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {isAdmin() && userId && <ActiveSessionsCard userId={userId} />}
+
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
@@ -283,6 +418,15 @@ export default function UserDetails() {
           )}
         </CardContent>
       </Card>
+
+      {canImpersonate && (
+        <ImpersonateDialog
+          open={impersonateOpen}
+          onOpenChange={setImpersonateOpen}
+          userId={userId as string}
+          userName={profile.full_name || profile.email}
+        />
+      )}
     </div>
   );
 }
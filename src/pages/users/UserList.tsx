@@ -24,6 +24,8 @@ import { useNavigate } from "react-router-dom";
 import { useToast } from "@/hooks/use-toast";
 import { usePermissions } from "@/hooks/usePermissions";
 import { useAllRoles } from "@/hooks/useAllRoles";
+import { useStepUp } from "@/hooks/useStepUp";
+import { forgetStepUp, getStepUpError, isStepUpRequired } from "@/lib/step-up";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -64,9 +66,11 @@ export default function UserList() {
   const { toast } = useToast();
   const { hasPermission, loading: permLoading } = usePermissions();
   const { allRoles, loading: rolesLoading } = useAllRoles();
+  const { requireStepUp, stepUpDialog } = useStepUp();
   const [users, setUsers] = useState<UserProfile[]>([]);
   const [filteredUsers, setFilteredUsers] = useState<UserProfile[]>([]);
   const [userRoles, setUserRoles] = useState<Record<string, string>>({});
+  const [lockedUsers, setLockedUsers] = useState<Record<string, string>>({});
   const [searchTerm, setSearchTerm] = useState("");
   const [roleFilter, setRoleFilter] = useState<string>("all");
   const [statusFilter, setStatusFilter] = useState<string>("all");
@@ -133,6 +137,17 @@ export default function UserList() {
       setUsers(profiles || []);
       setFilteredUsers(profiles || []);
 
+      // Accounts currently locked out after failed sign-ins
+      const { data: lockouts } = await (supabase as any)
+        .from("account_lockouts")
+        .select("user_id, locked_until")
+        .gt("locked_until", new Date().toISOString());
+      const lockedMap: Record<string, string> = {};
+      for (const lockout of lockouts || []) {
+        lockedMap[lockout.user_id] = lockout.locked_until;
+      }
+      setLockedUsers(lockedMap);
+
       // Fetch roles for each user
       if (profiles) {
         const rolesMap: Record<string, string> = {};
@@ -268,6 +283,7 @@ export default function UserList() {
     try {
       const { data: { user } } = await supabase.auth.getUser();
 
+      // Deactivating the profile bans the auth user and ends all of their sessions (on_profile_suspended trigger)
       const { error } = await supabase
         .from("profiles")
         .update({ is_active: false })
@@ -279,7 +295,7 @@ export default function UserList() {
         user_id: deleteUserId,
         performed_by: user?.id,
         action_type: "user_status_changed",
-        description: "User account suspended",
+        description: "User account suspended and signed out of all sessions",
         module: "users",
         target: deleteUserId,
         status: "success",
@@ -287,7 +303,7 @@ export default function UserList() {
 
       toast({
         title: "Success",
-        description: "User suspended successfully",
+        description: "User suspended and signed out everywhere",
       });
 
       fetchUsers();
@@ -344,22 +360,28 @@ export default function UserList() {
 
   const handleHardDeleteUser = async () => {
     if (!hardDeleteUserId) return;
+    const userId = hardDeleteUserId;
 
     try {
+      if (!(await requireStepUp())) return;
+
       const { data: { user } } = await supabase.auth.getUser();
 
       const { data, error } = await supabase.functions.invoke("delete-user", {
-        body: { userId: hardDeleteUserId },
+        body: { userId },
       });
-      if (error) throw error;
+      if (error) {
+        if (await isStepUpRequired(error)) forgetStepUp();
+        throw new Error((await getStepUpError(error)) || error.message);
+      }
 
       await supabase.from("activity_logs").insert({
-        user_id: hardDeleteUserId,
+        user_id: userId,
         performed_by: user?.id,
         action_type: "user_deleted",
         description: "User permanently deleted",
         module: "users",
-        target: hardDeleteUserId,
+        target: userId,
         status: "success",
       });
 
@@ -536,6 +558,15 @@ export default function UserList() {
                     >
                       {user.is_active ? "active" : "inactive"}
                     </Badge>
+                    {lockedUsers[user.user_id] && (
+                      <Badge
+                        variant="outline"
+                        className="ml-2 bg-rose-500/10 text-rose-600 border-rose-500/20"
+                        title={`Locked until ${new Date(lockedUsers[user.user_id]).toLocaleString()}`}
+                      >
+                        Locked
+                      </Badge>
+                    )}
                   </TableCell>
                   <TableCell className="text-muted-foreground">
                     {user.last_sign_in
@@ -650,6 +681,8 @@ export default function UserList() {
         </AlertDialogContent>
       </AlertDialog>
 
+      {stepUpDialog}
+
       <Dialog open={inviteOpen} onOpenChange={setInviteOpen}>
         <DialogContent>
           <DialogHeader>
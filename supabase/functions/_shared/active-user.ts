@@ -0,0 +1,53 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createCallerClient } from "./step-up.ts";
+
+/**
+ * A suspended user's access token stays valid until it expires, so functions that act for the
+ * caller check the account too. Returns the 403 to send back, or null when the user is active.
+ */
+export const requireActiveUser = async (
+  supabaseAdmin: SupabaseClient,
+  userId: string,
+  corsHeaders: Record<string, string>
+) => {
+  const { data: isActive } = await supabaseAdmin.rpc("is_user_active", { _user_id: userId });
+  if (isActive !== false) return null;
+
+  return new Response(
+    JSON.stringify({ error: "This account is suspended. Contact your administrator.", code: "account_suspended" }),
+    { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+};
+
+/**
+ * The TOTP challenge is enforced here and in RLS, not only by the sign-in screen: a session that
+ * has not passed it (aal1) is refused when the user has an authenticator or their role requires
+ * one. Asks mfa_satisfied() as the caller, so both apply the same rule. Returns the 403 to send
+ * back, or null.
+ */
+export const requireSecondFactor = async (jwt: string, corsHeaders: Record<string, string>) => {
+  const { data, error } = await createCallerClient(jwt).rpc("mfa_satisfied");
+  if (error) console.error("Error checking the second factor:", error);
+  if (data === true) return null;
+
+  return new Response(
+    JSON.stringify({ error: "Complete two-factor authentication to continue", code: "mfa_required" }),
+    { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+};
+
+/**
+ * A password older than the policy's maximum age must be changed before anything else, so every
+ * signed-in function except change-password refuses the caller, as RLS does through
+ * password_current(). Impersonation sessions are exempt. Returns the 403 to send back, or null.
+ */
+export const requireCurrentPassword = async (jwt: string, corsHeaders: Record<string, string>) => {
+  const { data, error } = await createCallerClient(jwt).rpc("password_current");
+  if (error) console.error("Error checking password age:", error);
+  if (data === true) return null;
+
+  return new Response(
+    JSON.stringify({ error: "Your password has expired. Change it to continue.", code: "password_expired" }),
+    { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+};
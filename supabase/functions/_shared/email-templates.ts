@@ -0,0 +1,111 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { OtpFlow } from "./otp.ts";
+
+export type EmailTemplate = {
+  subject: string;
+  html: string;
+};
+
+/** Values substituted for {{name}} placeholders */
+export type EmailTemplateVariables = {
+  code: string;
+  expires_minutes: number | string;
+  full_name: string;
+  magic_link?: string;
+};
+
+export const DEFAULT_LANGUAGE = "en";
+
+const defaultHtml = (heading: string, withMagicLink = false) => `
+  <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+    <h2 style="color: #3b82f6;">${heading}</h2>
+    <p>Hello {{full_name}},</p>
+    <p>Your SLATE AI verification code is:</p>
+    <div style="background-color: #f3f4f6; padding: 20px; text-align: center; border-radius: 8px; margin: 20px 0;">
+      <h1 style="color: #1e40af; font-size: 36px; letter-spacing: 8px; margin: 0;">{{code}}</h1>
+    </div>
+    ${withMagicLink ? `
+    <p>Or sign in directly with this link. It works once:</p>
+    <div style="text-align: center; margin: 20px 0;">
+      <a href="{{magic_link}}" style="background-color: #3b82f6; color: #ffffff; padding: 12px 24px; border-radius: 6px; text-decoration: none; display: inline-block;">Sign in to SLATE AI</a>
+    </div>
+    ` : ""}
+    <p>This code is valid for <strong>{{expires_minutes}} minutes</strong>.</p>
+    <p>If you did not request this, please ignore this email.</p>
+    <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 30px 0;">
+    <p style="color: #6b7280; font-size: 14px;">
+      Regards,<br>
+      <strong>Hinfinity Team</strong>
+    </p>
+  </div>
+`;
+
+// Built-in copy, used whenever no stored template matches the flow
+export const DEFAULT_EMAIL_TEMPLATES: Record<OtpFlow, EmailTemplate> = {
+  signup: {
+    subject: "Welcome to SLATE AI - Verification Code",
+    html: defaultHtml("Welcome to SLATE AI"),
+  },
+  email_change: {
+    subject: "Change Email - SLATE AI Verification Code",
+    html: defaultHtml("Change Email"),
+  },
+  forgot_password: {
+    subject: "Password Reset - SLATE AI Verification Code",
+    html: defaultHtml("Password Reset"),
+  },
+  passwordless: {
+    subject: "Sign in to SLATE AI",
+    html: defaultHtml("Sign In", true),
+  },
+};
+
+export const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+/** Replaces {{name}} placeholders; unknown placeholders are left as-is */
+export const renderTemplate = (template: string, variables: EmailTemplateVariables, html = true) =>
+  template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => {
+    const value = (variables as Record<string, unknown>)[name];
+    if (value === undefined || value === null) return match;
+    return html ? escapeHtml(String(value)) : String(value);
+  });
+
+/**
+ * Picks the stored template for the flow in the requested language, then in the
+ * default language, then the built-in copy
+ */
+export const getEmailTemplate = async (
+  supabaseAdmin: SupabaseClient,
+  flow: OtpFlow,
+  language: string
+): Promise<EmailTemplate> => {
+  const languages = Array.from(new Set([language, DEFAULT_LANGUAGE]));
+
+  const { data: rows, error } = await supabaseAdmin
+    .from("email_templates")
+    .select("language, subject, html")
+    .eq("flow", flow)
+    .in("language", languages);
+
+  if (error) {
+    console.error("Error loading email template:", error);
+  }
+
+  for (const lang of languages) {
+    const row = rows?.find((r: { language: string }) => r.language === lang);
+    if (row) return { subject: row.subject, html: row.html };
+  }
+
+  return DEFAULT_EMAIL_TEMPLATES[flow];
+};
+
+export const renderEmail = (template: EmailTemplate, variables: EmailTemplateVariables) => ({
+  subject: renderTemplate(template.subject, variables, false),
+  html: renderTemplate(template.html, variables),
+});
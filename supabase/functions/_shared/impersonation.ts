@@ -0,0 +1,27 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getSessionId } from "./step-up.ts";
+
+/**
+ * Account-level changes (password, factors, passkeys, deletion, re-authentication) belong to the
+ * real owner, so an impersonated session may not make them. Returns the 403 to send back, or null.
+ */
+export const refuseWhileImpersonating = async (
+  supabaseAdmin: SupabaseClient,
+  jwt: string,
+  corsHeaders: Record<string, string>
+) => {
+  const sessionId = getSessionId(jwt);
+  if (!sessionId) return null;
+
+  const { data: impersonation } = await supabaseAdmin
+    .from("impersonation_sessions")
+    .select("id")
+    .eq("session_id", sessionId)
+    .maybeSingle();
+  if (!impersonation) return null;
+
+  return new Response(
+    JSON.stringify({ error: "Not available while viewing as another user", code: "impersonating" }),
+    { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+};
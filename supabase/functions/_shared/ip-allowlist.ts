@@ -0,0 +1,134 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getClientIp, getUserAgent } from "./request.ts";
+
+type ParsedIp = { value: bigint; bits: 32 | 128 };
+
+const parseIpv4 = (ip: string): bigint | null => {
+  const parts = ip.split(".");
+  if (parts.length !== 4) return null;
+  let value = 0n;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return null;
+    value = (value << 8n) | BigInt(part);
+  }
+  return value;
+};
+
+const parseIpv6 = (ip: string): bigint | null => {
+  // A trailing dotted quad (::ffff:192.0.2.1) stands for the last two groups
+  if (ip.includes(".")) {
+    const split = ip.lastIndexOf(":");
+    const ipv4 = parseIpv4(ip.slice(split + 1));
+    if (ipv4 === null) return null;
+    ip = `${ip.slice(0, split)}:${(ipv4 >> 16n).toString(16)}:${(ipv4 & 0xffffn).toString(16)}`;
+  }
+
+  const halves = ip.split("::");
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(":") : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  let value = 0n;
+  for (const group of [...head, ...Array(halves.length === 2 ? missing : 0).fill("0"), ...tail]) {
+    if (!/^[0-9a-f]{1,4}$/i.test(group)) return null;
+    value = (value << 16n) | BigInt(parseInt(group, 16));
+  }
+  return value;
+};
+
+const parseIp = (ip: string): ParsedIp | null => {
+  const ipv4 = parseIpv4(ip);
+  if (ipv4 !== null) return { value: ipv4, bits: 32 };
+  const ipv6 = parseIpv6(ip);
+  if (ipv6 === null) return null;
+  // IPv4-mapped addresses are matched against IPv4 ranges
+  if (ipv6 >> 32n === 0xffffn) return { value: ipv6 & 0xffffffffn, bits: 32 };
+  return { value: ipv6, bits: 128 };
+};
+
+/** Whether `ip` falls in `cidr` (a bare address means just that address); malformed input never matches */
+export const ipInCidr = (ip: string, cidr: string) => {
+  const [base, prefixText] = cidr.trim().split("/");
+  const address = parseIp(ip.trim());
+  const network = parseIp(base);
+  if (!address || !network || address.bits !== network.bits) return false;
+
+  const prefix = prefixText === undefined ? network.bits : Number(prefixText);
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > network.bits) return false;
+
+  const shift = BigInt(network.bits - prefix);
+  return address.value >> shift === network.value >> shift;
+};
+
+/**
+ * The caller's roles (system role names, custom roles as "custom_<id>") that have an allowlist
+ * not covering the request's IP. An IP we cannot determine is outside every list.
+ */
+export const getBlockedRoles = async (supabaseAdmin: SupabaseClient, req: Request, userId: string) => {
+  const { data: setting } = await supabaseAdmin
+    .from("system_settings")
+    .select("value")
+    .eq("key", "ip_allowlists")
+    .maybeSingle();
+
+  const allowlists = (setting?.value ?? {}) as Record<string, string[]>;
+  if (!Object.values(allowlists).some((list) => list?.length)) return [];
+
+  const { data: userRoles } = await supabaseAdmin
+    .from("user_roles")
+    .select("role, custom_role_id")
+    .eq("user_id", userId);
+
+  const ip = getClientIp(req);
+  return (userRoles ?? [])
+    .map((r) => (r.custom_role_id ? `custom_${r.custom_role_id}` : r.role))
+    .filter((role): role is string => !!role && !!allowlists[role]?.length)
+    .filter((role) => ip === "unknown" || !allowlists[role].some((cidr) => ipInCidr(ip, cidr)));
+};
+
+export const logIpAccessDenied = async (
+  supabaseAdmin: SupabaseClient,
+  req: Request,
+  userId: string,
+  resource: string,
+  blockedRoles: string[]
+) => {
+  const ip = getClientIp(req);
+  await supabaseAdmin.from("activity_logs").insert({
+    user_id: userId,
+    performed_by: userId,
+    action_type: "ip_access_denied",
+    description: `Admin access to ${resource} denied from ${ip}`,
+    metadata: { resource, ip, blocked_roles: blockedRoles, user_agent: getUserAgent(req) },
+    ip_address: ip,
+    module: "security",
+    status: "failed",
+  });
+};
+
+/**
+ * Admin edge functions call this after authenticating the caller. Returns the 403 to send back
+ * (and audits it) when one of the caller's roles is not allowed from this IP, or null.
+ */
+export const requireAllowedIp = async (
+  supabaseAdmin: SupabaseClient,
+  req: Request,
+  userId: string,
+  resource: string,
+  corsHeaders: Record<string, string>
+) => {
+  const blockedRoles = await getBlockedRoles(supabaseAdmin, req, userId);
+  if (!blockedRoles.length) return null;
+
+  await logIpAccessDenied(supabaseAdmin, req, userId, resource, blockedRoles);
+  return new Response(
+    JSON.stringify({
+      error: "Admin access is not allowed from your network. Connect to the office network or VPN.",
+      code: "ip_not_allowed",
+      success: false,
+    }),
+    { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+};
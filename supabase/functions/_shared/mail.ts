@@ -0,0 +1,121 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+  /** Free-form label (e.g. "otp:signup") shown in the dev mailbox */
+  category?: string;
+};
+
+type OutgoingMail = MailMessage & { from: string };
+type MailTransport = (mail: OutgoingMail) => Promise<void>;
+
+const getFromAddress = () =>
+  Deno.env.get("MAIL_FROM") ?? `"SLATE AI" <${Deno.env.get("SMTP_USER") ?? "no-reply@localhost"}>`;
+
+// SMTP_HOST / SMTP_PORT / SMTP_USER / SMTP_PASSWORD (implicit TLS, e.g. Hostinger on 465)
+const smtpTransport: MailTransport = async (mail) => {
+  const client = new SMTPClient({
+    connection: {
+      hostname: Deno.env.get("SMTP_HOST") || "",
+      port: parseInt(Deno.env.get("SMTP_PORT") || "465"),
+      tls: true,
+      auth: {
+        username: Deno.env.get("SMTP_USER") || "",
+        password: Deno.env.get("SMTP_PASSWORD") || "",
+      },
+    },
+  });
+
+  try {
+    await client.send({
+      from: mail.from,
+      to: mail.to,
+      subject: mail.subject,
+      content: mail.text ?? "auto",
+      html: mail.html,
+    });
+  } finally {
+    await client.close();
+  }
+};
+
+// JSON email APIs that accept { from, to, subject, html, text } with a bearer key
+// (Resend by default; set MAIL_API_URL for a compatible provider)
+const httpTransport: MailTransport = async (mail) => {
+  const response = await fetch(Deno.env.get("MAIL_API_URL") ?? "https://api.resend.com/emails", {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${Deno.env.get("MAIL_API_KEY") ?? ""}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      from: mail.from,
+      to: [mail.to],
+      subject: mail.subject,
+      html: mail.html,
+      text: mail.text,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Mail API responded ${response.status}: ${await response.text()}`);
+  }
+};
+
+// Local development: nothing leaves the machine; messages land in dev_mailbox
+const devTransport: MailTransport = async (mail) => {
+  const supabaseAdmin = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+  );
+
+  const { error } = await supabaseAdmin.from("dev_mailbox").insert({
+    from_address: mail.from,
+    to_address: mail.to,
+    subject: mail.subject,
+    html: mail.html,
+    text: mail.text ?? null,
+    category: mail.category ?? null,
+  });
+
+  if (error) {
+    console.error("Error writing to dev mailbox:", error);
+    throw new Error("Failed to store email in dev mailbox");
+  }
+
+  console.log(`[dev mail] to=${mail.to} subject="${mail.subject}"`);
+};
+
+const transports: Record<string, MailTransport> = {
+  smtp: smtpTransport,
+  http: httpTransport,
+  dev: devTransport,
+};
+
+/** Sends an email through the transport selected by MAIL_TRANSPORT (smtp | http | dev) */
+export const sendMail = async (message: MailMessage) => {
+  const transportName = Deno.env.get("MAIL_TRANSPORT") ?? "smtp";
+  const transport = transports[transportName];
+
+  if (!transport) {
+    throw new Error(`Unknown MAIL_TRANSPORT "${transportName}"`);
+  }
+
+  await transport({ ...message, from: getFromAddress() });
+};
+
+/**
+ * Base URL for links in emails. Only the configured SITE_URL is trusted: a request's Origin is
+ * chosen by the caller, who could otherwise point someone else's single-use link at their own host.
+ */
+export const getSiteUrl = () => {
+  const siteUrl = Deno.env.get("SITE_URL")?.replace(/\/+$/, "");
+  if (!siteUrl) {
+    throw new Error("SITE_URL is not configured");
+  }
+  return siteUrl;
+};
@@ -0,0 +1,169 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { escapeHtml } from "./email-templates.ts";
+import { getSiteUrl, sendMail } from "./mail.ts";
+import { generateLinkToken, hashLinkToken } from "./otp.ts";
+import { getClientIp, getUserAgent } from "./request.ts";
+
+// Same labels as the sessions list in the app (src/lib/sessions.ts), so the alert names the
+// device the way the user will find it under Active Sessions
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/Firefox\/|FxiOS/, "Firefox"],
+  [/Chrome\/|CriOS/, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+  [/Windows/, "Windows"],
+  [/iPhone|iPad|iPod/, "iOS"],
+  [/Android/, "Android"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/CrOS/, "ChromeOS"],
+  [/Linux/, "Linux"],
+];
+
+const describeDevice = (userAgent: string | null) => {
+  const ua = userAgent || "";
+  const browser = BROWSERS.find(([pattern]) => pattern.test(ua))?.[1] ?? "Unknown browser";
+  const os = OPERATING_SYSTEMS.find(([pattern]) => pattern.test(ua))?.[1] ?? "Unknown device";
+  return `${browser} on ${os}`;
+};
+
+// IP_GEOLOCATION_URL is opt-in (it hands the address to a third party), e.g.
+// "https://ipapi.co/{ip}/json/"; otherwise only the country the edge proxy reports is known
+const lookupLocation = async (req: Request, ip: string) => {
+  const lookupUrl = Deno.env.get("IP_GEOLOCATION_URL");
+  if (lookupUrl && ip !== "unknown") {
+    try {
+      const response = await fetch(lookupUrl.replace("{ip}", encodeURIComponent(ip)), {
+        signal: AbortSignal.timeout(2000),
+      });
+      if (response.ok) {
+        const data = await response.json();
+        const parts = [data.city, data.region, data.country_name ?? data.country].filter(Boolean);
+        if (parts.length) return parts.join(", ");
+      }
+    } catch (error) {
+      console.error("IP geolocation failed:", error);
+    }
+  }
+
+  return req.headers.get("cf-ipcountry") ?? "Unknown location";
+};
+
+const alertHtml = (details: { name: string; device: string; ip: string; location: string; time: string; secureUrl: string }) => `
+  <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+    <h2 style="color: #3b82f6;">New sign-in to your account</h2>
+    <p>Hi ${escapeHtml(details.name)},</p>
+    <p>Your SLATE AI account was just signed in to from a browser or network we haven't seen before.</p>
+    <table style="margin: 20px 0; border-collapse: collapse;">
+      <tr><td style="padding: 4px 16px 4px 0; color: #6b7280;">Device</td><td>${escapeHtml(details.device)}</td></tr>
+      <tr><td style="padding: 4px 16px 4px 0; color: #6b7280;">Location</td><td>${escapeHtml(details.location)}</td></tr>
+      <tr><td style="padding: 4px 16px 4px 0; color: #6b7280;">IP address</td><td>${escapeHtml(details.ip)}</td></tr>
+      <tr><td style="padding: 4px 16px 4px 0; color: #6b7280;">Time</td><td>${escapeHtml(details.time)}</td></tr>
+    </table>
+    <p>If this was you, there's nothing to do.</p>
+    <p>If it wasn't, <a href="${details.secureUrl}">secure your account</a>. This signs you out everywhere and
+    starts a password reset. The link works once and expires in 7 days.</p>
+    <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 30px 0;">
+    <p style="color: #6b7280; font-size: 14px;">
+      Regards,<br>
+      <strong>Hinfinity Team</strong>
+    </p>
+  </div>
+`;
+
+/**
+ * Remembers the browser and IP address of a successful sign-in, and tells the user (per their
+ * portal and email notification settings) when either was never seen for the account before.
+ * The first sign-in only records a baseline.
+ */
+export const alertIfNewDevice = async (supabaseAdmin: SupabaseClient, req: Request, userId: string) => {
+  const device = describeDevice(getUserAgent(req));
+  const ip = getClientIp(req);
+
+  const { data: known } = await supabaseAdmin
+    .from("known_devices")
+    .select("device, ip_address")
+    .eq("user_id", userId)
+    .limit(1000);
+
+  const isFirstSignIn = !known?.length;
+  const newDevice = !known?.some((row) => row.device === device);
+  // An address we cannot determine is never taken as a known one
+  const newIp = ip === "unknown" || !known?.some((row) => row.ip_address === ip);
+
+  await supabaseAdmin
+    .from("known_devices")
+    .upsert(
+      { user_id: userId, device, ip_address: ip, last_seen_at: new Date().toISOString() },
+      { onConflict: "user_id,device,ip_address" }
+    );
+
+  if (isFirstSignIn || (!newDevice && !newIp)) return;
+
+  const location = await lookupLocation(req, ip);
+  const signedInAt = new Date();
+
+  const { data: settings } = await supabaseAdmin
+    .from("user_settings")
+    .select("portal_notifications, email_notifications")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  // Missing settings mean the defaults, which are on
+  if (settings?.portal_notifications !== false) {
+    await supabaseAdmin.from("notifications").insert({
+      user_id: userId,
+      type: "new_device",
+      title: "New sign-in",
+      message: `Signed in from ${device} in ${location} (${ip}). If this wasn't you, change your password.`,
+    });
+  }
+
+  if (settings?.email_notifications !== false) {
+    const { data: profile } = await supabaseAdmin
+      .from("profiles")
+      .select("email, full_name")
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (profile?.email) {
+      const siteUrl = getSiteUrl();
+      const token = generateLinkToken();
+      await supabaseAdmin.from("sign_in_alerts").insert({
+        user_id: userId,
+        device,
+        ip_address: ip,
+        location,
+        token_hash: await hashLinkToken(token),
+      });
+
+      await sendMail({
+        to: profile.email,
+        subject: "New sign-in to your SLATE AI account",
+        html: alertHtml({
+          name: profile.full_name || profile.email,
+          device,
+          ip,
+          location,
+          time: signedInAt.toUTCString(),
+          secureUrl: `${siteUrl}/secure-account?token=${encodeURIComponent(token)}`,
+        }),
+        category: "security:new_device",
+      });
+    }
+  }
+
+  await supabaseAdmin.from("activity_logs").insert({
+    user_id: userId,
+    performed_by: userId,
+    action_type: "new_device_sign_in",
+    description: `Sign-in from a new ${newDevice ? "device" : "network"}: ${device}, ${location}`,
+    metadata: { device, location, new_device: newDevice, new_ip: newIp, user_agent: getUserAgent(req) },
+    ip_address: ip,
+    module: "auth",
+    status: "success",
+  });
+};
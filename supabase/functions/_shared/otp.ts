@@ -0,0 +1,60 @@
+export const OTP_FLOWS = ["signup", "forgot_password", "email_change", "passwordless"] as const;
+export type OtpFlow = typeof OTP_FLOWS[number];
+
+export const MAX_OTP_ATTEMPTS = 5;
+
+// How long a verified password-reset code can still be exchanged for a new password
+export const RESET_WINDOW_MINUTES = 10;
+
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes).map((b) => b.toString(16).padStart(2, "0")).join("");
+
+export const generateOtpCode = () => {
+  // Rejection sampling keeps the six digits uniformly distributed
+  const buffer = new Uint32Array(1);
+  let value: number;
+  do {
+    crypto.getRandomValues(buffer);
+    value = buffer[0];
+  } while (value >= 4_294_000_000);
+  return String(value % 1_000_000).padStart(6, "0");
+};
+
+export const generateOtpSalt = () => toHex(crypto.getRandomValues(new Uint8Array(16)));
+
+const hmac = async (message: string) => {
+  const secret = Deno.env.get("OTP_HASH_SECRET") ?? Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(message));
+  return toHex(new Uint8Array(signature));
+};
+
+// Keyed with a server secret so a leaked table cannot be brute-forced offline
+export const hashOtp = (code: string, salt: string) => hmac(`${salt}:${code}`);
+
+// Single-use sign-in links carry 256 random bits, so they are looked up by an unsalted hash
+export const generateLinkToken = () =>
+  btoa(String.fromCharCode(...crypto.getRandomValues(new Uint8Array(32))))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+export const hashLinkToken = (token: string) => hmac(`link:${token}`);
+
+export const timingSafeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+};
+
+export const otpMatches = async (code: string, record: { otp_hash: string; otp_salt: string }) =>
+  timingSafeEqual(await hashOtp(code, record.otp_salt), record.otp_hash);
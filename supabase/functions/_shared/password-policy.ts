@@ -0,0 +1,142 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type PasswordPolicy = {
+  min_length: number;
+  require_uppercase: boolean;
+  require_lowercase: boolean;
+  require_number: boolean;
+  require_symbol: boolean;
+  /** Extra passwords an admin has banned, on top of COMMON_PASSWORDS */
+  banned_passwords: string[];
+  /** Previous passwords that may not be reused (0 allows reuse) */
+  history_count: number;
+  /** Days before a password must be changed (0 never expires) */
+  max_age_days: number;
+};
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  min_length: 8,
+  require_uppercase: true,
+  require_lowercase: true,
+  require_number: true,
+  require_symbol: false,
+  banned_passwords: [],
+  history_count: 5,
+  max_age_days: 0,
+};
+
+// Most common leaked passwords; compared case-insensitively
+const COMMON_PASSWORDS = new Set([
+  "123456", "12345678", "123456789", "1234567890", "password", "password1", "password123",
+  "passw0rd", "qwerty", "qwerty123", "qwertyuiop", "abc123", "abcd1234", "111111", "000000",
+  "iloveyou", "admin", "admin123", "welcome", "welcome1", "welcome123", "letmein", "monkey",
+  "dragon", "football", "baseball", "sunshine", "princess", "master", "superman", "trustno1",
+  "changeme", "p@ssw0rd", "p@ssword", "1q2w3e4r", "zaq12wsx", "asdfghjkl", "login", "secret",
+]);
+
+export const getPasswordPolicy = async (supabaseAdmin: SupabaseClient): Promise<PasswordPolicy> => {
+  const { data } = await supabaseAdmin
+    .from("system_settings")
+    .select("value")
+    .eq("key", "password_policy")
+    .maybeSingle();
+
+  return { ...DEFAULT_PASSWORD_POLICY, ...(data?.value ?? {}) };
+};
+
+/** Rule violations for a candidate password; empty when it passes */
+export const validatePassword = (
+  password: string,
+  policy: PasswordPolicy,
+  context: { email?: string; fullName?: string } = {}
+) => {
+  const problems: string[] = [];
+  const lowered = password.toLowerCase();
+
+  if (password.length < policy.min_length) {
+    problems.push(`Password must be at least ${policy.min_length} characters`);
+  }
+  if (policy.require_uppercase && !/[A-Z]/.test(password)) {
+    problems.push("Password must contain an uppercase letter");
+  }
+  if (policy.require_lowercase && !/[a-z]/.test(password)) {
+    problems.push("Password must contain a lowercase letter");
+  }
+  if (policy.require_number && !/[0-9]/.test(password)) {
+    problems.push("Password must contain a number");
+  }
+  if (policy.require_symbol && !/[^A-Za-z0-9]/.test(password)) {
+    problems.push("Password must contain a symbol");
+  }
+
+  const banned = policy.banned_passwords.map((p) => p.toLowerCase());
+  if (COMMON_PASSWORDS.has(lowered) || banned.includes(lowered)) {
+    problems.push("This password is too common. Choose a different one");
+  }
+
+  const emailName = context.email?.split("@")[0]?.toLowerCase();
+  if (emailName && emailName.length >= 3 && lowered.includes(emailName)) {
+    problems.push("Password must not contain your email address");
+  }
+
+  const nameParts = (context.fullName ?? "").toLowerCase().split(/\s+/).filter((part) => part.length >= 3);
+  if (nameParts.some((part) => lowered.includes(part))) {
+    problems.push("Password must not contain your name");
+  }
+
+  return problems;
+};
+
+/**
+ * Validates a new password against the organization policy, including reuse of the
+ * user's recent passwords. Returns the problems found, or an empty list.
+ */
+export const checkPassword = async (
+  supabaseAdmin: SupabaseClient,
+  password: string,
+  context: { userId?: string; email?: string; fullName?: string } = {}
+) => {
+  const policy = await getPasswordPolicy(supabaseAdmin);
+  const problems = validatePassword(password, policy, context);
+
+  if (problems.length === 0 && context.userId && policy.history_count > 0) {
+    const { data: reused, error } = await supabaseAdmin.rpc("password_recently_used", {
+      _user_id: context.userId,
+      _password: password,
+      _count: policy.history_count,
+    });
+
+    if (error) {
+      console.error("Error checking password history:", error);
+      throw new Error("Failed to check password history");
+    }
+
+    if (reused) {
+      problems.push(`Password must not match any of your last ${policy.history_count} passwords`);
+    }
+  }
+
+  return problems;
+};
+
+/**
+ * Lets the next password change of the user through the auth.users guard, which refuses any
+ * change that did not come through checkPassword. Call it right before updateUserById.
+ */
+export const allowPasswordChange = async (supabaseAdmin: SupabaseClient, userId: string) => {
+  const { error } = await supabaseAdmin.from("password_change_grants").upsert({
+    user_id: userId,
+    expires_at: new Date(Date.now() + 60 * 1000).toISOString(),
+  });
+
+  if (error) {
+    console.error("Error granting password change:", error);
+    throw new Error("Failed to update password");
+  }
+};
+
+export const passwordPolicyResponse = (problems: string[], corsHeaders: Record<string, string>) =>
+  new Response(
+    JSON.stringify({ error: "Password does not meet the policy", details: problems.join(", "), problems }),
+    { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
@@ -0,0 +1,103 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { consumeRateLimit, MINUTE } from "./rate-limit.ts";
+
+/** Optional `proof` field of the anonymous auth endpoints' request bodies */
+export const ProofOfWorkSchema = z
+  .object({
+    challenge: z.string().max(300),
+    nonce: z.string().max(64),
+  })
+  .optional();
+
+export type ProofOfWork = z.infer<typeof ProofOfWorkSchema>;
+
+export type EnumerationProtection = {
+  enabled: boolean;
+  difficulty: number;
+};
+
+const CHALLENGE_TTL_SECONDS = 5 * MINUTE;
+const DEFAULT_DIFFICULTY = 16;
+
+const encoder = new TextEncoder();
+
+const toHex = (bytes: ArrayBuffer) =>
+  Array.from(new Uint8Array(bytes), (b) => b.toString(16).padStart(2, "0")).join("");
+
+// Challenges are signed rather than stored, so any function instance can check them offline
+const getSigningKey = () =>
+  crypto.subtle.importKey(
+    "raw",
+    encoder.encode(Deno.env.get("POW_SECRET") ?? Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+
+const sign = async (payload: string) =>
+  toHex(await crypto.subtle.sign("HMAC", await getSigningKey(), encoder.encode(payload)));
+
+const leadingZeroBits = (bytes: Uint8Array) => {
+  let bits = 0;
+  for (const byte of bytes) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+  return bits;
+};
+
+export const getEnumerationProtection = async (supabaseAdmin: SupabaseClient): Promise<EnumerationProtection> => {
+  const { data } = await supabaseAdmin
+    .from("system_settings")
+    .select("value")
+    .eq("key", "enumeration_protection")
+    .maybeSingle();
+
+  return {
+    enabled: !!data?.value?.enabled,
+    difficulty: Number(data?.value?.pow_difficulty) || DEFAULT_DIFFICULTY,
+  };
+};
+
+/** `<expires ms>.<difficulty>.<random>.<signature>`; the client searches for a nonce that solves it */
+export const issueChallenge = async (difficulty: number) => {
+  const random = toHex(crypto.getRandomValues(new Uint8Array(16)).buffer);
+  const payload = `${Date.now() + CHALLENGE_TTL_SECONDS * 1000}.${difficulty}.${random}`;
+  return { challenge: `${payload}.${await sign(payload)}`, difficulty, expiresIn: CHALLENGE_TTL_SECONDS };
+};
+
+/**
+ * Valid when the challenge is ours, unexpired, at least as hard as currently required,
+ * SHA-256(`challenge:nonce`) has enough leading zero bits, and it was not spent before.
+ */
+export const verifyProofOfWork = async (
+  supabaseAdmin: SupabaseClient,
+  proof: ProofOfWork,
+  requiredDifficulty: number
+) => {
+  if (!proof) return false;
+
+  const [expires, difficulty, random, signature] = proof.challenge.split(".");
+  if (!signature || (await sign(`${expires}.${difficulty}.${random}`)) !== signature) return false;
+  if (Number(expires) < Date.now() || Number(difficulty) < requiredDifficulty) return false;
+
+  const digest = await crypto.subtle.digest("SHA-256", encoder.encode(`${proof.challenge}:${proof.nonce}`));
+  if (leadingZeroBits(new Uint8Array(digest)) < Number(difficulty)) return false;
+
+  // Each challenge buys exactly one request
+  const spent = await consumeRateLimit(supabaseAdmin, [
+    { bucket: "proof-of-work", key: random, max: 1, windowSeconds: CHALLENGE_TTL_SECONDS },
+  ]);
+  return spent === 0;
+};
+
+/** 428 (not 403, which sign-in screens read as a suspended account) answered with a fresh solve */
+export const proofRequiredResponse = (corsHeaders: Record<string, string>) =>
+  new Response(
+    JSON.stringify({ error: "Verification required. Please try again.", code: "proof_of_work_required" }),
+    { status: 428, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
@@ -0,0 +1,56 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type RateLimitRule = {
+  /** Rules sharing a bucket and key count the same hits against different windows */
+  bucket: string;
+  key: string;
+  max: number;
+  windowSeconds: number;
+};
+
+export const MINUTE = 60;
+export const HOUR = 60 * MINUTE;
+export const DAY = 24 * HOUR;
+
+/**
+ * Records a hit when every rule allows it. Returns 0 when the request may proceed,
+ * otherwise the number of seconds the caller has to wait.
+ */
+export const consumeRateLimit = async (
+  supabaseAdmin: SupabaseClient,
+  rules: RateLimitRule[]
+): Promise<number> => {
+  const { data, error } = await supabaseAdmin.rpc("consume_rate_limit", {
+    _rules: rules.map((r) => ({
+      bucket: r.bucket,
+      key: r.key.toLowerCase(),
+      max: r.max,
+      window_seconds: r.windowSeconds,
+    })),
+  });
+
+  if (error) {
+    // Fail open: a limiter outage should not lock every user out of sign-in
+    console.error("Rate limit check failed:", error);
+    return 0;
+  }
+
+  return data ?? 0;
+};
+
+export const rateLimitedResponse = (retryAfter: number, corsHeaders: Record<string, string>) =>
+  new Response(
+    JSON.stringify({
+      error: "Too many requests. Please try again later.",
+      retryAfter,
+    }),
+    {
+      status: 429,
+      headers: {
+        ...corsHeaders,
+        "Content-Type": "application/json",
+        "Retry-After": String(retryAfter),
+        "Access-Control-Expose-Headers": "Retry-After",
+      },
+    }
+  );
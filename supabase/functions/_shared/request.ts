@@ -0,0 +1,15 @@
+// Client IP as seen by the Supabase edge proxy. cf-connecting-ip is set (and overwritten) by
+// Cloudflare; the proxy appends the address it received the request from to X-Forwarded-For,
+// so only the rightmost hop is trustworthy. Anything to its left came from the client.
+export const getClientIp = (req: Request): string => {
+  const connectingIp = req.headers.get("cf-connecting-ip")?.trim();
+  if (connectingIp) return connectingIp;
+
+  const forwardedFor = req.headers.get("x-forwarded-for");
+  const proxyHop = forwardedFor?.split(",").map((hop) => hop.trim()).filter(Boolean).pop();
+  if (proxyHop) return proxyHop;
+
+  return req.headers.get("x-real-ip")?.trim() || "unknown";
+};
+
+export const getUserAgent = (req: Request): string | null => req.headers.get("user-agent");
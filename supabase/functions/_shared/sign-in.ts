@@ -0,0 +1,96 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { alertIfNewDevice } from "./new-device.ts";
+import { getClientIp, getUserAgent } from "./request.ts";
+
+// Audit rows for sign-in and sign-out are written here only, so they carry the caller's
+// real IP and user agent instead of whatever a browser chose to insert
+
+export const recordSignIn = async (
+  supabaseAdmin: SupabaseClient,
+  req: Request,
+  userId: string,
+  description: string,
+  metadata: Record<string, unknown> = {}
+) => {
+  await supabaseAdmin
+    .from("profiles")
+    .update({ last_sign_in: new Date().toISOString() })
+    .eq("user_id", userId);
+
+  await supabaseAdmin.from("activity_logs").insert({
+    user_id: userId,
+    performed_by: userId,
+    action_type: "login",
+    description,
+    metadata: { ...metadata, user_agent: getUserAgent(req) },
+    ip_address: getClientIp(req),
+    module: "auth",
+    status: "success",
+  });
+
+  await supabaseAdmin.from("notifications").insert({
+    user_id: userId,
+    type: "login",
+    title: "Login successful",
+    message: "You signed in",
+  });
+
+  // A failed alert (e.g. mail down) must not fail the sign-in itself
+  try {
+    await alertIfNewDevice(supabaseAdmin, req, userId);
+  } catch (error) {
+    console.error("New device check failed:", error);
+  }
+};
+
+export const recordFailedSignIn = async (
+  supabaseAdmin: SupabaseClient,
+  req: Request,
+  userId: string | null,
+  description: string,
+  metadata: Record<string, unknown> = {}
+) => {
+  await supabaseAdmin.from("activity_logs").insert({
+    user_id: userId,
+    performed_by: userId,
+    action_type: "failed_login",
+    description,
+    metadata: { ...metadata, user_agent: getUserAgent(req) },
+    ip_address: getClientIp(req),
+    module: "auth",
+    status: "failed",
+  });
+
+  if (userId) {
+    await supabaseAdmin.from("notifications").insert({
+      user_id: userId,
+      type: "failed_login",
+      title: "Login failed",
+      message: "There was a failed attempt to sign in",
+    });
+  }
+};
+
+const SIGN_OUT_DESCRIPTIONS: Record<string, string> = {
+  user: "User logged out",
+  idle_timeout: "User logged out after inactivity",
+  max_session_age: "User logged out at the maximum session age",
+};
+
+export const recordSignOut = async (
+  supabaseAdmin: SupabaseClient,
+  req: Request,
+  userId: string,
+  reason = "user"
+) => {
+  await supabaseAdmin.from("activity_logs").insert({
+    user_id: userId,
+    performed_by: userId,
+    action_type: "logout",
+    description: SIGN_OUT_DESCRIPTIONS[reason] ?? SIGN_OUT_DESCRIPTIONS.user,
+    metadata: { reason, user_agent: getUserAgent(req) },
+    ip_address: getClientIp(req),
+    module: "auth",
+    status: "success",
+  });
+};
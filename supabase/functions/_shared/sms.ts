@@ -0,0 +1,84 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type SmsMessage = {
+  /** E.164 number, e.g. +14155550123 */
+  to: string;
+  body: string;
+  /** Free-form label (e.g. "otp:passwordless") shown in the dev outbox */
+  category?: string;
+};
+
+type SmsTransport = (message: SmsMessage) => Promise<void>;
+
+// TWILIO_ACCOUNT_SID / TWILIO_AUTH_TOKEN / TWILIO_FROM (a Twilio number or messaging service SID)
+const twilioTransport: SmsTransport = async (message) => {
+  const accountSid = Deno.env.get("TWILIO_ACCOUNT_SID") ?? "";
+  const from = Deno.env.get("TWILIO_FROM") ?? "";
+
+  const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+    method: "POST",
+    headers: {
+      Authorization: `Basic ${btoa(`${accountSid}:${Deno.env.get("TWILIO_AUTH_TOKEN") ?? ""}`)}`,
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: new URLSearchParams({
+      To: message.to,
+      Body: message.body,
+      ...(from.startsWith("MG") ? { MessagingServiceSid: from } : { From: from }),
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`SMS API responded ${response.status}: ${await response.text()}`);
+  }
+};
+
+// Local development: nothing leaves the machine; messages land in sms_outbox
+const devTransport: SmsTransport = async (message) => {
+  const supabaseAdmin = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+  );
+
+  const { error } = await supabaseAdmin.from("sms_outbox").insert({
+    to_number: message.to,
+    body: message.body,
+    category: message.category ?? null,
+  });
+
+  if (error) {
+    console.error("Error writing to sms outbox:", error);
+    throw new Error("Failed to store SMS in dev outbox");
+  }
+
+  console.log(`[dev sms] to=${message.to}`);
+};
+
+const transports: Record<string, SmsTransport> = {
+  twilio: twilioTransport,
+  dev: devTransport,
+};
+
+/** Sends a text message through the transport selected by SMS_TRANSPORT (twilio | dev) */
+export const sendSms = async (message: SmsMessage) => {
+  const transportName = Deno.env.get("SMS_TRANSPORT") ?? "twilio";
+  const transport = transports[transportName];
+
+  if (!transport) {
+    throw new Error(`Unknown SMS_TRANSPORT "${transportName}"`);
+  }
+
+  await transport(message);
+};
+
+/** Profile numbers are free text; providers want +<digits> */
+export const normalizePhone = (phone: string) => {
+  const digits = phone.replace(/\D/g, "");
+  return phone.trim().startsWith("00") ? `+${digits.slice(2)}` : `+${digits}`;
+};
+
+/** +1******0123: recognisable to the owner without exposing the number */
+export const maskPhone = (phone: string) => {
+  const normalized = normalizePhone(phone);
+  return `${normalized.slice(0, 2)}${"*".repeat(Math.max(normalized.length - 6, 0))}${normalized.slice(-4)}`;
+};
@@ -0,0 +1,69 @@
+export type OidcConfiguration = {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+};
+
+export type ClaimMapping = { email?: string; full_name?: string };
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+export const randomToken = (bytes = 32) => toBase64Url(crypto.getRandomValues(new Uint8Array(bytes)));
+
+// PKCE S256: the challenge sent with the authorization request, the verifier with the code exchange
+export const pkceChallenge = async (verifier: string) =>
+  toBase64Url(new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(verifier))));
+
+export const normalizeDomain = (domain: string) => domain.trim().toLowerCase().replace(/^@/, "");
+
+export const emailDomain = (email: string) => normalizeDomain(email.split("@")[1] ?? "");
+
+export const discoverOidc = async (issuer: string): Promise<OidcConfiguration> => {
+  const expectedIssuer = issuer.replace(/\/+$/, "");
+  const url = `${expectedIssuer}/.well-known/openid-configuration`;
+  const response = await fetch(url, { headers: { Accept: "application/json" } });
+  if (!response.ok) {
+    throw new Error(`OIDC discovery failed for ${issuer} (${response.status})`);
+  }
+  const config = await response.json();
+  if (!config.authorization_endpoint || !config.token_endpoint || !config.jwks_uri) {
+    throw new Error(`OIDC discovery document for ${issuer} is incomplete`);
+  }
+  // OpenID Connect Discovery: the document must name the issuer it was fetched for
+  if (typeof config.issuer !== "string" || config.issuer.replace(/\/+$/, "") !== expectedIssuer) {
+    throw new Error(`OIDC discovery document for ${issuer} names a different issuer`);
+  }
+  return config as OidcConfiguration;
+};
+
+// Supabase Auth's admin API for SAML providers (same endpoints as `supabase sso` in the CLI)
+export const samlAdminRequest = async (method: "POST" | "PUT" | "DELETE", path: string, body?: unknown) => {
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+  const response = await fetch(`${Deno.env.get("SUPABASE_URL")}/auth/v1/admin/sso/providers${path}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${serviceKey}`,
+      apikey: serviceKey,
+      "Content-Type": "application/json",
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(data?.msg || data?.message || `SAML provider request failed (${response.status})`);
+  }
+  return data;
+};
+
+// Our { email, full_name } mapping in the shape Supabase Auth expects for SAML attributes
+export const toSamlAttributeMapping = (mapping: ClaimMapping) => ({
+  keys: Object.fromEntries(
+    Object.entries(mapping)
+      .filter(([, attribute]) => !!attribute)
+      .map(([key, attribute]) => [key, { name: attribute }])
+  ),
+});
@@ -0,0 +1,59 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+/** How long a re-authentication unlocks sensitive actions for the session that made it */
+export const STEP_UP_WINDOW_MINUTES = 5;
+
+export type JwtClaims = {
+  session_id?: string;
+  aal?: string;
+  /** How the session was authenticated, e.g. [{ method: "oauth", timestamp: 1700000000 }] */
+  amr?: { method: string; timestamp: number }[];
+};
+
+/** The access token's claims, unverified: only use them after auth.getUser() accepted the token */
+export const getJwtClaims = (jwt: string): JwtClaims | null => {
+  try {
+    return JSON.parse(atob(jwt.split(".")[1].replace(/-/g, "+").replace(/_/g, "/")));
+  } catch {
+    return null;
+  }
+};
+
+/** The auth session id carried in the access token's `session_id` claim */
+export const getSessionId = (jwt: string): string | null => getJwtClaims(jwt)?.session_id ?? null;
+
+/** A client acting as the caller, for database functions that read auth.jwt() */
+export const createCallerClient = (jwt: string) =>
+  createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+    {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+      global: {
+        headers: { Authorization: `Bearer ${jwt}` },
+      },
+    }
+  );
+
+/**
+ * Asks the database as the caller (has_recent_step_up reads auth.jwt()), so edge functions
+ * and the role_permissions trigger apply exactly the same rule.
+ */
+export const hasRecentStepUp = async (jwt: string) => {
+  const { data, error } = await createCallerClient(jwt).rpc("has_recent_step_up");
+  if (error) {
+    console.error("Error checking step-up:", error);
+    return false;
+  }
+  return data === true;
+};
+
+/** 403 the client recognises by `code` and answers by prompting for re-authentication */
+export const stepUpRequiredResponse = (corsHeaders: Record<string, string>) =>
+  new Response(
+    JSON.stringify({ error: "Re-authentication required", code: "step_up_required", success: false }),
+    { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
@@ -0,0 +1,23 @@
+export type RelyingParty = { origin: string; rpID: string };
+
+/**
+ * The relying party passkeys are bound to, from WEBAUTHN_ORIGIN only: an origin taken from the
+ * request would let any site that reaches the function pose as the app. Null when unset or invalid.
+ */
+export const getRelyingParty = (): RelyingParty | null => {
+  const origin = Deno.env.get("WEBAUTHN_ORIGIN")?.replace(/\/+$/, "");
+  if (!origin) return null;
+
+  try {
+    return { origin, rpID: new URL(origin).hostname };
+  } catch {
+    console.error("WEBAUTHN_ORIGIN is not a valid origin");
+    return null;
+  }
+};
+
+export const passkeysUnavailableResponse = (corsHeaders: Record<string, string>) =>
+  new Response(
+    JSON.stringify({ error: "Passkeys are not configured", code: "passkeys_unavailable", success: false }),
+    { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
@@ -0,0 +1,55 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getEnumerationProtection, issueChallenge } from "../_shared/proof-of-work.ts";
+import { consumeRateLimit, rateLimitedResponse, HOUR, MINUTE } from "../_shared/rate-limit.ts";
+import { getClientIp } from "../_shared/request.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Proof-of-work challenges for check-user, auth-login, send-otp and forgot-email while the
+// anti-enumeration mode is on. Solving one costs the browser about a second of hashing.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const protection = await getEnumerationProtection(supabaseAdmin);
+    if (!protection.enabled) {
+      return new Response(
+        JSON.stringify({ required: false }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const ip = getClientIp(req);
+    const retryAfter = await consumeRateLimit(supabaseAdmin, [
+      { bucket: "auth-challenge:ip", key: ip, max: 60, windowSeconds: 10 * MINUTE },
+      { bucket: "auth-challenge:ip", key: ip, max: 300, windowSeconds: HOUR },
+    ]);
+
+    if (retryAfter > 0) {
+      return rateLimitedResponse(retryAfter, corsHeaders);
+    }
+
+    return new Response(
+      JSON.stringify({ required: true, ...(await issueChallenge(protection.difficulty)) }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in auth-challenge function:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,241 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import {
+  ProofOfWorkSchema,
+  getEnumerationProtection,
+  proofRequiredResponse,
+  verifyProofOfWork,
+} from "../_shared/proof-of-work.ts";
+import { consumeRateLimit, rateLimitedResponse, HOUR, MINUTE } from "../_shared/rate-limit.ts";
+import { getClientIp, getUserAgent } from "../_shared/request.ts";
+import { recordFailedSignIn, recordSignIn, recordSignOut } from "../_shared/sign-in.ts";
+import { getJwtClaims } from "../_shared/step-up.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const AuthLoginSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("password"),
+    email: z.string().email("Invalid email format").max(255),
+    password: z.string().min(1, "Password is required").max(128),
+    proof: ProofOfWorkSchema,
+  }),
+  z.object({
+    // Google, Microsoft and GitHub sign-ins complete in the browser; the app reports them here
+    action: z.literal("oauth"),
+  }),
+  z.object({
+    action: z.literal("logout"),
+    // Why the session ended; anything but "user" was the client enforcing the session policy
+    reason: z.enum(["user", "idle_timeout", "max_session_age"]).default("user"),
+  }),
+]);
+
+// How soon after an OAuth sign-in the app must report it
+const OAUTH_REPORT_WINDOW = 10 * MINUTE;
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Validate input
+    const body = await req.json();
+    const parsed = AuthLoginSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid input",
+          details: parsed.error.issues.map((i) => i.message).join(", "),
+        }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    );
+
+    if (parsed.data.action === "logout") {
+      const authHeader = req.headers.get("Authorization");
+      const { data: { user } } = await supabaseAdmin.auth.getUser(authHeader?.replace("Bearer ", "") ?? "");
+
+      if (!user) {
+        return new Response(
+          JSON.stringify({ error: "Unauthorized" }),
+          { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      await recordSignOut(supabaseAdmin, req, user.id, parsed.data.reason);
+
+      return new Response(
+        JSON.stringify({ success: true }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (parsed.data.action === "oauth") {
+      const jwt = req.headers.get("Authorization")?.replace("Bearer ", "") ?? "";
+      const { data: { user } } = await supabaseAdmin.auth.getUser(jwt);
+
+      if (!user) {
+        return new Response(
+          JSON.stringify({ error: "Unauthorized" }),
+          { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      // Only a session the provider authenticated moments ago counts, and only once per session
+      const claims = getJwtClaims(jwt);
+      const oauth = claims?.amr?.find((entry) => entry.method === "oauth");
+      const isFresh = !!oauth && Date.now() / 1000 - oauth.timestamp < OAUTH_REPORT_WINDOW;
+      const firstReport = isFresh && claims?.session_id
+        ? (await consumeRateLimit(supabaseAdmin, [
+            { bucket: "auth-login:oauth", key: claims.session_id, max: 1, windowSeconds: OAUTH_REPORT_WINDOW },
+          ])) === 0
+        : false;
+
+      if (firstReport) {
+        await recordSignIn(supabaseAdmin, req, user.id, "User logged in with OAuth", { method: "oauth" });
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, recorded: firstReport }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const email = parsed.data.email.toLowerCase();
+    const ip = getClientIp(req);
+
+    // Per-account guessing is handled by the lockout; this caps spraying from one address
+    const retryAfter = await consumeRateLimit(supabaseAdmin, [
+      { bucket: "auth-login:ip", key: ip, max: 30, windowSeconds: 10 * MINUTE },
+      { bucket: "auth-login:ip", key: ip, max: 200, windowSeconds: HOUR },
+    ]);
+
+    if (retryAfter > 0) {
+      console.warn(`auth-login rate limited from ${ip}`);
+      return rateLimitedResponse(retryAfter, corsHeaders);
+    }
+
+    const protection = await getEnumerationProtection(supabaseAdmin);
+    if (protection.enabled && !(await verifyProofOfWork(supabaseAdmin, parsed.data.proof, protection.difficulty))) {
+      return proofRequiredResponse(corsHeaders);
+    }
+
+    // In anti-enumeration mode suspended and locked accounts get the same answer as a wrong
+    // password or an unknown address; the audit log still records what really happened
+    const invalidCredentials = () =>
+      new Response(
+        JSON.stringify({ error: "Invalid email or password" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+
+    const { data: profile } = await supabaseAdmin
+      .from("profiles")
+      .select("user_id, is_active")
+      .eq("email", email)
+      .maybeSingle();
+
+    if (profile?.is_active === false) {
+      await recordFailedSignIn(supabaseAdmin, req, profile.user_id, `Sign-in to suspended account ${email}`, {
+        email,
+        method: "password",
+      });
+
+      if (protection.enabled) return invalidCredentials();
+      return new Response(
+        JSON.stringify({ error: "This account is suspended. Contact your administrator." }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (profile) {
+      const { data: lockedUntil } = await supabaseAdmin.rpc("account_locked_until", { _user_id: profile.user_id });
+      if (lockedUntil) {
+        if (protection.enabled) return invalidCredentials();
+        return new Response(
+          JSON.stringify({ error: "This account is locked after too many failed sign-in attempts", lockedUntil }),
+          { status: 423, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+    }
+
+    // Forward the caller's address and browser so the auth session records the real device
+    const supabaseAuth = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+        global: {
+          headers: {
+            "X-Forwarded-For": ip,
+            ...(getUserAgent(req) ? { "User-Agent": getUserAgent(req) as string } : {}),
+          },
+        },
+      }
+    );
+
+    const { data: signIn, error: signInError } = await supabaseAuth.auth.signInWithPassword({
+      email,
+      password: parsed.data.password,
+    });
+
+    if (signInError || !signIn.session) {
+      await recordFailedSignIn(supabaseAdmin, req, profile?.user_id ?? null, `Failed login attempt for ${email}`, {
+        email,
+        method: "password",
+        error: signInError?.message,
+      });
+
+      // The password verification hook rejects the attempt that trips the lockout
+      const lockMatch = signInError?.message.match(/Account locked until (\S+)/);
+      if (lockMatch && !protection.enabled) {
+        return new Response(
+          JSON.stringify({ error: "This account is locked after too many failed sign-in attempts", lockedUntil: lockMatch[1] }),
+          { status: 423, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      return invalidCredentials();
+    }
+
+    await recordSignIn(supabaseAdmin, req, signIn.user.id, "User logged in", { method: "password" });
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        session: {
+          access_token: signIn.session.access_token,
+          refresh_token: signIn.session.refresh_token,
+        },
+      }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in auth-login function:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
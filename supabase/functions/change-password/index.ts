@@ -0,0 +1,146 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { requireActiveUser, requireSecondFactor } from "../_shared/active-user.ts";
+import { refuseWhileImpersonating } from "../_shared/impersonation.ts";
+import { consumeRateLimit, rateLimitedResponse, HOUR } from "../_shared/rate-limit.ts";
+import { allowPasswordChange, checkPassword, passwordPolicyResponse } from "../_shared/password-policy.ts";
+import { getJwtClaims } from "../_shared/step-up.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const ChangePasswordSchema = z.object({
+  currentPassword: z.string().max(100).optional(),
+  newPassword: z.string().min(1, "New password is required").max(100, "Password too long"),
+});
+
+// The JWT has already been validated by auth.getUser; only its claims are read here
+const isRecoverySession = (jwt: string) =>
+  (getJwtClaims(jwt)?.amr ?? []).some((entry) => entry.method === "recovery");
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    );
+
+    const jwt = authHeader.replace("Bearer ", "");
+    const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(jwt);
+
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Invalid token" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const suspendedResponse = await requireActiveUser(supabaseAdmin, user.id, corsHeaders);
+    if (suspendedResponse) return suspendedResponse;
+
+    const mfaResponse = await requireSecondFactor(jwt, corsHeaders);
+    if (mfaResponse) return mfaResponse;
+
+    const impersonationResponse = await refuseWhileImpersonating(supabaseAdmin, jwt, corsHeaders);
+    if (impersonationResponse) return impersonationResponse;
+
+    const body = await req.json();
+    const parsed = ChangePasswordSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid input",
+          details: parsed.error.issues.map((i) => i.message).join(", "),
+        }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { currentPassword, newPassword } = parsed.data;
+
+    const { data: profile } = await supabaseAdmin
+      .from("profiles")
+      .select("full_name, password_set")
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    // Changing an existing password needs the current one, except from a password-reset link
+    if (profile?.password_set && !isRecoverySession(jwt)) {
+      const retryAfter = await consumeRateLimit(supabaseAdmin, [
+        { bucket: "change-password:user", key: user.id, max: 10, windowSeconds: HOUR },
+      ]);
+      if (retryAfter > 0) {
+        return rateLimitedResponse(retryAfter, corsHeaders);
+      }
+
+      const { data: matches } = currentPassword
+        ? await supabaseAdmin.rpc("verify_user_password", { _user_id: user.id, _password: currentPassword })
+        : { data: false };
+
+      if (!matches) {
+        return new Response(
+          JSON.stringify({ error: "Current password is incorrect" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+    }
+
+    const passwordProblems = await checkPassword(supabaseAdmin, newPassword, {
+      userId: user.id,
+      email: user.email,
+      fullName: profile?.full_name,
+    });
+    if (passwordProblems.length > 0) {
+      return passwordPolicyResponse(passwordProblems, corsHeaders);
+    }
+
+    await allowPasswordChange(supabaseAdmin, user.id);
+    const { error: updateError } = await supabaseAdmin.auth.admin.updateUserById(user.id, {
+      password: newPassword,
+    });
+
+    if (updateError) {
+      console.error("Error updating password:", updateError);
+      throw new Error("Failed to update password");
+    }
+
+    await supabaseAdmin
+      .from("profiles")
+      .update({ password_set: true })
+      .eq("user_id", user.id);
+
+    return new Response(
+      JSON.stringify({ success: true, firstPassword: !profile?.password_set }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in change-password function:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -1,6 +1,14 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import {
+  ProofOfWorkSchema,
+  getEnumerationProtection,
+  proofRequiredResponse,
+  verifyProofOfWork,
+} from "../_shared/proof-of-work.ts";
+import { consumeRateLimit, rateLimitedResponse, DAY, MINUTE } from "../_shared/rate-limit.ts";
+import { getClientIp } from "../_shared/request.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -9,6 +17,7 @@ const corsHeaders = {
 
 const CheckUserSchema = z.object({
   email: z.string().email("Invalid email format").max(255),
+  proof: ProofOfWorkSchema,
 });
 
 serve(async (req) => {
@@ -31,13 +40,53 @@ serve(async (req) => {
       );
     }
     
-    const { email } = parsed.data;
+    const { email, proof } = parsed.data;
 
     const supabaseAdmin = createClient(
       Deno.env.get("SUPABASE_URL") ?? "",
       Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
     );
 
+    // Account lookups are throttled per IP to slow down address enumeration
+    const ip = getClientIp(req);
+    const retryAfter = await consumeRateLimit(supabaseAdmin, [
+      { bucket: "check-user:ip", key: ip, max: 30, windowSeconds: 10 * MINUTE },
+      { bucket: "check-user:ip", key: ip, max: 300, windowSeconds: DAY },
+    ]);
+
+    if (retryAfter > 0) {
+      console.warn(`check-user rate limited from ${ip}`);
+      return rateLimitedResponse(retryAfter, corsHeaders);
+    }
+
+    // Email domains with an enterprise SSO connection sign in through their identity provider
+    const { data: ssoConnection } = await supabaseAdmin
+      .from("sso_connections")
+      .select("id")
+      .contains("domains", [email.split("@")[1].toLowerCase()])
+      .eq("is_active", true)
+      .maybeSingle();
+    const sso = !!ssoConnection;
+
+    // In anti-enumeration mode anonymous callers only learn how to sign in, never whether
+    // the address has an account, and each lookup costs them a proof of work
+    const protection = await getEnumerationProtection(supabaseAdmin);
+    if (protection.enabled) {
+      const jwt = (req.headers.get("Authorization") ?? "").replace("Bearer ", "");
+      const { data: { user: caller } } = await supabaseAdmin.auth.getUser(jwt);
+
+      if (!caller) {
+        if (!(await verifyProofOfWork(supabaseAdmin, proof, protection.difficulty))) {
+          return proofRequiredResponse(corsHeaders);
+        }
+
+        return new Response(
+          JSON.stringify({ sso, protected: true }),
+          { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+    }
+
     // First check if user exists in profiles table (handles email change case)
     const { data: profile, error: profileError } = await supabaseAdmin
       .from("profiles")
@@ -47,13 +96,17 @@ serve(async (req) => {
 
     if (profile) {
       // User found in profiles - they exist
+      const { data: lockedUntil } = await supabaseAdmin.rpc("account_locked_until", { _user_id: profile.user_id });
+
       return new Response(
         JSON.stringify({ 
           exists: true,
           userId: profile.user_id,
           fullName: profile.full_name || "",
           signupMethod: profile.signup_method || "manual",
-          isActive: profile.is_active ?? true
+          isActive: profile.is_active ?? true,
+          lockedUntil: lockedUntil ?? null,
+          sso
         }),
         {
           headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -79,6 +132,7 @@ serve(async (req) => {
         .select("full_name, signup_method, is_active")
         .eq("user_id", userExists.id)
         .maybeSingle();
+      const { data: lockedUntil } = await supabaseAdmin.rpc("account_locked_until", { _user_id: userExists.id });
 
       return new Response(
         JSON.stringify({ 
@@ -86,7 +140,9 @@ serve(async (req) => {
           userId: userExists.id,
           fullName: existingProfile?.full_name || "",
           signupMethod: existingProfile?.signup_method || "manual",
-          isActive: existingProfile?.is_active ?? true
+          isActive: existingProfile?.is_active ?? true,
+          lockedUntil: lockedUntil ?? null,
+          sso
         }),
         {
           headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -97,7 +153,8 @@ serve(async (req) => {
       // User does not exist anywhere
       return new Response(
         JSON.stringify({ 
-          exists: false 
+          exists: false,
+          sso
         }),
         {
           headers: { ...corsHeaders, "Content-Type": "application/json" },
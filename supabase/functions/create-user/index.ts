@@ -1,6 +1,9 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { requireActiveUser, requireCurrentPassword, requireSecondFactor } from "../_shared/active-user.ts";
+import { requireAllowedIp } from "../_shared/ip-allowlist.ts";
+import { checkPassword } from "../_shared/password-policy.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -10,8 +13,9 @@ const corsHeaders = {
 
 const CreateUserSchema = z.object({
   email: z.string().email("Invalid email format").max(255),
+  // Length and strength rules come from the password policy
   password: z.string()
-    .min(8, "Password must be at least 8 characters")
+    .min(1, "Password is required")
     .max(100, "Password too long"),
   full_name: z.string()
     .min(1, "Name is required")
@@ -56,6 +60,15 @@ serve(async (req) => {
       );
     }
 
+    const suspendedResponse = await requireActiveUser(supabaseAdmin, authUser.id, corsHeaders);
+    if (suspendedResponse) return suspendedResponse;
+
+    const mfaResponse = await requireSecondFactor(jwt, corsHeaders);
+    if (mfaResponse) return mfaResponse;
+
+    const passwordResponse = await requireCurrentPassword(jwt, corsHeaders);
+    if (passwordResponse) return passwordResponse;
+
     // Check if user is admin
     const { data: isAdmin, error: adminCheckError } = await supabaseAdmin.rpc('is_admin', { 
       _user_id: authUser.id 
@@ -69,6 +82,9 @@ serve(async (req) => {
       );
     }
 
+    const ipResponse = await requireAllowedIp(supabaseAdmin, req, authUser.id, "create-user", corsHeaders);
+    if (ipResponse) return ipResponse;
+
     // Validate input
     const body = await req.json();
     const parsed = CreateUserSchema.safeParse(body);
@@ -85,6 +101,15 @@ serve(async (req) => {
 
     const { email, password, full_name } = parsed.data;
 
+    // Policy violations use the same 200-with-error convention as the catch block below
+    const passwordProblems = await checkPassword(supabaseAdmin, password, { email, fullName: full_name });
+    if (passwordProblems.length > 0) {
+      return new Response(
+        JSON.stringify({ error: passwordProblems.join(", "), code: "weak_password", success: false }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
     // Create user with admin privileges
     const { data: newUser, error: createError } =
       await supabaseAdmin.auth.admin.createUser({
@@ -1,5 +1,9 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { requireActiveUser, requireCurrentPassword, requireSecondFactor } from "../_shared/active-user.ts";
+import { refuseWhileImpersonating } from "../_shared/impersonation.ts";
+import { requireAllowedIp } from "../_shared/ip-allowlist.ts";
+import { hasRecentStepUp, stepUpRequiredResponse } from "../_shared/step-up.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -42,6 +46,18 @@ serve(async (req) => {
       );
     }
 
+    const suspendedResponse = await requireActiveUser(supabaseAdmin, requestingUser.id, corsHeaders);
+    if (suspendedResponse) return suspendedResponse;
+
+    const mfaResponse = await requireSecondFactor(token, corsHeaders);
+    if (mfaResponse) return mfaResponse;
+
+    const passwordResponse = await requireCurrentPassword(token, corsHeaders);
+    if (passwordResponse) return passwordResponse;
+
+    const impersonationResponse = await refuseWhileImpersonating(supabaseAdmin, token, corsHeaders);
+    if (impersonationResponse) return impersonationResponse;
+
     // Check if requesting user is admin
     const { data: isAdmin } = await supabaseAdmin.rpc("is_admin", { _user_id: requestingUser.id });
     if (!isAdmin) {
@@ -51,6 +67,14 @@ serve(async (req) => {
       );
     }
 
+    const ipResponse = await requireAllowedIp(supabaseAdmin, req, requestingUser.id, "delete-user", corsHeaders);
+    if (ipResponse) return ipResponse;
+
+    // Hard deletes are irreversible, so the admin must have re-authenticated moments ago
+    if (!(await hasRecentStepUp(token))) {
+      return stepUpRequiredResponse(corsHeaders);
+    }
+
     // Get the user ID to delete from request body
     const { userId } = await req.json();
     
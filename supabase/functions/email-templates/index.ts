@@ -0,0 +1,139 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { requireActiveUser, requireCurrentPassword, requireSecondFactor } from "../_shared/active-user.ts";
+import { requireAllowedIp } from "../_shared/ip-allowlist.ts";
+import { sendMail } from "../_shared/mail.ts";
+import { DEFAULT_EMAIL_TEMPLATES, renderEmail } from "../_shared/email-templates.ts";
+import { OTP_FLOWS } from "../_shared/otp.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const EmailTemplatesSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("defaults") }),
+  z.object({
+    action: z.literal("test"),
+    flow: z.enum(OTP_FLOWS),
+    subject: z.string().min(1, "Subject is required").max(255),
+    html: z.string().min(1, "Body is required").max(100000),
+  }),
+]);
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    );
+
+    const jwt = authHeader.replace("Bearer ", "");
+    const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(jwt);
+
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Invalid token" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const suspendedResponse = await requireActiveUser(supabaseAdmin, user.id, corsHeaders);
+    if (suspendedResponse) return suspendedResponse;
+
+    const mfaResponse = await requireSecondFactor(jwt, corsHeaders);
+    if (mfaResponse) return mfaResponse;
+
+    const passwordResponse = await requireCurrentPassword(jwt, corsHeaders);
+    if (passwordResponse) return passwordResponse;
+
+    // Same audience as the email_templates RLS policies: admins and HR
+    const [{ data: isAdmin }, { data: isHr }] = await Promise.all([
+      supabaseAdmin.rpc("is_admin", { _user_id: user.id }),
+      supabaseAdmin.rpc("has_role", { _user_id: user.id, _role: "hr" }),
+    ]);
+
+    if (!isAdmin && !isHr) {
+      return new Response(
+        JSON.stringify({ error: "Forbidden: Admin or HR access required" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const ipResponse = await requireAllowedIp(supabaseAdmin, req, user.id, "email-templates", corsHeaders);
+    if (ipResponse) return ipResponse;
+
+    const body = await req.json();
+    const parsed = EmailTemplatesSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid input",
+          details: parsed.error.issues.map((i) => i.message).join(", "),
+        }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (parsed.data.action === "defaults") {
+      return new Response(
+        JSON.stringify({ success: true, templates: DEFAULT_EMAIL_TEMPLATES }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Test send: render the (possibly unsaved) draft with sample values to the caller's own inbox
+    const { flow, subject, html } = parsed.data;
+    const { data: profile } = await supabaseAdmin
+      .from("profiles")
+      .select("full_name")
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    const rendered = renderEmail({ subject, html }, {
+      code: "123456",
+      expires_minutes: flow === "forgot_password" ? 2 : 10,
+      full_name: profile?.full_name || "there",
+      magic_link: `${Deno.env.get("SITE_URL") ?? req.headers.get("origin") ?? ""}/auth`,
+    });
+
+    await sendMail({
+      to: user.email ?? "",
+      subject: `[Test] ${rendered.subject}`,
+      html: rendered.html,
+      category: `test:${flow}`,
+    });
+
+    return new Response(
+      JSON.stringify({ success: true, sentTo: user.email }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in email-templates function:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
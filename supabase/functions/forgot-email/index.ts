@@ -1,15 +1,60 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { escapeHtml } from "../_shared/email-templates.ts";
+import { sendMail } from "../_shared/mail.ts";
+import {
+  ProofOfWorkSchema,
+  getEnumerationProtection,
+  proofRequiredResponse,
+  verifyProofOfWork,
+} from "../_shared/proof-of-work.ts";
+import { consumeRateLimit, rateLimitedResponse, DAY, MINUTE } from "../_shared/rate-limit.ts";
+import { getClientIp, getUserAgent } from "../_shared/request.ts";
+import { maskPhone, normalizePhone, sendSms } from "../_shared/sms.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-const ForgotEmailSchema = z.object({
-  searchBy: z.enum(['phone', 'name']),
-  value: z.string().min(1, "Search value is required").max(255),
-});
+// The full name alone is guessable, so it must be paired with a second exact attribute
+const ForgotEmailSchema = z
+  .object({
+    fullName: z.string().trim().min(1, "Full name is required").max(255),
+    phone: z.string().trim().min(1).max(30).optional(),
+    dateOfBirth: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date of birth").optional(),
+    proof: ProofOfWorkSchema,
+  })
+  .refine((d) => d.phone || d.dateOfBirth, "Phone number or date of birth is required");
+
+/** j***@o***.com: enough for the owner to recognise, useless for harvesting */
+const maskEmail = (email: string) => {
+  const [local, domain = ""] = email.split("@");
+  const dot = domain.lastIndexOf(".");
+  const host = dot > 0 ? domain.slice(0, dot) : domain;
+  const tld = dot > 0 ? domain.slice(dot) : "";
+  return `${local.charAt(0)}***@${host.charAt(0)}***${tld}`;
+};
+
+// ilike without wildcards is a case-insensitive exact match once % and _ are escaped
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, (c) => `\\${c}`);
+
+const recoveryEmailHtml = (fullName: string, email: string) => `
+  <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+    <h2 style="color: #3b82f6;">Your SLATE AI sign-in email</h2>
+    <p>Hello ${escapeHtml(fullName)},</p>
+    <p>Someone, hopefully you, asked which email address your SLATE AI account uses. It is:</p>
+    <div style="background-color: #f3f4f6; padding: 20px; text-align: center; border-radius: 8px; margin: 20px 0;">
+      <strong style="color: #1e40af; font-size: 18px;">${escapeHtml(email)}</strong>
+    </div>
+    <p>If you did not request this, you can ignore this email.</p>
+    <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 30px 0;">
+    <p style="color: #6b7280; font-size: 14px;">
+      Regards,<br>
+      <strong>Hinfinity Team</strong>
+    </p>
+  </div>
+`;
 
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") {
@@ -20,38 +65,58 @@ Deno.serve(async (req) => {
     // Validate input
     const body = await req.json();
     const parsed = ForgotEmailSchema.safeParse(body);
-    
+
     if (!parsed.success) {
       return new Response(
-        JSON.stringify({ 
-          error: 'Invalid input', 
+        JSON.stringify({
+          error: 'Invalid input',
           details: parsed.error.issues.map(i => i.message).join(', ')
         }),
         { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
-    
-    const { searchBy, value } = parsed.data;
+
+    const { fullName, phone, dateOfBirth } = parsed.data;
+    const matchedBy = ["full_name", ...(phone ? ["phone"] : []), ...(dateOfBirth ? ["date_of_birth"] : [])];
 
     const supabaseClient = createClient(
       Deno.env.get("SUPABASE_URL") ?? "",
       Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
     );
 
-    let query = supabaseClient.from("profiles").select("email");
+    const ip = getClientIp(req);
+    const retryAfter = await consumeRateLimit(supabaseClient, [
+      { bucket: "forgot-email:ip", key: ip, max: 5, windowSeconds: 15 * MINUTE },
+      { bucket: "forgot-email:ip", key: ip, max: 20, windowSeconds: DAY },
+    ]);
 
-    if (searchBy === "phone") {
-      query = query.eq("contact_number", value);
-    } else if (searchBy === "name") {
-      query = query.ilike("full_name", `%${value}%`);
-    } else {
-      return new Response(
-        JSON.stringify({ error: "Invalid search type" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+    if (retryAfter > 0) {
+      console.warn(`forgot-email rate limited from ${ip}`);
+      return rateLimitedResponse(retryAfter, corsHeaders);
+    }
+
+    const protection = await getEnumerationProtection(supabaseClient);
+    if (protection.enabled && !(await verifyProofOfWork(supabaseClient, parsed.data.proof, protection.difficulty))) {
+      return proofRequiredResponse(corsHeaders);
     }
 
-    const { data, error } = await query.limit(1).maybeSingle();
+    // In anti-enumeration mode the answer is the same for a match and a miss; the address
+    // only ever reaches the recovery email or verified phone on file
+    const protectedResponse = () =>
+      new Response(
+        JSON.stringify({ hint: null, deliveredTo: null, protected: true }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+
+    let query = supabaseClient
+      .from("profiles")
+      .select("user_id, email, full_name, recovery_email, recovery_email_verified_at, contact_number, phone_verified_at")
+      .ilike("full_name", escapeLike(fullName));
+
+    if (phone) query = query.eq("contact_number", phone);
+    if (dateOfBirth) query = query.eq("date_of_birth", dateOfBirth);
+
+    const { data: matches, error } = await query.limit(2);
 
     if (error) {
       console.error("Database error:", error);
@@ -61,35 +126,64 @@ Deno.serve(async (req) => {
       );
     }
 
-    if (data && data.email) {
-      // Log forgot email activity
-      const { data: profile } = await supabaseClient
-        .from("profiles")
-        .select("user_id")
-        .eq("email", data.email)
-        .maybeSingle();
-
-      if (profile?.user_id) {
-        await supabaseClient.from("activity_logs").insert({
-          user_id: profile.user_id,
-          performed_by: profile.user_id,
-          action_type: "forgot_email",
-          description: `Email recovered using ${searchBy}: ${value}`,
-          metadata: { searchBy, value, email: data.email },
-          module: "auth",
-          status: "success",
-        });
-      }
+    // Ambiguous matches are treated like no match rather than picking one
+    if (!matches || matches.length !== 1) {
+      await supabaseClient.from("activity_logs").insert({
+        user_id: null,
+        performed_by: null,
+        action_type: "forgot_email",
+        description: `Email recovery lookup failed (${matchedBy.join(", ")})`,
+        metadata: { matchedBy, matches: matches?.length ?? 0, user_agent: getUserAgent(req) },
+        ip_address: ip,
+        module: "auth",
+        status: "failed",
+      });
 
+      if (protection.enabled) return protectedResponse();
       return new Response(
-        JSON.stringify({ email: data.email }),
-        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        JSON.stringify({ error: "No account found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
+    const profile = matches[0];
+    let deliveredTo: string | null = null;
+
+    // A verified recovery email is preferred; a verified phone number is the fallback
+    if (profile.recovery_email && profile.recovery_email_verified_at) {
+      await sendMail({
+        to: profile.recovery_email,
+        subject: "Your SLATE AI sign-in email",
+        html: recoveryEmailHtml(profile.full_name, profile.email),
+        category: "forgot-email",
+      });
+      deliveredTo = maskEmail(profile.recovery_email);
+    } else if (profile.contact_number && profile.phone_verified_at) {
+      await sendSms({
+        to: normalizePhone(profile.contact_number),
+        body: `Your SLATE AI account signs in with ${profile.email}`,
+        category: "forgot-email",
+      });
+      deliveredTo = maskPhone(profile.contact_number);
+    }
+
+    await supabaseClient.from("activity_logs").insert({
+      user_id: profile.user_id,
+      performed_by: profile.user_id,
+      action_type: "forgot_email",
+      description: deliveredTo
+        ? `Email recovered using ${matchedBy.join(", ")}; sent to ${deliveredTo}`
+        : `Email hint shown using ${matchedBy.join(", ")}`,
+      metadata: { matchedBy, delivered_to: deliveredTo, user_agent: getUserAgent(req) },
+      ip_address: ip,
+      module: "auth",
+      status: "success",
+    });
+
+    if (protection.enabled) return protectedResponse();
     return new Response(
-      JSON.stringify({ error: "No account found" }),
-      { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      JSON.stringify({ hint: maskEmail(profile.email), deliveredTo }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   } catch (error) {
     console.error("Error:", error);
@@ -0,0 +1,281 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { requireActiveUser, requireCurrentPassword, requireSecondFactor } from "../_shared/active-user.ts";
+import { requireAllowedIp } from "../_shared/ip-allowlist.ts";
+import { getClientIp, getUserAgent } from "../_shared/request.ts";
+import { getSessionId, hasRecentStepUp, stepUpRequiredResponse } from "../_shared/step-up.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const ImpersonationSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("start"),
+    userId: z.string().uuid("Invalid user ID"),
+    reason: z.string().trim().min(3, "Reason is required").max(500),
+    minutes: z.union([z.literal(15), z.literal(30), z.literal(60)]).default(30),
+  }),
+  z.object({
+    action: z.literal("stop"),
+    reason: z.enum(["user", "expired", "signed_out"]).default("user"),
+  }),
+]);
+
+const forbidden = (error: string) =>
+  new Response(
+    JSON.stringify({ error }),
+    { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    );
+
+    const jwt = authHeader.replace("Bearer ", "");
+    const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(jwt);
+    const sessionId = getSessionId(jwt);
+
+    if (userError || !user || !sessionId) {
+      return new Response(
+        JSON.stringify({ error: "Invalid token" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const body = await req.json();
+    const parsed = ImpersonationSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid input",
+          details: parsed.error.issues.map((i) => i.message).join(", "),
+        }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const input = parsed.data;
+
+    // Stopping is called with the impersonated session's token, so it needs no admin checks:
+    // whoever holds that session may always end it
+    if (input.action === "stop") {
+      const { data: ended, error: endError } = await supabaseAdmin.rpc("end_impersonation", {
+        _session_id: sessionId,
+        _end_reason: input.reason,
+      });
+
+      if (endError) {
+        console.error("Error ending impersonation:", endError);
+        throw new Error("Failed to end impersonation");
+      }
+
+      const impersonation = ended?.[0];
+      if (impersonation) {
+        const minutes = Math.round((Date.now() - new Date(impersonation.started_at).getTime()) / 60000);
+        await supabaseAdmin.from("activity_logs").insert({
+          user_id: impersonation.target_user_id,
+          performed_by: impersonation.admin_id,
+          action_type: "impersonation_ended",
+          description: `Stopped viewing as ${user.email} after ${minutes} min`,
+          metadata: {
+            impersonation_id: impersonation.id,
+            real_user_id: impersonation.admin_id,
+            impersonated_user_id: impersonation.target_user_id,
+            end_reason: input.reason,
+            user_agent: getUserAgent(req),
+          },
+          ip_address: getClientIp(req),
+          module: "impersonation",
+          status: "success",
+        });
+      }
+
+      return new Response(
+        JSON.stringify({ success: true }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const suspendedResponse = await requireActiveUser(supabaseAdmin, user.id, corsHeaders);
+    if (suspendedResponse) return suspendedResponse;
+
+    const mfaResponse = await requireSecondFactor(jwt, corsHeaders);
+    if (mfaResponse) return mfaResponse;
+
+    const passwordResponse = await requireCurrentPassword(jwt, corsHeaders);
+    if (passwordResponse) return passwordResponse;
+
+    const { data: isSuperAdmin } = await supabaseAdmin.rpc("has_role", {
+      _user_id: user.id,
+      _role: "super_admin",
+    });
+    if (!isSuperAdmin) {
+      return forbidden("Only super admins can view as another user");
+    }
+
+    const ipResponse = await requireAllowedIp(supabaseAdmin, req, user.id, "impersonation", corsHeaders);
+    if (ipResponse) return ipResponse;
+
+    const { data: nested } = await supabaseAdmin
+      .from("impersonation_sessions")
+      .select("id")
+      .eq("session_id", sessionId)
+      .maybeSingle();
+    if (nested) {
+      return forbidden("Stop the current impersonation first");
+    }
+
+    if (!(await hasRecentStepUp(jwt))) {
+      return stepUpRequiredResponse(corsHeaders);
+    }
+
+    if (input.userId === user.id) {
+      return forbidden("You cannot impersonate yourself");
+    }
+
+    const { data: target } = await supabaseAdmin
+      .from("profiles")
+      .select("user_id, email, full_name, is_active")
+      .eq("user_id", input.userId)
+      .maybeSingle();
+
+    if (!target) {
+      return new Response(
+        JSON.stringify({ error: "User not found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (target.is_active === false) {
+      return forbidden("Suspended users cannot be impersonated");
+    }
+
+    const { data: targetIsSuperAdmin } = await supabaseAdmin.rpc("has_role", {
+      _user_id: target.user_id,
+      _role: "super_admin",
+    });
+    if (targetIsSuperAdmin) {
+      return forbidden("Super admins cannot be impersonated");
+    }
+
+    // The session is exchanged here rather than in the browser, so it is registered as an
+    // impersonation before its first request reaches the database
+    const { data: linkData, error: linkError } = await supabaseAdmin.auth.admin.generateLink({
+      type: "magiclink",
+      email: target.email,
+    });
+
+    if (linkError || !linkData?.properties?.hashed_token) {
+      console.error("Error creating impersonation token:", linkError);
+      throw new Error("Failed to start impersonation");
+    }
+
+    const supabaseAnon = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    );
+
+    const { data: otpData, error: otpError } = await supabaseAnon.auth.verifyOtp({
+      token_hash: linkData.properties.hashed_token,
+      type: "magiclink",
+    });
+
+    const session = otpData?.session;
+    const impersonatedSessionId = session ? getSessionId(session.access_token) : null;
+
+    if (otpError || !session || !impersonatedSessionId) {
+      console.error("Error creating impersonation session:", otpError);
+      throw new Error("Failed to start impersonation");
+    }
+
+    const expiresAt = new Date(Date.now() + input.minutes * 60 * 1000);
+
+    const { data: impersonationId, error: startError } = await supabaseAdmin.rpc("start_impersonation", {
+      _admin_id: user.id,
+      _target_user_id: target.user_id,
+      _session_id: impersonatedSessionId,
+      _reason: input.reason,
+      _expires_at: expiresAt.toISOString(),
+    });
+
+    if (startError) {
+      console.error("Error registering impersonation:", startError);
+      await supabaseAdmin.rpc("end_impersonation", { _session_id: impersonatedSessionId, _end_reason: "failed" });
+      throw new Error("Failed to start impersonation");
+    }
+
+    await supabaseAdmin.from("activity_logs").insert({
+      user_id: target.user_id,
+      performed_by: user.id,
+      action_type: "impersonation_started",
+      description: `Started viewing as ${target.email} for ${input.minutes} min: ${input.reason}`,
+      metadata: {
+        impersonation_id: impersonationId,
+        real_user_id: user.id,
+        impersonated_user_id: target.user_id,
+        reason: input.reason,
+        expires_at: expiresAt.toISOString(),
+        user_agent: getUserAgent(req),
+      },
+      ip_address: getClientIp(req),
+      module: "impersonation",
+      status: "success",
+    });
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        session: {
+          access_token: session.access_token,
+          refresh_token: session.refresh_token,
+        },
+        impersonation: {
+          id: impersonationId,
+          targetUserId: target.user_id,
+          targetName: target.full_name,
+          targetEmail: target.email,
+          expiresAt: expiresAt.toISOString(),
+        },
+      }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in impersonation function:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,222 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { requireActiveUser } from "../_shared/active-user.ts";
+import { refuseWhileImpersonating } from "../_shared/impersonation.ts";
+import { getJwtClaims } from "../_shared/step-up.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const MfaRecoverySchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("generate") }),
+  z.object({
+    action: z.literal("redeem"),
+    code: z.string().min(1, "Recovery code is required").max(32),
+  }),
+]);
+
+const RECOVERY_CODE_COUNT = 10;
+// No 0/O/1/I so codes can be read back from paper without ambiguity
+const RECOVERY_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+const normalizeCode = (code: string) => code.replace(/[\s-]/g, "").toUpperCase();
+
+const hashCode = async (code: string) => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(normalizeCode(code)));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+};
+
+const generateCode = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(10));
+  const chars = Array.from(bytes, (b) => RECOVERY_CODE_ALPHABET[b % RECOVERY_CODE_ALPHABET.length]);
+  return `${chars.slice(0, 5).join("")}-${chars.slice(5).join("")}`;
+};
+
+// The JWT has already been validated by auth.getUser; only its claims are read here
+const getAssuranceLevel = (jwt: string): string | null => getJwtClaims(jwt)?.aal ?? null;
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    );
+
+    const jwt = authHeader.replace("Bearer ", "");
+    const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(jwt);
+
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Invalid token" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const suspendedResponse = await requireActiveUser(supabaseAdmin, user.id, corsHeaders);
+    if (suspendedResponse) return suspendedResponse;
+
+    const impersonationResponse = await refuseWhileImpersonating(supabaseAdmin, jwt, corsHeaders);
+    if (impersonationResponse) return impersonationResponse;
+
+    const body = await req.json();
+    const parsed = MfaRecoverySchema.safeParse(body);
+
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid input",
+          details: parsed.error.issues.map((i) => i.message).join(", "),
+        }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (parsed.data.action === "generate") {
+      // New codes may only be issued from a session that already passed the TOTP challenge
+      if (getAssuranceLevel(jwt) !== "aal2") {
+        return new Response(
+          JSON.stringify({ error: "Verify your authenticator code before generating recovery codes" }),
+          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateCode);
+      const rows = await Promise.all(
+        codes.map(async (code) => ({ user_id: user.id, code_hash: await hashCode(code) }))
+      );
+
+      // Generating a new set invalidates every previous code
+      await supabaseAdmin.from("mfa_recovery_codes").delete().eq("user_id", user.id);
+
+      const { error: insertError } = await supabaseAdmin.from("mfa_recovery_codes").insert(rows);
+      if (insertError) {
+        console.error("Error storing recovery codes:", insertError);
+        throw new Error("Failed to store recovery codes");
+      }
+
+      await supabaseAdmin.from("activity_logs").insert({
+        user_id: user.id,
+        performed_by: user.id,
+        action_type: "mfa_recovery_codes_generated",
+        description: "Generated new MFA recovery codes",
+        metadata: { count: RECOVERY_CODE_COUNT },
+        module: "auth",
+        status: "success",
+      });
+
+      return new Response(
+        JSON.stringify({ success: true, codes }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Redeem: claim an unused code matching the submitted one in a single conditional update,
+    // so two concurrent requests cannot both spend the same code
+    const codeHash = await hashCode(parsed.data.code);
+    const { data: recoveryCode } = await supabaseAdmin
+      .from("mfa_recovery_codes")
+      .update({ used_at: new Date().toISOString() })
+      .eq("user_id", user.id)
+      .eq("code_hash", codeHash)
+      .is("used_at", null)
+      .select("id")
+      .maybeSingle();
+
+    if (!recoveryCode) {
+      await supabaseAdmin.from("activity_logs").insert({
+        user_id: user.id,
+        performed_by: user.id,
+        action_type: "mfa_recovery_code_used",
+        description: "Invalid MFA recovery code submitted",
+        module: "auth",
+        status: "failed",
+      });
+
+      return new Response(
+        JSON.stringify({ error: "Invalid or already used recovery code" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // A recovery code replaces the lost authenticator: remove the TOTP factors so the
+    // user can sign in at aal1 and enroll a new device
+    const { data: factorData, error: factorsError } = await supabaseAdmin.auth.admin.mfa.listFactors({
+      userId: user.id,
+    });
+
+    if (factorsError) {
+      console.error("Error listing MFA factors:", factorsError);
+      throw new Error("Failed to reset authenticator");
+    }
+
+    for (const factor of factorData?.factors ?? []) {
+      if (factor.factor_type !== "totp") continue;
+      const { error: deleteError } = await supabaseAdmin.auth.admin.mfa.deleteFactor({
+        id: factor.id,
+        userId: user.id,
+      });
+      if (deleteError) {
+        console.error("Error deleting MFA factor:", deleteError);
+        throw new Error("Failed to reset authenticator");
+      }
+    }
+
+    const { count: remaining } = await supabaseAdmin
+      .from("mfa_recovery_codes")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", user.id)
+      .is("used_at", null);
+
+    await supabaseAdmin.from("activity_logs").insert({
+      user_id: user.id,
+      performed_by: user.id,
+      action_type: "mfa_recovery_code_used",
+      description: "Signed in with an MFA recovery code; authenticator removed",
+      metadata: { remaining_codes: remaining ?? 0 },
+      module: "auth",
+      status: "success",
+    });
+
+    await supabaseAdmin.from("notifications").insert({
+      user_id: user.id,
+      type: "mfa_recovery",
+      title: "Recovery code used",
+      message: "A recovery code was used to sign in. Set up your authenticator app again in Settings.",
+    });
+
+    return new Response(
+      JSON.stringify({ success: true, remaining: remaining ?? 0 }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in mfa-recovery function:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
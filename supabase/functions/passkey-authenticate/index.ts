@@ -0,0 +1,262 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import {
+  generateAuthenticationOptions,
+  verifyAuthenticationResponse,
+  type AuthenticationResponseJSON,
+  type AuthenticatorTransportFuture,
+} from "npm:@simplewebauthn/server@13.2.2";
+import { isoBase64URL } from "npm:@simplewebauthn/server@13.2.2/helpers";
+import {
+  ProofOfWorkSchema,
+  getEnumerationProtection,
+  proofRequiredResponse,
+  verifyProofOfWork,
+} from "../_shared/proof-of-work.ts";
+import { consumeRateLimit, rateLimitedResponse, HOUR, MINUTE } from "../_shared/rate-limit.ts";
+import { getClientIp } from "../_shared/request.ts";
+import { recordFailedSignIn, recordSignIn } from "../_shared/sign-in.ts";
+import { getRelyingParty, passkeysUnavailableResponse } from "../_shared/webauthn.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const PasskeyAuthenticateSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("options"),
+    email: z.string().email("Invalid email format").max(255).optional(),
+    proof: ProofOfWorkSchema,
+  }),
+  z.object({
+    action: z.literal("verify"),
+    challengeId: z.string().uuid("Invalid challenge"),
+    response: z.object({ id: z.string().min(1) }).passthrough(),
+  }),
+]);
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json();
+    const parsed = PasskeyAuthenticateSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid input",
+          details: parsed.error.issues.map((i) => i.message).join(", "),
+        }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    );
+
+    const relyingParty = getRelyingParty();
+    if (!relyingParty) return passkeysUnavailableResponse(corsHeaders);
+    const { origin, rpID } = relyingParty;
+
+    if (parsed.data.action === "options") {
+      // Every call stores a challenge, so anonymous callers are capped per IP
+      const ip = getClientIp(req);
+      const retryAfter = await consumeRateLimit(supabaseAdmin, [
+        { bucket: "passkey-authenticate:ip", key: ip, max: 10, windowSeconds: MINUTE },
+        { bucket: "passkey-authenticate:ip", key: ip, max: 60, windowSeconds: HOUR },
+      ]);
+
+      if (retryAfter > 0) {
+        console.warn(`passkey-authenticate rate limited from ${ip}`);
+        return rateLimitedResponse(retryAfter, corsHeaders);
+      }
+
+      const protection = await getEnumerationProtection(supabaseAdmin);
+      if (protection.enabled && !(await verifyProofOfWork(supabaseAdmin, parsed.data.proof, protection.difficulty))) {
+        return proofRequiredResponse(corsHeaders);
+      }
+
+      // With an email we narrow the prompt to that user's passkeys; without one the
+      // browser offers any discoverable credential for this site. In anti-enumeration mode the
+      // email is ignored, since the credential list would tell whether the account exists.
+      let userId: string | null = null;
+      let allowCredentials: { id: string; transports?: AuthenticatorTransportFuture[] }[] = [];
+
+      if (parsed.data.email && !protection.enabled) {
+        const { data: profile } = await supabaseAdmin
+          .from("profiles")
+          .select("user_id")
+          .eq("email", parsed.data.email.toLowerCase())
+          .maybeSingle();
+
+        if (profile) {
+          userId = profile.user_id;
+          const { data: passkeys } = await supabaseAdmin
+            .from("passkeys")
+            .select("credential_id, transports")
+            .eq("user_id", profile.user_id);
+          allowCredentials = (passkeys ?? []).map((p) => ({ id: p.credential_id, transports: p.transports }));
+        }
+      }
+
+      const options = await generateAuthenticationOptions({
+        rpID,
+        allowCredentials,
+        userVerification: "preferred",
+      });
+
+      const { data: challenge, error: challengeError } = await supabaseAdmin
+        .from("webauthn_challenges")
+        .insert({ user_id: userId, challenge: options.challenge, type: "authentication" })
+        .select("id")
+        .single();
+
+      if (challengeError) {
+        console.error("Error storing challenge:", challengeError);
+        throw new Error("Failed to start passkey sign-in");
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, challengeId: challenge.id, options }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Verify: each challenge can be used exactly once, so it is deleted as it is read. Ones
+    // never redeemed are removed by the clean_expired_auth_state job.
+    const { data: challenge } = await supabaseAdmin
+      .from("webauthn_challenges")
+      .delete()
+      .eq("id", parsed.data.challengeId)
+      .eq("type", "authentication")
+      .gt("expires_at", new Date().toISOString())
+      .select("challenge, user_id")
+      .maybeSingle();
+
+    if (!challenge) {
+      return new Response(
+        JSON.stringify({ error: "Passkey sign-in expired, please try again" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: passkey } = await supabaseAdmin
+      .from("passkeys")
+      .select("id, user_id, credential_id, public_key, counter, transports, name")
+      .eq("credential_id", parsed.data.response.id)
+      .maybeSingle();
+
+    if (!passkey || (challenge.user_id && challenge.user_id !== passkey.user_id)) {
+      return new Response(
+        JSON.stringify({ error: "This passkey is not registered" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    let verification;
+    try {
+      verification = await verifyAuthenticationResponse({
+        response: parsed.data.response as AuthenticationResponseJSON,
+        expectedChallenge: challenge.challenge,
+        expectedOrigin: origin,
+        expectedRPID: rpID,
+        credential: {
+          id: passkey.credential_id,
+          publicKey: isoBase64URL.toBuffer(passkey.public_key),
+          counter: Number(passkey.counter),
+          transports: passkey.transports,
+        },
+      });
+    } catch (verifyError) {
+      console.error("Passkey verification failed:", verifyError);
+      verification = null;
+    }
+
+    if (!verification?.verified) {
+      await recordFailedSignIn(supabaseAdmin, req, passkey.user_id, "Failed passkey sign-in", {
+        passkey_id: passkey.id,
+        method: "passkey",
+      });
+
+      return new Response(
+        JSON.stringify({ error: "Passkey could not be verified" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: profile } = await supabaseAdmin
+      .from("profiles")
+      .select("email, is_active")
+      .eq("user_id", passkey.user_id)
+      .maybeSingle();
+
+    if (!profile || profile.is_active === false) {
+      return new Response(
+        JSON.stringify({ error: "This account is suspended. Contact your administrator." }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: lockedUntil } = await supabaseAdmin.rpc("account_locked_until", { _user_id: passkey.user_id });
+    if (lockedUntil) {
+      return new Response(
+        JSON.stringify({ error: "This account is locked after too many failed sign-in attempts", lockedUntil }),
+        { status: 423, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    await supabaseAdmin
+      .from("passkeys")
+      .update({
+        counter: verification.authenticationInfo.newCounter,
+        last_used_at: new Date().toISOString(),
+      })
+      .eq("id", passkey.id);
+
+    // Mint a one-time sign-in token; the client exchanges it with verifyOtp for a session
+    const { data: linkData, error: linkError } = await supabaseAdmin.auth.admin.generateLink({
+      type: "magiclink",
+      email: profile.email,
+    });
+
+    if (linkError || !linkData?.properties?.hashed_token) {
+      console.error("Error creating sign-in token:", linkError);
+      throw new Error("Failed to sign in with passkey");
+    }
+
+    await recordSignIn(supabaseAdmin, req, passkey.user_id, `User logged in with passkey "${passkey.name}"`, {
+      method: "passkey",
+      passkey_id: passkey.id,
+    });
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        email: profile.email,
+        tokenHash: linkData.properties.hashed_token,
+        passkeyName: passkey.name,
+      }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in passkey-authenticate function:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
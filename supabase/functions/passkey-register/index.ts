@@ -0,0 +1,223 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import {
+  generateRegistrationOptions,
+  verifyRegistrationResponse,
+  type RegistrationResponseJSON,
+} from "npm:@simplewebauthn/server@13.2.2";
+import { isoBase64URL } from "npm:@simplewebauthn/server@13.2.2/helpers";
+import { requireActiveUser, requireCurrentPassword, requireSecondFactor } from "../_shared/active-user.ts";
+import { refuseWhileImpersonating } from "../_shared/impersonation.ts";
+import { hasRecentStepUp, stepUpRequiredResponse } from "../_shared/step-up.ts";
+import { getRelyingParty, passkeysUnavailableResponse } from "../_shared/webauthn.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const PasskeyRegisterSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("options") }),
+  z.object({
+    action: z.literal("verify"),
+    challengeId: z.string().uuid("Invalid challenge"),
+    name: z.string().trim().min(1).max(64).optional(),
+    response: z.record(z.any()),
+  }),
+]);
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    );
+
+    const jwt = authHeader.replace("Bearer ", "");
+    const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(jwt);
+
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Invalid token" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const suspendedResponse = await requireActiveUser(supabaseAdmin, user.id, corsHeaders);
+    if (suspendedResponse) return suspendedResponse;
+
+    const mfaResponse = await requireSecondFactor(jwt, corsHeaders);
+    if (mfaResponse) return mfaResponse;
+
+    const passwordResponse = await requireCurrentPassword(jwt, corsHeaders);
+    if (passwordResponse) return passwordResponse;
+
+    const impersonationResponse = await refuseWhileImpersonating(supabaseAdmin, jwt, corsHeaders);
+    if (impersonationResponse) return impersonationResponse;
+
+    const body = await req.json();
+    const parsed = PasskeyRegisterSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid input",
+          details: parsed.error.issues.map((i) => i.message).join(", "),
+        }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // A new passkey signs in without the password or second factor, so adding one (both the
+    // options and the verify step) needs a fresh re-authentication
+    if (!(await hasRecentStepUp(jwt))) {
+      return stepUpRequiredResponse(corsHeaders);
+    }
+
+    const relyingParty = getRelyingParty();
+    if (!relyingParty) return passkeysUnavailableResponse(corsHeaders);
+    const { origin, rpID } = relyingParty;
+
+    if (parsed.data.action === "options") {
+      const { data: existing } = await supabaseAdmin
+        .from("passkeys")
+        .select("credential_id, transports")
+        .eq("user_id", user.id);
+
+      const options = await generateRegistrationOptions({
+        rpName: "SLATE AI",
+        rpID,
+        userName: user.email ?? user.id,
+        userID: new TextEncoder().encode(user.id),
+        attestationType: "none",
+        // Prevent registering the same authenticator twice
+        excludeCredentials: (existing ?? []).map((p) => ({
+          id: p.credential_id,
+          transports: p.transports,
+        })),
+        authenticatorSelection: {
+          residentKey: "required",
+          userVerification: "preferred",
+        },
+      });
+
+      const { data: challenge, error: challengeError } = await supabaseAdmin
+        .from("webauthn_challenges")
+        .insert({ user_id: user.id, challenge: options.challenge, type: "registration" })
+        .select("id")
+        .single();
+
+      if (challengeError) {
+        console.error("Error storing challenge:", challengeError);
+        throw new Error("Failed to start passkey registration");
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, challengeId: challenge.id, options }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Verify: each challenge can be used exactly once
+    const { data: challenge } = await supabaseAdmin
+      .from("webauthn_challenges")
+      .delete()
+      .eq("id", parsed.data.challengeId)
+      .eq("user_id", user.id)
+      .eq("type", "registration")
+      .gt("expires_at", new Date().toISOString())
+      .select("challenge")
+      .maybeSingle();
+
+    if (!challenge) {
+      return new Response(
+        JSON.stringify({ error: "Passkey registration expired, please try again" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    let verification;
+    try {
+      verification = await verifyRegistrationResponse({
+        response: parsed.data.response as RegistrationResponseJSON,
+        expectedChallenge: challenge.challenge,
+        expectedOrigin: origin,
+        expectedRPID: rpID,
+      });
+    } catch (verifyError) {
+      console.error("Passkey registration verification failed:", verifyError);
+      verification = null;
+    }
+
+    if (!verification?.verified || !verification.registrationInfo) {
+      return new Response(
+        JSON.stringify({ error: "Passkey could not be verified" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { credential, credentialDeviceType, credentialBackedUp } = verification.registrationInfo;
+    const name = parsed.data.name || "Passkey";
+
+    const { data: passkey, error: insertError } = await supabaseAdmin
+      .from("passkeys")
+      .insert({
+        user_id: user.id,
+        credential_id: credential.id,
+        public_key: isoBase64URL.fromBuffer(credential.publicKey),
+        counter: credential.counter,
+        transports: credential.transports ?? [],
+        device_type: credentialDeviceType,
+        backed_up: credentialBackedUp,
+        name,
+      })
+      .select("id, name, created_at, last_used_at")
+      .single();
+
+    if (insertError) {
+      console.error("Error storing passkey:", insertError);
+      throw new Error("Failed to save passkey");
+    }
+
+    await supabaseAdmin.from("activity_logs").insert({
+      user_id: user.id,
+      performed_by: user.id,
+      action_type: "passkey_registered",
+      description: `Passkey "${name}" registered`,
+      metadata: { passkey_id: passkey.id, device_type: credentialDeviceType },
+      module: "auth",
+      status: "success",
+    });
+
+    return new Response(
+      JSON.stringify({ success: true, passkey }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in passkey-register function:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,211 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { consumeRateLimit, rateLimitedResponse, HOUR } from "../_shared/rate-limit.ts";
+import { getClientIp } from "../_shared/request.ts";
+import { MAX_OTP_ATTEMPTS, hashLinkToken, otpMatches } from "../_shared/otp.ts";
+import { recordFailedSignIn, recordSignIn } from "../_shared/sign-in.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Either the 6-digit code typed by the user or the token from the emailed link
+const PasswordlessLoginSchema = z.union([
+  z.object({
+    email: z.string().email("Invalid email format").max(255),
+    otp: z.string().regex(/^\d{6}$/, "OTP must be exactly 6 digits"),
+  }),
+  z.object({
+    token: z.string().min(32, "Invalid sign-in link").max(128, "Invalid sign-in link"),
+  }),
+]);
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Validate input
+    const body = await req.json();
+    const parsed = PasswordlessLoginSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid input",
+          details: parsed.error.issues.map((i) => i.message).join(", "),
+        }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    );
+
+    const { data: setting } = await supabaseAdmin
+      .from("system_settings")
+      .select("value")
+      .eq("key", "passwordless")
+      .maybeSingle();
+
+    if (!setting?.value?.enabled) {
+      return new Response(
+        JSON.stringify({ error: "Passwordless sign-in is disabled" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const ip = getClientIp(req);
+    const codeLogin = "otp" in parsed.data ? parsed.data : null;
+
+    // Code guesses share the verify-otp budget for the address
+    const retryAfter = await consumeRateLimit(supabaseAdmin, [
+      ...(codeLogin ? [{ bucket: "verify-otp:email", key: codeLogin.email, max: 10, windowSeconds: HOUR }] : []),
+      { bucket: "verify-otp:ip", key: ip, max: 50, windowSeconds: HOUR },
+    ]);
+
+    if (retryAfter > 0) {
+      console.warn(`passwordless-login rate limited from ${ip}`);
+      return rateLimitedResponse(retryAfter, corsHeaders);
+    }
+
+    let query = supabaseAdmin
+      .from("otp_verifications")
+      .select("*")
+      .eq("flow", "passwordless")
+      .is("consumed_at", null);
+
+    query = codeLogin
+      ? query.eq("email", codeLogin.email)
+      : query.eq("link_token_hash", await hashLinkToken((parsed.data as { token: string }).token));
+
+    const { data: otpRecord } = await query
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const invalidResponse = (error: string) =>
+      new Response(
+        JSON.stringify({ error }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+
+    if (!otpRecord) {
+      return invalidResponse(codeLogin ? "No valid code found. Please request a new one." : "This sign-in link is invalid or was already used");
+    }
+
+    if (new Date(otpRecord.expires_at) < new Date()) {
+      return invalidResponse(codeLogin ? "Code has expired. Please request a new one." : "This sign-in link has expired");
+    }
+
+    if (otpRecord.attempts >= MAX_OTP_ATTEMPTS) {
+      return invalidResponse("Too many failed attempts. Please request a new code.");
+    }
+
+    const { data: profile } = await supabaseAdmin
+      .from("profiles")
+      .select("user_id, email, is_active")
+      .eq("email", otpRecord.email)
+      .maybeSingle();
+
+    if (codeLogin && !(await otpMatches(codeLogin.otp, otpRecord))) {
+      await supabaseAdmin
+        .from("otp_verifications")
+        .update({ attempts: otpRecord.attempts + 1 })
+        .eq("id", otpRecord.id);
+
+      if (profile?.user_id) {
+        await recordFailedSignIn(
+          supabaseAdmin,
+          req,
+          profile.user_id,
+          `Failed passwordless sign-in for ${otpRecord.email}`,
+          { email: otpRecord.email, method: "passwordless" }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({
+          error: "Invalid code",
+          attemptsRemaining: MAX_OTP_ATTEMPTS - (otpRecord.attempts + 1),
+        }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Code and link are issued together; using either one consumes both
+    const now = new Date().toISOString();
+    const { data: consumed } = await supabaseAdmin
+      .from("otp_verifications")
+      .update({ verified: true, verified_at: now, consumed_at: now })
+      .eq("id", otpRecord.id)
+      .is("consumed_at", null)
+      .select("id")
+      .maybeSingle();
+
+    if (!consumed) {
+      return invalidResponse("This sign-in link is invalid or was already used");
+    }
+
+    if (!profile || profile.is_active === false) {
+      return new Response(
+        JSON.stringify({ error: "This account is suspended. Contact your administrator." }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: lockedUntil } = await supabaseAdmin.rpc("account_locked_until", { _user_id: profile.user_id });
+    if (lockedUntil) {
+      return new Response(
+        JSON.stringify({ error: "This account is locked after too many failed sign-in attempts", lockedUntil }),
+        { status: 423, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Mint a one-time sign-in token; the client exchanges it with verifyOtp for a session
+    const { data: linkData, error: linkError } = await supabaseAdmin.auth.admin.generateLink({
+      type: "magiclink",
+      email: profile.email,
+    });
+
+    if (linkError || !linkData?.properties?.hashed_token) {
+      console.error("Error creating sign-in token:", linkError);
+      throw new Error("Failed to sign in");
+    }
+
+    await recordSignIn(
+      supabaseAdmin,
+      req,
+      profile.user_id,
+      codeLogin ? "User logged in with an email code" : "User logged in with a sign-in link",
+      { method: codeLogin ? "passwordless" : "magic_link" }
+    );
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        email: profile.email,
+        tokenHash: linkData.properties.hashed_token,
+      }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in passwordless-login function:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,249 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { requireActiveUser, requireCurrentPassword, requireSecondFactor } from "../_shared/active-user.ts";
+import { escapeHtml } from "../_shared/email-templates.ts";
+import { refuseWhileImpersonating } from "../_shared/impersonation.ts";
+import { getSiteUrl, sendMail } from "../_shared/mail.ts";
+import { consumeRateLimit, rateLimitedResponse, DAY, HOUR, MINUTE } from "../_shared/rate-limit.ts";
+import { MAX_OTP_ATTEMPTS, generateOtpCode, generateOtpSalt, hashOtp, otpMatches } from "../_shared/otp.ts";
+import { maskPhone, normalizePhone, sendSms } from "../_shared/sms.ts";
+import { hasRecentStepUp, stepUpRequiredResponse } from "../_shared/step-up.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const PhoneVerificationSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("send") }),
+  z.object({
+    action: z.literal("verify"),
+    code: z.string().regex(/^\d{6}$/, "Code must be exactly 6 digits"),
+  }),
+]);
+
+const EXPIRATION_MINUTES = 10;
+
+const verifiedNoticeHtml = (name: string, phone: string, secureUrl: string) => `
+  <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+    <h2 style="color: #3b82f6;">A phone number was verified on your account</h2>
+    <p>Hi ${escapeHtml(name)},</p>
+    <p>The phone number ${escapeHtml(phone)} was verified on your SLATE AI account. It can now receive
+    sign-in and password reset codes, and your sign-in email if you forget it.</p>
+    <p>If you made this change, there's nothing to do.</p>
+    <p>If you didn't, sign in and <a href="${secureUrl}">change your password</a> right away, then check
+    the phone number on your profile.</p>
+    <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 30px 0;">
+    <p style="color: #6b7280; font-size: 14px;">
+      Regards,<br>
+      <strong>Hinfinity Team</strong>
+    </p>
+  </div>
+`;
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    );
+
+    const jwt = authHeader.replace("Bearer ", "");
+    const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(jwt);
+
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Invalid token" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const suspendedResponse = await requireActiveUser(supabaseAdmin, user.id, corsHeaders);
+    if (suspendedResponse) return suspendedResponse;
+
+    const mfaResponse = await requireSecondFactor(jwt, corsHeaders);
+    if (mfaResponse) return mfaResponse;
+
+    const passwordResponse = await requireCurrentPassword(jwt, corsHeaders);
+    if (passwordResponse) return passwordResponse;
+
+    const impersonationResponse = await refuseWhileImpersonating(supabaseAdmin, jwt, corsHeaders);
+    if (impersonationResponse) return impersonationResponse;
+
+    const body = await req.json();
+    const parsed = PhoneVerificationSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid input",
+          details: parsed.error.issues.map((i) => i.message).join(", "),
+        }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // A verified number becomes a reset channel, so proving it starts with a re-authentication.
+    // The code is bound to that session's number, so checking it needs nothing more.
+    if (parsed.data.action === "send" && !(await hasRecentStepUp(jwt))) {
+      return stepUpRequiredResponse(corsHeaders);
+    }
+
+    // The number being verified is always the one saved on the caller's profile
+    const { data: profile } = await supabaseAdmin
+      .from("profiles")
+      .select("email, full_name, contact_number, phone_verified_at")
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (!profile?.contact_number) {
+      return new Response(
+        JSON.stringify({ error: "Add a phone number to your profile first" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (parsed.data.action === "send") {
+      const retryAfter = await consumeRateLimit(supabaseAdmin, [
+        { bucket: "phone-verification:user", key: user.id, max: 1, windowSeconds: MINUTE },
+        { bucket: "phone-verification:user", key: user.id, max: 5, windowSeconds: HOUR },
+        { bucket: "phone-verification:user", key: user.id, max: 10, windowSeconds: DAY },
+      ]);
+
+      if (retryAfter > 0) {
+        return rateLimitedResponse(retryAfter, corsHeaders);
+      }
+
+      const code = generateOtpCode();
+      const salt = generateOtpSalt();
+      const expiresAt = new Date(Date.now() + EXPIRATION_MINUTES * 60 * 1000);
+
+      const { error: upsertError } = await supabaseAdmin.from("phone_verifications").upsert({
+        user_id: user.id,
+        phone: profile.contact_number,
+        otp_hash: await hashOtp(code, salt),
+        otp_salt: salt,
+        attempts: 0,
+        expires_at: expiresAt.toISOString(),
+        created_at: new Date().toISOString(),
+      });
+
+      if (upsertError) {
+        console.error("Error storing phone verification:", upsertError);
+        throw new Error("Failed to start phone verification");
+      }
+
+      await sendSms({
+        to: normalizePhone(profile.contact_number),
+        body: `Your SLATE AI phone verification code is ${code}. It expires in ${EXPIRATION_MINUTES} minutes.`,
+        category: "phone-verification",
+      });
+
+      return new Response(
+        JSON.stringify({ success: true, sentTo: maskPhone(profile.contact_number), expiresAt: expiresAt.toISOString() }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: pending } = await supabaseAdmin
+      .from("phone_verifications")
+      .select("*")
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    // A code sent to a number that has since been edited proves nothing about the new one
+    if (!pending || pending.phone !== profile.contact_number || new Date(pending.expires_at) < new Date()) {
+      return new Response(
+        JSON.stringify({ error: "Code expired. Please request a new one." }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (pending.attempts >= MAX_OTP_ATTEMPTS) {
+      return new Response(
+        JSON.stringify({ error: "Too many failed attempts. Request a new code." }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (!(await otpMatches(parsed.data.code, pending))) {
+      await supabaseAdmin
+        .from("phone_verifications")
+        .update({ attempts: pending.attempts + 1 })
+        .eq("user_id", user.id);
+
+      return new Response(
+        JSON.stringify({ error: "Invalid code", attemptsRemaining: Math.max(0, MAX_OTP_ATTEMPTS - pending.attempts - 1) }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const verifiedAt = new Date().toISOString();
+    const { error: updateError } = await supabaseAdmin
+      .from("profiles")
+      .update({ contact_number: pending.phone, phone_verified_at: verifiedAt })
+      .eq("user_id", user.id);
+
+    if (updateError) throw updateError;
+
+    await supabaseAdmin.from("phone_verifications").delete().eq("user_id", user.id);
+
+    await supabaseAdmin.from("activity_logs").insert({
+      user_id: user.id,
+      performed_by: user.id,
+      action_type: "phone_verified",
+      description: `Phone number ${maskPhone(pending.phone)} verified`,
+      metadata: { phone: maskPhone(pending.phone) },
+      module: "profile",
+      status: "success",
+    });
+
+    if (profile.email) {
+      try {
+        await sendMail({
+          to: profile.email,
+          subject: "A phone number was verified on your SLATE AI account",
+          html: verifiedNoticeHtml(
+            profile.full_name || profile.email,
+            maskPhone(pending.phone),
+            `${getSiteUrl()}/forgot-password`
+          ),
+          category: "security:phone_verified",
+        });
+      } catch (mailError) {
+        console.error("Error sending phone verification notice:", mailError);
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, verifiedAt }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in phone-verification function:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,272 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { requireActiveUser, requireCurrentPassword, requireSecondFactor } from "../_shared/active-user.ts";
+import { escapeHtml } from "../_shared/email-templates.ts";
+import { refuseWhileImpersonating } from "../_shared/impersonation.ts";
+import { getSiteUrl, sendMail } from "../_shared/mail.ts";
+import { generateLinkToken, hashLinkToken } from "../_shared/otp.ts";
+import { consumeRateLimit, rateLimitedResponse, DAY, HOUR, MINUTE } from "../_shared/rate-limit.ts";
+import { getClientIp, getUserAgent } from "../_shared/request.ts";
+import { hasRecentStepUp, stepUpRequiredResponse } from "../_shared/step-up.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const RecoveryEmailSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("send"),
+    email: z.string().trim().email("Invalid email format").max(255),
+  }),
+  z.object({ action: z.literal("remove") }),
+]);
+
+// How long the link sent to the new address stays valid
+const VERIFICATION_HOURS = 24;
+
+const verificationHtml = (name: string, verifyUrl: string) => `
+  <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+    <h2 style="color: #3b82f6;">Confirm your recovery email</h2>
+    <p>Hi ${escapeHtml(name)},</p>
+    <p>This address was added as the recovery email of a SLATE AI account. If you forget which
+    email the account signs in with, it will be sent here.</p>
+    <p><a href="${verifyUrl}">Confirm this address</a>. The link works once and expires in ${VERIFICATION_HOURS} hours.</p>
+    <p>If you don't know this account, ignore this email and the address will not be used.</p>
+    <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 30px 0;">
+    <p style="color: #6b7280; font-size: 14px;">
+      Regards,<br>
+      <strong>Hinfinity Team</strong>
+    </p>
+  </div>
+`;
+
+const changeNoticeHtml = (name: string, change: string, secureUrl: string) => `
+  <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+    <h2 style="color: #3b82f6;">Your recovery email was changed</h2>
+    <p>Hi ${escapeHtml(name)},</p>
+    <p>${escapeHtml(change)}</p>
+    <p>If you made this change, there's nothing to do.</p>
+    <p>If you didn't, sign in and <a href="${secureUrl}">change your password</a> right away, then check
+    the recovery email on your profile.</p>
+    <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 30px 0;">
+    <p style="color: #6b7280; font-size: 14px;">
+      Regards,<br>
+      <strong>Hinfinity Team</strong>
+    </p>
+  </div>
+`;
+
+// Sets or removes the caller's recovery email. Both need a recent re-authentication and are
+// announced to the sign-in address; a new address only takes effect once its link is opened
+// (verify-recovery-email).
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    );
+
+    const jwt = authHeader.replace("Bearer ", "");
+    const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(jwt);
+
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Invalid token" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const suspendedResponse = await requireActiveUser(supabaseAdmin, user.id, corsHeaders);
+    if (suspendedResponse) return suspendedResponse;
+
+    const mfaResponse = await requireSecondFactor(jwt, corsHeaders);
+    if (mfaResponse) return mfaResponse;
+
+    const passwordResponse = await requireCurrentPassword(jwt, corsHeaders);
+    if (passwordResponse) return passwordResponse;
+
+    const impersonationResponse = await refuseWhileImpersonating(supabaseAdmin, jwt, corsHeaders);
+    if (impersonationResponse) return impersonationResponse;
+
+    const body = await req.json();
+    const parsed = RecoveryEmailSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid input",
+          details: parsed.error.issues.map((i) => i.message).join(", "),
+        }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (!(await hasRecentStepUp(jwt))) {
+      return stepUpRequiredResponse(corsHeaders);
+    }
+
+    const { data: profile } = await supabaseAdmin
+      .from("profiles")
+      .select("email, full_name, recovery_email")
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (!profile?.email) {
+      return new Response(
+        JSON.stringify({ error: "Profile not found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const siteUrl = getSiteUrl();
+    const name = profile.full_name || profile.email;
+    const ip = getClientIp(req);
+
+    if (parsed.data.action === "remove") {
+      const { error: updateError } = await supabaseAdmin
+        .from("profiles")
+        .update({ recovery_email: null, recovery_email_verified_at: null, updated_at: new Date().toISOString() })
+        .eq("user_id", user.id);
+
+      if (updateError) throw updateError;
+
+      await supabaseAdmin.from("recovery_email_verifications").delete().eq("user_id", user.id);
+
+      try {
+        await sendMail({
+          to: profile.email,
+          subject: "Your SLATE AI recovery email was removed",
+          html: changeNoticeHtml(
+            name,
+            profile.recovery_email
+              ? `The recovery email ${profile.recovery_email} was removed from your account.`
+              : "The pending recovery email of your account was removed.",
+            `${siteUrl}/forgot-password`
+          ),
+          category: "security:recovery_email",
+        });
+      } catch (mailError) {
+        console.error("Error sending recovery email notice:", mailError);
+      }
+
+      await supabaseAdmin.from("activity_logs").insert({
+        user_id: user.id,
+        performed_by: user.id,
+        action_type: "recovery_email_changed",
+        description: "Recovery email removed",
+        metadata: { previous: profile.recovery_email, user_agent: getUserAgent(req) },
+        ip_address: ip,
+        module: "profile",
+        status: "success",
+      });
+
+      return new Response(
+        JSON.stringify({ success: true }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const email = parsed.data.email.toLowerCase();
+
+    // Forgot Email sends the sign-in address here, so it must be another mailbox
+    if (email === profile.email.toLowerCase()) {
+      return new Response(
+        JSON.stringify({ error: "Recovery email must differ from your sign-in email" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const retryAfter = await consumeRateLimit(supabaseAdmin, [
+      { bucket: "recovery-email:user", key: user.id, max: 1, windowSeconds: MINUTE },
+      { bucket: "recovery-email:user", key: user.id, max: 5, windowSeconds: HOUR },
+      { bucket: "recovery-email:user", key: user.id, max: 10, windowSeconds: DAY },
+    ]);
+
+    if (retryAfter > 0) {
+      return rateLimitedResponse(retryAfter, corsHeaders);
+    }
+
+    const token = generateLinkToken();
+    const expiresAt = new Date(Date.now() + VERIFICATION_HOURS * 60 * 60 * 1000);
+
+    const { error: upsertError } = await supabaseAdmin.from("recovery_email_verifications").upsert({
+      user_id: user.id,
+      email,
+      token_hash: await hashLinkToken(token),
+      expires_at: expiresAt.toISOString(),
+      created_at: new Date().toISOString(),
+    });
+
+    if (upsertError) {
+      console.error("Error storing recovery email verification:", upsertError);
+      throw new Error("Failed to start recovery email verification");
+    }
+
+    // The sign-in address hears about the change first; without that notice it does not go ahead
+    try {
+      await sendMail({
+        to: profile.email,
+        subject: "Your SLATE AI recovery email is being changed",
+        html: changeNoticeHtml(
+          name,
+          `${email} was added as the recovery email of your account. It will be used once the link sent to it is opened.`,
+          `${siteUrl}/forgot-password`
+        ),
+        category: "security:recovery_email",
+      });
+
+      await sendMail({
+        to: email,
+        subject: "Confirm your SLATE AI recovery email",
+        html: verificationHtml(name, `${siteUrl}/verify-recovery-email?token=${encodeURIComponent(token)}`),
+        category: "recovery-email",
+      });
+    } catch (mailError) {
+      await supabaseAdmin.from("recovery_email_verifications").delete().eq("user_id", user.id);
+      throw mailError;
+    }
+
+    await supabaseAdmin.from("activity_logs").insert({
+      user_id: user.id,
+      performed_by: user.id,
+      action_type: "recovery_email_changed",
+      description: `Recovery email verification sent to ${email}`,
+      metadata: { email, previous: profile.recovery_email, user_agent: getUserAgent(req) },
+      ip_address: ip,
+      module: "profile",
+      status: "success",
+    });
+
+    return new Response(
+      JSON.stringify({ success: true, sentTo: email, expiresAt: expiresAt.toISOString() }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in recovery-email function:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -1,6 +1,8 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { MAX_OTP_ATTEMPTS, RESET_WINDOW_MINUTES, otpMatches } from "../_shared/otp.ts";
+import { allowPasswordChange, checkPassword, passwordPolicyResponse } from "../_shared/password-policy.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -10,8 +12,9 @@ const corsHeaders = {
 const ResetPasswordSchema = z.object({
   email: z.string().email("Invalid email format").max(255),
   otp: z.string().regex(/^\d{6}$/, "OTP must be exactly 6 digits"),
+  // Length and strength rules come from the password policy
   password: z.string()
-    .min(8, "Password must be at least 8 characters")
+    .min(1, "Password is required")
     .max(100, "Password too long"),
 });
 
@@ -43,11 +46,13 @@ serve(async (req) => {
       Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
     );
 
-    // Get the most recent OTP record for this email
+    // Get the most recent unused password-reset OTP for this email
     const { data: otpRecord } = await supabaseAdmin
       .from("otp_verifications")
       .select("*")
       .eq("email", email)
+      .eq("flow", "forgot_password")
+      .is("consumed_at", null)
       .order("created_at", { ascending: false })
       .limit(1)
       .maybeSingle();
@@ -57,12 +62,21 @@ serve(async (req) => {
     }
 
     // Check if OTP was already verified (from verify-otp-forgot step)
-    if (!otpRecord.verified) {
+    if (!otpRecord.verified || !otpRecord.verified_at) {
       throw new Error("OTP has not been verified. Please verify your OTP first.");
     }
 
+    const resetDeadline = new Date(otpRecord.verified_at).getTime() + RESET_WINDOW_MINUTES * 60 * 1000;
+    if (Date.now() > resetDeadline || (otpRecord.attempts ?? 0) >= MAX_OTP_ATTEMPTS) {
+      throw new Error("Invalid or expired OTP");
+    }
+
     // Verify the OTP code matches
-    if (otpRecord.otp_code !== String(otp)) {
+    if (!(await otpMatches(otp, otpRecord))) {
+      await supabaseAdmin
+        .from("otp_verifications")
+        .update({ attempts: (otpRecord.attempts ?? 0) + 1 })
+        .eq("id", otpRecord.id);
       throw new Error("Invalid OTP");
     }
 
@@ -115,7 +129,28 @@ serve(async (req) => {
 
     const user = { id: userId };
 
+    // Check the new password before spending the code, so a rejected password can be retried
+    const passwordProblems = await checkPassword(supabaseAdmin, password, { userId, email });
+    if (passwordProblems.length > 0) {
+      return passwordPolicyResponse(passwordProblems, corsHeaders);
+    }
+
+    // Consume the code before changing the password so it can only be used once,
+    // even if the same request is sent twice concurrently
+    const { data: consumed } = await supabaseAdmin
+      .from("otp_verifications")
+      .update({ consumed_at: new Date().toISOString() })
+      .eq("id", otpRecord.id)
+      .is("consumed_at", null)
+      .select("id")
+      .maybeSingle();
+
+    if (!consumed) {
+      throw new Error("Invalid or expired OTP");
+    }
+
     // Update user password
+    await allowPasswordChange(supabaseAdmin, user.id);
     const { error: updateError } = await supabaseAdmin.auth.admin.updateUserById(
       user.id,
       { password }
@@ -0,0 +1,157 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { hashLinkToken } from "../_shared/otp.ts";
+import { consumeRateLimit, rateLimitedResponse, HOUR } from "../_shared/rate-limit.ts";
+import { getClientIp, getUserAgent } from "../_shared/request.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const RevertEmailChangeSchema = z.object({
+  token: z.string().min(20).max(200),
+});
+
+// The revert link sent to the previous address after an email change. Whoever changed it may
+// hold a session, the password and sign-in factors they added, so the account also goes back to
+// a signed-out state without a password, passkeys, authenticator app, recovery contacts or the
+// accounts connected since the change, and the page continues with a password reset at the
+// restored address.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json();
+    const parsed = RevertEmailChangeSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({ error: "Invalid input", details: parsed.error.errors }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const ip = getClientIp(req);
+    const retryAfter = await consumeRateLimit(supabaseAdmin, [
+      { bucket: "revert-email-change:ip", key: ip, max: 10, windowSeconds: HOUR },
+    ]);
+
+    if (retryAfter > 0) {
+      return rateLimitedResponse(retryAfter, corsHeaders);
+    }
+
+    const { data: change } = await supabaseAdmin
+      .from("email_change_requests")
+      .select("id, user_id, old_email, new_email, created_at")
+      .eq("token_hash", await hashLinkToken(parsed.data.token))
+      .is("reverted_at", null)
+      .gt("revert_expires_at", new Date().toISOString())
+      .maybeSingle();
+
+    if (!change) {
+      return new Response(
+        JSON.stringify({ error: "This link is invalid, expired or was already used" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // The old address may have been taken by a new account in the meantime
+    const { data: owner } = await supabaseAdmin
+      .from("profiles")
+      .select("user_id")
+      .eq("email", change.old_email.toLowerCase())
+      .neq("user_id", change.user_id)
+      .maybeSingle();
+
+    if (owner) {
+      return new Response(
+        JSON.stringify({ error: "Your previous email now belongs to another account. Contact your administrator." }),
+        { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Claim the link before acting on it, so a second click cannot run the revert twice
+    const { data: claimed } = await supabaseAdmin
+      .from("email_change_requests")
+      .update({ reverted_at: new Date().toISOString() })
+      .eq("id", change.id)
+      .is("reverted_at", null)
+      .select("id")
+      .maybeSingle();
+
+    if (!claimed) {
+      return new Response(
+        JSON.stringify({ error: "This link is invalid, expired or was already used" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { error: updateError } = await supabaseAdmin.auth.admin.updateUserById(change.user_id, {
+      email: change.old_email,
+      email_confirm: true,
+    });
+
+    if (updateError) {
+      await supabaseAdmin.from("email_change_requests").update({ reverted_at: null }).eq("id", change.id);
+      throw updateError;
+    }
+
+    await supabaseAdmin
+      .from("profiles")
+      .update({ email: change.old_email, email_verified: true, updated_at: new Date().toISOString() })
+      .eq("user_id", change.user_id);
+
+    // Sessions, the password, sign-in methods connected since the change, passkeys, authenticator
+    // apps and recovery channels could each let the other party straight back in; they all go in
+    // one transaction
+    const { data: revoked, error: revokeError } = await supabaseAdmin.rpc("undo_account_takeover", {
+      _user_id: change.user_id,
+      _since: change.created_at,
+    });
+    if (revokeError) console.error("Error locking out the previous change:", revokeError);
+
+    await supabaseAdmin.from("activity_logs").insert({
+      user_id: change.user_id,
+      performed_by: change.user_id,
+      action_type: "email_change_reverted",
+      description: `Email change to ${change.new_email} undone; email restored to ${change.old_email}`,
+      metadata: {
+        old_email: change.old_email,
+        new_email: change.new_email,
+        revoked,
+        user_agent: getUserAgent(req),
+      },
+      ip_address: ip,
+      module: "profile",
+      status: "success",
+    });
+
+    await supabaseAdmin.from("notifications").insert({
+      user_id: change.user_id,
+      type: "email_change_reverted",
+      title: "Email change undone",
+      message: `Your email was restored to ${change.old_email}, all sessions were signed out, your password was cleared and your passkeys, authenticator app, recovery contacts and newly connected accounts were removed`,
+    });
+
+    return new Response(
+      JSON.stringify({ success: true, email: change.old_email }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in revert-email-change function:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,121 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { hashLinkToken } from "../_shared/otp.ts";
+import { consumeRateLimit, rateLimitedResponse, HOUR } from "../_shared/rate-limit.ts";
+import { getClientIp, getUserAgent } from "../_shared/request.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const SecureAccountSchema = z.object({
+  token: z.string().min(20).max(200),
+});
+
+// "This wasn't me" from a new-device alert email: the link alone proves ownership of the
+// mailbox, so it signs the account out everywhere and the page goes on to a password reset
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json();
+    const parsed = SecureAccountSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({ error: "Invalid input", details: parsed.error.errors }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const ip = getClientIp(req);
+    const retryAfter = await consumeRateLimit(supabaseAdmin, [
+      { bucket: "secure-account:ip", key: ip, max: 10, windowSeconds: HOUR },
+    ]);
+
+    if (retryAfter > 0) {
+      return rateLimitedResponse(retryAfter, corsHeaders);
+    }
+
+    // Claiming the row and checking it in one update keeps the link single-use under races
+    const { data: alert } = await supabaseAdmin
+      .from("sign_in_alerts")
+      .update({ used_at: new Date().toISOString() })
+      .eq("token_hash", await hashLinkToken(parsed.data.token))
+      .is("used_at", null)
+      .gt("expires_at", new Date().toISOString())
+      .select("user_id, device, ip_address, location")
+      .maybeSingle();
+
+    if (!alert) {
+      return new Response(
+        JSON.stringify({ error: "This link is invalid, expired or was already used" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: revoked, error: revokeError } = await supabaseAdmin.rpc("end_all_sessions", {
+      _user_id: alert.user_id,
+    });
+    if (revokeError) throw revokeError;
+
+    // Forget the reported device, so it alerts again if it signs in before the password changes
+    await supabaseAdmin
+      .from("known_devices")
+      .delete()
+      .eq("user_id", alert.user_id)
+      .eq("device", alert.device)
+      .eq("ip_address", alert.ip_address);
+
+    const { data: profile } = await supabaseAdmin
+      .from("profiles")
+      .select("email")
+      .eq("user_id", alert.user_id)
+      .maybeSingle();
+
+    await supabaseAdmin.from("activity_logs").insert({
+      user_id: alert.user_id,
+      performed_by: alert.user_id,
+      action_type: "account_secured",
+      description: `Reported a sign-in from ${alert.device} as not theirs; signed out everywhere`,
+      metadata: {
+        device: alert.device,
+        reported_ip: alert.ip_address,
+        location: alert.location,
+        revoked,
+        user_agent: getUserAgent(req),
+      },
+      ip_address: ip,
+      module: "auth",
+      status: "success",
+    });
+
+    await supabaseAdmin.from("notifications").insert({
+      user_id: alert.user_id,
+      type: "account_secured",
+      title: "Account secured",
+      message: "You reported a sign-in as not yours. All sessions were signed out.",
+    });
+
+    return new Response(
+      JSON.stringify({ success: true, email: profile?.email ?? null }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in secure-account function:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -1,17 +1,58 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
 import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import {
+  ProofOfWorkSchema,
+  getEnumerationProtection,
+  proofRequiredResponse,
+  verifyProofOfWork,
+} from "../_shared/proof-of-work.ts";
+import { consumeRateLimit, rateLimitedResponse, DAY, HOUR, MINUTE } from "../_shared/rate-limit.ts";
+import { getClientIp } from "../_shared/request.ts";
+import { getSiteUrl, sendMail } from "../_shared/mail.ts";
+import { maskPhone, normalizePhone, sendSms } from "../_shared/sms.ts";
+import { DEFAULT_LANGUAGE, getEmailTemplate, renderEmail } from "../_shared/email-templates.ts";
+import { OTP_FLOWS, generateLinkToken, generateOtpCode, generateOtpSalt, hashLinkToken, hashOtp } from "../_shared/otp.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-const SendOTPSchema = z.object({
-  email: z.string().email("Invalid email format").max(255),
-  flow: z.enum(['signup', 'forgot_password', 'email_change']).optional(),
-});
+// Codes that prove control of the email address itself can only go to that address
+const SMS_FLOWS = ["forgot_password", "passwordless"];
+
+const SendOTPSchema = z
+  .object({
+    email: z.string().email("Invalid email format").max(255),
+    flow: z.enum(OTP_FLOWS),
+    channel: z.enum(["email", "sms"]).default("email"),
+    proof: ProofOfWorkSchema,
+  })
+  .refine((d) => d.channel === "email" || SMS_FLOWS.includes(d.flow), "SMS is not available for this flow");
+
+const SMS_PURPOSE: Record<string, string> = {
+  forgot_password: "password reset",
+  passwordless: "sign-in",
+};
+
+// Flows started by someone who is not signed in; these are the ones that can probe for accounts
+const ANONYMOUS_FLOWS = ["signup", "forgot_password", "passwordless"];
+
+// Sent instead of a sign-up code in anti-enumeration mode, so the screen looks the same either way
+const accountExistsHtml = (siteUrl: string) => `
+  <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+    <h2 style="color: #3b82f6;">You already have an account</h2>
+    <p>Someone tried to create a SLATE AI account with this email address, which already has one.</p>
+    <p>To get in, <a href="${siteUrl}/auth">sign in</a> or <a href="${siteUrl}/forgot-password">reset your password</a>.
+    If this wasn't you, you can ignore this email.</p>
+    <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 30px 0;">
+    <p style="color: #6b7280; font-size: 14px;">
+      Regards,<br>
+      <strong>Hinfinity Team</strong>
+    </p>
+  </div>
+`;
 
 serve(async (req) => {
   if (req.method === "OPTIONS") {
@@ -33,34 +74,146 @@ serve(async (req) => {
       );
     }
     
-    const { email, flow } = parsed.data;
+    const { email, flow, channel, proof } = parsed.data;
 
-    // Generate 6-digit OTP
-    const otpCode = Math.floor(100000 + Math.random() * 900000).toString();
-    
-    // Store OTP in database
     const supabaseAdmin = createClient(
       Deno.env.get("SUPABASE_URL") ?? "",
       Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
     );
 
-    // Delete any existing unverified OTPs for this email
+    // Resend cooldown plus hourly/daily caps per address, and a per-IP cap so one
+    // client cannot spray codes across many inboxes
+    const ip = getClientIp(req);
+    const retryAfter = await consumeRateLimit(supabaseAdmin, [
+      { bucket: "send-otp:email", key: email, max: 1, windowSeconds: MINUTE },
+      { bucket: "send-otp:email", key: email, max: 5, windowSeconds: HOUR },
+      { bucket: "send-otp:email", key: email, max: 10, windowSeconds: DAY },
+      { bucket: "send-otp:ip", key: ip, max: 20, windowSeconds: HOUR },
+      { bucket: "send-otp:ip", key: ip, max: 50, windowSeconds: DAY },
+    ]);
+
+    if (retryAfter > 0) {
+      console.warn(`send-otp rate limited for ${email} from ${ip}`);
+      return rateLimitedResponse(retryAfter, corsHeaders);
+    }
+
+    const protection = await getEnumerationProtection(supabaseAdmin);
+    if (
+      protection.enabled &&
+      ANONYMOUS_FLOWS.includes(flow) &&
+      !(await verifyProofOfWork(supabaseAdmin, proof, protection.difficulty))
+    ) {
+      return proofRequiredResponse(corsHeaders);
+    }
+
+    // Forgot password: 2 minutes (as per requirement)
+    // Email change & Signup: 10 minutes (more time needed)
+    const expirationMinutes = flow === "forgot_password" ? 2 : 10;
+
+    // The same answer whether or not a code actually went out. In anti-enumeration mode an SMS
+    // destination is not echoed either, since only existing accounts have one.
+    const sentResponse = (sentTo: string) =>
+      new Response(
+        JSON.stringify({
+          success: true,
+          message: "OTP sent successfully",
+          expiresAt: new Date(Date.now() + expirationMinutes * 60 * 1000).toISOString(),
+          sentTo: protection.enabled && channel === "sms" ? "your verified phone number" : sentTo,
+        }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+
+    if (flow === "signup" && protection.enabled) {
+      const { data: existing } = await supabaseAdmin
+        .from("profiles")
+        .select("user_id")
+        .eq("email", email.toLowerCase())
+        .maybeSingle();
+
+      if (existing) {
+        await sendMail({
+          to: email,
+          subject: "You already have a SLATE AI account",
+          html: accountExistsHtml(getSiteUrl()),
+          category: "otp:signup",
+        });
+        return sentResponse(email);
+      }
+    }
+
+    if (flow === "passwordless") {
+      const { data: setting } = await supabaseAdmin
+        .from("system_settings")
+        .select("value")
+        .eq("key", "passwordless")
+        .maybeSingle();
+
+      if (!setting?.value?.enabled) {
+        return new Response(
+          JSON.stringify({ error: "Passwordless sign-in is disabled" }),
+          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      // Only existing, active accounts can sign in; answer the same way either way
+      const { data: account } = await supabaseAdmin
+        .from("profiles")
+        .select("is_active")
+        .eq("email", email.toLowerCase())
+        .maybeSingle();
+
+      if (!account || account.is_active === false) {
+        console.log(`Passwordless sign-in requested for unknown or inactive account: ${email}`);
+        return sentResponse(email);
+      }
+    }
+
+    // SMS goes to the account's own contact number, and only once its owner has verified it
+    let phone: string | null = null;
+    if (channel === "sms") {
+      const { data: account } = await supabaseAdmin
+        .from("profiles")
+        .select("contact_number, phone_verified_at")
+        .eq("email", email.toLowerCase())
+        .maybeSingle();
+
+      if (!account?.contact_number || !account.phone_verified_at) {
+        if (protection.enabled) return sentResponse("");
+        return new Response(
+          JSON.stringify({ error: "No verified phone number for this account" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      phone = normalizePhone(account.contact_number);
+    }
+
+    // Generate 6-digit OTP
+    const otpCode = generateOtpCode();
+    const otpSalt = generateOtpSalt();
+
+    // Passwordless sign-in also gets a single-use link back to the sign-in page
+    const linkToken = flow === "passwordless" && channel === "email" ? generateLinkToken() : null;
+    const magicLink = linkToken ? `${getSiteUrl()}/auth?magic_token=${linkToken}` : null;
+
+    // Delete any existing unverified OTPs for this email and flow
     await supabaseAdmin
       .from("otp_verifications")
       .delete()
       .eq("email", email)
+      .eq("flow", flow)
       .eq("verified", false);
 
-    // Set expiration based on flow type
-    // Forgot password: 2 minutes (as per requirement)
-    // Email change & Signup: 10 minutes (more time needed)
-    const expirationMinutes = flow === "forgot_password" ? 2 : 10;
     const expiresAt = new Date(Date.now() + expirationMinutes * 60 * 1000);
     const { error: insertError } = await supabaseAdmin
       .from("otp_verifications")
       .insert({
         email,
-        otp_code: otpCode,
+        flow,
+        otp_hash: await hashOtp(otpCode, otpSalt),
+        otp_salt: otpSalt,
+        link_token_hash: linkToken ? await hashLinkToken(linkToken) : null,
+        channel,
         expires_at: expiresAt.toISOString(),
         attempts: 0,
       });
@@ -70,96 +223,59 @@ serve(async (req) => {
       throw new Error("Failed to store OTP");
     }
 
-    // Send email via Hostinger SMTP
-    const client = new SMTPClient({
-      connection: {
-        hostname: Deno.env.get("SMTP_HOST") || "",
-        port: parseInt(Deno.env.get("SMTP_PORT") || "465"),
-        tls: true,
-        auth: {
-          username: Deno.env.get("SMTP_USER") || "",
-          password: Deno.env.get("SMTP_PASSWORD") || "",
-        },
-      },
-    });
+    // Address the recipient by name and in their preferred language when the account exists
+    const { data: recipient } = await supabaseAdmin
+      .from("profiles")
+      .select("user_id, full_name")
+      .eq("email", email)
+      .maybeSingle();
 
-    // Determine email subject and heading based on flow
-    let emailSubject = "Your SLATE AI Verification Code";
-    let emailHeading = "SLATE AI Verification";
-    
-    if (flow === "email_change") {
-      emailSubject = "Change Email - SLATE AI Verification Code";
-      emailHeading = "Change Email";
-    } else if (flow === "forgot_password") {
-      emailSubject = "Password Reset - SLATE AI Verification Code";
-      emailHeading = "Password Reset";
-    } else if (flow === "signup") {
-      emailSubject = "Welcome to SLATE AI - Verification Code";
-      emailHeading = "Welcome to SLATE AI";
-    }
+    if (phone) {
+      await sendSms({
+        to: phone,
+        body: `Your SLATE AI ${SMS_PURPOSE[flow]} code is ${otpCode}. It expires in ${expirationMinutes} minutes.`,
+        category: `otp:${flow}`,
+      });
+    } else {
+      const { data: recipientSettings } = recipient
+        ? await supabaseAdmin
+            .from("user_settings")
+            .select("language")
+            .eq("user_id", recipient.user_id)
+            .maybeSingle()
+        : { data: null };
 
-    await client.send({
-      from: `"SLATE AI" <${Deno.env.get("SMTP_USER")}>`,
-      to: email,
-      subject: emailSubject,
-      content: "auto",
-      html: `
-        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-          <h2 style="color: #3b82f6;">${emailHeading}</h2>
-          <p>Hello,</p>
-          <p>Your SLATE AI verification code is:</p>
-          <div style="background-color: #f3f4f6; padding: 20px; text-align: center; border-radius: 8px; margin: 20px 0;">
-            <h1 style="color: #1e40af; font-size: 36px; letter-spacing: 8px; margin: 0;">${otpCode}</h1>
-          </div>
-          <p>This code is valid for <strong>${expirationMinutes} minutes</strong>.</p>
-          <p>If you did not request this, please ignore this email.</p>
-          <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 30px 0;">
-          <p style="color: #6b7280; font-size: 14px;">
-            Regards,<br>
-            <strong>Hinfinity Team</strong>
-          </p>
-        </div>
-      `,
-    });
+      const template = await getEmailTemplate(supabaseAdmin, flow, recipientSettings?.language || DEFAULT_LANGUAGE);
+      const { subject, html } = renderEmail(template, {
+        code: otpCode,
+        expires_minutes: expirationMinutes,
+        full_name: recipient?.full_name || "there",
+        magic_link: magicLink ?? undefined,
+      });
 
-    await client.close();
+      await sendMail({ to: email, subject, html, category: `otp:${flow}` });
+    }
 
-    console.log(`OTP sent successfully to ${email}`);
+    const sentTo = phone ? maskPhone(phone) : email;
+    console.log(`OTP sent successfully to ${sentTo} by ${channel}`);
 
     // Log OTP send/resend activity
-    // Try to find user by email to log activity
-    const { data: profile } = await supabaseAdmin
-      .from("profiles")
-      .select("user_id")
-      .eq("email", email)
-      .maybeSingle();
-
     const actionType = flow === "forgot_password" ? "forgot_password" : "otp_resend";
     const description = flow === "forgot_password" 
-      ? `Password reset OTP sent to: ${email}`
-      : `OTP sent to: ${email} for ${flow || "signup"}`;
+      ? `Password reset OTP sent to: ${sentTo}`
+      : `OTP sent to: ${sentTo} for ${flow}`;
 
     await supabaseAdmin.from("activity_logs").insert({
-      user_id: profile?.user_id || null,
-      performed_by: profile?.user_id || null,
+      user_id: recipient?.user_id || null,
+      performed_by: recipient?.user_id || null,
       action_type: actionType,
       description: description,
-      metadata: { email, flow: flow || "signup" },
+      metadata: { email, flow, channel },
       module: "auth",
       status: "success",
     });
 
-    return new Response(
-      JSON.stringify({ 
-        success: true, 
-        message: "OTP sent successfully",
-        expiresAt: expiresAt.toISOString()
-      }),
-      {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-        status: 200,
-      }
-    );
+    return sentResponse(sentTo);
   } catch (error) {
     console.error("Error in send-otp function:", error);
     const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
@@ -0,0 +1,306 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { requireActiveUser, requireCurrentPassword, requireSecondFactor } from "../_shared/active-user.ts";
+import { requireAllowedIp } from "../_shared/ip-allowlist.ts";
+import { discoverOidc, normalizeDomain, samlAdminRequest, toSamlAttributeMapping } from "../_shared/sso.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const MappingSchema = z.object({
+  email: z.string().min(1, "Email claim is required").max(255),
+  full_name: z.string().max(255).optional(),
+});
+
+const DomainSchema = z
+  .string()
+  .transform(normalizeDomain)
+  .refine((d) => /^[a-z0-9.-]+\.[a-z]{2,}$/.test(d), "Invalid domain");
+
+const SsoConnectionsSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("list") }),
+  z.object({
+    action: z.literal("save"),
+    id: z.string().uuid().optional(),
+    name: z.string().min(1, "Name is required").max(100),
+    type: z.enum(["oidc", "saml"]),
+    domains: z.array(DomainSchema).min(1, "At least one domain is required").max(20),
+    is_active: z.boolean().default(true),
+    issuer: z.string().url("Issuer must be a URL").max(500).optional(),
+    client_id: z.string().min(1).max(255).optional(),
+    // Left out on update to keep the stored secret
+    client_secret: z.string().min(1).max(1000).optional(),
+    scopes: z.string().max(500).optional(),
+    claim_mapping: MappingSchema.optional(),
+    metadata_xml: z.string().min(1).max(200000).optional(),
+    attribute_mapping: MappingSchema.optional(),
+  }),
+  z.object({ action: z.literal("delete"), id: z.string().uuid() }),
+]);
+
+// Everything except the client secret, which is write-only
+const PUBLIC_COLUMNS =
+  "id, name, type, domains, is_active, issuer, client_id, scopes, claim_mapping, metadata_xml, attribute_mapping, saml_provider_id, created_at, updated_at";
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    );
+
+    const jwt = authHeader.replace("Bearer ", "");
+    const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(jwt);
+
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Invalid token" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const suspendedResponse = await requireActiveUser(supabaseAdmin, user.id, corsHeaders);
+    if (suspendedResponse) return suspendedResponse;
+
+    const mfaResponse = await requireSecondFactor(jwt, corsHeaders);
+    if (mfaResponse) return mfaResponse;
+
+    const passwordResponse = await requireCurrentPassword(jwt, corsHeaders);
+    if (passwordResponse) return passwordResponse;
+
+    const { data: isAdmin } = await supabaseAdmin.rpc("is_admin", { _user_id: user.id });
+    if (!isAdmin) {
+      return new Response(
+        JSON.stringify({ error: "Only administrators can manage SSO connections" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const ipResponse = await requireAllowedIp(supabaseAdmin, req, user.id, "sso-connections", corsHeaders);
+    if (ipResponse) return ipResponse;
+
+    const body = await req.json();
+    const parsed = SsoConnectionsSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid input",
+          details: parsed.error.issues.map((i) => i.message).join(", "),
+        }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const logChange = (description: string, metadata: Record<string, unknown>) =>
+      supabaseAdmin.from("activity_logs").insert({
+        user_id: user.id,
+        performed_by: user.id,
+        action_type: "sso_connection_updated",
+        description,
+        metadata,
+        module: "system",
+        status: "success",
+      });
+
+    if (parsed.data.action === "list") {
+      const { data: connections, error } = await supabaseAdmin
+        .from("sso_connections")
+        .select(`${PUBLIC_COLUMNS}, client_secret`)
+        .order("created_at", { ascending: true });
+      if (error) throw error;
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          connections: (connections ?? []).map(({ client_secret, ...c }) => ({ ...c, has_client_secret: !!client_secret })),
+          // What the identity provider needs to know about us for SAML
+          serviceProvider: {
+            metadataUrl: `${Deno.env.get("SUPABASE_URL")}/auth/v1/sso/saml/metadata`,
+            acsUrl: `${Deno.env.get("SUPABASE_URL")}/auth/v1/sso/saml/acs`,
+          },
+        }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (parsed.data.action === "delete") {
+      const { data: connection } = await supabaseAdmin
+        .from("sso_connections")
+        .select("id, name, saml_provider_id")
+        .eq("id", parsed.data.id)
+        .maybeSingle();
+
+      if (!connection) {
+        return new Response(
+          JSON.stringify({ error: "Connection not found" }),
+          { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      if (connection.saml_provider_id) {
+        await samlAdminRequest("DELETE", `/${connection.saml_provider_id}`);
+      }
+
+      const { error } = await supabaseAdmin.from("sso_connections").delete().eq("id", connection.id);
+      if (error) throw error;
+
+      await logChange(`SSO connection "${connection.name}" deleted`, { connection_id: connection.id });
+
+      return new Response(
+        JSON.stringify({ success: true }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const input = parsed.data;
+    const domains = [...new Set(input.domains)];
+
+    const { data: existing } = input.id
+      ? await supabaseAdmin
+          .from("sso_connections")
+          .select("id, type, client_secret, saml_provider_id")
+          .eq("id", input.id)
+          .maybeSingle()
+      : { data: null };
+
+    if (input.id && !existing) {
+      return new Response(
+        JSON.stringify({ error: "Connection not found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (existing && existing.type !== input.type) {
+      return new Response(
+        JSON.stringify({ error: "The type of an existing connection cannot be changed" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Each email domain routes to exactly one connection
+    let overlapQuery = supabaseAdmin.from("sso_connections").select("name").overlaps("domains", domains);
+    if (input.id) overlapQuery = overlapQuery.neq("id", input.id);
+    const { data: overlapping } = await overlapQuery;
+
+    if (overlapping && overlapping.length > 0) {
+      return new Response(
+        JSON.stringify({ error: `A domain is already used by the "${overlapping[0].name}" connection` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const record: Record<string, unknown> = {
+      name: input.name,
+      type: input.type,
+      domains,
+      is_active: input.is_active,
+    };
+
+    if (input.type === "oidc") {
+      const clientSecret = input.client_secret ?? existing?.client_secret;
+      if (!input.issuer || !input.client_id || !clientSecret) {
+        return new Response(
+          JSON.stringify({ error: "Issuer, client ID and client secret are required for OIDC" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      // Reject issuers we cannot discover now rather than at the first sign-in
+      try {
+        await discoverOidc(input.issuer);
+      } catch (discoveryError) {
+        return new Response(
+          JSON.stringify({ error: (discoveryError as Error).message }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      Object.assign(record, {
+        issuer: input.issuer.replace(/\/+$/, ""),
+        client_id: input.client_id,
+        client_secret: clientSecret,
+        scopes: input.scopes?.trim() || "openid email profile",
+        claim_mapping: input.claim_mapping ?? { email: "email", full_name: "name" },
+      });
+    } else {
+      if (!input.metadata_xml) {
+        return new Response(
+          JSON.stringify({ error: "Metadata XML is required for SAML" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const attributeMapping = input.attribute_mapping ?? { email: "email", full_name: "name" };
+      const samlProvider = {
+        metadata_xml: input.metadata_xml,
+        domains,
+        attribute_mapping: toSamlAttributeMapping(attributeMapping),
+      };
+
+      try {
+        const provider = existing?.saml_provider_id
+          ? await samlAdminRequest("PUT", `/${existing.saml_provider_id}`, samlProvider)
+          : await samlAdminRequest("POST", "", { type: "saml", ...samlProvider });
+        record.saml_provider_id = provider?.id ?? existing?.saml_provider_id;
+      } catch (samlError) {
+        return new Response(
+          JSON.stringify({ error: (samlError as Error).message }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      Object.assign(record, { metadata_xml: input.metadata_xml, attribute_mapping: attributeMapping });
+    }
+
+    const { data: saved, error: saveError } = input.id
+      ? await supabaseAdmin.from("sso_connections").update(record).eq("id", input.id).select(PUBLIC_COLUMNS).single()
+      : await supabaseAdmin
+          .from("sso_connections")
+          .insert({ ...record, created_by: user.id })
+          .select(PUBLIC_COLUMNS)
+          .single();
+
+    if (saveError) throw saveError;
+
+    await logChange(`SSO connection "${input.name}" ${input.id ? "updated" : "created"}`, {
+      connection_id: saved.id,
+      type: input.type,
+      domains,
+      is_active: input.is_active,
+    });
+
+    return new Response(
+      JSON.stringify({ success: true, connection: { ...saved, has_client_secret: input.type === "oidc" } }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in sso-connections function:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
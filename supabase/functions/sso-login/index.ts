@@ -0,0 +1,306 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { createRemoteJWKSet, jwtVerify } from "https://deno.land/x/jose@v4.14.4/index.ts";
+import { consumeRateLimit, rateLimitedResponse, MINUTE } from "../_shared/rate-limit.ts";
+import { getClientIp } from "../_shared/request.ts";
+import { recordFailedSignIn, recordSignIn } from "../_shared/sign-in.ts";
+import { ClaimMapping, discoverOidc, emailDomain, pkceChallenge, randomToken } from "../_shared/sso.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const SsoLoginSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("start"),
+    email: z.string().email("Invalid email format").max(255),
+  }),
+  z.object({
+    action: z.literal("callback"),
+    code: z.string().min(1, "Authorization code is required").max(4096),
+    state: z.string().min(1, "State is required").max(128),
+  }),
+]);
+
+// The identity provider sends the browser back to this app route with ?code&state
+const getRedirectUri = (req: Request) => {
+  const origin = Deno.env.get("SSO_REDIRECT_ORIGIN") ?? req.headers.get("origin") ?? "";
+  return `${origin.replace(/\/+$/, "")}/auth/sso/callback`;
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Validate input
+    const body = await req.json();
+    const parsed = SsoLoginSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid input",
+          details: parsed.error.issues.map((i) => i.message).join(", "),
+        }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    );
+
+    const ip = getClientIp(req);
+    const retryAfter = await consumeRateLimit(supabaseAdmin, [
+      { bucket: "sso-login:ip", key: ip, max: 30, windowSeconds: 10 * MINUTE },
+    ]);
+
+    if (retryAfter > 0) {
+      console.warn(`sso-login rate limited from ${ip}`);
+      return rateLimitedResponse(retryAfter, corsHeaders);
+    }
+
+    if (parsed.data.action === "start") {
+      const domain = emailDomain(parsed.data.email);
+      const { data: connection } = await supabaseAdmin
+        .from("sso_connections")
+        .select("id, name, type, issuer, client_id, scopes, saml_provider_id")
+        .contains("domains", [domain])
+        .eq("is_active", true)
+        .maybeSingle();
+
+      if (!connection) {
+        return new Response(
+          JSON.stringify({ error: "No single sign-on connection for this email domain" }),
+          { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      // SAML is handled by Supabase Auth itself; the browser calls signInWithSSO with this id
+      if (connection.type === "saml") {
+        return new Response(
+          JSON.stringify({ success: true, type: "saml", name: connection.name, providerId: connection.saml_provider_id }),
+          { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const config = await discoverOidc(connection.issuer);
+      const state = randomToken();
+      const nonce = randomToken();
+      const codeVerifier = randomToken(48);
+      const redirectUri = getRedirectUri(req);
+
+      const { error: stateError } = await supabaseAdmin.from("sso_login_states").insert({
+        state,
+        connection_id: connection.id,
+        nonce,
+        code_verifier: codeVerifier,
+        redirect_uri: redirectUri,
+      });
+
+      if (stateError) {
+        console.error("Error storing SSO state:", stateError);
+        throw new Error("Failed to start single sign-on");
+      }
+
+      const url = new URL(config.authorization_endpoint);
+      url.search = new URLSearchParams({
+        response_type: "code",
+        client_id: connection.client_id,
+        redirect_uri: redirectUri,
+        scope: connection.scopes,
+        state,
+        nonce,
+        code_challenge: await pkceChallenge(codeVerifier),
+        code_challenge_method: "S256",
+        login_hint: parsed.data.email,
+      }).toString();
+
+      return new Response(
+        JSON.stringify({ success: true, type: "oidc", name: connection.name, url: url.toString() }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Callback: each state can be used exactly once
+    const { data: loginState } = await supabaseAdmin
+      .from("sso_login_states")
+      .delete()
+      .eq("state", parsed.data.state)
+      .gt("expires_at", new Date().toISOString())
+      .select("connection_id, nonce, code_verifier, redirect_uri")
+      .maybeSingle();
+
+    if (!loginState) {
+      return new Response(
+        JSON.stringify({ error: "Single sign-on expired, please try again" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: connection } = await supabaseAdmin
+      .from("sso_connections")
+      .select("id, name, domains, issuer, client_id, client_secret, claim_mapping")
+      .eq("id", loginState.connection_id)
+      .eq("is_active", true)
+      .maybeSingle();
+
+    if (!connection) {
+      return new Response(
+        JSON.stringify({ error: "This single sign-on connection is no longer available" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const config = await discoverOidc(connection.issuer);
+    const tokenResponse = await fetch(config.token_endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded", Accept: "application/json" },
+      body: new URLSearchParams({
+        grant_type: "authorization_code",
+        code: parsed.data.code,
+        redirect_uri: loginState.redirect_uri,
+        client_id: connection.client_id,
+        client_secret: connection.client_secret,
+        code_verifier: loginState.code_verifier,
+      }),
+    });
+    const tokens = await tokenResponse.json().catch(() => null);
+
+    if (!tokenResponse.ok || !tokens?.id_token) {
+      console.error("OIDC token exchange failed:", tokens);
+      return new Response(
+        JSON.stringify({ error: "The identity provider rejected the sign-in" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    let claims: Record<string, unknown>;
+    try {
+      const { payload } = await jwtVerify(tokens.id_token, createRemoteJWKSet(new URL(config.jwks_uri)), {
+        // The issuer the admin configured, never whatever the discovery document claims
+        issuer: [connection.issuer, `${connection.issuer}/`],
+        audience: connection.client_id,
+      });
+      if (payload.nonce !== loginState.nonce) throw new Error("Nonce mismatch");
+      claims = payload as Record<string, unknown>;
+    } catch (verifyError) {
+      console.error("ID token verification failed:", verifyError);
+      return new Response(
+        JSON.stringify({ error: "The identity provider's response could not be verified" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const mapping = connection.claim_mapping as ClaimMapping;
+    const emailClaim = mapping.email || "email";
+
+    // Some providers only put profile claims on the userinfo endpoint
+    if (!claims[emailClaim] && config.userinfo_endpoint && tokens.access_token) {
+      const userinfo = await fetch(config.userinfo_endpoint, {
+        headers: { Authorization: `Bearer ${tokens.access_token}` },
+      }).then((r) => (r.ok ? r.json() : {}));
+      claims = { ...userinfo, ...claims };
+    }
+
+    const email = String(claims[emailClaim] ?? "").toLowerCase();
+    const fullName = mapping.full_name ? (claims[mapping.full_name] as string | undefined) : undefined;
+
+    // A connection may only vouch for the domains it was registered for
+    if (!email || claims.email_verified === false || !connection.domains.includes(emailDomain(email))) {
+      await recordFailedSignIn(supabaseAdmin, req, null, `SSO sign-in via "${connection.name}" rejected`, {
+        method: "sso",
+        connection_id: connection.id,
+        email: email || null,
+      });
+      return new Response(
+        JSON.stringify({ error: "This identity provider cannot sign in this email address" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    let { data: profile } = await supabaseAdmin
+      .from("profiles")
+      .select("user_id, email, is_active")
+      .eq("email", email)
+      .maybeSingle();
+
+    // Just-in-time provisioning; handle_sso_user applies the provisioning rules
+    if (!profile) {
+      const { data: created, error: createError } = await supabaseAdmin.auth.admin.createUser({
+        email,
+        email_confirm: true,
+        app_metadata: { sso_connection_id: connection.id },
+        user_metadata: fullName ? { full_name: fullName } : {},
+      });
+
+      if (createError || !created.user) {
+        console.error("SSO provisioning rejected:", createError);
+        return new Response(
+          JSON.stringify({ error: "Sign-up through single sign-on is not allowed for this account" }),
+          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      ({ data: profile } = await supabaseAdmin
+        .from("profiles")
+        .select("user_id, email, is_active")
+        .eq("user_id", created.user.id)
+        .maybeSingle());
+    }
+
+    if (!profile || profile.is_active === false) {
+      return new Response(
+        JSON.stringify({ error: "This account is suspended or awaiting approval. Contact your administrator." }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: lockedUntil } = await supabaseAdmin.rpc("account_locked_until", { _user_id: profile.user_id });
+    if (lockedUntil) {
+      return new Response(
+        JSON.stringify({ error: "This account is locked after too many failed sign-in attempts", lockedUntil }),
+        { status: 423, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Mint a one-time sign-in token; the client exchanges it with verifyOtp for a session
+    const { data: linkData, error: linkError } = await supabaseAdmin.auth.admin.generateLink({
+      type: "magiclink",
+      email: profile.email,
+    });
+
+    if (linkError || !linkData?.properties?.hashed_token) {
+      console.error("Error creating sign-in token:", linkError);
+      throw new Error("Failed to sign in");
+    }
+
+    await recordSignIn(supabaseAdmin, req, profile.user_id, `User logged in with SSO connection "${connection.name}"`, {
+      method: "sso",
+      connection_id: connection.id,
+    });
+
+    return new Response(
+      JSON.stringify({ success: true, email: profile.email, tokenHash: linkData.properties.hashed_token }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in sso-login function:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
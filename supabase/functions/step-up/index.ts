@@ -0,0 +1,370 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import {
+  generateAuthenticationOptions,
+  verifyAuthenticationResponse,
+  type AuthenticationResponseJSON,
+} from "npm:@simplewebauthn/server@13.2.2";
+import { isoBase64URL } from "npm:@simplewebauthn/server@13.2.2/helpers";
+import { requireActiveUser, requireCurrentPassword, requireSecondFactor } from "../_shared/active-user.ts";
+import { refuseWhileImpersonating } from "../_shared/impersonation.ts";
+import { sendMail } from "../_shared/mail.ts";
+import { MAX_OTP_ATTEMPTS, generateOtpCode, generateOtpSalt, hashOtp, otpMatches } from "../_shared/otp.ts";
+import { consumeRateLimit, rateLimitedResponse, HOUR, MINUTE } from "../_shared/rate-limit.ts";
+import { getClientIp, getUserAgent } from "../_shared/request.ts";
+import { STEP_UP_WINDOW_MINUTES, getSessionId } from "../_shared/step-up.ts";
+import { getRelyingParty, passkeysUnavailableResponse } from "../_shared/webauthn.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const StepUpSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("methods") }),
+  z.object({ action: z.literal("send-code") }),
+  z.object({ action: z.literal("passkey-options") }),
+  z.object({
+    action: z.literal("verify"),
+    method: z.literal("password"),
+    password: z.string().min(1, "Password is required").max(100),
+  }),
+  z.object({
+    action: z.literal("verify"),
+    method: z.literal("email_code"),
+    code: z.string().regex(/^\d{6}$/, "Code must be exactly 6 digits"),
+  }),
+  z.object({
+    action: z.literal("verify"),
+    method: z.literal("passkey"),
+    challengeId: z.string().uuid("Invalid challenge"),
+    response: z.object({ id: z.string().min(1) }).passthrough(),
+  }),
+]);
+
+const CODE_EXPIRATION_MINUTES = 10;
+
+const stepUpCodeHtml = (code: string) => `
+  <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+    <h2 style="color: #3b82f6;">Confirm it's you</h2>
+    <p>Use this code to confirm a sensitive action in SLATE AI:</p>
+    <div style="background-color: #f3f4f6; padding: 20px; text-align: center; border-radius: 8px; margin: 20px 0;">
+      <strong style="color: #1e40af; font-size: 28px; letter-spacing: 6px;">${code}</strong>
+    </div>
+    <p>The code expires in ${CODE_EXPIRATION_MINUTES} minutes. If you did not request it, change your password.</p>
+    <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 30px 0;">
+    <p style="color: #6b7280; font-size: 14px;">
+      Regards,<br>
+      <strong>Hinfinity Team</strong>
+    </p>
+  </div>
+`;
+
+const failed = (error: string, extra: Record<string, unknown> = {}) =>
+  new Response(
+    JSON.stringify({ error, ...extra }),
+    { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    );
+
+    const jwt = authHeader.replace("Bearer ", "");
+    const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(jwt);
+    const sessionId = getSessionId(jwt);
+
+    if (userError || !user || !sessionId) {
+      return new Response(
+        JSON.stringify({ error: "Invalid token" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const suspendedResponse = await requireActiveUser(supabaseAdmin, user.id, corsHeaders);
+    if (suspendedResponse) return suspendedResponse;
+
+    const mfaResponse = await requireSecondFactor(jwt, corsHeaders);
+    if (mfaResponse) return mfaResponse;
+
+    const passwordResponse = await requireCurrentPassword(jwt, corsHeaders);
+    if (passwordResponse) return passwordResponse;
+
+    const impersonationResponse = await refuseWhileImpersonating(supabaseAdmin, jwt, corsHeaders);
+    if (impersonationResponse) return impersonationResponse;
+
+    const body = await req.json();
+    const parsed = StepUpSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid input",
+          details: parsed.error.issues.map((i) => i.message).join(", "),
+        }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const input = parsed.data;
+
+    if (input.action === "methods") {
+      const [{ data: profile }, { count: passkeyCount }] = await Promise.all([
+        supabaseAdmin.from("profiles").select("password_set").eq("user_id", user.id).maybeSingle(),
+        supabaseAdmin.from("passkeys").select("id", { count: "exact", head: true }).eq("user_id", user.id),
+      ]);
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          methods: {
+            password: !!profile?.password_set,
+            passkey: (passkeyCount ?? 0) > 0 && getRelyingParty() !== null,
+            email_code: !!user.email,
+          },
+          email: user.email,
+        }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (input.action === "send-code") {
+      const retryAfter = await consumeRateLimit(supabaseAdmin, [
+        { bucket: "step-up:send-code", key: user.id, max: 1, windowSeconds: MINUTE },
+        { bucket: "step-up:send-code", key: user.id, max: 5, windowSeconds: HOUR },
+      ]);
+      if (retryAfter > 0) {
+        return rateLimitedResponse(retryAfter, corsHeaders);
+      }
+
+      const code = generateOtpCode();
+      const salt = generateOtpSalt();
+
+      const { error: upsertError } = await supabaseAdmin.from("step_up_codes").upsert({
+        user_id: user.id,
+        otp_hash: await hashOtp(code, salt),
+        otp_salt: salt,
+        attempts: 0,
+        expires_at: new Date(Date.now() + CODE_EXPIRATION_MINUTES * 60 * 1000).toISOString(),
+        created_at: new Date().toISOString(),
+      });
+
+      if (upsertError) {
+        console.error("Error storing step-up code:", upsertError);
+        throw new Error("Failed to send verification code");
+      }
+
+      await sendMail({
+        to: user.email as string,
+        subject: "Confirm it's you",
+        html: stepUpCodeHtml(code),
+        category: "step-up",
+      });
+
+      return new Response(
+        JSON.stringify({ success: true, sentTo: user.email }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (input.action === "passkey-options") {
+      const relyingParty = getRelyingParty();
+      if (!relyingParty) return passkeysUnavailableResponse(corsHeaders);
+      const { data: passkeys } = await supabaseAdmin
+        .from("passkeys")
+        .select("credential_id, transports")
+        .eq("user_id", user.id);
+
+      if (!passkeys?.length) {
+        return failed("No passkeys registered for this account");
+      }
+
+      const options = await generateAuthenticationOptions({
+        rpID: relyingParty.rpID,
+        allowCredentials: passkeys.map((p) => ({ id: p.credential_id, transports: p.transports })),
+        userVerification: "required",
+      });
+
+      const { data: challenge, error: challengeError } = await supabaseAdmin
+        .from("webauthn_challenges")
+        .insert({ user_id: user.id, challenge: options.challenge, type: "authentication" })
+        .select("id")
+        .single();
+
+      if (challengeError) {
+        console.error("Error storing challenge:", challengeError);
+        throw new Error("Failed to start passkey verification");
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, challengeId: challenge.id, options }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Every verify attempt counts, whatever the method, so no factor can be brute-forced here
+    const retryAfter = await consumeRateLimit(supabaseAdmin, [
+      { bucket: "step-up:verify", key: user.id, max: 10, windowSeconds: HOUR },
+    ]);
+    if (retryAfter > 0) {
+      return rateLimitedResponse(retryAfter, corsHeaders);
+    }
+
+    if (input.method === "password") {
+      const { data: matches } = await supabaseAdmin.rpc("verify_user_password", {
+        _user_id: user.id,
+        _password: input.password,
+      });
+      if (!matches) {
+        return failed("Incorrect password");
+      }
+    } else if (input.method === "email_code") {
+      const { data: pending } = await supabaseAdmin
+        .from("step_up_codes")
+        .select("*")
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      if (!pending || new Date(pending.expires_at) < new Date()) {
+        return failed("Code expired. Please request a new one.");
+      }
+
+      if (pending.attempts >= MAX_OTP_ATTEMPTS) {
+        return failed("Too many failed attempts. Request a new code.");
+      }
+
+      if (!(await otpMatches(input.code, pending))) {
+        await supabaseAdmin
+          .from("step_up_codes")
+          .update({ attempts: pending.attempts + 1 })
+          .eq("user_id", user.id);
+
+        return failed("Invalid code", { attemptsRemaining: Math.max(0, MAX_OTP_ATTEMPTS - pending.attempts - 1) });
+      }
+
+      await supabaseAdmin.from("step_up_codes").delete().eq("user_id", user.id);
+    } else {
+      const relyingParty = getRelyingParty();
+      if (!relyingParty) return passkeysUnavailableResponse(corsHeaders);
+
+      // Each challenge can be used exactly once, and only by the user it was issued to
+      const { data: challenge } = await supabaseAdmin
+        .from("webauthn_challenges")
+        .delete()
+        .eq("id", input.challengeId)
+        .eq("type", "authentication")
+        .eq("user_id", user.id)
+        .gt("expires_at", new Date().toISOString())
+        .select("challenge")
+        .maybeSingle();
+
+      if (!challenge) {
+        return failed("Passkey verification expired, please try again");
+      }
+
+      const { data: passkey } = await supabaseAdmin
+        .from("passkeys")
+        .select("id, credential_id, public_key, counter, transports")
+        .eq("credential_id", input.response.id)
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      if (!passkey) {
+        return failed("This passkey is not registered to your account");
+      }
+
+      let verification;
+      try {
+        verification = await verifyAuthenticationResponse({
+          response: input.response as AuthenticationResponseJSON,
+          expectedChallenge: challenge.challenge,
+          expectedOrigin: relyingParty.origin,
+          expectedRPID: relyingParty.rpID,
+          requireUserVerification: true,
+          credential: {
+            id: passkey.credential_id,
+            publicKey: isoBase64URL.toBuffer(passkey.public_key),
+            counter: Number(passkey.counter),
+            transports: passkey.transports,
+          },
+        });
+      } catch (verifyError) {
+        console.error("Passkey verification failed:", verifyError);
+        verification = null;
+      }
+
+      if (!verification?.verified) {
+        return failed("Passkey could not be verified");
+      }
+
+      await supabaseAdmin
+        .from("passkeys")
+        .update({
+          counter: verification.authenticationInfo.newCounter,
+          last_used_at: new Date().toISOString(),
+        })
+        .eq("id", passkey.id);
+    }
+
+    const verifiedAt = new Date();
+    const expiresAt = new Date(verifiedAt.getTime() + STEP_UP_WINDOW_MINUTES * 60 * 1000);
+
+    const { error: grantError } = await supabaseAdmin.from("step_up_grants").upsert({
+      session_id: sessionId,
+      user_id: user.id,
+      method: input.method,
+      verified_at: verifiedAt.toISOString(),
+      expires_at: expiresAt.toISOString(),
+    });
+
+    if (grantError) {
+      console.error("Error storing step-up grant:", grantError);
+      throw new Error("Failed to confirm re-authentication");
+    }
+
+    await supabaseAdmin.from("activity_logs").insert({
+      user_id: user.id,
+      performed_by: user.id,
+      action_type: "step_up_verified",
+      description: `Re-authenticated with ${input.method.replace("_", " ")} for a sensitive action`,
+      metadata: { method: input.method, session_id: sessionId, user_agent: getUserAgent(req) },
+      ip_address: getClientIp(req),
+      module: "auth",
+      status: "success",
+    });
+
+    return new Response(
+      JSON.stringify({ success: true, expiresAt: expiresAt.toISOString() }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in step-up function:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -1,6 +1,12 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { requireActiveUser, requireCurrentPassword, requireSecondFactor } from "../_shared/active-user.ts";
+import { escapeHtml } from "../_shared/email-templates.ts";
+import { refuseWhileImpersonating } from "../_shared/impersonation.ts";
+import { getSiteUrl, sendMail } from "../_shared/mail.ts";
+import { generateLinkToken, hashLinkToken } from "../_shared/otp.ts";
+import { hasRecentStepUp, stepUpRequiredResponse } from "../_shared/step-up.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -13,6 +19,26 @@ const UpdateEmailSchema = z.object({
   oldEmail: z.string().email("Invalid old email format"),
 });
 
+// How long the old address can undo a change, during which no further change is accepted
+const REVERT_DAYS = 7;
+
+const changeNoticeHtml = (oldEmail: string, newEmail: string, revertUrl: string) => `
+  <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+    <h2 style="color: #3b82f6;">Your sign-in email was changed</h2>
+    <p>The email address of your SLATE AI account was changed from <strong>${escapeHtml(oldEmail)}</strong>
+    to <strong>${escapeHtml(newEmail)}</strong>.</p>
+    <p>If you made this change, there's nothing to do.</p>
+    <p>If you didn't, <a href="${revertUrl}">undo the change</a>. This moves the account back to this address,
+    signs out every session, removes passkeys, authenticator apps and recovery contacts, and starts a
+    password reset. The link works once and expires in ${REVERT_DAYS} days.</p>
+    <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 30px 0;">
+    <p style="color: #6b7280; font-size: 14px;">
+      Regards,<br>
+      <strong>Hinfinity Team</strong>
+    </p>
+  </div>
+`;
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -43,6 +69,74 @@ serve(async (req) => {
       Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
     );
 
+    // Only the signed-in owner may move their account, and only right after re-authenticating
+    const jwt = (req.headers.get("Authorization") ?? "").replace("Bearer ", "");
+    const { data: { user: caller } } = await supabaseAdmin.auth.getUser(jwt);
+
+    if (!caller) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized", success: false }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // The user id in the body is only ever the caller's own; anything else is an attempt on
+    // someone else's account and is recorded as such
+    if (caller.id !== userId) {
+      console.warn(`User ${caller.id} tried to change the email of ${userId}`);
+      await supabaseAdmin.from("activity_logs").insert({
+        user_id: caller.id,
+        performed_by: caller.id,
+        action_type: "email_changed",
+        description: "Refused an email change for another user's account",
+        metadata: { target_user_id: userId, new_email: newEmail },
+        module: "profile",
+        status: "failed",
+      });
+
+      return new Response(
+        JSON.stringify({ error: "You can only change your own email", success: false }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const suspendedResponse = await requireActiveUser(supabaseAdmin, caller.id, corsHeaders);
+    if (suspendedResponse) return suspendedResponse;
+
+    const mfaResponse = await requireSecondFactor(jwt, corsHeaders);
+    if (mfaResponse) return mfaResponse;
+
+    const passwordResponse = await requireCurrentPassword(jwt, corsHeaders);
+    if (passwordResponse) return passwordResponse;
+
+    const impersonationResponse = await refuseWhileImpersonating(supabaseAdmin, jwt, corsHeaders);
+    if (impersonationResponse) return impersonationResponse;
+
+    if (!(await hasRecentStepUp(jwt))) {
+      return stepUpRequiredResponse(corsHeaders);
+    }
+
+    // One change at a time: a second one could move the account on before the owner reacts
+    const { data: pending } = await supabaseAdmin
+      .from("email_change_requests")
+      .select("new_email, revert_expires_at")
+      .eq("user_id", userId)
+      .is("reverted_at", null)
+      .gt("revert_expires_at", new Date().toISOString())
+      .limit(1)
+      .maybeSingle();
+
+    if (pending) {
+      return new Response(
+        JSON.stringify({
+          error: `Your email was changed recently and can be changed again after ${new Date(pending.revert_expires_at).toUTCString()}`,
+          code: "email_change_pending",
+          success: false,
+        }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
     // Check if the new email is already in use by another user
     const { data: existingUser } = await supabaseAdmin.auth.admin.listUsers();
     const emailInUse = existingUser?.users?.find(
@@ -60,6 +154,50 @@ serve(async (req) => {
       );
     }
 
+    // The change is recorded and the old address told, with its revert link, before the account
+    // moves: a change that could not be undone must not happen at all. The notice goes to the
+    // address the account really had, not the one the client named.
+    const siteUrl = getSiteUrl();
+    const previousEmail = caller.email ?? oldEmail;
+    const revertToken = generateLinkToken();
+    const revertExpiresAt = new Date(Date.now() + REVERT_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+    const { data: changeRequest, error: requestError } = await supabaseAdmin
+      .from("email_change_requests")
+      .insert({
+        user_id: userId,
+        old_email: previousEmail,
+        new_email: newEmail,
+        token_hash: await hashLinkToken(revertToken),
+        revert_expires_at: revertExpiresAt,
+      })
+      .select("id")
+      .single();
+
+    if (requestError || !changeRequest) {
+      console.error("Error recording email change:", requestError);
+      return new Response(
+        JSON.stringify({ error: "Failed to record the email change", success: false }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    try {
+      await sendMail({
+        to: previousEmail,
+        subject: "Your SLATE AI sign-in email was changed",
+        html: changeNoticeHtml(previousEmail, newEmail, `${siteUrl}/revert-email?token=${encodeURIComponent(revertToken)}`),
+        category: "security:email_changed",
+      });
+    } catch (mailError) {
+      console.error("Error notifying the old address:", mailError);
+      await supabaseAdmin.from("email_change_requests").delete().eq("id", changeRequest.id);
+      return new Response(
+        JSON.stringify({ error: "Could not notify your current address, so the email was not changed", success: false }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
     // Update user email in auth.users using admin API
     const { data: updatedUser, error: updateError } = await supabaseAdmin.auth.admin.updateUserById(
       userId,
@@ -71,6 +209,7 @@ serve(async (req) => {
 
     if (updateError) {
       console.error("Error updating auth user:", updateError);
+      await supabaseAdmin.from("email_change_requests").delete().eq("id", changeRequest.id);
       return new Response(
         JSON.stringify({ 
           error: "Failed to update email in authentication system",
@@ -103,10 +242,11 @@ serve(async (req) => {
       user_id: userId,
       performed_by: userId,
       action_type: "email_changed",
-      description: `Email changed from ${oldEmail} to ${newEmail}`,
+      description: `Email changed from ${previousEmail} to ${newEmail}`,
       metadata: {
-        old_email: oldEmail,
+        old_email: previousEmail,
         new_email: newEmail,
+        revert_expires_at: revertExpiresAt,
       },
       module: "profile",
       status: "success",
@@ -126,7 +266,8 @@ serve(async (req) => {
       JSON.stringify({ 
         success: true, 
         message: "Email updated successfully",
-        user: updatedUser?.user
+        user: updatedUser?.user,
+        revertExpiresAt,
       }),
       { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
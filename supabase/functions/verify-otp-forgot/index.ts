@@ -1,6 +1,9 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { consumeRateLimit, rateLimitedResponse, HOUR } from "../_shared/rate-limit.ts";
+import { getClientIp } from "../_shared/request.ts";
+import { MAX_OTP_ATTEMPTS, otpMatches } from "../_shared/otp.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -39,11 +42,25 @@ serve(async (req) => {
       Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
     );
 
-    // Fetch latest OTP record for the email
+    // Guesses are capped per address across code resends, not just per code
+    const ip = getClientIp(req);
+    const retryAfter = await consumeRateLimit(supabaseAdmin, [
+      { bucket: "verify-otp:email", key: email, max: 10, windowSeconds: HOUR },
+      { bucket: "verify-otp:ip", key: ip, max: 50, windowSeconds: HOUR },
+    ]);
+
+    if (retryAfter > 0) {
+      console.warn(`verify-otp-forgot rate limited for ${email} from ${ip}`);
+      return rateLimitedResponse(retryAfter, corsHeaders);
+    }
+
+    // Fetch latest unused password-reset OTP for the email
     const { data: otpRecord, error: fetchError } = await supabaseAdmin
       .from("otp_verifications")
       .select("*")
       .eq("email", email)
+      .eq("flow", "forgot_password")
+      .is("consumed_at", null)
       .order("created_at", { ascending: false })
       .limit(1)
       .maybeSingle();
@@ -68,7 +85,7 @@ serve(async (req) => {
     }
 
     // Too many attempts
-    if ((otpRecord.attempts ?? 0) >= 5) {
+    if ((otpRecord.attempts ?? 0) >= MAX_OTP_ATTEMPTS) {
       return new Response(
         JSON.stringify({ error: "Too many failed attempts. Request a new OTP." }),
         { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 400 }
@@ -76,24 +93,24 @@ serve(async (req) => {
     }
 
     // Compare codes
-    if (otpRecord.otp_code !== String(otp)) {
+    if (!(await otpMatches(otp, otpRecord))) {
       await supabaseAdmin
         .from("otp_verifications")
         .update({ attempts: (otpRecord.attempts ?? 0) + 1 })
         .eq("id", otpRecord.id);
 
-      const remaining = Math.max(0, 5 - ((otpRecord.attempts ?? 0) + 1));
+      const remaining = Math.max(0, MAX_OTP_ATTEMPTS - ((otpRecord.attempts ?? 0) + 1));
       return new Response(
         JSON.stringify({ error: "Invalid OTP", attemptsRemaining: remaining }),
         { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 400 }
       );
     }
 
-    // Mark as verified if not already
+    // Mark as verified if not already; reset-password-otp consumes it
     if (!otpRecord.verified) {
       await supabaseAdmin
         .from("otp_verifications")
-        .update({ verified: true })
+        .update({ verified: true, verified_at: new Date().toISOString() })
         .eq("id", otpRecord.id);
     }
 
@@ -1,6 +1,10 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { consumeRateLimit, rateLimitedResponse, HOUR } from "../_shared/rate-limit.ts";
+import { getClientIp } from "../_shared/request.ts";
+import { MAX_OTP_ATTEMPTS, otpMatches } from "../_shared/otp.ts";
+import { allowPasswordChange, checkPassword, passwordPolicyResponse } from "../_shared/password-policy.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -10,6 +14,8 @@ const corsHeaders = {
 const VerifyOTPSchema = z.object({
   email: z.string().email("Invalid email format").max(255),
   otp: z.string().regex(/^\d{6}$/, "OTP must be exactly 6 digits"),
+  // Password reset codes are verified by verify-otp-forgot only
+  flow: z.enum(["signup", "email_change"]),
   fullName: z.string().max(100).optional(),
   password: z.string().max(100).optional(),
 });
@@ -34,14 +40,13 @@ serve(async (req) => {
       );
     }
     
-    const { email, otp, fullName, password } = parsed.data;
+    const { email, otp, flow, fullName, password } = parsed.data;
 
-    // Check if this is a signup flow (has password and fullName) or simple OTP verification (email change)
-    // Must have both password AND fullName to be considered signup
-    const isSignupFlow = password && password.trim() !== "" && fullName && fullName.trim() !== "";
+    // Signup creates the account; email change only confirms ownership of the address
+    const isSignupFlow = flow === "signup";
 
     console.log("Flow detection:", { 
-      isSignupFlow, 
+      flow,
       hasPassword: !!password, 
       hasFullName: !!fullName,
       email 
@@ -52,12 +57,44 @@ serve(async (req) => {
       Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
     );
 
-    // Always look for unverified OTPs since we only verify once
+    // Guesses are capped per address across code resends, not just per code
+    const ip = getClientIp(req);
+    const retryAfter = await consumeRateLimit(supabaseAdmin, [
+      { bucket: "verify-otp:email", key: email, max: 10, windowSeconds: HOUR },
+      { bucket: "verify-otp:ip", key: ip, max: 50, windowSeconds: HOUR },
+    ]);
+
+    if (retryAfter > 0) {
+      console.warn(`verify-otp rate limited for ${email} from ${ip}`);
+      return rateLimitedResponse(retryAfter, corsHeaders);
+    }
+
+    // Reject a weak sign-up password before the code is spent, so the user can fix it and retry
+    if (isSignupFlow && password) {
+      // Signing up again over an existing account replaces its password, so its history counts too
+      const { data: existingProfile } = await supabaseAdmin
+        .from("profiles")
+        .select("user_id")
+        .eq("email", email.toLowerCase())
+        .maybeSingle();
+      const passwordProblems = await checkPassword(supabaseAdmin, password, {
+        userId: existingProfile?.user_id,
+        email,
+        fullName,
+      });
+      if (passwordProblems.length > 0) {
+        return passwordPolicyResponse(passwordProblems, corsHeaders);
+      }
+    }
+
+    // Always look for unverified OTPs issued for this flow since we only verify once
     const { data: otpRecord, error: fetchError } = await supabaseAdmin
       .from("otp_verifications")
       .select("*")
       .eq("email", email)
+      .eq("flow", flow)
       .eq("verified", false)
+      .is("consumed_at", null)
       .order("created_at", { ascending: false })
       .limit(1)
       .maybeSingle();
@@ -97,7 +134,7 @@ serve(async (req) => {
     }
 
     // Check attempts
-    if (otpRecord.attempts >= 5) {
+    if (otpRecord.attempts >= MAX_OTP_ATTEMPTS) {
       return new Response(
         JSON.stringify({ error: "Too many failed attempts. Please request a new OTP." }),
         {
@@ -108,16 +145,14 @@ serve(async (req) => {
     }
 
     // Verify OTP
-    console.log("Comparing OTPs:", { provided: otp, stored: otpRecord.otp_code });
-    
-    if (otpRecord.otp_code !== otp) {
+    if (!(await otpMatches(otp, otpRecord))) {
       // Increment attempts
       await supabaseAdmin
         .from("otp_verifications")
         .update({ attempts: otpRecord.attempts + 1 })
         .eq("id", otpRecord.id);
 
-      const remaining = 5 - (otpRecord.attempts + 1);
+      const remaining = MAX_OTP_ATTEMPTS - (otpRecord.attempts + 1);
       console.error("Incorrect OTP. Attempts remaining:", remaining);
       
       return new Response(
@@ -132,11 +167,26 @@ serve(async (req) => {
       );
     }
 
-    // OTP is valid - mark as verified
-    await supabaseAdmin
+    // OTP is valid - mark as verified and consumed so it cannot be replayed.
+    // The consumed_at guard makes concurrent submissions of the same code lose the race.
+    const verifiedAt = new Date().toISOString();
+    const { data: consumed } = await supabaseAdmin
       .from("otp_verifications")
-      .update({ verified: true })
-      .eq("id", otpRecord.id);
+      .update({ verified: true, verified_at: verifiedAt, consumed_at: verifiedAt })
+      .eq("id", otpRecord.id)
+      .is("consumed_at", null)
+      .select("id")
+      .maybeSingle();
+
+    if (!consumed) {
+      return new Response(
+        JSON.stringify({ error: "No valid OTP found. Please request a new OTP." }),
+        {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+          status: 400,
+        }
+      );
+    }
 
     // If it's just OTP verification (not signup), return success
     if (!isSignupFlow) {
@@ -194,11 +244,6 @@ serve(async (req) => {
       throw new Error("Password is required for new user registration");
     }
 
-    if (password.length < 8) {
-      console.error("Password too short");
-      throw new Error("Password must be at least 8 characters");
-    }
-
     console.log("Starting user creation/update for:", email);
 
     // Check if user already exists
@@ -225,6 +270,16 @@ serve(async (req) => {
         }
       }
       
+      const passwordProblems = await checkPassword(supabaseAdmin, password, {
+        userId: userExists.id,
+        email,
+        fullName: profileFullName,
+      });
+      if (passwordProblems.length > 0) {
+        return passwordPolicyResponse(passwordProblems, corsHeaders);
+      }
+
+      await allowPasswordChange(supabaseAdmin, userExists.id);
       const { data: updateData, error: updateError } = await supabaseAdmin.auth.admin.updateUserById(
         userExists.id,
         {
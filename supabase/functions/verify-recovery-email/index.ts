@@ -0,0 +1,103 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { hashLinkToken } from "../_shared/otp.ts";
+import { consumeRateLimit, rateLimitedResponse, HOUR } from "../_shared/rate-limit.ts";
+import { getClientIp, getUserAgent } from "../_shared/request.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const VerifyRecoveryEmailSchema = z.object({
+  token: z.string().min(20).max(200),
+});
+
+// The link sent to a new recovery email. Opening it proves the mailbox belongs to whoever set
+// it up, and only then does Forgot Email start sending the sign-in address there.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json();
+    const parsed = VerifyRecoveryEmailSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({ error: "Invalid input", details: parsed.error.errors }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const ip = getClientIp(req);
+    const retryAfter = await consumeRateLimit(supabaseAdmin, [
+      { bucket: "verify-recovery-email:ip", key: ip, max: 10, windowSeconds: HOUR },
+    ]);
+
+    if (retryAfter > 0) {
+      return rateLimitedResponse(retryAfter, corsHeaders);
+    }
+
+    // Claim the link before acting on it, so a second click cannot apply it twice
+    const { data: pending } = await supabaseAdmin
+      .from("recovery_email_verifications")
+      .delete()
+      .eq("token_hash", await hashLinkToken(parsed.data.token))
+      .gt("expires_at", new Date().toISOString())
+      .select("user_id, email")
+      .maybeSingle();
+
+    if (!pending) {
+      return new Response(
+        JSON.stringify({ error: "This link is invalid, expired or was already used" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const verifiedAt = new Date().toISOString();
+    const { error: updateError } = await supabaseAdmin
+      .from("profiles")
+      .update({ recovery_email: pending.email, recovery_email_verified_at: verifiedAt, updated_at: verifiedAt })
+      .eq("user_id", pending.user_id);
+
+    if (updateError) throw updateError;
+
+    await supabaseAdmin.from("activity_logs").insert({
+      user_id: pending.user_id,
+      performed_by: pending.user_id,
+      action_type: "recovery_email_changed",
+      description: `Recovery email ${pending.email} verified`,
+      metadata: { email: pending.email, user_agent: getUserAgent(req) },
+      ip_address: ip,
+      module: "profile",
+      status: "success",
+    });
+
+    await supabaseAdmin.from("notifications").insert({
+      user_id: pending.user_id,
+      type: "recovery_email_changed",
+      title: "Recovery email verified",
+      message: `${pending.email} is now your recovery email`,
+    });
+
+    return new Response(
+      JSON.stringify({ success: true, email: pending.email }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in verify-recovery-email function:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,89 @@
+-- Organization-wide settings (one JSON value per key), editable by admins
+CREATE TABLE IF NOT EXISTS public.system_settings (
+  key TEXT PRIMARY KEY,
+  value JSONB NOT NULL DEFAULT '{}'::jsonb,
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.system_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view system settings"
+ON public.system_settings
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage system settings"
+ON public.system_settings
+FOR ALL
+USING (public.is_admin(auth.uid()))
+WITH CHECK (public.is_admin(auth.uid()));
+
+CREATE TRIGGER update_system_settings_updated_at
+  BEFORE UPDATE ON public.system_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- MFA is optional for every role until an admin requires it
+INSERT INTO public.system_settings (key, value)
+VALUES ('mfa', '{"required_roles": []}'::jsonb)
+ON CONFLICT (key) DO NOTHING;
+
+-- One-time recovery codes for authenticator-app MFA (only hashes are stored)
+CREATE TABLE IF NOT EXISTS public.mfa_recovery_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+-- Codes are generated and redeemed by the mfa-recovery edge function only
+CREATE POLICY "Service role can manage recovery codes"
+ON public.mfa_recovery_codes
+FOR ALL
+USING (auth.role() = 'service_role');
+
+CREATE INDEX IF NOT EXISTS idx_mfa_recovery_codes_user_id ON public.mfa_recovery_codes(user_id);
+
+-- Remaining (unused) recovery codes for the calling user, without exposing hashes
+CREATE OR REPLACE FUNCTION public.count_unused_recovery_codes()
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COUNT(*)::int
+  FROM public.mfa_recovery_codes
+  WHERE user_id = auth.uid()
+    AND used_at IS NULL
+$$;
+
+-- Whether any of the user's system roles is listed in the MFA policy
+CREATE OR REPLACE FUNCTION public.mfa_required_for_user(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles ur
+    JOIN public.system_settings s ON s.key = 'mfa'
+    WHERE ur.user_id = _user_id
+      AND ur.role IS NOT NULL
+      AND s.value->'required_roles' ? ur.role::text
+  )
+$$;
+
+ALTER TYPE public.action_type ADD VALUE IF NOT EXISTS 'mfa_enrolled';
+ALTER TYPE public.action_type ADD VALUE IF NOT EXISTS 'mfa_unenrolled';
+ALTER TYPE public.action_type ADD VALUE IF NOT EXISTS 'mfa_challenge_failed';
+ALTER TYPE public.action_type ADD VALUE IF NOT EXISTS 'mfa_recovery_codes_generated';
+ALTER TYPE public.action_type ADD VALUE IF NOT EXISTS 'mfa_recovery_code_used';
+ALTER TYPE public.action_type ADD VALUE IF NOT EXISTS 'settings_updated';
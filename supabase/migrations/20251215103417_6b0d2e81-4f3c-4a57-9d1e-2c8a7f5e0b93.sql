@@ -0,0 +1,72 @@
+-- WebAuthn credentials (passkeys) registered by users
+CREATE TABLE IF NOT EXISTS public.passkeys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  credential_id TEXT NOT NULL UNIQUE,
+  public_key TEXT NOT NULL,
+  counter BIGINT NOT NULL DEFAULT 0,
+  transports TEXT[] NOT NULL DEFAULT '{}',
+  device_type TEXT,
+  backed_up BOOLEAN NOT NULL DEFAULT false,
+  name TEXT NOT NULL DEFAULT 'Passkey',
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.passkeys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own passkeys"
+ON public.passkeys
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can rename their own passkeys"
+ON public.passkeys
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can revoke their own passkeys"
+ON public.passkeys
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all passkeys"
+ON public.passkeys
+FOR SELECT
+USING (public.is_admin(auth.uid()));
+
+-- Credentials are only created by the passkey-register edge function
+CREATE POLICY "Service role can manage passkeys"
+ON public.passkeys
+FOR ALL
+USING (auth.role() = 'service_role');
+
+CREATE INDEX IF NOT EXISTS idx_passkeys_user_id ON public.passkeys(user_id);
+
+-- Users may only change the display name; key material and counters stay server-managed
+REVOKE UPDATE ON public.passkeys FROM authenticated;
+GRANT UPDATE (name) ON public.passkeys TO authenticated;
+
+-- Pending WebAuthn challenges, consumed once by the verifying edge function
+CREATE TABLE IF NOT EXISTS public.webauthn_challenges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  challenge TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('registration', 'authentication')),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT (now() + interval '5 minutes'),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.webauthn_challenges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage webauthn challenges"
+ON public.webauthn_challenges
+FOR ALL
+USING (auth.role() = 'service_role');
+
+CREATE INDEX IF NOT EXISTS idx_webauthn_challenges_expires_at ON public.webauthn_challenges(expires_at);
+
+ALTER TYPE public.action_type ADD VALUE IF NOT EXISTS 'passkey_registered';
+ALTER TYPE public.action_type ADD VALUE IF NOT EXISTS 'passkey_renamed';
+ALTER TYPE public.action_type ADD VALUE IF NOT EXISTS 'passkey_removed';
@@ -0,0 +1,75 @@
+-- Hits recorded by the rate limiter used in public edge functions
+CREATE TABLE IF NOT EXISTS public.rate_limit_events (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  bucket TEXT NOT NULL,
+  key TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.rate_limit_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage rate limit events"
+ON public.rate_limit_events
+FOR ALL
+USING (auth.role() = 'service_role');
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_events_bucket_key
+  ON public.rate_limit_events(bucket, key, created_at DESC);
+
+-- Checks every rule ({bucket, key, max, window_seconds}) and records one hit per
+-- bucket/key only when all of them pass. Returns 0 when allowed, otherwise the
+-- number of seconds until the strictest exceeded window frees up.
+CREATE OR REPLACE FUNCTION public.consume_rate_limit(_rules JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _rule JSONB;
+  _count INTEGER;
+  _oldest TIMESTAMP WITH TIME ZONE;
+  _window INTERVAL;
+  _retry_after INTEGER := 0;
+BEGIN
+  FOR _rule IN SELECT * FROM jsonb_array_elements(_rules)
+  LOOP
+    -- Serialize concurrent requests for the same key so the count cannot be raced
+    PERFORM pg_advisory_xact_lock(hashtext((_rule->>'bucket') || ':' || (_rule->>'key')));
+
+    _window := make_interval(secs => (_rule->>'window_seconds')::int);
+
+    SELECT COUNT(*), MIN(created_at)
+    INTO _count, _oldest
+    FROM public.rate_limit_events
+    WHERE bucket = _rule->>'bucket'
+      AND key = _rule->>'key'
+      AND created_at > now() - _window;
+
+    IF _count >= (_rule->>'max')::int THEN
+      _retry_after := GREATEST(
+        _retry_after,
+        CEIL(EXTRACT(EPOCH FROM (_oldest + _window - now())))::int,
+        1
+      );
+    END IF;
+  END LOOP;
+
+  IF _retry_after = 0 THEN
+    INSERT INTO public.rate_limit_events (bucket, key)
+    SELECT DISTINCT r->>'bucket', r->>'key'
+    FROM jsonb_array_elements(_rules) r;
+  END IF;
+
+  -- No window is longer than a day; drop older hits for these keys
+  DELETE FROM public.rate_limit_events e
+  USING jsonb_array_elements(_rules) r
+  WHERE e.bucket = r->>'bucket'
+    AND e.key = r->>'key'
+    AND e.created_at < now() - interval '1 day';
+
+  RETURN _retry_after;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_rate_limit(JSONB) FROM PUBLIC, anon, authenticated;
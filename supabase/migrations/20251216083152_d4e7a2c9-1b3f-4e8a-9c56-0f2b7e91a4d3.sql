@@ -0,0 +1,25 @@
+-- OTP codes are stored as salted HMAC hashes and bound to the flow they were issued for.
+-- Outstanding plaintext codes cannot be converted, so they are discarded; users simply
+-- request a new code.
+DELETE FROM public.otp_verifications;
+
+ALTER TABLE public.otp_verifications DROP COLUMN IF EXISTS otp_code;
+
+ALTER TABLE public.otp_verifications
+  ADD COLUMN IF NOT EXISTS otp_hash TEXT NOT NULL,
+  ADD COLUMN IF NOT EXISTS otp_salt TEXT NOT NULL,
+  ADD COLUMN IF NOT EXISTS flow TEXT NOT NULL CHECK (flow IN ('signup', 'forgot_password', 'email_change')),
+  ADD COLUMN IF NOT EXISTS verified_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS consumed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_otp_email_flow ON public.otp_verifications(email, flow, created_at DESC);
+
+-- Keep verified password-reset codes until their reset window has passed
+CREATE OR REPLACE FUNCTION public.clean_expired_otps()
+RETURNS void AS $$
+BEGIN
+  DELETE FROM public.otp_verifications
+  WHERE expires_at < now()
+    AND (verified_at IS NULL OR verified_at < now() - interval '10 minutes');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
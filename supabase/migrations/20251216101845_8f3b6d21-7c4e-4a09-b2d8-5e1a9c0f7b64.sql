@@ -0,0 +1,32 @@
+-- Passwordless sign-in reuses the OTP table: a code and a single-use link are issued together
+ALTER TABLE public.otp_verifications DROP CONSTRAINT IF EXISTS otp_verifications_flow_check;
+ALTER TABLE public.otp_verifications
+  ADD CONSTRAINT otp_verifications_flow_check
+  CHECK (flow IN ('signup', 'forgot_password', 'email_change', 'passwordless'));
+
+ALTER TABLE public.otp_verifications ADD COLUMN IF NOT EXISTS link_token_hash TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_otp_link_token_hash
+  ON public.otp_verifications(link_token_hash)
+  WHERE link_token_hash IS NOT NULL;
+
+-- Disabled until an admin turns it on
+INSERT INTO public.system_settings (key, value)
+VALUES ('passwordless', '{"enabled": false}'::jsonb)
+ON CONFLICT (key) DO NOTHING;
+
+-- Auth options the sign-in page needs before anyone is signed in
+CREATE OR REPLACE FUNCTION public.get_auth_settings()
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'passwordless_enabled',
+    COALESCE((SELECT (value->>'enabled')::boolean FROM public.system_settings WHERE key = 'passwordless'), false)
+  )
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_auth_settings() TO anon, authenticated;
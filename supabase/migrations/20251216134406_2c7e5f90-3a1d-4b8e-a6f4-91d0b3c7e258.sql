@@ -0,0 +1,30 @@
+-- Messages captured by the dev mail transport (MAIL_TRANSPORT=dev) instead of being delivered
+CREATE TABLE IF NOT EXISTS public.dev_mailbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  from_address TEXT NOT NULL,
+  to_address TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  html TEXT NOT NULL,
+  text TEXT,
+  category TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.dev_mailbox ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view dev mailbox"
+ON public.dev_mailbox
+FOR SELECT
+USING (public.is_admin(auth.uid()));
+
+CREATE POLICY "Admins can clear dev mailbox"
+ON public.dev_mailbox
+FOR DELETE
+USING (public.is_admin(auth.uid()));
+
+CREATE POLICY "Service role can manage dev mailbox"
+ON public.dev_mailbox
+FOR ALL
+USING (auth.role() = 'service_role');
+
+CREATE INDEX IF NOT EXISTS idx_dev_mailbox_created_at ON public.dev_mailbox(created_at DESC);
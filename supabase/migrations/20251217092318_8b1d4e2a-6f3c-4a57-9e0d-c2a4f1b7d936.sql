@@ -0,0 +1,38 @@
+-- Admin-editable email copy per OTP flow and language; the send-otp defaults apply
+-- when no row matches
+CREATE TABLE IF NOT EXISTS public.email_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  flow TEXT NOT NULL CHECK (flow IN ('signup', 'forgot_password', 'email_change', 'passwordless')),
+  language TEXT NOT NULL DEFAULT 'en',
+  subject TEXT NOT NULL,
+  html TEXT NOT NULL,
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (flow, language)
+);
+
+ALTER TABLE public.email_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and HR can view email templates"
+ON public.email_templates
+FOR SELECT
+USING (public.is_admin(auth.uid()) OR public.has_role(auth.uid(), 'hr'));
+
+CREATE POLICY "Admins and HR can manage email templates"
+ON public.email_templates
+FOR ALL
+USING (public.is_admin(auth.uid()) OR public.has_role(auth.uid(), 'hr'))
+WITH CHECK (public.is_admin(auth.uid()) OR public.has_role(auth.uid(), 'hr'));
+
+CREATE POLICY "Service role can manage email templates"
+ON public.email_templates
+FOR ALL
+USING (auth.role() = 'service_role');
+
+CREATE TRIGGER update_email_templates_updated_at
+  BEFORE UPDATE ON public.email_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TYPE public.action_type ADD VALUE IF NOT EXISTS 'email_template_updated';
@@ -0,0 +1,189 @@
+-- Lock accounts after repeated failed password attempts: max_attempts failures within
+-- window_minutes lock the account for lock_minutes
+INSERT INTO public.system_settings (key, value)
+VALUES ('lockout', '{"max_attempts": 5, "window_minutes": 15, "lock_minutes": 15}'::jsonb)
+ON CONFLICT (key) DO NOTHING;
+
+-- Failure counter and lock state per account, written by the password verification hook
+CREATE TABLE IF NOT EXISTS public.account_lockouts (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  window_started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  locked_until TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.account_lockouts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view account lockouts"
+ON public.account_lockouts
+FOR SELECT
+USING (public.is_admin(auth.uid()));
+
+CREATE POLICY "Service role can manage account lockouts"
+ON public.account_lockouts
+FOR ALL
+USING (auth.role() = 'service_role');
+
+CREATE INDEX IF NOT EXISTS idx_account_lockouts_locked_until ON public.account_lockouts(locked_until);
+
+-- End of the current lock, or NULL when the account is not locked
+CREATE OR REPLACE FUNCTION public.account_locked_until(_user_id UUID)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT locked_until
+  FROM public.account_lockouts
+  WHERE user_id = _user_id
+    AND locked_until > now()
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.account_locked_until(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Counts a failed password attempt and locks the account once the policy threshold is hit.
+-- Returns the end of the lock, or NULL while the account stays unlocked.
+CREATE OR REPLACE FUNCTION public.register_failed_login(_user_id UUID)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _policy JSONB;
+  _max_attempts INTEGER;
+  _window INTERVAL;
+  _lock INTERVAL;
+  _row public.account_lockouts%ROWTYPE;
+BEGIN
+  SELECT value INTO _policy FROM public.system_settings WHERE key = 'lockout';
+  _max_attempts := COALESCE((_policy->>'max_attempts')::int, 5);
+  _window := make_interval(mins => COALESCE((_policy->>'window_minutes')::int, 15));
+  _lock := make_interval(mins => COALESCE((_policy->>'lock_minutes')::int, 15));
+
+  -- A non-positive threshold turns lockout off
+  IF _max_attempts <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.account_lockouts AS al (user_id, failed_attempts, window_started_at)
+  VALUES (_user_id, 1, now())
+  ON CONFLICT (user_id) DO UPDATE
+  SET failed_attempts = CASE
+        WHEN al.window_started_at < now() - _window THEN 1
+        ELSE al.failed_attempts + 1
+      END,
+      window_started_at = CASE
+        WHEN al.window_started_at < now() - _window THEN now()
+        ELSE al.window_started_at
+      END,
+      updated_at = now()
+  RETURNING * INTO _row;
+
+  IF _row.failed_attempts < _max_attempts THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.account_lockouts
+  SET locked_until = now() + _lock,
+      failed_attempts = 0,
+      window_started_at = now(),
+      updated_at = now()
+  WHERE user_id = _user_id
+  RETURNING * INTO _row;
+
+  INSERT INTO public.activity_logs (user_id, performed_by, action_type, description, metadata, module, status)
+  VALUES (
+    _user_id,
+    NULL,
+    'account_locked',
+    'Account locked after ' || _max_attempts || ' failed sign-in attempts',
+    jsonb_build_object('locked_until', _row.locked_until, 'max_attempts', _max_attempts),
+    'auth',
+    'success'
+  );
+
+  INSERT INTO public.notifications (user_id, type, title, message)
+  VALUES (
+    _user_id,
+    'account_locked',
+    'Account locked',
+    'Your account was locked after too many failed sign-in attempts.'
+  );
+
+  RETURN _row.locked_until;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.register_failed_login(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Supabase Auth password verification hook: rejects attempts on locked accounts and
+-- counts failures, so the lockout holds even when the app's sign-in form is bypassed
+CREATE OR REPLACE FUNCTION public.hook_password_verification_attempt(event JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := (event->>'user_id')::uuid;
+  _locked_until TIMESTAMP WITH TIME ZONE;
+BEGIN
+  _locked_until := public.account_locked_until(_user_id);
+
+  IF _locked_until IS NULL AND NOT (event->>'valid')::boolean THEN
+    _locked_until := public.register_failed_login(_user_id);
+    IF _locked_until IS NULL THEN
+      RETURN jsonb_build_object('decision', 'continue');
+    END IF;
+  END IF;
+
+  IF _locked_until IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'decision', 'reject',
+      'message', 'Account locked until ' || to_char(_locked_until AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS"Z"'),
+      'should_logout_user', false
+    );
+  END IF;
+
+  -- Successful sign-in clears the failure counter
+  UPDATE public.account_lockouts
+  SET failed_attempts = 0, window_started_at = now(), updated_at = now()
+  WHERE user_id = _user_id;
+
+  RETURN jsonb_build_object('decision', 'continue');
+END;
+$$;
+
+GRANT USAGE ON SCHEMA public TO supabase_auth_admin;
+GRANT EXECUTE ON FUNCTION public.hook_password_verification_attempt(JSONB) TO supabase_auth_admin;
+REVOKE EXECUTE ON FUNCTION public.hook_password_verification_attempt(JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Admin-only: lift a lock early and reset the failure counter
+CREATE OR REPLACE FUNCTION public.unlock_account(_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Forbidden: Admin access required';
+  END IF;
+
+  UPDATE public.account_lockouts
+  SET locked_until = NULL, failed_attempts = 0, window_started_at = now(), updated_at = now()
+  WHERE user_id = _user_id;
+
+  INSERT INTO public.activity_logs (user_id, performed_by, action_type, description, module, status)
+  VALUES (_user_id, auth.uid(), 'account_unlocked', 'Account unlocked by an administrator', 'users', 'success');
+
+  INSERT INTO public.notifications (user_id, type, title, message)
+  VALUES (_user_id, 'account_unlocked', 'Account unlocked', 'An administrator unlocked your account. You can sign in again.');
+END;
+$$;
+
+ALTER TYPE public.action_type ADD VALUE IF NOT EXISTS 'account_locked';
+ALTER TYPE public.action_type ADD VALUE IF NOT EXISTS 'account_unlocked';
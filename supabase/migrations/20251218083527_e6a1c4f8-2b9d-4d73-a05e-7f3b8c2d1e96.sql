@@ -0,0 +1,167 @@
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- One password policy for every path that sets a password. max_age_days = 0 never expires,
+-- history_count = 0 allows reuse.
+INSERT INTO public.system_settings (key, value)
+VALUES (
+  'password_policy',
+  '{
+    "min_length": 8,
+    "require_uppercase": true,
+    "require_lowercase": true,
+    "require_number": true,
+    "require_symbol": false,
+    "banned_passwords": [],
+    "history_count": 5,
+    "max_age_days": 0
+  }'::jsonb
+)
+ON CONFLICT (key) DO NOTHING;
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS password_changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+-- Previous password hashes (bcrypt, copied from auth.users) for the no-reuse rule
+CREATE TABLE IF NOT EXISTS public.password_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  password_hash TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.password_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage password history"
+ON public.password_history
+FOR ALL
+USING (auth.role() = 'service_role');
+
+CREATE INDEX IF NOT EXISTS idx_password_history_user_id ON public.password_history(user_id, created_at DESC);
+
+-- Records every password change, whichever path made it
+CREATE OR REPLACE FUNCTION public.track_password_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.encrypted_password IS NULL OR NEW.encrypted_password = '' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.encrypted_password IS NOT DISTINCT FROM OLD.encrypted_password THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.password_history (user_id, password_hash)
+  VALUES (NEW.id, NEW.encrypted_password);
+
+  -- Keep more than the largest sensible history_count, not forever
+  DELETE FROM public.password_history
+  WHERE user_id = NEW.id
+    AND id NOT IN (
+      SELECT id FROM public.password_history
+      WHERE user_id = NEW.id
+      ORDER BY created_at DESC
+      LIMIT 24
+    );
+
+  UPDATE public.profiles
+  SET password_changed_at = now()
+  WHERE user_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_password_changed ON auth.users;
+
+CREATE TRIGGER on_auth_user_password_changed
+  AFTER INSERT OR UPDATE OF encrypted_password ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION public.track_password_change();
+
+-- Whether the candidate matches the current password or one of the last _count ones
+CREATE OR REPLACE FUNCTION public.password_recently_used(_user_id UUID, _password TEXT, _count INTEGER)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM auth.users u
+    WHERE u.id = _user_id
+      AND u.encrypted_password <> ''
+      AND u.encrypted_password = crypt(_password, u.encrypted_password)
+  )
+  OR EXISTS (
+    SELECT 1
+    FROM (
+      SELECT password_hash
+      FROM public.password_history
+      WHERE user_id = _user_id
+      ORDER BY created_at DESC
+      LIMIT GREATEST(_count, 0)
+    ) recent
+    WHERE recent.password_hash = crypt(_password, recent.password_hash)
+  )
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.password_recently_used(UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Checks a user's current password without creating a session
+CREATE OR REPLACE FUNCTION public.verify_user_password(_user_id UUID, _password TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM auth.users u
+    WHERE u.id = _user_id
+      AND u.encrypted_password <> ''
+      AND u.encrypted_password = crypt(_password, u.encrypted_password)
+  )
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.verify_user_password(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Policy rules for sign-up and reset forms; the banned list stays server-side
+CREATE OR REPLACE FUNCTION public.get_password_policy()
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT value - 'banned_passwords' FROM public.system_settings WHERE key = 'password_policy'),
+    '{}'::jsonb
+  )
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_password_policy() TO anon, authenticated;
+
+-- Whether the user's password is older than the policy's max_age_days
+CREATE OR REPLACE FUNCTION public.password_expired(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.profiles p
+    JOIN public.system_settings s ON s.key = 'password_policy'
+    WHERE p.user_id = _user_id
+      AND p.password_set IS TRUE
+      AND COALESCE((s.value->>'max_age_days')::int, 0) > 0
+      AND p.password_changed_at < now() - make_interval(days => (s.value->>'max_age_days')::int)
+  )
+$$;
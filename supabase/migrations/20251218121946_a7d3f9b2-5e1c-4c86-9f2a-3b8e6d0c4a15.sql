@@ -0,0 +1,129 @@
+-- Active Supabase Auth sessions for a user, readable by the user and admins
+CREATE OR REPLACE FUNCTION public.list_user_sessions(_user_id UUID)
+RETURNS TABLE (
+  id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  last_active_at TIMESTAMP WITH TIME ZONE,
+  user_agent TEXT,
+  ip TEXT,
+  aal TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS DISTINCT FROM _user_id AND NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Forbidden';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    s.id,
+    s.created_at,
+    COALESCE(s.refreshed_at AT TIME ZONE 'UTC', s.updated_at, s.created_at),
+    s.user_agent,
+    host(s.ip),
+    s.aal::text
+  FROM auth.sessions s
+  WHERE s.user_id = _user_id
+    AND (s.not_after IS NULL OR s.not_after > now())
+  ORDER BY 3 DESC;
+END;
+$$;
+
+-- Signs out one session (its refresh tokens go with it); own sessions or any as admin
+CREATE OR REPLACE FUNCTION public.revoke_user_session(_session_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _owner UUID;
+BEGIN
+  SELECT user_id INTO _owner FROM auth.sessions WHERE id = _session_id;
+  IF _owner IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF auth.uid() IS DISTINCT FROM _owner AND NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Forbidden';
+  END IF;
+
+  DELETE FROM auth.sessions WHERE id = _session_id;
+
+  INSERT INTO public.activity_logs (user_id, performed_by, action_type, description, metadata, module, status)
+  VALUES (
+    _owner,
+    auth.uid(),
+    'session_revoked',
+    CASE WHEN auth.uid() = _owner THEN 'Signed out a session' ELSE 'Session signed out by an administrator' END,
+    jsonb_build_object('session_id', _session_id),
+    'auth',
+    'success'
+  );
+END;
+$$;
+
+-- Signs out every session of a user, optionally keeping the caller's current one
+CREATE OR REPLACE FUNCTION public.revoke_user_sessions(_user_id UUID, _keep_session_id UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _count INTEGER;
+BEGIN
+  IF auth.uid() IS DISTINCT FROM _user_id AND NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Forbidden';
+  END IF;
+
+  DELETE FROM auth.sessions
+  WHERE user_id = _user_id
+    AND (_keep_session_id IS NULL OR id <> _keep_session_id);
+  GET DIAGNOSTICS _count = ROW_COUNT;
+
+  INSERT INTO public.activity_logs (user_id, performed_by, action_type, description, metadata, module, status)
+  VALUES (
+    _user_id,
+    auth.uid(),
+    'session_revoked',
+    CASE
+      WHEN _keep_session_id IS NOT NULL THEN 'Signed out all other sessions'
+      WHEN auth.uid() = _user_id THEN 'Signed out all sessions'
+      ELSE 'All sessions signed out by an administrator'
+    END,
+    jsonb_build_object('revoked', _count),
+    'auth',
+    'success'
+  );
+
+  RETURN _count;
+END;
+$$;
+
+-- Suspending an account signs it out everywhere, whichever screen suspended it
+CREATE OR REPLACE FUNCTION public.revoke_sessions_on_suspend()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM auth.sessions WHERE user_id = NEW.user_id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_profile_suspended ON public.profiles;
+
+CREATE TRIGGER on_profile_suspended
+  AFTER UPDATE OF is_active ON public.profiles
+  FOR EACH ROW
+  WHEN (OLD.is_active IS DISTINCT FROM NEW.is_active AND NEW.is_active = false)
+  EXECUTE FUNCTION public.revoke_sessions_on_suspend();
+
+ALTER TYPE public.action_type ADD VALUE IF NOT EXISTS 'session_revoked';
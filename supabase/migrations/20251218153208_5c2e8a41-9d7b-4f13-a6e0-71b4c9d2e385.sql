@@ -0,0 +1,11 @@
+-- Sign-in, sign-out and failed sign-in rows come from the auth-login gateway and the
+-- passkey/passwordless functions (service role) only, never from the browser
+DROP POLICY IF EXISTS "Users can log their own actions" ON public.activity_logs;
+
+CREATE POLICY "Users can log their own actions" ON public.activity_logs
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id AND
+  auth.uid() = performed_by AND
+  action_type NOT IN ('login', 'logout', 'failed_login')
+);
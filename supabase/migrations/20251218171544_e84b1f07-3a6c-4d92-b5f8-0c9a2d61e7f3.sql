@@ -0,0 +1,160 @@
+-- Admin-managed rules that decide the role and department of users created through SSO
+CREATE TABLE IF NOT EXISTS public.sso_provisioning_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  domain TEXT NOT NULL CHECK (domain = lower(domain) AND domain NOT LIKE '%@%'),
+  -- NULL matches any SSO provider
+  provider TEXT CHECK (provider IN ('google', 'azure', 'github')),
+  role public.app_role,
+  custom_role_id UUID REFERENCES public.custom_roles(id) ON DELETE CASCADE,
+  department TEXT,
+  priority INTEGER NOT NULL DEFAULT 100,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((role IS NULL) <> (custom_role_id IS NULL))
+);
+
+ALTER TABLE public.sso_provisioning_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage SSO provisioning rules"
+ON public.sso_provisioning_rules
+FOR ALL
+USING (public.is_admin(auth.uid()))
+WITH CHECK (public.is_admin(auth.uid()));
+
+CREATE TRIGGER update_sso_provisioning_rules_updated_at
+  BEFORE UPDATE ON public.sso_provisioning_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_sso_provisioning_rules_domain ON public.sso_provisioning_rules(domain);
+
+-- What happens to SSO sign-ups whose domain matches no rule: 'hold' creates the account
+-- suspended until an admin activates it, 'reject' refuses the sign-up outright
+INSERT INTO public.system_settings (key, value)
+VALUES ('sso_provisioning', '{"unmatched": "hold"}'::jsonb)
+ON CONFLICT (key) DO NOTHING;
+
+-- Just-in-time provisioning for new auth users; SSO users are placed by the rules above
+CREATE OR REPLACE FUNCTION public.handle_sso_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  signup_provider TEXT;
+  is_sso BOOLEAN;
+  email_domain TEXT;
+  matched_rule public.sso_provisioning_rules%ROWTYPE;
+  unmatched_action TEXT;
+  provisioning JSONB;
+BEGIN
+  -- Determine signup method from app_metadata
+  IF NEW.raw_app_meta_data ? 'provider' THEN
+    signup_provider := NEW.raw_app_meta_data->>'provider';
+  ELSE
+    signup_provider := 'manual';
+  END IF;
+
+  is_sso := signup_provider NOT IN ('manual', 'email', 'phone');
+  email_domain := lower(split_part(NEW.email, '@', 2));
+
+  IF is_sso THEN
+    SELECT * INTO matched_rule
+    FROM public.sso_provisioning_rules r
+    WHERE r.is_active
+      AND r.domain = email_domain
+      AND (r.provider IS NULL OR r.provider = signup_provider)
+    ORDER BY r.priority, (r.provider IS NULL), r.created_at
+    LIMIT 1;
+
+    IF matched_rule.id IS NULL THEN
+      SELECT COALESCE(value->>'unmatched', 'hold') INTO unmatched_action
+      FROM public.system_settings
+      WHERE key = 'sso_provisioning';
+
+      -- Aborting the insert makes the identity provider callback fail; nothing is stored
+      IF COALESCE(unmatched_action, 'hold') = 'reject' THEN
+        RAISE EXCEPTION 'Sign-up via % is not allowed for %', signup_provider, email_domain;
+      END IF;
+    END IF;
+  END IF;
+
+  -- Insert profile for SSO users
+  INSERT INTO public.profiles (
+    user_id,
+    full_name,
+    email,
+    signup_method,
+    is_active,
+    password_set,
+    email_verified,
+    department
+  ) VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data->>'full_name', SPLIT_PART(NEW.email, '@', 1)),
+    NEW.email,
+    signup_provider,
+    NOT is_sso OR matched_rule.id IS NOT NULL,
+    CASE WHEN signup_provider = 'manual' THEN true ELSE false END,
+    NEW.email_confirmed_at IS NOT NULL,
+    matched_rule.department
+  )
+  ON CONFLICT (user_id) DO UPDATE SET
+    email_verified = EXCLUDED.email_verified,
+    last_sign_in = now();
+
+  IF matched_rule.id IS NOT NULL THEN
+    INSERT INTO public.user_roles (user_id, role, custom_role_id)
+    VALUES (NEW.id, matched_rule.role, matched_rule.custom_role_id);
+
+    provisioning := jsonb_build_object(
+      'status', 'matched',
+      'rule_id', matched_rule.id,
+      'domain', matched_rule.domain,
+      'provider', matched_rule.provider,
+      'role', matched_rule.role,
+      'custom_role_id', matched_rule.custom_role_id,
+      'department', matched_rule.department
+    );
+  ELSIF is_sso THEN
+    -- Held: no role until an admin reviews and activates the account
+    provisioning := jsonb_build_object('status', 'held', 'domain', email_domain);
+
+    INSERT INTO public.notifications (user_id, type, title, message)
+    SELECT DISTINCT ur.user_id, 'sso_signup_held', 'Sign-up awaiting approval',
+      NEW.email || ' signed up via ' || signup_provider || ' and matched no provisioning rule'
+    FROM public.user_roles ur
+    WHERE ur.role IN ('super_admin', 'admin');
+  ELSE
+    -- Assign default employee role if no role exists
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (NEW.id, 'employee')
+    ON CONFLICT (user_id, role) DO NOTHING;
+  END IF;
+
+  -- Log signup activity for SSO
+  IF signup_provider != 'manual' THEN
+    INSERT INTO public.activity_logs (
+      user_id,
+      performed_by,
+      action_type,
+      description,
+      metadata
+    ) VALUES (
+      NEW.id,
+      NEW.id,
+      'signup',
+      'User signed up via ' || signup_provider,
+      jsonb_build_object('method', signup_provider, 'email', NEW.email)
+        || CASE WHEN provisioning IS NULL THEN '{}'::jsonb ELSE jsonb_build_object('provisioning', provisioning) END
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+ALTER TYPE public.action_type ADD VALUE IF NOT EXISTS 'sso_rule_updated';
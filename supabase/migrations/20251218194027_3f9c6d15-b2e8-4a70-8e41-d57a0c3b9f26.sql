@@ -0,0 +1,194 @@
+-- Enterprise SSO connections (Okta, Keycloak, ADFS, ...), managed by admins through the
+-- sso-connections edge function. OIDC runs through the sso-login function; SAML connections
+-- are registered with Supabase Auth and keep its provider id in saml_provider_id.
+CREATE TABLE IF NOT EXISTS public.sso_connections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('oidc', 'saml')),
+  domains TEXT[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  issuer TEXT,
+  client_id TEXT,
+  client_secret TEXT,
+  scopes TEXT NOT NULL DEFAULT 'openid email profile',
+  claim_mapping JSONB NOT NULL DEFAULT '{"email": "email", "full_name": "name"}'::jsonb,
+  metadata_xml TEXT,
+  attribute_mapping JSONB NOT NULL DEFAULT '{"email": "email", "full_name": "name"}'::jsonb,
+  saml_provider_id UUID,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (type <> 'oidc' OR (issuer IS NOT NULL AND client_id IS NOT NULL)),
+  CHECK (type <> 'saml' OR metadata_xml IS NOT NULL)
+);
+
+ALTER TABLE public.sso_connections ENABLE ROW LEVEL SECURITY;
+
+-- Client secrets never reach the browser; every read and write goes through edge functions
+CREATE POLICY "Service role can manage SSO connections"
+ON public.sso_connections
+FOR ALL
+USING (auth.role() = 'service_role');
+
+CREATE TRIGGER update_sso_connections_updated_at
+  BEFORE UPDATE ON public.sso_connections
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_sso_connections_domains ON public.sso_connections USING GIN (domains);
+
+-- In-flight OIDC sign-ins: state, nonce and PKCE verifier for one authorization request
+CREATE TABLE IF NOT EXISTS public.sso_login_states (
+  state TEXT PRIMARY KEY,
+  connection_id UUID NOT NULL REFERENCES public.sso_connections(id) ON DELETE CASCADE,
+  nonce TEXT NOT NULL,
+  code_verifier TEXT NOT NULL,
+  redirect_uri TEXT NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT (now() + interval '10 minutes'),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.sso_login_states ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage SSO login states"
+ON public.sso_login_states
+FOR ALL
+USING (auth.role() = 'service_role');
+
+-- signup_method records the enterprise connection as 'sso:<connection id>'
+CREATE OR REPLACE FUNCTION public.handle_sso_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  signup_provider TEXT;
+  is_sso BOOLEAN;
+  email_domain TEXT;
+  matched_rule public.sso_provisioning_rules%ROWTYPE;
+  unmatched_action TEXT;
+  provisioning JSONB;
+  connection_id UUID;
+BEGIN
+  -- Determine signup method from app_metadata
+  IF NEW.raw_app_meta_data ? 'sso_connection_id' THEN
+    -- OIDC connection users are created by the sso-login edge function
+    signup_provider := 'sso:' || (NEW.raw_app_meta_data->>'sso_connection_id');
+  ELSIF NEW.raw_app_meta_data ? 'provider' THEN
+    signup_provider := NEW.raw_app_meta_data->>'provider';
+
+    -- Supabase Auth reports SAML users as 'sso:<its provider id>'; translate to our connection
+    IF signup_provider LIKE 'sso:%' THEN
+      SELECT c.id INTO connection_id
+      FROM public.sso_connections c
+      WHERE c.saml_provider_id::text = substring(signup_provider FROM 5);
+
+      IF connection_id IS NOT NULL THEN
+        signup_provider := 'sso:' || connection_id;
+      END IF;
+    END IF;
+  ELSE
+    signup_provider := 'manual';
+  END IF;
+
+  is_sso := signup_provider NOT IN ('manual', 'email', 'phone');
+  email_domain := lower(split_part(NEW.email, '@', 2));
+
+  IF is_sso THEN
+    SELECT * INTO matched_rule
+    FROM public.sso_provisioning_rules r
+    WHERE r.is_active
+      AND r.domain = email_domain
+      AND (r.provider IS NULL OR r.provider = signup_provider)
+    ORDER BY r.priority, (r.provider IS NULL), r.created_at
+    LIMIT 1;
+
+    IF matched_rule.id IS NULL THEN
+      SELECT COALESCE(value->>'unmatched', 'hold') INTO unmatched_action
+      FROM public.system_settings
+      WHERE key = 'sso_provisioning';
+
+      -- Aborting the insert makes the identity provider callback fail; nothing is stored
+      IF COALESCE(unmatched_action, 'hold') = 'reject' THEN
+        RAISE EXCEPTION 'Sign-up via % is not allowed for %', signup_provider, email_domain;
+      END IF;
+    END IF;
+  END IF;
+
+  -- Insert profile for SSO users
+  INSERT INTO public.profiles (
+    user_id,
+    full_name,
+    email,
+    signup_method,
+    is_active,
+    password_set,
+    email_verified,
+    department
+  ) VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data->>'full_name', SPLIT_PART(NEW.email, '@', 1)),
+    NEW.email,
+    signup_provider,
+    NOT is_sso OR matched_rule.id IS NOT NULL,
+    CASE WHEN signup_provider = 'manual' THEN true ELSE false END,
+    NEW.email_confirmed_at IS NOT NULL,
+    matched_rule.department
+  )
+  ON CONFLICT (user_id) DO UPDATE SET
+    email_verified = EXCLUDED.email_verified,
+    last_sign_in = now();
+
+  IF matched_rule.id IS NOT NULL THEN
+    INSERT INTO public.user_roles (user_id, role, custom_role_id)
+    VALUES (NEW.id, matched_rule.role, matched_rule.custom_role_id);
+
+    provisioning := jsonb_build_object(
+      'status', 'matched',
+      'rule_id', matched_rule.id,
+      'domain', matched_rule.domain,
+      'provider', matched_rule.provider,
+      'role', matched_rule.role,
+      'custom_role_id', matched_rule.custom_role_id,
+      'department', matched_rule.department
+    );
+  ELSIF is_sso THEN
+    -- Held: no role until an admin reviews and activates the account
+    provisioning := jsonb_build_object('status', 'held', 'domain', email_domain);
+
+    INSERT INTO public.notifications (user_id, type, title, message)
+    SELECT DISTINCT ur.user_id, 'sso_signup_held', 'Sign-up awaiting approval',
+      NEW.email || ' signed up via ' || signup_provider || ' and matched no provisioning rule'
+    FROM public.user_roles ur
+    WHERE ur.role IN ('super_admin', 'admin');
+  ELSE
+    -- Assign default employee role if no role exists
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (NEW.id, 'employee')
+    ON CONFLICT (user_id, role) DO NOTHING;
+  END IF;
+
+  -- Log signup activity for SSO
+  IF signup_provider != 'manual' THEN
+    INSERT INTO public.activity_logs (
+      user_id,
+      performed_by,
+      action_type,
+      description,
+      metadata
+    ) VALUES (
+      NEW.id,
+      NEW.id,
+      'signup',
+      'User signed up via ' || signup_provider,
+      jsonb_build_object('method', signup_provider, 'email', NEW.email)
+        || CASE WHEN provisioning IS NULL THEN '{}'::jsonb ELSE jsonb_build_object('provisioning', provisioning) END
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+ALTER TYPE public.action_type ADD VALUE IF NOT EXISTS 'sso_connection_updated';
@@ -0,0 +1,101 @@
+-- Connected accounts: one user can sign in through several identities (email, Google, Microsoft, GitHub).
+-- signup_method keeps recording how the account was created; linked_providers tracks every current identity.
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS linked_providers TEXT[] NOT NULL DEFAULT '{}';
+
+UPDATE public.profiles p
+SET linked_providers = ids.providers,
+    is_sso = ids.providers && ARRAY['google', 'azure', 'github']
+FROM (
+  SELECT user_id, array_agg(DISTINCT provider ORDER BY provider) AS providers
+  FROM auth.identities
+  GROUP BY user_id
+) ids
+WHERE ids.user_id = p.user_id;
+
+CREATE OR REPLACE FUNCTION public.sync_linked_providers(_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _providers TEXT[];
+BEGIN
+  SELECT COALESCE(array_agg(DISTINCT provider ORDER BY provider), '{}') INTO _providers
+  FROM auth.identities
+  WHERE user_id = _user_id;
+
+  UPDATE public.profiles
+  SET linked_providers = _providers,
+      is_sso = _providers && ARRAY['google', 'azure', 'github']
+  WHERE user_id = _user_id;
+END;
+$$;
+
+-- Linking and unlinking happen inside Supabase Auth, so they are audited where the identity row changes
+CREATE OR REPLACE FUNCTION public.audit_identity_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.sync_linked_providers(NEW.user_id);
+
+    -- The first identity is the sign-up itself, not a link
+    IF EXISTS (SELECT 1 FROM auth.identities WHERE user_id = NEW.user_id AND id <> NEW.id) THEN
+      INSERT INTO public.activity_logs (user_id, performed_by, action_type, description, metadata, module, status)
+      VALUES (
+        NEW.user_id,
+        NEW.user_id,
+        'identity_linked',
+        'Linked ' || NEW.provider || ' sign-in to the account',
+        jsonb_build_object('provider', NEW.provider, 'identity_id', NEW.id, 'email', NEW.identity_data->>'email'),
+        'auth',
+        'success'
+      );
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  -- Identities removed together with their user are not unlinks
+  IF NOT EXISTS (SELECT 1 FROM auth.users WHERE id = OLD.user_id) THEN
+    RETURN OLD;
+  END IF;
+
+  PERFORM public.sync_linked_providers(OLD.user_id);
+
+  INSERT INTO public.activity_logs (user_id, performed_by, action_type, description, metadata, module, status)
+  VALUES (
+    OLD.user_id,
+    COALESCE(auth.uid(), OLD.user_id),
+    'identity_unlinked',
+    'Unlinked ' || OLD.provider || ' sign-in from the account',
+    jsonb_build_object('provider', OLD.provider, 'identity_id', OLD.id, 'email', OLD.identity_data->>'email'),
+    'auth',
+    'success'
+  );
+
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_identity_linked ON auth.identities;
+
+CREATE TRIGGER on_identity_linked
+  AFTER INSERT ON auth.identities
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_identity_change();
+
+DROP TRIGGER IF EXISTS on_identity_unlinked ON auth.identities;
+
+CREATE TRIGGER on_identity_unlinked
+  AFTER DELETE ON auth.identities
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_identity_change();
+
+ALTER TYPE public.action_type ADD VALUE IF NOT EXISTS 'identity_linked';
+ALTER TYPE public.action_type ADD VALUE IF NOT EXISTS 'identity_unlinked';
@@ -0,0 +1,11 @@
+-- Secondary address the forgot-email flow sends the account's sign-in email to;
+-- the anonymous caller only ever sees a masked hint
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS recovery_email TEXT;
+
+ALTER TABLE public.profiles
+  DROP CONSTRAINT IF EXISTS profiles_recovery_email_check;
+
+ALTER TABLE public.profiles
+  ADD CONSTRAINT profiles_recovery_email_check
+  CHECK (recovery_email IS NULL OR (recovery_email ~* '^[^@\s]+@[^@\s]+\.[^@\s]+$' AND lower(recovery_email) <> lower(email)));
@@ -0,0 +1,83 @@
+-- SMS as a second OTP channel. A contact number can only receive codes once its owner has proven it.
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS phone_verified_at TIMESTAMP WITH TIME ZONE;
+
+-- Only the phone-verification edge function (service role) may mark a number verified, and
+-- editing the number from any screen drops its verification
+CREATE OR REPLACE FUNCTION public.guard_phone_verification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    NEW.phone_verified_at := OLD.phone_verified_at;
+  END IF;
+
+  IF NEW.contact_number IS DISTINCT FROM OLD.contact_number
+     AND NEW.phone_verified_at IS NOT DISTINCT FROM OLD.phone_verified_at THEN
+    NEW.phone_verified_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_phone_verification_changed ON public.profiles;
+
+CREATE TRIGGER on_phone_verification_changed
+  BEFORE UPDATE OF contact_number, phone_verified_at ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_phone_verification();
+
+-- Records which channel delivered each code
+ALTER TABLE public.otp_verifications
+  ADD COLUMN IF NOT EXISTS channel TEXT NOT NULL DEFAULT 'email'
+  CHECK (channel IN ('email', 'sms'));
+
+-- Pending codes proving ownership of a profile's contact number, one per user
+CREATE TABLE IF NOT EXISTS public.phone_verifications (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  phone TEXT NOT NULL,
+  otp_hash TEXT NOT NULL,
+  otp_salt TEXT NOT NULL,
+  attempts INT NOT NULL DEFAULT 0,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.phone_verifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage phone verifications"
+ON public.phone_verifications
+FOR ALL
+USING (auth.role() = 'service_role');
+
+-- Messages captured by the dev SMS transport (SMS_TRANSPORT=dev) instead of being delivered
+CREATE TABLE IF NOT EXISTS public.sms_outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  to_number TEXT NOT NULL,
+  body TEXT NOT NULL,
+  category TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.sms_outbox ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view sms outbox"
+ON public.sms_outbox
+FOR SELECT
+USING (public.is_admin(auth.uid()));
+
+CREATE POLICY "Admins can clear sms outbox"
+ON public.sms_outbox
+FOR DELETE
+USING (public.is_admin(auth.uid()));
+
+CREATE POLICY "Service role can manage sms outbox"
+ON public.sms_outbox
+FOR ALL
+USING (auth.role() = 'service_role');
+
+CREATE INDEX IF NOT EXISTS idx_sms_outbox_created_at ON public.sms_outbox(created_at DESC);
+
+ALTER TYPE public.action_type ADD VALUE IF NOT EXISTS 'phone_verified';
@@ -0,0 +1,86 @@
+-- Step-up ("sudo mode"): a session that re-proved its identity may perform sensitive actions
+-- for a few minutes. Grants are keyed by the auth session, so another device stays locked.
+CREATE TABLE IF NOT EXISTS public.step_up_grants (
+  session_id UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  method TEXT NOT NULL CHECK (method IN ('password', 'email_code', 'passkey')),
+  verified_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+ALTER TABLE public.step_up_grants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage step-up grants"
+ON public.step_up_grants
+FOR ALL
+USING (auth.role() = 'service_role');
+
+CREATE INDEX IF NOT EXISTS idx_step_up_grants_user_id ON public.step_up_grants(user_id);
+
+-- Pending emailed re-authentication codes, one per user
+CREATE TABLE IF NOT EXISTS public.step_up_codes (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  otp_hash TEXT NOT NULL,
+  otp_salt TEXT NOT NULL,
+  attempts INT NOT NULL DEFAULT 0,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.step_up_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage step-up codes"
+ON public.step_up_codes
+FOR ALL
+USING (auth.role() = 'service_role');
+
+-- Whether the caller's session re-authenticated recently: an unexpired step-up grant, or a
+-- sign-in / MFA step (JWT amr entry) within the last 5 minutes, the same window grants get
+CREATE OR REPLACE FUNCTION public.has_recent_step_up()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.step_up_grants g
+    WHERE g.session_id = NULLIF(auth.jwt() ->> 'session_id', '')::uuid
+      AND g.user_id = auth.uid()
+      AND g.expires_at > now()
+  ) OR EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(COALESCE(auth.jwt() -> 'amr', '[]'::jsonb)) AS amr
+    WHERE to_timestamp((amr ->> 'timestamp')::double precision) > now() - interval '5 minutes'
+  )
+$$;
+
+GRANT EXECUTE ON FUNCTION public.has_recent_step_up() TO authenticated;
+
+-- super_admin permissions are edited straight from the client; the database insists on step-up
+CREATE OR REPLACE FUNCTION public.guard_super_admin_permissions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() = 'authenticated'
+     AND (CASE WHEN TG_OP = 'DELETE' THEN OLD.role ELSE NEW.role END) = 'super_admin'
+     AND NOT public.has_recent_step_up() THEN
+    RAISE EXCEPTION 'Re-authentication required'
+      USING ERRCODE = '42501', HINT = 'step_up_required';
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_super_admin_permissions_changed ON public.role_permissions;
+
+CREATE TRIGGER on_super_admin_permissions_changed
+  BEFORE INSERT OR UPDATE OR DELETE ON public.role_permissions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_super_admin_permissions();
+
+ALTER TYPE public.action_type ADD VALUE IF NOT EXISTS 'step_up_verified';
@@ -0,0 +1,92 @@
+-- Session lifetime policy. idle_timeout_minutes signs out inactive sessions after a warning of
+-- warning_seconds; max_session_hours caps a session's age however active it is. 0 turns a
+-- limit off. role_overrides maps a system role to its own idle_timeout_minutes / max_session_hours.
+INSERT INTO public.system_settings (key, value)
+VALUES (
+  'session_policy',
+  '{"idle_timeout_minutes": 0, "warning_seconds": 60, "max_session_hours": 0, "role_overrides": {}}'::jsonb
+)
+ON CONFLICT (key) DO NOTHING;
+
+-- Effective limits for a user. Each role uses its override or the organization default, and
+-- a user holding several roles gets the strictest non-zero limit among them.
+CREATE OR REPLACE FUNCTION public.session_policy_for_user(_user_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH policy AS (
+    SELECT COALESCE(
+      (SELECT value FROM public.system_settings WHERE key = 'session_policy'),
+      '{}'::jsonb
+    ) AS value
+  ),
+  per_role AS (
+    SELECT
+      COALESCE(
+        (p.value->'role_overrides'->(ur.role::text)->>'idle_timeout_minutes')::int,
+        (p.value->>'idle_timeout_minutes')::int,
+        0
+      ) AS idle_timeout_minutes,
+      COALESCE(
+        (p.value->'role_overrides'->(ur.role::text)->>'max_session_hours')::int,
+        (p.value->>'max_session_hours')::int,
+        0
+      ) AS max_session_hours
+    FROM policy p
+    LEFT JOIN public.user_roles ur ON ur.user_id = _user_id AND ur.role IS NOT NULL
+  )
+  SELECT jsonb_build_object(
+    'idle_timeout_minutes', COALESCE(MIN(idle_timeout_minutes) FILTER (WHERE idle_timeout_minutes > 0), 0),
+    'max_session_hours', COALESCE(MIN(max_session_hours) FILTER (WHERE max_session_hours > 0), 0),
+    'warning_seconds', COALESCE((SELECT (value->>'warning_seconds')::int FROM policy), 60)
+  )
+  FROM per_role
+$$;
+
+-- When the caller's auth session began, so the client can schedule the max-age sign-out
+CREATE OR REPLACE FUNCTION public.current_session_started_at()
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT s.created_at
+  FROM auth.sessions s
+  WHERE s.id = NULLIF(auth.jwt() ->> 'session_id', '')::uuid
+    AND s.user_id = auth.uid()
+$$;
+
+GRANT EXECUTE ON FUNCTION public.current_session_started_at() TO authenticated;
+
+-- The max age is also enforced by GoTrue itself: a session past not_after can no longer refresh
+CREATE OR REPLACE FUNCTION public.apply_session_max_age()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _max_hours INTEGER;
+BEGIN
+  _max_hours := (public.session_policy_for_user(NEW.user_id)->>'max_session_hours')::int;
+
+  IF _max_hours > 0 THEN
+    NEW.not_after := LEAST(
+      COALESCE(NEW.not_after, 'infinity'::timestamptz),
+      COALESCE(NEW.created_at, now()) + make_interval(hours => _max_hours)
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_session_created ON auth.sessions;
+
+CREATE TRIGGER on_auth_session_created
+  BEFORE INSERT ON auth.sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_session_max_age();
@@ -0,0 +1,90 @@
+-- Suspension (profiles.is_active = false) is enforced by GoTrue, RLS and edge functions,
+-- not only by the screens that happen to check the profile
+
+-- Whether the user may use the app. SECURITY DEFINER so RLS policies on profiles can call it.
+CREATE OR REPLACE FUNCTION public.is_user_active(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT is_active FROM public.profiles WHERE user_id = _user_id),
+    true
+  )
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_user_active(UUID) TO authenticated;
+
+-- Suspending also bans the auth user, so GoTrue refuses every sign-in method (password,
+-- OAuth, SAML, magic link) and every refresh of a token issued before the suspension
+CREATE OR REPLACE FUNCTION public.revoke_sessions_on_suspend()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE auth.users SET banned_until = 'infinity' WHERE id = NEW.user_id;
+  DELETE FROM auth.sessions WHERE user_id = NEW.user_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.lift_ban_on_reactivate()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE auth.users SET banned_until = NULL WHERE id = NEW.user_id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_profile_reactivated ON public.profiles;
+
+CREATE TRIGGER on_profile_reactivated
+  AFTER UPDATE OF is_active ON public.profiles
+  FOR EACH ROW
+  WHEN (OLD.is_active IS DISTINCT FROM NEW.is_active AND NEW.is_active IS NOT false)
+  EXECUTE FUNCTION public.lift_ban_on_reactivate();
+
+-- Accounts suspended before this migration
+UPDATE auth.users u
+SET banned_until = 'infinity'
+FROM public.profiles p
+WHERE p.user_id = u.id
+  AND p.is_active = false;
+
+-- An access token outlives the deleted session until it expires, so every table also refuses
+-- suspended callers. Restrictive policies are ANDed with the existing permissive ones.
+-- Tables added later need the same policy.
+DO $$
+DECLARE
+  _table RECORD;
+BEGIN
+  FOR _table IN
+    SELECT tablename FROM pg_tables WHERE schemaname = 'public' AND rowsecurity
+  LOOP
+    EXECUTE format('DROP POLICY IF EXISTS "Suspended users have no access" ON public.%I', _table.tablename);
+    EXECUTE format(
+      'CREATE POLICY "Suspended users have no access" ON public.%I AS RESTRICTIVE FOR ALL TO authenticated '
+      'USING (public.is_user_active(auth.uid())) WITH CHECK (public.is_user_active(auth.uid()))',
+      _table.tablename
+    );
+  END LOOP;
+END;
+$$;
+
+DROP POLICY IF EXISTS "Suspended users have no access" ON storage.objects;
+
+CREATE POLICY "Suspended users have no access"
+ON storage.objects
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING (public.is_user_active(auth.uid()))
+WITH CHECK (public.is_user_active(auth.uid()));
@@ -0,0 +1,285 @@
+-- "View as user": a super admin borrows a real, time-limited session of another user so support
+-- sees exactly what they see. Each such auth session is registered here by the impersonation
+-- edge function, which is how the database recognises (and audits) impersonated requests.
+CREATE TABLE IF NOT EXISTS public.impersonation_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  admin_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  target_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  session_id UUID NOT NULL UNIQUE,
+  reason TEXT NOT NULL,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ended_at TIMESTAMP WITH TIME ZONE,
+  end_reason TEXT
+);
+
+ALTER TABLE public.impersonation_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Super admins can view impersonation sessions"
+ON public.impersonation_sessions
+FOR SELECT
+USING (public.has_role(auth.uid(), 'super_admin'));
+
+CREATE POLICY "Service role can manage impersonation sessions"
+ON public.impersonation_sessions
+FOR ALL
+USING (auth.role() = 'service_role');
+
+CREATE POLICY "Suspended users have no access"
+ON public.impersonation_sessions
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING (public.is_user_active(auth.uid()))
+WITH CHECK (public.is_user_active(auth.uid()));
+
+CREATE INDEX IF NOT EXISTS idx_impersonation_sessions_target ON public.impersonation_sessions(target_user_id);
+
+-- Whether the caller's session is an impersonation, in any state
+CREATE OR REPLACE FUNCTION public.is_impersonating()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.impersonation_sessions
+    WHERE session_id = NULLIF(auth.jwt() ->> 'session_id', '')::uuid
+  )
+$$;
+
+-- An ended or expired impersonation's access token can outlive its auth session by up to an hour
+CREATE OR REPLACE FUNCTION public.impersonation_ended()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.impersonation_sessions
+    WHERE session_id = NULLIF(auth.jwt() ->> 'session_id', '')::uuid
+      AND (ended_at IS NOT NULL OR expires_at <= now())
+  )
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_impersonating() TO authenticated;
+
+-- Registers the session minted for an impersonation and caps its lifetime in GoTrue
+CREATE OR REPLACE FUNCTION public.start_impersonation(
+  _admin_id UUID,
+  _target_user_id UUID,
+  _session_id UUID,
+  _reason TEXT,
+  _expires_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _id UUID;
+BEGIN
+  INSERT INTO public.impersonation_sessions (admin_id, target_user_id, session_id, reason, expires_at)
+  VALUES (_admin_id, _target_user_id, _session_id, _reason, _expires_at)
+  RETURNING id INTO _id;
+
+  UPDATE auth.sessions
+  SET not_after = LEAST(COALESCE(not_after, _expires_at), _expires_at)
+  WHERE id = _session_id;
+
+  RETURN _id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.end_impersonation(_session_id UUID, _end_reason TEXT)
+RETURNS SETOF public.impersonation_sessions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM auth.sessions WHERE id = _session_id;
+
+  RETURN QUERY
+  UPDATE public.impersonation_sessions
+  SET ended_at = now(), end_reason = _end_reason
+  WHERE session_id = _session_id
+    AND ended_at IS NULL
+  RETURNING *;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.start_impersonation(UUID, UUID, UUID, TEXT, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.end_impersonation(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Session revocation RPCs delete from auth.sessions directly, outside RLS. GoTrue's own
+-- deletes and the service role carry no authenticated claims and pass through.
+CREATE OR REPLACE FUNCTION public.guard_impersonated_session_delete()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() = 'authenticated' AND public.is_impersonating() THEN
+    RAISE EXCEPTION 'Not available while viewing as another user'
+      USING ERRCODE = '42501', HINT = 'impersonating';
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_impersonated_session_delete ON auth.sessions;
+
+CREATE TRIGGER guard_impersonated_session_delete
+  BEFORE DELETE ON auth.sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_impersonated_session_delete();
+
+-- Rows the app itself logs while impersonating carry both identities
+CREATE OR REPLACE FUNCTION public.stamp_impersonated_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _imp public.impersonation_sessions%ROWTYPE;
+BEGIN
+  SELECT * INTO _imp
+  FROM public.impersonation_sessions
+  WHERE session_id = NULLIF(auth.jwt() ->> 'session_id', '')::uuid;
+
+  IF FOUND THEN
+    NEW.metadata := COALESCE(NEW.metadata, '{}'::jsonb) || jsonb_build_object(
+      'impersonation_id', _imp.id,
+      'real_user_id', _imp.admin_id,
+      'impersonated_user_id', _imp.target_user_id
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_activity_logged_while_impersonating ON public.activity_logs;
+
+CREATE TRIGGER on_activity_logged_while_impersonating
+  BEFORE INSERT ON public.activity_logs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.stamp_impersonated_activity();
+
+-- Every other write made through an impersonated session gets its own audit row
+CREATE OR REPLACE FUNCTION public.log_impersonated_write()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _imp public.impersonation_sessions%ROWTYPE;
+  _row JSONB;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'authenticated' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO _imp
+  FROM public.impersonation_sessions
+  WHERE session_id = NULLIF(auth.jwt() ->> 'session_id', '')::uuid;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    _row := to_jsonb(OLD);
+  ELSE
+    _row := to_jsonb(NEW);
+  END IF;
+
+  INSERT INTO public.activity_logs (user_id, performed_by, action_type, description, metadata, module, status)
+  VALUES (
+    _imp.target_user_id,
+    _imp.admin_id,
+    'impersonated_write',
+    format('%s on %s while impersonating', TG_OP, TG_TABLE_NAME),
+    jsonb_build_object(
+      'table', TG_TABLE_NAME,
+      'operation', TG_OP,
+      'record_id', COALESCE(_row ->> 'id', _row ->> 'user_id', _row ->> 'key')
+    ),
+    'impersonation',
+    'success'
+  );
+  RETURN NULL;
+END;
+$$;
+
+-- Impersonation may look and edit but never delete; an ended one may do nothing at all.
+-- Tables added later need the same trigger and policies.
+DO $$
+DECLARE
+  _table RECORD;
+BEGIN
+  FOR _table IN
+    SELECT tablename
+    FROM pg_tables
+    WHERE schemaname = 'public'
+      AND rowsecurity
+      AND tablename NOT IN ('activity_logs', 'impersonation_sessions')
+  LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS audit_impersonated_write ON public.%I', _table.tablename);
+    EXECUTE format(
+      'CREATE TRIGGER audit_impersonated_write AFTER INSERT OR UPDATE OR DELETE ON public.%I '
+      'FOR EACH ROW EXECUTE FUNCTION public.log_impersonated_write()',
+      _table.tablename
+    );
+  END LOOP;
+
+  FOR _table IN
+    SELECT tablename FROM pg_tables WHERE schemaname = 'public' AND rowsecurity
+  LOOP
+    EXECUTE format('DROP POLICY IF EXISTS "No deletes while impersonating" ON public.%I', _table.tablename);
+    EXECUTE format(
+      'CREATE POLICY "No deletes while impersonating" ON public.%I AS RESTRICTIVE FOR DELETE TO authenticated '
+      'USING (NOT public.is_impersonating())',
+      _table.tablename
+    );
+
+    EXECUTE format('DROP POLICY IF EXISTS "Ended impersonation has no access" ON public.%I', _table.tablename);
+    EXECUTE format(
+      'CREATE POLICY "Ended impersonation has no access" ON public.%I AS RESTRICTIVE FOR ALL TO authenticated '
+      'USING (NOT public.impersonation_ended()) WITH CHECK (NOT public.impersonation_ended())',
+      _table.tablename
+    );
+  END LOOP;
+END;
+$$;
+
+DROP POLICY IF EXISTS "No deletes while impersonating" ON storage.objects;
+
+CREATE POLICY "No deletes while impersonating"
+ON storage.objects
+AS RESTRICTIVE
+FOR DELETE
+TO authenticated
+USING (NOT public.is_impersonating());
+
+DROP POLICY IF EXISTS "Ended impersonation has no access" ON storage.objects;
+
+CREATE POLICY "Ended impersonation has no access"
+ON storage.objects
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING (NOT public.impersonation_ended())
+WITH CHECK (NOT public.impersonation_ended());
+
+ALTER TYPE public.action_type ADD VALUE IF NOT EXISTS 'impersonation_started';
+ALTER TYPE public.action_type ADD VALUE IF NOT EXISTS 'impersonation_ended';
+ALTER TYPE public.action_type ADD VALUE IF NOT EXISTS 'impersonated_write';
@@ -0,0 +1,24 @@
+-- Anti-enumeration mode: the sign-in, sign-up and password reset flows answer the same whether
+-- or not an account exists, and the anonymous auth endpoints ask for a proof of work.
+-- Off until an admin turns it on; difficulty is in leading zero bits of SHA-256.
+INSERT INTO public.system_settings (key, value)
+VALUES ('enumeration_protection', '{"enabled": false, "pow_difficulty": 16}'::jsonb)
+ON CONFLICT (key) DO NOTHING;
+
+-- Auth options the sign-in page needs before anyone is signed in
+CREATE OR REPLACE FUNCTION public.get_auth_settings()
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'passwordless_enabled',
+    COALESCE((SELECT (value->>'enabled')::boolean FROM public.system_settings WHERE key = 'passwordless'), false),
+    'enumeration_protection',
+    COALESCE((SELECT (value->>'enabled')::boolean FROM public.system_settings WHERE key = 'enumeration_protection'), false)
+  )
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_auth_settings() TO anon, authenticated;
@@ -0,0 +1,97 @@
+-- Browsers and IP addresses each account has signed in from. A sign-in from a browser or an
+-- address not listed here alerts the user; rows are written by the sign-in edge functions only.
+CREATE TABLE IF NOT EXISTS public.known_devices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  device TEXT NOT NULL,
+  ip_address TEXT NOT NULL,
+  first_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, device, ip_address)
+);
+
+ALTER TABLE public.known_devices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own known devices"
+ON public.known_devices
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage known devices"
+ON public.known_devices
+FOR ALL
+USING (auth.role() = 'service_role');
+
+-- "This wasn't me" links sent with new-device alerts. Only the hash of the token is kept.
+CREATE TABLE IF NOT EXISTS public.sign_in_alerts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  device TEXT NOT NULL,
+  ip_address TEXT NOT NULL,
+  location TEXT,
+  token_hash TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT (now() + INTERVAL '7 days'),
+  used_at TIMESTAMP WITH TIME ZONE
+);
+
+ALTER TABLE public.sign_in_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage sign-in alerts"
+ON public.sign_in_alerts
+FOR ALL
+USING (auth.role() = 'service_role');
+
+CREATE INDEX IF NOT EXISTS idx_sign_in_alerts_user ON public.sign_in_alerts(user_id);
+
+-- Same guards every other public table has
+DO $$
+DECLARE
+  _table TEXT;
+BEGIN
+  FOREACH _table IN ARRAY ARRAY['known_devices', 'sign_in_alerts']
+  LOOP
+    EXECUTE format(
+      'CREATE POLICY "Suspended users have no access" ON public.%I AS RESTRICTIVE FOR ALL TO authenticated '
+      'USING (public.is_user_active(auth.uid())) WITH CHECK (public.is_user_active(auth.uid()))',
+      _table
+    );
+    EXECUTE format(
+      'CREATE POLICY "No deletes while impersonating" ON public.%I AS RESTRICTIVE FOR DELETE TO authenticated '
+      'USING (NOT public.is_impersonating())',
+      _table
+    );
+    EXECUTE format(
+      'CREATE POLICY "Ended impersonation has no access" ON public.%I AS RESTRICTIVE FOR ALL TO authenticated '
+      'USING (NOT public.impersonation_ended()) WITH CHECK (NOT public.impersonation_ended())',
+      _table
+    );
+    EXECUTE format(
+      'CREATE TRIGGER audit_impersonated_write AFTER INSERT OR UPDATE OR DELETE ON public.%I '
+      'FOR EACH ROW EXECUTE FUNCTION public.log_impersonated_write()',
+      _table
+    );
+  END LOOP;
+END;
+$$;
+
+-- Signs a user out everywhere on behalf of the "this wasn't me" link, where nobody is signed in
+CREATE OR REPLACE FUNCTION public.end_all_sessions(_user_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _count INTEGER;
+BEGIN
+  DELETE FROM auth.sessions WHERE user_id = _user_id;
+  GET DIAGNOSTICS _count = ROW_COUNT;
+  RETURN _count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.end_all_sessions(UUID) FROM PUBLIC, anon, authenticated;
+
+ALTER TYPE public.action_type ADD VALUE IF NOT EXISTS 'new_device_sign_in';
+ALTER TYPE public.action_type ADD VALUE IF NOT EXISTS 'account_secured';
@@ -0,0 +1,9 @@
+-- Per-role IP allowlists for administrative access: { "<role>": ["10.0.0.0/8", "2001:db8::/32"] }.
+-- System roles are keyed by name and custom roles as "custom_<id>"; a role without a list (or
+-- with an empty one) may be used from anywhere. Outside its list a role is dropped for the
+-- request, so the admin routes and admin edge functions refuse the user.
+INSERT INTO public.system_settings (key, value)
+VALUES ('ip_allowlists', '{}'::jsonb)
+ON CONFLICT (key) DO NOTHING;
+
+ALTER TYPE public.action_type ADD VALUE IF NOT EXISTS 'ip_access_denied';
@@ -0,0 +1,55 @@
+-- Every email change is kept here. Until revert_expires_at the old address can undo it with the
+-- link it was sent (only the token's hash is stored); meanwhile no further change is accepted.
+CREATE TABLE IF NOT EXISTS public.email_change_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  old_email TEXT NOT NULL,
+  new_email TEXT NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  revert_expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  reverted_at TIMESTAMP WITH TIME ZONE
+);
+
+ALTER TABLE public.email_change_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own email changes"
+ON public.email_change_requests
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage email changes"
+ON public.email_change_requests
+FOR ALL
+USING (auth.role() = 'service_role');
+
+CREATE POLICY "Suspended users have no access"
+ON public.email_change_requests
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING (public.is_user_active(auth.uid()))
+WITH CHECK (public.is_user_active(auth.uid()));
+
+CREATE POLICY "No deletes while impersonating"
+ON public.email_change_requests
+AS RESTRICTIVE
+FOR DELETE
+TO authenticated
+USING (NOT public.is_impersonating());
+
+CREATE POLICY "Ended impersonation has no access"
+ON public.email_change_requests
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING (NOT public.impersonation_ended())
+WITH CHECK (NOT public.impersonation_ended());
+
+CREATE TRIGGER audit_impersonated_write
+AFTER INSERT OR UPDATE OR DELETE ON public.email_change_requests
+FOR EACH ROW EXECUTE FUNCTION public.log_impersonated_write();
+
+CREATE INDEX IF NOT EXISTS idx_email_change_requests_user ON public.email_change_requests(user_id, created_at DESC);
+
+ALTER TYPE public.action_type ADD VALUE IF NOT EXISTS 'email_change_reverted';
@@ -0,0 +1,335 @@
+-- Scheduled background jobs. pg_cron fires run_scheduled_job() for each job in the registry;
+-- every run is recorded in job_runs with its outcome, so admins can see failures, run a job by
+-- hand and pause it from the Scheduled Jobs page.
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+
+CREATE TABLE IF NOT EXISTS public.scheduled_jobs (
+  name TEXT PRIMARY KEY,
+  description TEXT NOT NULL,
+  -- Standard five-field cron expression, in UTC
+  schedule TEXT NOT NULL,
+  -- A public function taking no arguments and returning how many rows it handled
+  function_name TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_by UUID
+);
+
+CREATE TABLE IF NOT EXISTS public.job_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_name TEXT NOT NULL REFERENCES public.scheduled_jobs(name) ON DELETE CASCADE,
+  trigger TEXT NOT NULL CHECK (trigger IN ('schedule', 'manual')),
+  triggered_by UUID,
+  status TEXT NOT NULL CHECK (status IN ('running', 'succeeded', 'failed')),
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT clock_timestamp(),
+  finished_at TIMESTAMP WITH TIME ZONE,
+  duration_ms INTEGER,
+  rows_affected INTEGER,
+  error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_runs_job ON public.job_runs(job_name, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_job_runs_failed ON public.job_runs(started_at DESC) WHERE status = 'failed';
+
+ALTER TABLE public.scheduled_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.job_runs ENABLE ROW LEVEL SECURITY;
+
+-- Changes go through the functions below only: function_name runs with definer rights
+CREATE POLICY "Admins can view scheduled jobs"
+ON public.scheduled_jobs
+FOR SELECT
+USING (public.is_admin(auth.uid()));
+
+CREATE POLICY "Service role can manage scheduled jobs"
+ON public.scheduled_jobs
+FOR ALL
+USING (auth.role() = 'service_role');
+
+CREATE POLICY "Admins can view job runs"
+ON public.job_runs
+FOR SELECT
+USING (public.is_admin(auth.uid()));
+
+CREATE POLICY "Service role can manage job runs"
+ON public.job_runs
+FOR ALL
+USING (auth.role() = 'service_role');
+
+-- Same guards every other public table has
+DO $$
+DECLARE
+  _table TEXT;
+BEGIN
+  FOREACH _table IN ARRAY ARRAY['scheduled_jobs', 'job_runs']
+  LOOP
+    EXECUTE format(
+      'CREATE POLICY "Suspended users have no access" ON public.%I AS RESTRICTIVE FOR ALL TO authenticated '
+      'USING (public.is_user_active(auth.uid())) WITH CHECK (public.is_user_active(auth.uid()))',
+      _table
+    );
+    EXECUTE format(
+      'CREATE POLICY "No deletes while impersonating" ON public.%I AS RESTRICTIVE FOR DELETE TO authenticated '
+      'USING (NOT public.is_impersonating())',
+      _table
+    );
+    EXECUTE format(
+      'CREATE POLICY "Ended impersonation has no access" ON public.%I AS RESTRICTIVE FOR ALL TO authenticated '
+      'USING (NOT public.impersonation_ended()) WITH CHECK (NOT public.impersonation_ended())',
+      _table
+    );
+    EXECUTE format(
+      'CREATE TRIGGER audit_impersonated_write AFTER INSERT OR UPDATE OR DELETE ON public.%I '
+      'FOR EACH ROW EXECUTE FUNCTION public.log_impersonated_write()',
+      _table
+    );
+  END LOOP;
+END;
+$$;
+
+-- Runs one job and records the outcome. A failure is caught and stored, so the run row survives
+-- it and one broken job never stops the others. Paused jobs are skipped unless run by hand.
+CREATE OR REPLACE FUNCTION public.run_scheduled_job(
+  _job_name TEXT,
+  _trigger TEXT DEFAULT 'schedule',
+  _triggered_by UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _job public.scheduled_jobs;
+  _run_id UUID;
+  _started TIMESTAMP WITH TIME ZONE;
+  _rows INTEGER;
+BEGIN
+  SELECT * INTO _job FROM public.scheduled_jobs WHERE name = _job_name;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown job %', _job_name;
+  END IF;
+
+  IF NOT _job.enabled AND _trigger = 'schedule' THEN
+    RETURN NULL;
+  END IF;
+
+  _started := clock_timestamp();
+  INSERT INTO public.job_runs (job_name, trigger, triggered_by, status, started_at)
+  VALUES (_job_name, _trigger, _triggered_by, 'running', _started)
+  RETURNING id INTO _run_id;
+
+  BEGIN
+    EXECUTE format('SELECT public.%I()', _job.function_name) INTO _rows;
+
+    UPDATE public.job_runs
+    SET status = 'succeeded',
+        finished_at = clock_timestamp(),
+        duration_ms = (EXTRACT(EPOCH FROM clock_timestamp() - _started) * 1000)::INTEGER,
+        rows_affected = _rows
+    WHERE id = _run_id;
+  EXCEPTION WHEN OTHERS THEN
+    UPDATE public.job_runs
+    SET status = 'failed',
+        finished_at = clock_timestamp(),
+        duration_ms = (EXTRACT(EPOCH FROM clock_timestamp() - _started) * 1000)::INTEGER,
+        error = SQLERRM
+    WHERE id = _run_id;
+  END;
+
+  -- A month of history per job is plenty to spot a pattern of failures
+  DELETE FROM public.job_runs
+  WHERE job_name = _job_name
+    AND started_at < now() - interval '30 days';
+
+  RETURN _run_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.run_scheduled_job(TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Adds or updates a job in the registry and (re)schedules it with pg_cron under "job:<name>"
+CREATE OR REPLACE FUNCTION public.register_scheduled_job(
+  _name TEXT,
+  _description TEXT,
+  _schedule TEXT,
+  _function_name TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.scheduled_jobs (name, description, schedule, function_name)
+  VALUES (_name, _description, _schedule, _function_name)
+  ON CONFLICT (name) DO UPDATE
+  SET description = EXCLUDED.description,
+      schedule = EXCLUDED.schedule,
+      function_name = EXCLUDED.function_name,
+      updated_at = now();
+
+  PERFORM cron.schedule(
+    'job:' || _name,
+    _schedule,
+    format('SELECT public.run_scheduled_job(%L)', _name)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.register_scheduled_job(TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- "Run now" on the admin page
+CREATE OR REPLACE FUNCTION public.trigger_scheduled_job(_job_name TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _run_id UUID;
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Forbidden';
+  END IF;
+
+  _run_id := public.run_scheduled_job(_job_name, 'manual', auth.uid());
+
+  INSERT INTO public.activity_logs (user_id, performed_by, action_type, description, metadata, module, status)
+  SELECT
+    auth.uid(),
+    auth.uid(),
+    'job_triggered',
+    format('Ran scheduled job %s by hand', _job_name),
+    jsonb_build_object('job', _job_name, 'run_id', _run_id, 'run_status', r.status),
+    'system',
+    CASE WHEN r.status = 'failed' THEN 'failed' ELSE 'success' END
+  FROM public.job_runs r
+  WHERE r.id = _run_id;
+
+  RETURN _run_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.trigger_scheduled_job(TEXT) TO authenticated;
+
+-- Pause or resume: the cron entry keeps firing, the runner skips paused jobs
+CREATE OR REPLACE FUNCTION public.set_scheduled_job_enabled(_job_name TEXT, _enabled BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Forbidden';
+  END IF;
+
+  UPDATE public.scheduled_jobs
+  SET enabled = _enabled, updated_at = now(), updated_by = auth.uid()
+  WHERE name = _job_name;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown job %', _job_name;
+  END IF;
+
+  INSERT INTO public.activity_logs (user_id, performed_by, action_type, description, metadata, module, status)
+  VALUES (
+    auth.uid(),
+    auth.uid(),
+    CASE WHEN _enabled THEN 'job_resumed'::public.action_type ELSE 'job_paused'::public.action_type END,
+    format('%s scheduled job %s', CASE WHEN _enabled THEN 'Resumed' ELSE 'Paused' END, _job_name),
+    jsonb_build_object('job', _job_name),
+    'system',
+    'success'
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_scheduled_job_enabled(TEXT, BOOLEAN) TO authenticated;
+
+-- Job functions return how many rows they handled, which the run history shows
+DROP FUNCTION IF EXISTS public.clean_expired_otps();
+
+-- Keep verified password-reset codes until their reset window has passed
+CREATE FUNCTION public.clean_expired_otps()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _count INTEGER;
+BEGIN
+  DELETE FROM public.otp_verifications
+  WHERE expires_at < now()
+    AND (verified_at IS NULL OR verified_at < now() - interval '10 minutes');
+  GET DIAGNOSTICS _count = ROW_COUNT;
+  RETURN _count;
+END;
+$$;
+
+-- Invitations nobody accepted in time can never be accepted
+CREATE OR REPLACE FUNCTION public.expire_team_invitations()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _count INTEGER;
+BEGIN
+  DELETE FROM public.team_invitations
+  WHERE accepted_at IS NULL
+    AND expires_at < now();
+  GET DIAGNOSTICS _count = ROW_COUNT;
+  RETURN _count;
+END;
+$$;
+
+-- Read notifications go after 90 days, unread ones after a year
+CREATE OR REPLACE FUNCTION public.clean_old_notifications()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _count INTEGER;
+BEGIN
+  DELETE FROM public.notifications
+  WHERE (read AND created_at < now() - interval '90 days')
+     OR created_at < now() - interval '1 year';
+  GET DIAGNOSTICS _count = ROW_COUNT;
+  RETURN _count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.clean_expired_otps() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.expire_team_invitations() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.clean_old_notifications() FROM PUBLIC, anon, authenticated;
+
+SELECT public.register_scheduled_job(
+  'clean_expired_otps',
+  'Deletes expired one-time codes once their reset window has passed',
+  '*/15 * * * *',
+  'clean_expired_otps'
+);
+
+SELECT public.register_scheduled_job(
+  'expire_team_invitations',
+  'Deletes team invitations that expired without being accepted',
+  '0 * * * *',
+  'expire_team_invitations'
+);
+
+SELECT public.register_scheduled_job(
+  'clean_old_notifications',
+  'Deletes read notifications after 90 days and all notifications after a year',
+  '30 3 * * *',
+  'clean_old_notifications'
+);
+
+ALTER TYPE public.action_type ADD VALUE IF NOT EXISTS 'job_triggered';
+ALTER TYPE public.action_type ADD VALUE IF NOT EXISTS 'job_paused';
+ALTER TYPE public.action_type ADD VALUE IF NOT EXISTS 'job_resumed';
@@ -0,0 +1,34 @@
+-- Undoing an email change undoes whatever else the other party may have set up to get back in:
+-- their session may have added a passkey, an authenticator app, a recovery email or a phone
+-- number. The owner sets these up again after resetting the password.
+CREATE OR REPLACE FUNCTION public.revoke_recovery_factors(_user_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _passkeys INTEGER;
+  _factors INTEGER;
+BEGIN
+  DELETE FROM public.passkeys WHERE user_id = _user_id;
+  GET DIAGNOSTICS _passkeys = ROW_COUNT;
+
+  DELETE FROM auth.mfa_factors WHERE user_id = _user_id;
+  GET DIAGNOSTICS _factors = ROW_COUNT;
+
+  DELETE FROM public.mfa_recovery_codes WHERE user_id = _user_id;
+
+  UPDATE public.profiles
+  SET recovery_email = NULL,
+      phone_verified_at = NULL,
+      updated_at = now()
+  WHERE user_id = _user_id;
+
+  DELETE FROM public.phone_verifications WHERE user_id = _user_id;
+
+  RETURN jsonb_build_object('passkeys', _passkeys, 'mfa_factors', _factors);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.revoke_recovery_factors(UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,113 @@
+-- The IP allowlists hold in the database as well, so calling the API directly does not get
+-- around the admin screens and edge functions. PostgREST passes each request's headers in
+-- request.headers; the client address is the one Cloudflare sets, or else the hop the proxy
+-- appended to X-Forwarded-For, the same rule as the edge functions (_shared/request.ts).
+CREATE OR REPLACE FUNCTION public.role_allowed_from_request(_role_key TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _headers JSONB := NULLIF(current_setting('request.headers', true), '')::jsonb;
+  _cidrs JSONB;
+  _hops TEXT[];
+  _ip INET;
+  _cidr TEXT;
+BEGIN
+  -- Not an API request (scheduled jobs, auth hooks, migrations): there is no client to check
+  IF _headers IS NULL THEN
+    RETURN true;
+  END IF;
+
+  SELECT value->_role_key INTO _cidrs FROM public.system_settings WHERE key = 'ip_allowlists';
+  IF _cidrs IS NULL OR jsonb_typeof(_cidrs) <> 'array' OR jsonb_array_length(_cidrs) = 0 THEN
+    RETURN true;
+  END IF;
+
+  BEGIN
+    IF _headers ? 'cf-connecting-ip' THEN
+      _ip := trim(_headers->>'cf-connecting-ip')::inet;
+    ELSE
+      _hops := string_to_array(_headers->>'x-forwarded-for', ',');
+      _ip := trim(_hops[array_length(_hops, 1)])::inet;
+    END IF;
+  EXCEPTION WHEN invalid_text_representation THEN
+    _ip := NULL;
+  END;
+
+  -- An address we cannot determine is outside every list
+  IF _ip IS NULL THEN
+    RETURN false;
+  END IF;
+
+  FOR _cidr IN SELECT jsonb_array_elements_text(_cidrs)
+  LOOP
+    BEGIN
+      IF _ip <<= trim(_cidr)::inet THEN
+        RETURN true;
+      END IF;
+    EXCEPTION WHEN invalid_text_representation THEN
+      -- A malformed entry never matches
+      NULL;
+    END;
+  END LOOP;
+
+  RETURN false;
+END;
+$$;
+
+-- A role the caller holds does not count for their own request from outside its allowlist, so
+-- every RLS policy and SECURITY DEFINER function built on these checks drops it, as the app does.
+-- Checks about other users (auth.uid() is not _user_id) and service-role calls are unchanged.
+CREATE OR REPLACE FUNCTION public.has_role(_user_id UUID, _role public.app_role)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles
+    WHERE user_id = _user_id
+      AND role = _role
+      AND (_user_id IS DISTINCT FROM auth.uid() OR public.role_allowed_from_request(role::text))
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_admin(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles
+    WHERE user_id = _user_id
+      AND role IN ('super_admin', 'admin')
+      AND (_user_id IS DISTINCT FROM auth.uid() OR public.role_allowed_from_request(role::text))
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_permission(_user_id UUID, _module TEXT, _action TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles ur
+    JOIN public.role_permissions rp ON ur.role = rp.role
+    JOIN public.permissions p ON rp.permission_id = p.id
+    WHERE ur.user_id = _user_id
+      AND p.module = _module
+      AND p.action = _action
+      AND (_user_id IS DISTINCT FROM auth.uid() OR public.role_allowed_from_request(ur.role::text))
+  )
+$$;
@@ -0,0 +1,105 @@
+-- The TOTP challenge is enforced by the database, not only by the sign-in screen. A session that
+-- has not passed it (aal1) only works for users without an authenticator whose role does not
+-- require one; an impersonation session is single-factor by construction and exempt.
+CREATE OR REPLACE FUNCTION public.mfa_satisfied()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT auth.uid() IS NULL
+    OR auth.jwt() ->> 'aal' = 'aal2'
+    OR public.is_impersonating()
+    OR NOT (
+      EXISTS (
+        SELECT 1
+        FROM auth.mfa_factors
+        WHERE user_id = auth.uid()
+          AND status = 'verified'
+      )
+      OR public.mfa_required_for_user(auth.uid())
+    )
+$$;
+
+GRANT EXECUTE ON FUNCTION public.mfa_satisfied() TO authenticated;
+
+-- Same approach as suspension: restrictive policies are ANDed with the permissive ones.
+-- Tables added later need the same policy.
+DO $$
+DECLARE
+  _table RECORD;
+BEGIN
+  FOR _table IN
+    SELECT tablename FROM pg_tables WHERE schemaname = 'public' AND rowsecurity
+  LOOP
+    EXECUTE format('DROP POLICY IF EXISTS "Second factor required" ON public.%I', _table.tablename);
+    EXECUTE format(
+      'CREATE POLICY "Second factor required" ON public.%I AS RESTRICTIVE FOR ALL TO authenticated '
+      'USING (public.mfa_satisfied()) WITH CHECK (public.mfa_satisfied())',
+      _table.tablename
+    );
+  END LOOP;
+END;
+$$;
+
+DROP POLICY IF EXISTS "Second factor required" ON storage.objects;
+
+CREATE POLICY "Second factor required"
+ON storage.objects
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING (public.mfa_satisfied())
+WITH CHECK (public.mfa_satisfied());
+
+-- A sign-in that never finished the TOTP challenge is not a fresh proof of identity, however
+-- recent its password amr entry
+CREATE OR REPLACE FUNCTION public.has_recent_step_up()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.mfa_satisfied() AND (
+    EXISTS (
+      SELECT 1
+      FROM public.step_up_grants g
+      WHERE g.session_id = NULLIF(auth.jwt() ->> 'session_id', '')::uuid
+        AND g.user_id = auth.uid()
+        AND g.expires_at > now()
+    ) OR EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(COALESCE(auth.jwt() -> 'amr', '[]'::jsonb)) AS amr
+      WHERE to_timestamp((amr ->> 'timestamp')::double precision) > now() - interval '5 minutes'
+    )
+  )
+$$;
+
+-- The failed challenge is logged from the aal1 session the policies above shut out
+CREATE OR REPLACE FUNCTION public.log_mfa_challenge_failed(_error TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+
+  INSERT INTO public.activity_logs (user_id, performed_by, action_type, description, metadata, module, status)
+  VALUES (
+    auth.uid(),
+    auth.uid(),
+    'mfa_challenge_failed',
+    'Failed two-factor authentication challenge',
+    jsonb_build_object('error', left(_error, 500)),
+    'auth',
+    'failed'
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.log_mfa_challenge_failed(TEXT) TO authenticated;
@@ -0,0 +1,244 @@
+-- SSO provisioning rules only trust an address the identity provider verified; otherwise anyone
+-- could claim a customer's domain with an unverified OAuth email. GoTrue inserts an OAuth user
+-- and confirms the address in a later update of the same transaction, so such a sign-up waits
+-- at insert and is placed by the rules once email_confirmed_at is set.
+CREATE OR REPLACE FUNCTION public.match_sso_provisioning_rule(_domain TEXT, _provider TEXT)
+RETURNS public.sso_provisioning_rules
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT *
+  FROM public.sso_provisioning_rules r
+  WHERE r.is_active
+    AND r.domain = _domain
+    AND (r.provider IS NULL OR r.provider = _provider)
+  ORDER BY r.priority, (r.provider IS NULL), r.created_at
+  LIMIT 1
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.match_sso_provisioning_rule(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- signup_method records the enterprise connection as 'sso:<connection id>'
+CREATE OR REPLACE FUNCTION public.handle_sso_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  signup_provider TEXT;
+  is_sso BOOLEAN;
+  email_domain TEXT;
+  matched_rule public.sso_provisioning_rules%ROWTYPE;
+  unmatched_action TEXT;
+  provisioning JSONB;
+  connection_id UUID;
+BEGIN
+  -- Determine signup method from app_metadata
+  IF NEW.raw_app_meta_data ? 'sso_connection_id' THEN
+    -- OIDC connection users are created by the sso-login edge function
+    signup_provider := 'sso:' || (NEW.raw_app_meta_data->>'sso_connection_id');
+  ELSIF NEW.raw_app_meta_data ? 'provider' THEN
+    signup_provider := NEW.raw_app_meta_data->>'provider';
+
+    -- Supabase Auth reports SAML users as 'sso:<its provider id>'; translate to our connection
+    IF signup_provider LIKE 'sso:%' THEN
+      SELECT c.id INTO connection_id
+      FROM public.sso_connections c
+      WHERE c.saml_provider_id::text = substring(signup_provider FROM 5);
+
+      IF connection_id IS NOT NULL THEN
+        signup_provider := 'sso:' || connection_id;
+      END IF;
+    END IF;
+  ELSE
+    signup_provider := 'manual';
+  END IF;
+
+  is_sso := signup_provider NOT IN ('manual', 'email', 'phone');
+  email_domain := lower(split_part(NEW.email, '@', 2));
+
+  -- An unverified address waits for handle_sso_email_confirmed
+  IF is_sso AND NEW.email_confirmed_at IS NOT NULL THEN
+    matched_rule := public.match_sso_provisioning_rule(email_domain, signup_provider);
+
+    IF matched_rule.id IS NULL THEN
+      SELECT COALESCE(value->>'unmatched', 'hold') INTO unmatched_action
+      FROM public.system_settings
+      WHERE key = 'sso_provisioning';
+
+      -- Aborting the insert makes the identity provider callback fail; nothing is stored
+      IF COALESCE(unmatched_action, 'hold') = 'reject' THEN
+        RAISE EXCEPTION 'Sign-up via % is not allowed for %', signup_provider, email_domain;
+      END IF;
+    END IF;
+  END IF;
+
+  -- Insert profile for SSO users
+  INSERT INTO public.profiles (
+    user_id,
+    full_name,
+    email,
+    signup_method,
+    is_active,
+    password_set,
+    email_verified,
+    department
+  ) VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data->>'full_name', SPLIT_PART(NEW.email, '@', 1)),
+    NEW.email,
+    signup_provider,
+    NOT is_sso OR matched_rule.id IS NOT NULL,
+    CASE WHEN signup_provider = 'manual' THEN true ELSE false END,
+    NEW.email_confirmed_at IS NOT NULL,
+    matched_rule.department
+  )
+  ON CONFLICT (user_id) DO UPDATE SET
+    email_verified = EXCLUDED.email_verified,
+    last_sign_in = now();
+
+  IF matched_rule.id IS NOT NULL THEN
+    INSERT INTO public.user_roles (user_id, role, custom_role_id)
+    VALUES (NEW.id, matched_rule.role, matched_rule.custom_role_id)
+    ON CONFLICT DO NOTHING;
+
+    provisioning := jsonb_build_object(
+      'status', 'matched',
+      'rule_id', matched_rule.id,
+      'domain', matched_rule.domain,
+      'provider', matched_rule.provider,
+      'role', matched_rule.role,
+      'custom_role_id', matched_rule.custom_role_id,
+      'department', matched_rule.department
+    );
+  ELSIF is_sso AND NEW.email_confirmed_at IS NULL THEN
+    provisioning := jsonb_build_object('status', 'awaiting_verification', 'domain', email_domain);
+  ELSIF is_sso THEN
+    -- Held: no role until an admin reviews and activates the account
+    provisioning := jsonb_build_object('status', 'held', 'domain', email_domain);
+
+    INSERT INTO public.notifications (user_id, type, title, message)
+    SELECT DISTINCT ur.user_id, 'sso_signup_held', 'Sign-up awaiting approval',
+      NEW.email || ' signed up via ' || signup_provider || ' and matched no provisioning rule'
+    FROM public.user_roles ur
+    WHERE ur.role IN ('super_admin', 'admin');
+  ELSE
+    -- Assign default employee role if no role exists
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (NEW.id, 'employee')
+    ON CONFLICT (user_id, role) DO NOTHING;
+  END IF;
+
+  -- Log signup activity for SSO
+  IF signup_provider != 'manual' THEN
+    INSERT INTO public.activity_logs (
+      user_id,
+      performed_by,
+      action_type,
+      description,
+      metadata
+    ) VALUES (
+      NEW.id,
+      NEW.id,
+      'signup',
+      'User signed up via ' || signup_provider,
+      jsonb_build_object('method', signup_provider, 'email', NEW.email)
+        || CASE WHEN provisioning IS NULL THEN '{}'::jsonb ELSE jsonb_build_object('provisioning', provisioning) END
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Places an SSO sign-up that was waiting for its address to be verified
+CREATE OR REPLACE FUNCTION public.handle_sso_email_confirmed()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  signup_provider TEXT;
+  email_domain TEXT;
+  matched_rule public.sso_provisioning_rules%ROWTYPE;
+  unmatched_action TEXT;
+  provisioning JSONB;
+BEGIN
+  SELECT signup_method INTO signup_provider FROM public.profiles WHERE user_id = NEW.id;
+
+  IF signup_provider IS NULL OR signup_provider IN ('manual', 'email', 'phone') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Already placed, by a rule or by an admin
+  IF EXISTS (SELECT 1 FROM public.user_roles WHERE user_id = NEW.id) THEN
+    RETURN NEW;
+  END IF;
+
+  email_domain := lower(split_part(NEW.email, '@', 2));
+  matched_rule := public.match_sso_provisioning_rule(email_domain, signup_provider);
+
+  IF matched_rule.id IS NOT NULL THEN
+    INSERT INTO public.user_roles (user_id, role, custom_role_id)
+    VALUES (NEW.id, matched_rule.role, matched_rule.custom_role_id)
+    ON CONFLICT DO NOTHING;
+
+    UPDATE public.profiles
+    SET is_active = true,
+        email_verified = true,
+        department = COALESCE(department, matched_rule.department)
+    WHERE user_id = NEW.id;
+
+    provisioning := jsonb_build_object(
+      'status', 'matched',
+      'rule_id', matched_rule.id,
+      'domain', matched_rule.domain,
+      'provider', matched_rule.provider,
+      'role', matched_rule.role,
+      'custom_role_id', matched_rule.custom_role_id,
+      'department', matched_rule.department
+    );
+  ELSE
+    SELECT COALESCE(value->>'unmatched', 'hold') INTO unmatched_action
+    FROM public.system_settings
+    WHERE key = 'sso_provisioning';
+
+    IF COALESCE(unmatched_action, 'hold') = 'reject' THEN
+      RAISE EXCEPTION 'Sign-up via % is not allowed for %', signup_provider, email_domain;
+    END IF;
+
+    UPDATE public.profiles SET email_verified = true WHERE user_id = NEW.id;
+
+    provisioning := jsonb_build_object('status', 'held', 'domain', email_domain);
+
+    INSERT INTO public.notifications (user_id, type, title, message)
+    SELECT DISTINCT ur.user_id, 'sso_signup_held', 'Sign-up awaiting approval',
+      NEW.email || ' signed up via ' || signup_provider || ' and matched no provisioning rule'
+    FROM public.user_roles ur
+    WHERE ur.role IN ('super_admin', 'admin');
+  END IF;
+
+  INSERT INTO public.activity_logs (user_id, performed_by, action_type, description, metadata)
+  VALUES (
+    NEW.id,
+    NEW.id,
+    'signup',
+    'Sign-up via ' || signup_provider || ' placed after email verification',
+    jsonb_build_object('method', signup_provider, 'email', NEW.email, 'provisioning', provisioning)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_email_confirmed ON auth.users;
+
+CREATE TRIGGER on_auth_user_email_confirmed
+  AFTER UPDATE OF email_confirmed_at ON auth.users
+  FOR EACH ROW
+  WHEN (OLD.email_confirmed_at IS NULL AND NEW.email_confirmed_at IS NOT NULL)
+  EXECUTE FUNCTION public.handle_sso_email_confirmed();
@@ -0,0 +1,124 @@
+-- The recovery email receives the sign-in address from Forgot Email, so it is a way into the
+-- account. It is only ever set by the recovery-email edge functions: a change needs a recent
+-- re-authentication and only takes effect once the new mailbox opens the link sent to it.
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS recovery_email_verified_at TIMESTAMP WITH TIME ZONE;
+
+CREATE OR REPLACE FUNCTION public.guard_recovery_email()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    NEW.recovery_email := OLD.recovery_email;
+    NEW.recovery_email_verified_at := OLD.recovery_email_verified_at;
+  END IF;
+
+  IF NEW.recovery_email IS DISTINCT FROM OLD.recovery_email
+     AND NEW.recovery_email_verified_at IS NOT DISTINCT FROM OLD.recovery_email_verified_at THEN
+    NEW.recovery_email_verified_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_recovery_email_changed ON public.profiles;
+
+CREATE TRIGGER on_recovery_email_changed
+  BEFORE UPDATE OF recovery_email, recovery_email_verified_at ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_recovery_email();
+
+-- Pending address waiting for its owner to open the verification link, one per user
+CREATE TABLE IF NOT EXISTS public.recovery_email_verifications (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.recovery_email_verifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own recovery email verification"
+ON public.recovery_email_verifications
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage recovery email verifications"
+ON public.recovery_email_verifications
+FOR ALL
+USING (auth.role() = 'service_role');
+
+CREATE POLICY "Suspended users have no access"
+ON public.recovery_email_verifications
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING (public.is_user_active(auth.uid()))
+WITH CHECK (public.is_user_active(auth.uid()));
+
+CREATE POLICY "No deletes while impersonating"
+ON public.recovery_email_verifications
+AS RESTRICTIVE
+FOR DELETE
+TO authenticated
+USING (NOT public.is_impersonating());
+
+CREATE POLICY "Ended impersonation has no access"
+ON public.recovery_email_verifications
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING (NOT public.impersonation_ended())
+WITH CHECK (NOT public.impersonation_ended());
+
+CREATE POLICY "Second factor required"
+ON public.recovery_email_verifications
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING (public.mfa_satisfied())
+WITH CHECK (public.mfa_satisfied());
+
+CREATE TRIGGER audit_impersonated_write
+AFTER INSERT OR UPDATE OR DELETE ON public.recovery_email_verifications
+FOR EACH ROW EXECUTE FUNCTION public.log_impersonated_write();
+
+-- An undone email change also drops a recovery email still waiting for its link to be opened
+CREATE OR REPLACE FUNCTION public.revoke_recovery_factors(_user_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _passkeys INTEGER;
+  _factors INTEGER;
+BEGIN
+  DELETE FROM public.passkeys WHERE user_id = _user_id;
+  GET DIAGNOSTICS _passkeys = ROW_COUNT;
+
+  DELETE FROM auth.mfa_factors WHERE user_id = _user_id;
+  GET DIAGNOSTICS _factors = ROW_COUNT;
+
+  DELETE FROM public.mfa_recovery_codes WHERE user_id = _user_id;
+
+  UPDATE public.profiles
+  SET recovery_email = NULL,
+      recovery_email_verified_at = NULL,
+      phone_verified_at = NULL,
+      updated_at = now()
+  WHERE user_id = _user_id;
+
+  DELETE FROM public.phone_verifications WHERE user_id = _user_id;
+  DELETE FROM public.recovery_email_verifications WHERE user_id = _user_id;
+
+  RETURN jsonb_build_object('passkeys', _passkeys, 'mfa_factors', _factors);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.revoke_recovery_factors(UUID) FROM PUBLIC, anon, authenticated;
+
+ALTER TYPE public.action_type ADD VALUE IF NOT EXISTS 'recovery_email_changed';
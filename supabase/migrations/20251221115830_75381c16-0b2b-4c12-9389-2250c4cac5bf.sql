@@ -0,0 +1,90 @@
+-- The password policy and history are checked by the edge functions that set passwords, so a
+-- signed-in user calling the auth API's update-user endpoint directly would skip them. Those
+-- functions now leave a short-lived grant right before the admin update, and any other change
+-- of a password hash is refused.
+CREATE TABLE IF NOT EXISTS public.password_change_grants (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+ALTER TABLE public.password_change_grants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage password change grants"
+ON public.password_change_grants
+FOR ALL
+USING (auth.role() = 'service_role');
+
+CREATE POLICY "Suspended users have no access"
+ON public.password_change_grants
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING (public.is_user_active(auth.uid()))
+WITH CHECK (public.is_user_active(auth.uid()));
+
+CREATE POLICY "No deletes while impersonating"
+ON public.password_change_grants
+AS RESTRICTIVE
+FOR DELETE
+TO authenticated
+USING (NOT public.is_impersonating());
+
+CREATE POLICY "Ended impersonation has no access"
+ON public.password_change_grants
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING (NOT public.impersonation_ended())
+WITH CHECK (NOT public.impersonation_ended());
+
+CREATE POLICY "Second factor required"
+ON public.password_change_grants
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING (public.mfa_satisfied())
+WITH CHECK (public.mfa_satisfied());
+
+CREATE TRIGGER audit_impersonated_write
+AFTER INSERT OR UPDATE OR DELETE ON public.password_change_grants
+FOR EACH ROW EXECUTE FUNCTION public.log_impersonated_write();
+
+-- New accounts are created with their password (an INSERT), so only updates need a grant.
+-- Each grant lets exactly one change through.
+CREATE OR REPLACE FUNCTION public.guard_password_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.encrypted_password IS NOT DISTINCT FROM OLD.encrypted_password
+     OR NEW.encrypted_password IS NULL
+     OR NEW.encrypted_password = '' THEN
+    RETURN NEW;
+  END IF;
+
+  DELETE FROM public.password_change_grants
+  WHERE user_id = NEW.id
+    AND expires_at > now();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Passwords can only be changed through the password policy'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_password_guard ON auth.users;
+
+CREATE TRIGGER on_auth_user_password_guard
+  BEFORE UPDATE OF encrypted_password ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_password_change();
+
+-- Settings hold the banned passwords, IP allowlists and SSO and enumeration configuration, so
+-- only admins read the table. Everyone else gets the few values they need from
+-- get_auth_settings, get_password_policy, session_policy_for_user and mfa_required_for_user.
+DROP POLICY IF EXISTS "Authenticated users can view system settings" ON public.system_settings;
@@ -0,0 +1,26 @@
+-- Moving a super_admin permission row to another role removes it from super_admin just as a
+-- delete does, so an update needs a recent re-authentication when either side is super_admin
+CREATE OR REPLACE FUNCTION public.guard_super_admin_permissions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _touches_super_admin BOOLEAN;
+BEGIN
+  _touches_super_admin := CASE TG_OP
+    WHEN 'INSERT' THEN NEW.role = 'super_admin'
+    WHEN 'DELETE' THEN OLD.role = 'super_admin'
+    ELSE OLD.role = 'super_admin' OR NEW.role = 'super_admin'
+  END;
+
+  IF auth.role() = 'authenticated'
+     AND _touches_super_admin
+     AND NOT public.has_recent_step_up() THEN
+    RAISE EXCEPTION 'Re-authentication required'
+      USING ERRCODE = '42501', HINT = 'step_up_required';
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
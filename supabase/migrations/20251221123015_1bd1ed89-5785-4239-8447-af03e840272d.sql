@@ -0,0 +1,79 @@
+-- consume_rate_limit only prunes the keys it is asked about, so hits on keys that never come
+-- back (one per proof of work, per IP, per email) stay forever
+CREATE OR REPLACE FUNCTION public.clean_rate_limit_events()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _count INTEGER;
+BEGIN
+  -- No window is longer than a day
+  DELETE FROM public.rate_limit_events
+  WHERE created_at < now() - interval '1 day';
+  GET DIAGNOSTICS _count = ROW_COUNT;
+  RETURN _count;
+END;
+$$;
+
+-- Challenges, codes, grants and links are only read while unexpired; rows nobody redeemed are
+-- left behind by every abandoned sign-in, step-up and verification
+CREATE OR REPLACE FUNCTION public.clean_expired_auth_state()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _count INTEGER;
+  _total INTEGER := 0;
+BEGIN
+  DELETE FROM public.webauthn_challenges WHERE expires_at < now();
+  GET DIAGNOSTICS _count = ROW_COUNT;
+  _total := _total + _count;
+
+  DELETE FROM public.step_up_codes WHERE expires_at < now();
+  GET DIAGNOSTICS _count = ROW_COUNT;
+  _total := _total + _count;
+
+  DELETE FROM public.step_up_grants WHERE expires_at < now();
+  GET DIAGNOSTICS _count = ROW_COUNT;
+  _total := _total + _count;
+
+  DELETE FROM public.sso_login_states WHERE expires_at < now();
+  GET DIAGNOSTICS _count = ROW_COUNT;
+  _total := _total + _count;
+
+  DELETE FROM public.password_change_grants WHERE expires_at < now();
+  GET DIAGNOSTICS _count = ROW_COUNT;
+  _total := _total + _count;
+
+  DELETE FROM public.recovery_email_verifications WHERE expires_at < now();
+  GET DIAGNOSTICS _count = ROW_COUNT;
+  _total := _total + _count;
+
+  DELETE FROM public.phone_verifications WHERE expires_at < now();
+  GET DIAGNOSTICS _count = ROW_COUNT;
+  _total := _total + _count;
+
+  RETURN _total;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.clean_rate_limit_events() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.clean_expired_auth_state() FROM PUBLIC, anon, authenticated;
+
+SELECT public.register_scheduled_job(
+  'clean_rate_limit_events',
+  'Deletes rate limit hits older than the longest window (a day)',
+  '45 * * * *',
+  'clean_rate_limit_events'
+);
+
+SELECT public.register_scheduled_job(
+  'clean_expired_auth_state',
+  'Deletes expired passkey challenges, step-up codes and grants, SSO states, password change grants and verification links',
+  '*/15 * * * *',
+  'clean_expired_auth_state'
+);
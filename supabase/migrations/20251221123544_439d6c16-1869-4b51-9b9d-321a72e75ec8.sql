@@ -0,0 +1,122 @@
+-- A linked identity is a way into the account that bypasses the password and second factor, so
+-- Supabase Auth may only attach one the user just re-authenticated for, and never while an admin
+-- is impersonating them. Supabase Auth writes the row from the provider callback, where there is
+-- no request JWT, so the checks look at the user's grants and sessions rather than the caller.
+CREATE OR REPLACE FUNCTION public.guard_identity_link()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- The first identity is the sign-up itself, not a link
+  IF NOT EXISTS (SELECT 1 FROM auth.identities WHERE user_id = NEW.user_id) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Supabase Auth links a provider by itself when the provider vouches for the account's own
+  -- address; only a manual link can attach an account with someone else's email
+  IF NEW.identity_data->>'email_verified' = 'true'
+     AND lower(NEW.identity_data->>'email') = (SELECT lower(email) FROM auth.users WHERE id = NEW.user_id) THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.impersonation_sessions
+    WHERE target_user_id = NEW.user_id
+      AND ended_at IS NULL
+      AND expires_at > now()
+  ) THEN
+    RAISE EXCEPTION 'Sign-in methods cannot be connected while the account is being impersonated'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.step_up_grants
+    WHERE user_id = NEW.user_id
+      AND expires_at > now()
+  ) THEN
+    RAISE EXCEPTION 'Re-authentication required'
+      USING ERRCODE = '42501', HINT = 'step_up_required';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_identity_link_guard ON auth.identities;
+
+CREATE TRIGGER on_identity_link_guard
+  BEFORE INSERT ON auth.identities
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_identity_link();
+
+-- The link audit names the re-authentication that allowed it, or that Supabase Auth linked the
+-- account's own address by itself
+CREATE OR REPLACE FUNCTION public.audit_identity_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _grant RECORD;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.sync_linked_providers(NEW.user_id);
+
+    -- The first identity is the sign-up itself, not a link
+    IF EXISTS (SELECT 1 FROM auth.identities WHERE user_id = NEW.user_id AND id <> NEW.id) THEN
+      SELECT session_id, method INTO _grant
+      FROM public.step_up_grants
+      WHERE user_id = NEW.user_id
+        AND expires_at > now()
+      ORDER BY verified_at DESC
+      LIMIT 1;
+
+      INSERT INTO public.activity_logs (user_id, performed_by, action_type, description, metadata, module, status)
+      VALUES (
+        NEW.user_id,
+        NEW.user_id,
+        'identity_linked',
+        'Linked ' || NEW.provider || ' sign-in to the account',
+        jsonb_build_object(
+          'provider', NEW.provider,
+          'identity_id', NEW.id,
+          'email', NEW.identity_data->>'email',
+          'step_up_session_id', _grant.session_id,
+          'step_up_method', _grant.method,
+          'automatic', NEW.identity_data->>'email_verified' = 'true'
+            AND lower(NEW.identity_data->>'email') = (SELECT lower(email) FROM auth.users WHERE id = NEW.user_id)
+        ),
+        'auth',
+        'success'
+      );
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  -- Identities removed together with their user are not unlinks
+  IF NOT EXISTS (SELECT 1 FROM auth.users WHERE id = OLD.user_id) THEN
+    RETURN OLD;
+  END IF;
+
+  PERFORM public.sync_linked_providers(OLD.user_id);
+
+  INSERT INTO public.activity_logs (user_id, performed_by, action_type, description, metadata, module, status)
+  VALUES (
+    OLD.user_id,
+    COALESCE(auth.uid(), OLD.user_id),
+    'identity_unlinked',
+    'Unlinked ' || OLD.provider || ' sign-in from the account',
+    jsonb_build_object('provider', OLD.provider, 'identity_id', OLD.id, 'email', OLD.identity_data->>'email'),
+    'auth',
+    'success'
+  );
+
+  RETURN OLD;
+END;
+$$;
@@ -0,0 +1,38 @@
+-- Undoing an email change has to lock out whoever made it in one go: a sign-in method they
+-- connected, the password they may have set or a session left running would each let them back
+-- in after the revert. _since is when the change was requested; identities connected after it
+-- are theirs. The password is cleared rather than replaced, so the only way back in is the
+-- password reset at the restored address.
+CREATE OR REPLACE FUNCTION public.undo_account_takeover(_user_id UUID, _since TIMESTAMP WITH TIME ZONE)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _factors JSONB;
+  _identities INTEGER;
+  _sessions INTEGER;
+BEGIN
+  _factors := public.revoke_recovery_factors(_user_id);
+
+  DELETE FROM auth.identities
+  WHERE user_id = _user_id
+    AND created_at > _since;
+  GET DIAGNOSTICS _identities = ROW_COUNT;
+
+  -- An empty hash never matches, and guard_password_change lets it through without a grant
+  UPDATE auth.users
+  SET encrypted_password = ''
+  WHERE id = _user_id;
+
+  DELETE FROM auth.refresh_tokens WHERE user_id = _user_id::text;
+
+  DELETE FROM auth.sessions WHERE user_id = _user_id;
+  GET DIAGNOSTICS _sessions = ROW_COUNT;
+
+  RETURN _factors || jsonb_build_object('identities', _identities, 'sessions', _sessions);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.undo_account_takeover(UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
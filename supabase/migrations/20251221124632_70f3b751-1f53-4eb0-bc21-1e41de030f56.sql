@@ -0,0 +1,46 @@
+-- Password expiry is enforced by the database, not only by the dialog the app opens. A session
+-- whose password is older than the policy's maximum age sees and changes nothing until the
+-- password is changed (through change-password, which uses the service role). An impersonation
+-- session is exempt, as in the app.
+CREATE OR REPLACE FUNCTION public.password_current()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT auth.uid() IS NULL
+    OR public.is_impersonating()
+    OR NOT public.password_expired(auth.uid())
+$$;
+
+GRANT EXECUTE ON FUNCTION public.password_current() TO authenticated;
+
+-- Same approach as suspension and the second factor: restrictive policies are ANDed with the
+-- permissive ones. Tables added later need the same policy.
+DO $$
+DECLARE
+  _table RECORD;
+BEGIN
+  FOR _table IN
+    SELECT tablename FROM pg_tables WHERE schemaname = 'public' AND rowsecurity
+  LOOP
+    EXECUTE format('DROP POLICY IF EXISTS "Password must not be expired" ON public.%I', _table.tablename);
+    EXECUTE format(
+      'CREATE POLICY "Password must not be expired" ON public.%I AS RESTRICTIVE FOR ALL TO authenticated '
+      'USING (public.password_current()) WITH CHECK (public.password_current())',
+      _table.tablename
+    );
+  END LOOP;
+END;
+$$;
+
+DROP POLICY IF EXISTS "Password must not be expired" ON storage.objects;
+
+CREATE POLICY "Password must not be expired"
+ON storage.objects
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING (public.password_current())
+WITH CHECK (public.password_current());